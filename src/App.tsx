@@ -1,23 +1,30 @@
 
+import { useEffect } from 'react';
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
 import { Toaster } from '@/components/ui/toaster';
 import { SidebarProvider } from '@/components/ui/sidebar';
 import { useAuth } from '@/contexts/AuthContext';
+import { useVault } from '@/contexts/VaultContext';
+import { VaultLockScreen } from '@/components/vault/VaultLockScreen';
 import { SessionTimeoutWarning } from '@/components/auth/SessionTimeoutWarning';
 import Dashboard from '@/pages/Dashboard';
 import Editor from '@/pages/Editor';
 import StoryBible from '@/pages/StoryBible';
 import Settings from '@/pages/Settings';
+import Search from '@/pages/Search';
+import Trash from '@/pages/Trash';
 import Login from '@/pages/Login';
 import Signup from '@/pages/Signup';
 import Index from '@/pages/Index';
 import NotFound from '@/pages/NotFound';
 import ErrorBoundary from '@/components/ErrorBoundary';
+import { purgeExpiredTrash } from '@/lib/trash';
 
 function ProtectedRoute({ children }: { children: React.ReactNode }) {
   const { user, loading } = useAuth();
+  const { status: vaultStatus, loading: vaultLoading } = useVault();
 
-  if (loading) {
+  if (loading || (user && vaultLoading)) {
     return (
       <div className="flex items-center justify-center min-h-screen">
         <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary"></div>
@@ -29,6 +36,11 @@ function ProtectedRoute({ children }: { children: React.ReactNode }) {
     return <Navigate to="/login" replace />;
   }
 
+  // Nothing protected can be read until the vault is unlocked
+  if (vaultStatus === 'locked') {
+    return <VaultLockScreen />;
+  }
+
   return (
     <SidebarProvider>
       {children}
@@ -55,6 +67,11 @@ function PublicRoute({ children }: { children: React.ReactNode }) {
 }
 
 export default function App() {
+  // Drop trash entries past their retention period once per app start
+  useEffect(() => {
+    purgeExpiredTrash().catch(error => console.error('Failed to purge expired trash:', error));
+  }, []);
+
   return (
     <ErrorBoundary>
       <Router>
@@ -100,6 +117,22 @@ export default function App() {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/app/search"
+            element={
+              <ProtectedRoute>
+                <Search />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/app/trash"
+            element={
+              <ProtectedRoute>
+                <Trash />
+              </ProtectedRoute>
+            }
+          />
           <Route
             path="/app/settings"
             element={
@@ -6,6 +6,9 @@ import { useToast } from '@/hooks/use-toast';
 import { EnhancedOutlineService } from '@/utils/outlineDb';
 import { EnhancedOutline, OutlinePart, OutlineChapter, OutlineScene } from '@/types/outline';
 import { optimizedOpenRouterAPI } from '@/utils/optimizedOpenRouter';
+import { exportOutlineOpml } from '@/lib/export/opml';
+import { importOpml, parseOpml } from '@/lib/import/opml';
+import { downloadBlob } from '@/utils/download';
 import OutlineHeader from './outline/OutlineHeader';
 import OutlineDragDrop from './outline/OutlineDragDrop';
 import PartComponent from './outline/PartComponent';
@@ -131,6 +134,39 @@ export default function Outline({ projectId, onSceneSelect, className }: Outline
     }
   };
 
+  const exportOpml = () => {
+    if (!outline) return;
+    const { blob, fileName } = exportOutlineOpml(outline);
+    downloadBlob(blob, fileName);
+  };
+
+  const importOpmlFile = async (file: File) => {
+    try {
+      const imported = parseOpml(await file.text(), file.name.replace(/\.[^.]+$/, ''));
+      await importOpml(projectId, imported);
+      await loadOutline();
+
+      const { scenes, titles, nested } = imported.truncation;
+      const notes = [
+        scenes && `${scenes} scene${scenes === 1 ? '' : 's'} past the ${EnhancedOutlineService.getMaxScenes()}-scene limit left out`,
+        titles && `${titles} title${titles === 1 ? '' : 's'} shortened`,
+        nested && `${nested} nested item${nested === 1 ? '' : 's'} added to scene notes`,
+      ].filter(Boolean);
+      toast({
+        title: 'Outline imported',
+        description: notes.length ? `"${imported.title}": ${notes.join('; ')}.` : `"${imported.title}" was imported in full.`,
+        variant: scenes ? 'destructive' : 'default',
+      });
+    } catch (error) {
+      console.error('Failed to import OPML:', error);
+      toast({
+        title: 'Import failed',
+        description: error instanceof Error ? error.message : 'Failed to import outline',
+        variant: 'destructive',
+      });
+    }
+  };
+
   const handleReorder = async (updatedParts: OutlinePart[]) => {
     if (!outline) return;
     
@@ -226,6 +262,8 @@ export default function Outline({ projectId, onSceneSelect, className }: Outline
         totalScenes={outline.totalScenes}
         aiLoading={aiLoading}
         onGenerateAI={generateAISuggestions}
+        onExportOpml={exportOpml}
+        onImportOpml={importOpmlFile}
       />
 
       <div className="flex-1 overflow-auto">
@@ -113,7 +113,7 @@ export const StoryBibleDrawer: React.FC<StoryBibleDrawerProps> = ({ projectId })
       setEntries(prev => prev.filter(entry => entry.id !== id));
       toast({
         title: 'Entry deleted',
-        description: 'Story bible entry has been deleted successfully.',
+        description: 'Story bible entry has been moved to the trash.',
         duration: 3000,
       });
     } catch (error) {
@@ -0,0 +1,100 @@
+// StoryBibleFieldsForm.tsx
+// Inputs for the type-specific fields of a story bible entry
+
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { StoryBibleEntry } from '@/lib/storyBibleDb';
+import { STORY_BIBLE_FIELDS, StoryBibleFields, StoryBibleFieldDefinition, formatFieldOption } from '@/lib/storyBibleFields';
+
+interface StoryBibleFieldsFormProps {
+  type: StoryBibleEntry['type'];
+  fields: StoryBibleFields;
+  onChange: (fields: StoryBibleFields) => void;
+}
+
+// Radix Select can't hold an empty value, so "not set" gets its own marker
+const UNSET = '__unset__';
+
+/**
+ * StoryBibleFieldsForm - Renders the inputs defined in STORY_BIBLE_FIELDS
+ * for the selected entry type
+ */
+export const StoryBibleFieldsForm: React.FC<StoryBibleFieldsFormProps> = ({ type, fields, onChange }) => {
+  const definitions = STORY_BIBLE_FIELDS[type];
+  if (definitions.length === 0) return null;
+
+  const setField = (key: StoryBibleFieldDefinition['key'], value: string | number | undefined) => {
+    onChange({ ...fields, [key]: value });
+  };
+
+  const renderInput = (definition: StoryBibleFieldDefinition) => {
+    const id = `field-${definition.key}`;
+    const value = fields[definition.key];
+
+    switch (definition.kind) {
+      case 'select':
+        return (
+          <Select
+            value={value === undefined ? UNSET : String(value)}
+            onValueChange={next => setField(definition.key, next === UNSET ? undefined : next)}
+          >
+            <SelectTrigger id={id}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={UNSET}>Not set</SelectItem>
+              {definition.options?.map(option => (
+                <SelectItem key={option} value={option}>{formatFieldOption(option)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case 'number':
+        return (
+          <Input
+            id={id}
+            type="number"
+            min={definition.min}
+            max={definition.max}
+            value={value ?? ''}
+            onChange={e => setField(definition.key, e.target.value === '' ? undefined : Number(e.target.value))}
+          />
+        );
+      case 'longtext':
+        return (
+          <Textarea
+            id={id}
+            value={(value as string | undefined) ?? ''}
+            onChange={e => setField(definition.key, e.target.value)}
+            maxLength={definition.maxLength}
+            className="min-h-[80px]"
+          />
+        );
+      default:
+        return (
+          <Input
+            id={id}
+            type={definition.kind === 'url' ? 'url' : 'text'}
+            value={(value as string | undefined) ?? ''}
+            onChange={e => setField(definition.key, e.target.value)}
+            maxLength={definition.maxLength}
+            placeholder={definition.kind === 'url' ? 'https://' : undefined}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      {definitions.map(definition => (
+        <div key={definition.key} className={definition.kind === 'longtext' ? 'col-span-2' : undefined}>
+          <Label htmlFor={`field-${definition.key}`}>{definition.label}</Label>
+          <div className="mt-1">{renderInput(definition)}</div>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -10,6 +10,8 @@ import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
 import { X, Plus, Trash2, Sparkles } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { StoryBibleEntry } from '@/lib/storyBibleDb';
+import { StoryBibleFields, pickStoryBibleFields, validateStoryBibleFields } from '@/lib/storyBibleFields';
+import { StoryBibleFieldsForm } from '@/components/StoryBibleFieldsForm';
 import { sanitizeHtml } from '@/utils/security';
 import { getCachedSuggestion, getAvailableGenres, getAvailableCultures } from '@/utils/suggestions';
 import ReactQuill from 'react-quill';
@@ -58,6 +60,7 @@ export const StoryBibleModal: React.FC<StoryBibleModalProps> = ({
     tags: [] as string[],
     rules: '',
     relations: [] as string[],
+    fields: {} as StoryBibleFields,
   });
   const [newTag, setNewTag] = useState('');
   const [loading, setLoading] = useState(false);
@@ -80,6 +83,7 @@ export const StoryBibleModal: React.FC<StoryBibleModalProps> = ({
         tags: entry.tags,
         rules: entry.rules.join('\n'),
         relations: entry.relations,
+        fields: entry.fields ?? {},
       });
     } else {
       setFormData({
@@ -89,6 +93,7 @@ export const StoryBibleModal: React.FC<StoryBibleModalProps> = ({
         tags: [],
         rules: '',
         relations: [],
+        fields: {},
       });
     }
     setErrors({});
@@ -112,6 +117,12 @@ export const StoryBibleModal: React.FC<StoryBibleModalProps> = ({
       newErrors.tags = 'Too many tags (maximum 50)';
     }
 
+    try {
+      validateStoryBibleFields(formData.type, pickStoryBibleFields(formData.type, formData.fields));
+    } catch (error) {
+      newErrors.fields = error instanceof Error ? error.message : 'Invalid details';
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -132,6 +143,8 @@ export const StoryBibleModal: React.FC<StoryBibleModalProps> = ({
         description: sanitizedDescription,
         name: formData.name.trim(),
         rules: formData.rules.split('\n').filter(rule => rule.trim()),
+        // Fields typed in before switching type are dropped here
+        fields: pickStoryBibleFields(formData.type, formData.fields),
         project_id: projectId,
       };
 
@@ -351,6 +364,13 @@ export const StoryBibleModal: React.FC<StoryBibleModalProps> = ({
             </div>
           </div>
 
+          <StoryBibleFieldsForm
+            type={formData.type}
+            fields={formData.fields}
+            onChange={(fields) => setFormData(prev => ({ ...prev, fields }))}
+          />
+          {errors.fields && <p className="text-red-500 text-sm -mt-4">{errors.fields}</p>}
+
           <div>
             <Label htmlFor="description">Description</Label>
             <div className="mt-1">
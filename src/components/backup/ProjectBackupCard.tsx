@@ -0,0 +1,238 @@
+// ProjectBackupCard.tsx
+// Settings card for exporting the current project to a backup archive and restoring one
+
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Download, Upload } from 'lucide-react';
+import { useProjects } from '@/contexts/ProjectContext';
+import db from '@/lib/db';
+import { useToast } from '@/hooks/use-toast';
+import { BackupService, BACKUP_EXTENSION, ProjectBackup } from '@/services/backupService';
+import { downloadBlob, toFileName } from '@/utils/download';
+
+/**
+ * ProjectBackupCard - Export and restore of full project archives
+ */
+export function ProjectBackupCard() {
+  const { currentProject, setCurrentProject, createProject } = useProjects();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [exporting, setExporting] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+  const [pendingBackup, setPendingBackup] = useState<ProjectBackup | null>(null);
+  const [restoreMode, setRestoreMode] = useState<'new' | 'overwrite'>('new');
+  const [restoreConversations, setRestoreConversations] = useState(false);
+
+  const handleExport = async () => {
+    if (!currentProject) return;
+
+    setExporting(true);
+    try {
+      const blob = await BackupService.exportProject(currentProject);
+      downloadBlob(blob, `${toFileName(currentProject.title, 'project')}${BACKUP_EXTENSION}`);
+      toast({
+        title: 'Backup created',
+        description: `"${currentProject.title}" has been exported.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Export failed',
+        description: error instanceof Error ? error.message : 'Failed to export project',
+        variant: 'destructive',
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const backup = await BackupService.readArchive(file);
+      if (!currentProject) setRestoreMode('new');
+      setRestoreConversations(false);
+      setPendingBackup(backup);
+    } catch (error) {
+      toast({
+        title: 'Invalid backup',
+        description: error instanceof Error ? error.message : 'Could not read backup file',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!pendingBackup) return;
+
+    setRestoring(true);
+    const previousProject = currentProject;
+    let createdProjectId: string | null = null;
+    try {
+      const { project } = pendingBackup;
+      let targetProjectId: string;
+
+      if (restoreMode === 'overwrite' && currentProject) {
+        targetProjectId = currentProject.id;
+      } else {
+        const created = await createProject({
+          title: project.title,
+          description: project.description || '',
+          isPublic: project.isPublic,
+          status: project.status,
+        });
+        targetProjectId = created.id;
+        createdProjectId = created.id;
+      }
+
+      const summary = await BackupService.restoreProject(pendingBackup, {
+        targetProjectId,
+        mode: restoreMode,
+        includeConversations: restoreConversations,
+      });
+
+      toast({
+        title: 'Backup restored',
+        description: `Restored ${summary.drafts} drafts, ${summary.outlines} outlines, ${summary.storyBible} story bible entries and ${summary.versions} versions.`,
+      });
+      setPendingBackup(null);
+    } catch (error) {
+      // The restore writes in one transaction, so a project made for it is
+      // still empty and only gets in the way
+      if (createdProjectId) {
+        try {
+          await db.projects.delete(createdProjectId);
+          setCurrentProject(previousProject);
+        } catch (cleanupError) {
+          console.error('Failed to remove empty project:', cleanupError);
+        }
+      }
+      toast({
+        title: 'Restore failed',
+        description: error instanceof Error ? error.message : 'Failed to restore backup',
+        variant: 'destructive',
+      });
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const counts = pendingBackup?.manifest.counts;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Backup &amp; Restore</CardTitle>
+        <CardDescription>
+          Save a project with its drafts, outlines, story bible and version history to a single file. The file also
+          holds your AI conversations, which are shared by all projects.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-wrap gap-2">
+        <Button
+          variant="outline"
+          onClick={handleExport}
+          disabled={!currentProject || exporting}
+          className="gap-2"
+        >
+          <Download className="h-4 w-4" />
+          {exporting ? 'Exporting...' : 'Export Current Project'}
+        </Button>
+        <Button
+          variant="outline"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={restoring}
+          className="gap-2"
+        >
+          <Upload className="h-4 w-4" />
+          Restore from Backup
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={`${BACKUP_EXTENSION},.zip`}
+          className="hidden"
+          onChange={handleFileSelected}
+        />
+      </CardContent>
+
+      <AlertDialog open={!!pendingBackup} onOpenChange={(open) => !open && setPendingBackup(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore "{pendingBackup?.manifest.projectTitle}"</AlertDialogTitle>
+            <AlertDialogDescription>
+              Exported {pendingBackup && new Date(pendingBackup.manifest.exportedAt).toLocaleString()} with{' '}
+              {counts?.drafts} drafts, {counts?.outlines} outlines, {counts?.storyBible} story bible entries
+              and {counts?.versions} versions.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+
+          <RadioGroup
+            value={restoreMode}
+            onValueChange={(value: 'new' | 'overwrite') => setRestoreMode(value)}
+            className="space-y-2"
+          >
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="new" id="restore-new" />
+              <Label htmlFor="restore-new">Import as a new project</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="overwrite" id="restore-overwrite" disabled={!currentProject} />
+              <Label htmlFor="restore-overwrite">
+                Overwrite {currentProject ? `"${currentProject.title}"` : 'the current project'}
+              </Label>
+            </div>
+          </RadioGroup>
+
+          {!!counts?.conversations && (
+            <div className="flex items-start space-x-2">
+              <Checkbox
+                id="restore-conversations"
+                checked={restoreConversations}
+                onCheckedChange={(checked) => setRestoreConversations(checked === true)}
+              />
+              <Label htmlFor="restore-conversations" className="font-normal leading-snug">
+                Also restore {counts.conversations} AI conversations. These come from all projects, not just this one.
+              </Label>
+            </div>
+          )}
+
+          {restoreMode === 'overwrite' && (
+            <p className="text-sm text-destructive">
+              All drafts, outlines, story bible entries and versions in the current project will be replaced.
+            </p>
+          )}
+
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={restoring}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleRestore();
+              }}
+              disabled={restoring}
+            >
+              {restoring ? 'Restoring...' : 'Restore'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
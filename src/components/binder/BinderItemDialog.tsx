@@ -0,0 +1,134 @@
+// BinderItemDialog.tsx
+// Edits the title, kind, status, point of view and synopsis of a binder item
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Draft, BinderItemKind } from '@/lib/db';
+import { BINDER_KIND_LABELS, REVISION_STATUS_LABELS, BinderItemUpdates, RevisionStatus } from '@/lib/binder';
+
+interface BinderItemDialogProps {
+  item: Draft | null;
+  onClose: () => void;
+  // Resolves to false if the save failed and the dialog should stay open
+  onSave: (id: string, updates: BinderItemUpdates) => Promise<boolean>;
+}
+
+/**
+ * BinderItemDialog - Form for the binder details of a chapter or scene. The
+ * content itself is edited in the editor.
+ */
+export function BinderItemDialog({ item, onClose, onSave }: BinderItemDialogProps) {
+  const [title, setTitle] = useState('');
+  const [kind, setKind] = useState<BinderItemKind>('chapter');
+  const [revisionStatus, setRevisionStatus] = useState<RevisionStatus>('draft');
+  const [pov, setPov] = useState('');
+  const [synopsis, setSynopsis] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!item) return;
+    setTitle(item.title);
+    setKind(item.kind ?? 'chapter');
+    setRevisionStatus(item.revisionStatus ?? 'draft');
+    setPov(item.pov ?? '');
+    setSynopsis(item.synopsis ?? '');
+  }, [item]);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!item || !title.trim()) return;
+
+    setSaving(true);
+    try {
+      if (await onSave(item.id, { title, kind, revisionStatus, pov, synopsis })) {
+        onClose();
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={item !== null} onOpenChange={open => !open && !saving && onClose()}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Edit {BINDER_KIND_LABELS[kind]}</DialogTitle>
+            <DialogDescription>Binder details are kept with the draft and shown in the manuscript view.</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="binder-title">Title</Label>
+            <Input id="binder-title" value={title} onChange={e => setTitle(e.target.value)} maxLength={200} />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="binder-kind">Kind</Label>
+              <Select value={kind} onValueChange={value => setKind(value as BinderItemKind)}>
+                <SelectTrigger id="binder-kind">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(BINDER_KIND_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="binder-status">Status</Label>
+              <Select value={revisionStatus} onValueChange={value => setRevisionStatus(value as RevisionStatus)}>
+                <SelectTrigger id="binder-status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(REVISION_STATUS_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="binder-pov">Point of view</Label>
+            <Input id="binder-pov" value={pov} onChange={e => setPov(e.target.value)} maxLength={200} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="binder-synopsis">Synopsis</Label>
+            <Textarea
+              id="binder-synopsis"
+              value={synopsis}
+              onChange={e => setSynopsis(e.target.value)}
+              maxLength={2000}
+              className="min-h-[100px]"
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose} disabled={saving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving || !title.trim()}>
+              {saving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
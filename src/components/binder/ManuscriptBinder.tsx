@@ -0,0 +1,299 @@
+// ManuscriptBinder.tsx
+// Ordered, nestable view of a project's chapters and scenes
+
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ToastAction } from '@/components/ui/toast';
+import {
+  BookOpen,
+  ChevronDown,
+  ChevronRight,
+  ChevronUp,
+  Edit3,
+  FileText,
+  IndentDecrease,
+  IndentIncrease,
+  Plus,
+  Trash2,
+} from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useLiveQuery } from '@/hooks/useLiveQuery';
+import { useProjects } from '@/contexts/ProjectContext';
+import { Draft, BinderItemKind } from '@/lib/db';
+import {
+  BinderNode,
+  BinderItemUpdates,
+  BINDER_KIND_LABELS,
+  REVISION_STATUS_LABELS,
+  RevisionStatus,
+  getBinder,
+  getManuscriptWordCount,
+  createBinderItem,
+  updateBinderItem,
+  moveBinderItem,
+} from '@/lib/binder';
+import { restoreTrashEntry } from '@/lib/trash';
+import { DraftService } from '@/services/draftService';
+import { BinderItemDialog } from './BinderItemDialog';
+
+// Where a node sits, so it can be moved relative to its siblings and parent
+interface NodePlacement {
+  parentId?: string;
+  siblings: BinderNode[];
+  index: number;
+  parent?: NodePlacement;
+}
+
+const statusColors: Record<RevisionStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  revised: 'bg-blue-100 text-blue-800',
+  final: 'bg-green-100 text-green-800',
+};
+
+/**
+ * ManuscriptBinder - Lists the current project's drafts as chapters and
+ * scenes in manuscript order, with per-item status, synopsis and word counts
+ */
+export function ManuscriptBinder() {
+  const { currentProject } = useProjects();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [editing, setEditing] = useState<Draft | null>(null);
+
+  const projectId = currentProject?.id;
+  const { data: nodes, loading } = useLiveQuery<BinderNode[]>(
+    () => (projectId ? getBinder(projectId) : Promise.resolve([])),
+    [projectId],
+    []
+  );
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: 'Error',
+      description: error instanceof Error ? error.message : fallback,
+      variant: 'destructive',
+      duration: 2000,
+    });
+  };
+
+  // The draft manager keeps its own cache of drafts
+  const afterChange = () => DraftService.clearCache();
+
+  const handleAdd = async (kind: BinderItemKind, parent?: BinderNode) => {
+    if (!projectId) return;
+    const count = (parent ? parent.children : nodes).filter(node => (node.draft.kind ?? 'chapter') === kind).length;
+    try {
+      await createBinderItem(projectId, {
+        title: `${BINDER_KIND_LABELS[kind]} ${count + 1}`,
+        kind,
+        parentId: parent?.draft.id,
+      });
+      if (parent) {
+        setCollapsed(prev => {
+          const next = new Set(prev);
+          next.delete(parent.draft.id);
+          return next;
+        });
+      }
+      afterChange();
+    } catch (error) {
+      showError(error, 'Failed to create item');
+    }
+  };
+
+  const handleMove = async (node: BinderNode, parentId: string | undefined, index: number) => {
+    try {
+      await moveBinderItem(node.draft.id, parentId, index);
+    } catch (error) {
+      showError(error, 'Failed to move item');
+    }
+  };
+
+  const handleSave = async (id: string, updates: BinderItemUpdates) => {
+    try {
+      await updateBinderItem(id, updates);
+      afterChange();
+      return true;
+    } catch (error) {
+      showError(error, 'Failed to update item');
+      return false;
+    }
+  };
+
+  const handleDelete = async (node: BinderNode) => {
+    try {
+      const trashId = await DraftService.deleteDraft(node.draft.id);
+      toast({
+        title: `"${node.draft.title}" deleted`,
+        description: node.children.length > 0 ? 'Moved to trash with everything inside it.' : 'Moved to trash.',
+        duration: 8000,
+        action: (
+          <ToastAction
+            altText="Undo delete"
+            onClick={() => restoreTrashEntry(trashId).then(afterChange, error => showError(error, 'Failed to restore item'))}
+          >
+            Undo
+          </ToastAction>
+        ),
+      });
+    } catch (error) {
+      showError(error, 'Failed to delete item');
+    }
+  };
+
+  const toggle = (id: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const renderNode = (node: BinderNode, placement: NodePlacement, depth: number) => {
+    const { draft, children } = node;
+    const { parentId, siblings, index, parent } = placement;
+    const isOpen = !collapsed.has(draft.id);
+    const previous = siblings[index - 1];
+    const status = draft.revisionStatus ?? 'draft';
+    const Icon = draft.kind === 'scene' ? FileText : BookOpen;
+
+    return (
+      <li key={draft.id}>
+        <div
+          className="group flex items-start gap-2 rounded-md border p-2 hover:bg-muted/50"
+          style={{ marginLeft: depth * 24 }}
+        >
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 shrink-0"
+            onClick={() => toggle(draft.id)}
+            disabled={children.length === 0}
+            aria-label={isOpen ? 'Collapse' : 'Expand'}
+          >
+            {children.length > 0 && (isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />)}
+          </Button>
+          <Icon className="h-4 w-4 mt-1 shrink-0 text-muted-foreground" />
+
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center gap-2">
+              <button
+                className="font-medium truncate text-left hover:underline"
+                onClick={() => navigate(`/app/editor/${draft.projectId}?draft=${draft.id}`)}
+              >
+                {draft.title}
+              </button>
+              <Badge className={statusColors[status]}>{REVISION_STATUS_LABELS[status]}</Badge>
+              {draft.pov && <Badge variant="outline">POV: {draft.pov}</Badge>}
+            </div>
+            {draft.synopsis && (
+              <p className="text-sm text-muted-foreground line-clamp-2">{draft.synopsis}</p>
+            )}
+          </div>
+
+          <span className="text-sm text-muted-foreground whitespace-nowrap mt-0.5">
+            {node.wordCount.toLocaleString()} words
+          </span>
+
+          <div className="flex items-center opacity-0 group-hover:opacity-100 focus-within:opacity-100">
+            <Button variant="ghost" size="icon" className="h-7 w-7" aria-label="Move up"
+              disabled={index === 0} onClick={() => handleMove(node, parentId, index - 1)}>
+              <ChevronUp className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="icon" className="h-7 w-7" aria-label="Move down"
+              disabled={index === siblings.length - 1} onClick={() => handleMove(node, parentId, index + 1)}>
+              <ChevronDown className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="icon" className="h-7 w-7" aria-label="Move into previous item"
+              disabled={!previous} onClick={() => previous && handleMove(node, previous.draft.id, previous.children.length)}>
+              <IndentIncrease className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="icon" className="h-7 w-7" aria-label="Move out of parent"
+              disabled={!parent} onClick={() => parent && handleMove(node, parent.parentId, parent.index + 1)}>
+              <IndentDecrease className="h-4 w-4" />
+            </Button>
+            {draft.kind !== 'scene' && (
+              <Button variant="ghost" size="icon" className="h-7 w-7" aria-label="Add scene"
+                onClick={() => handleAdd('scene', node)}>
+                <Plus className="h-4 w-4" />
+              </Button>
+            )}
+            <Button variant="ghost" size="icon" className="h-7 w-7" aria-label="Edit details"
+              onClick={() => setEditing(draft)}>
+              <Edit3 className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="icon" className="h-7 w-7 text-destructive" aria-label="Delete"
+              onClick={() => handleDelete(node)}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        {isOpen && children.length > 0 && (
+          <ul className="mt-1 space-y-1">
+            {children.map((child, childIndex) =>
+              renderNode(child, { parentId: draft.id, siblings: children, index: childIndex, parent: placement }, depth + 1)
+            )}
+          </ul>
+        )}
+      </li>
+    );
+  };
+
+  if (!currentProject) {
+    return (
+      <div className="text-center py-12">
+        <BookOpen className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+        <h3 className="text-lg font-semibold mb-2">No Project Selected</h3>
+        <p className="text-muted-foreground">
+          Please select a project to see its manuscript.
+        </p>
+      </div>
+    );
+  }
+
+  const chapterCount = nodes.filter(node => node.draft.kind !== 'scene').length;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row gap-4 items-start sm:items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold">Manuscript</h2>
+          <p className="text-muted-foreground">
+            {chapterCount} chapters • {getManuscriptWordCount(nodes).toLocaleString()} words in {currentProject.title}
+          </p>
+        </div>
+        <Button size="sm" onClick={() => handleAdd('chapter')}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Chapter
+        </Button>
+      </div>
+
+      <Card className="p-4">
+        {loading ? (
+          <div className="animate-pulse space-y-2">
+            <div className="h-4 bg-muted rounded w-3/4"></div>
+            <div className="h-4 bg-muted rounded w-1/2"></div>
+          </div>
+        ) : nodes.length === 0 ? (
+          <div className="text-center py-6">
+            <BookOpen className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <h3 className="font-semibold mb-2">No chapters yet</h3>
+            <p className="text-sm text-muted-foreground">Add a chapter to start building your manuscript</p>
+          </div>
+        ) : (
+          <ul className="space-y-1">
+            {nodes.map((node, index) => renderNode(node, { siblings: nodes, index }, 0))}
+          </ul>
+        )}
+      </Card>
+
+      <BinderItemDialog item={editing} onClose={() => setEditing(null)} onSave={handleSave} />
+    </div>
+  );
+}
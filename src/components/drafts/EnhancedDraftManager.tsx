@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -19,14 +19,38 @@ import {
   Eye,
   Edit3,
   Save,
-  X
+  X,
+  BookOpen,
+  FileDown,
+  FileUp,
+  FolderInput,
+  Settings2
 } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
+import { ToastAction } from '@/components/ui/toast';
+import { restoreTrashEntry } from '@/lib/trash';
+import { withNestedItems } from '@/lib/binder';
 import { formatDate } from '@/utils/dateUtils';
 import { DraftService, EnhancedDraft, DraftFolder } from '@/services/draftService';
 import { useProjects } from '@/contexts/ProjectContext';
 import { useNavigate } from 'react-router-dom';
+import { CompileDialog } from '@/components/export/CompileDialog';
+import { EpubExportDialog } from '@/components/export/EpubExportDialog';
+import { ManuscriptExportDialog } from '@/components/export/ManuscriptExportDialog';
+import { MarkdownOptions, exportDraftMarkdown, exportProjectMarkdown } from '@/lib/export/markdown';
+import { MARKDOWN_FILE_TYPES, importMarkdownFiles } from '@/lib/import/markdown';
+import { DocxImportDialog } from '@/components/import/DocxImportDialog';
+import { ScrivenerImportDialog } from '@/components/import/ScrivenerImportDialog';
+import { downloadBlob } from '@/utils/download';
 
 interface EnhancedDraftManagerProps {
   onDraftChange?: () => void;
@@ -47,6 +71,13 @@ export function EnhancedDraftManager({ onDraftChange }: EnhancedDraftManagerProp
   const [selectedDrafts, setSelectedDrafts] = useState<string[]>([]);
   const [editingTitle, setEditingTitle] = useState<string | null>(null);
   const [editingTitleValue, setEditingTitleValue] = useState('');
+  const [epubOpen, setEpubOpen] = useState(false);
+  const [manuscriptOpen, setManuscriptOpen] = useState(false);
+  const [compileOpen, setCompileOpen] = useState(false);
+  const [keepHighlights, setKeepHighlights] = useState(true);
+  const [docxImportOpen, setDocxImportOpen] = useState(false);
+  const [scrivenerImportOpen, setScrivenerImportOpen] = useState(false);
+  const markdownInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
 
   useEffect(() => {
@@ -202,26 +233,68 @@ export function EnhancedDraftManager({ onDraftChange }: EnhancedDraftManagerProp
     notifyChange();
   };
 
-  const deleteDraft = async (draftId: string) => {
+  const undoDelete = async (trashIds: string[]) => {
     try {
-      await DraftService.deleteDraft(draftId);
-      setDrafts(prev => prev.filter(draft => draft.id !== draftId));
+      for (const trashId of trashIds) {
+        await restoreTrashEntry(trashId);
+      }
+      await loadDrafts();
       notifyChange();
+    } catch (error) {
       toast({
-        title: 'Draft deleted',
-        description: 'The draft has been moved to trash.',
-        duration: 1200,
+        title: 'Error',
+        description: 'Failed to restore drafts. They are still available in the trash.',
+        variant: 'destructive',
+        duration: 2000,
       });
-    } catch (error) {
+    }
+  };
+
+  const deleteDrafts = async (draftIds: string[]) => {
+    const deletedIds: string[] = [];
+    const trashIds: string[] = [];
+    let failed = 0;
+
+    for (const draftId of draftIds) {
+      // Already in the trash with a selected parent
+      if (withNestedItems(drafts, deletedIds).has(draftId)) continue;
+      try {
+        trashIds.push(await DraftService.deleteDraft(draftId));
+        deletedIds.push(draftId);
+      } catch (error) {
+        failed++;
+      }
+    }
+
+    if (failed > 0) {
       toast({
         title: 'Error',
-        description: 'Failed to delete draft. Please try again.',
+        description: failed === 1 ? 'Failed to delete draft. Please try again.' : `Failed to delete ${failed} drafts. Please try again.`,
         variant: 'destructive',
         duration: 2000,
       });
     }
+
+    if (deletedIds.length === 0) return;
+
+    const removedIds = withNestedItems(drafts, deletedIds);
+    setDrafts(prev => prev.filter(draft => !removedIds.has(draft.id)));
+    notifyChange();
+    // Long enough to reach the undo button after a misclick
+    toast({
+      title: deletedIds.length === 1 ? 'Draft deleted' : `${deletedIds.length} drafts deleted`,
+      description: 'Moved to trash.',
+      duration: 8000,
+      action: (
+        <ToastAction altText="Undo delete" onClick={() => undoDelete(trashIds)}>
+          Undo
+        </ToastAction>
+      ),
+    });
   };
 
+  const deleteDraft = (draftId: string) => deleteDrafts([draftId]);
+
   const duplicateDraft = async (draftId: string) => {
     if (!currentProject) return;
     
@@ -287,11 +360,61 @@ export function EnhancedDraftManager({ onDraftChange }: EnhancedDraftManagerProp
     }
   };
 
+  const markdownOptions = (): MarkdownOptions => ({ highlights: keepHighlights ? 'link' : 'drop' });
+
+  const downloadMarkdown = async (draftId?: string) => {
+    if (!currentProject) return;
+
+    try {
+      const { blob, fileName } = draftId
+        ? await exportDraftMarkdown(draftId, markdownOptions())
+        : await exportProjectMarkdown(currentProject.id, markdownOptions());
+      downloadBlob(blob, fileName);
+    } catch (error) {
+      toast({
+        title: 'Export failed',
+        description: error instanceof Error ? error.message : 'Failed to export Markdown',
+        variant: 'destructive',
+        duration: 2000,
+      });
+    }
+  };
+
+  const handleImported = async () => {
+    DraftService.clearCache();
+    await loadDrafts();
+    notifyChange();
+  };
+
+  const handleMarkdownSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (!currentProject || files.length === 0) return;
+
+    try {
+      const ids = await importMarkdownFiles(currentProject.id, files);
+      await handleImported();
+      toast({
+        title: 'Markdown imported',
+        description: `${ids.length} draft${ids.length === 1 ? '' : 's'} added to the end of the manuscript.`,
+        duration: 1200,
+      });
+    } catch (error) {
+      toast({
+        title: 'Import failed',
+        description: error instanceof Error ? error.message : 'Failed to import Markdown',
+        variant: 'destructive',
+        duration: 2000,
+      });
+    }
+  };
+
   const bulkAction = (action: 'delete' | 'archive' | 'favorite') => {
     switch (action) {
       case 'delete':
-        selectedDrafts.forEach(draftId => deleteDraft(draftId));
-        break;
+        deleteDrafts(selectedDrafts);
+        setSelectedDrafts([]);
+        return;
       case 'archive':
         setDrafts(prev => prev.map(draft => 
           selectedDrafts.includes(draft.id) ? { ...draft, status: 'archived' as const } : draft
@@ -361,6 +484,70 @@ export function EnhancedDraftManager({ onDraftChange }: EnhancedDraftManagerProp
           </p>
         </div>
         <div className="flex gap-2">
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button size="sm" variant="outline">
+                <FileDown className="h-4 w-4 mr-2" />
+                Export
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => setEpubOpen(true)}>
+                <BookOpen className="h-4 w-4 mr-2" />
+                EPUB for e-readers
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => setManuscriptOpen(true)}>
+                <FileText className="h-4 w-4 mr-2" />
+                Manuscript (DOCX)
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => downloadMarkdown()}>
+                <FileDown className="h-4 w-4 mr-2" />
+                Markdown folder (.zip)
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => setCompileOpen(true)}>
+                <Settings2 className="h-4 w-4 mr-2" />
+                Compile...
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuCheckboxItem
+                checked={keepHighlights}
+                onCheckedChange={checked => setKeepHighlights(checked === true)}
+                onSelect={event => event.preventDefault()}
+              >
+                Keep story bible links in Markdown
+              </DropdownMenuCheckboxItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button size="sm" variant="outline">
+                <FileUp className="h-4 w-4 mr-2" />
+                Import
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => setDocxImportOpen(true)}>
+                <FileText className="h-4 w-4 mr-2" />
+                Word document (.docx)
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => markdownInputRef.current?.click()}>
+                <FileUp className="h-4 w-4 mr-2" />
+                Markdown files
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => setScrivenerImportOpen(true)}>
+                <FolderInput className="h-4 w-4 mr-2" />
+                Scrivener project (.zip)
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <input
+            ref={markdownInputRef}
+            type="file"
+            accept={MARKDOWN_FILE_TYPES.join(',')}
+            multiple
+            className="hidden"
+            onChange={handleMarkdownSelected}
+          />
           <Button size="sm">
             <FolderPlus className="h-4 w-4 mr-2" />
             New Folder
@@ -556,7 +743,13 @@ export function EnhancedDraftManager({ onDraftChange }: EnhancedDraftManagerProp
                 <Button variant="ghost" size="sm" className="p-1" onClick={() => duplicateDraft(draft.id)}>
                   <Copy className="h-4 w-4" />
                 </Button>
-                <Button variant="ghost" size="sm" className="p-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="p-1"
+                  title="Download as Markdown"
+                  onClick={() => downloadMarkdown(draft.id)}
+                >
                   <Download className="h-4 w-4" />
                 </Button>
               </div>
@@ -586,6 +779,12 @@ export function EnhancedDraftManager({ onDraftChange }: EnhancedDraftManagerProp
           </Button>
         </div>
       )}
+
+      <EpubExportDialog open={epubOpen} onOpenChange={setEpubOpen} />
+      <CompileDialog open={compileOpen} onOpenChange={setCompileOpen} />
+      <ManuscriptExportDialog open={manuscriptOpen} onOpenChange={setManuscriptOpen} />
+      <DocxImportDialog open={docxImportOpen} onOpenChange={setDocxImportOpen} onImported={handleImported} />
+      <ScrivenerImportDialog open={scrivenerImportOpen} onOpenChange={setScrivenerImportOpen} onImported={handleImported} />
     </div>
   );
 }
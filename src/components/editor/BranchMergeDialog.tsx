@@ -0,0 +1,130 @@
+// BranchMergeDialog.tsx
+// Picks which paragraph changes of one branch to bring into another
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { getBranchDiff, mergeParagraphs, VersionBranch } from '@/lib/versioning';
+import { DocumentDiff, getChangedParagraphs } from '@/lib/versioning/htmlDiff';
+import { useToast } from '@/hooks/use-toast';
+import { ParagraphPicker } from './ParagraphPicker';
+
+interface BranchMergeDialogProps {
+  draftId: string;
+  // Branch the changes come from; the dialog is closed when null
+  from: VersionBranch | null;
+  into: VersionBranch;
+  onClose: () => void;
+  onMerged: (content: string) => void;
+}
+
+/**
+ * BranchMergeDialog - Lists the paragraphs that differ between two branches
+ * so chosen ones can be merged, leaving the rest as they are
+ */
+export function BranchMergeDialog({ draftId, from, into, onClose, onMerged }: BranchMergeDialogProps) {
+  const { toast } = useToast();
+  const [diff, setDiff] = useState<DocumentDiff | null>(null);
+  const [accepted, setAccepted] = useState<Set<number>>(new Set());
+  const [merging, setMerging] = useState(false);
+
+  useEffect(() => {
+    if (!from) return;
+    let cancelled = false;
+    setDiff(null);
+    setAccepted(new Set());
+    getBranchDiff(draftId, from.id, into.id)
+      .then(result => {
+        if (!cancelled) setDiff(result);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        toast({
+          title: 'Error',
+          description: error instanceof Error ? error.message : 'Failed to compare branches',
+          variant: 'destructive',
+          duration: 2000,
+        });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [draftId, from, into.id, toast]);
+
+  const changed = getChangedParagraphs(diff);
+
+  const handleMerge = async () => {
+    if (!from) return;
+    setMerging(true);
+    try {
+      const content = await mergeParagraphs(draftId, from.id, [...accepted], into.id);
+      toast({
+        title: 'Changes merged',
+        description: `${accepted.size} paragraph${accepted.size === 1 ? '' : 's'} merged into ${into.name}.`,
+        duration: 2000,
+      });
+      onMerged(content);
+      onClose();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to merge changes',
+        variant: 'destructive',
+        duration: 2000,
+      });
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!from} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Merge {from?.name} into {into.name}</DialogTitle>
+          <DialogDescription>
+            Choose the paragraphs to take from {from?.name}. Everything else stays as it is in {into.name}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="h-[400px] rounded-md border p-4">
+          {!diff ? (
+            <p className="text-sm text-muted-foreground">Comparing branches…</p>
+          ) : (
+            <ParagraphPicker
+              diff={diff}
+              accepted={accepted}
+              onAcceptedChange={setAccepted}
+              emptyMessage="The branches have the same content"
+              idPrefix="merge"
+            />
+          )}
+        </ScrollArea>
+
+        <DialogFooter>
+          <Button
+            variant="ghost"
+            disabled={changed.length === 0}
+            onClick={() => setAccepted(accepted.size === changed.length ? new Set() : new Set(changed))}
+          >
+            {accepted.size === changed.length && changed.length > 0 ? 'Select none' : 'Select all'}
+          </Button>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button disabled={merging || accepted.size === 0} onClick={handleMerge}>
+            {merging ? 'Merging...' : `Merge ${accepted.size} change${accepted.size === 1 ? '' : 's'}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,262 @@
+// CommentsPanel.tsx
+// Margin list of the comment threads on the open draft
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Check, ListTodo, MessageSquare, RotateCcw, Trash2, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+import { CommentStatus, DraftComment } from '@/lib/comments';
+import { formatRelativeTime } from '@/utils/dateUtils';
+import { PendingComment } from './hooks/useEditorComments';
+
+interface CommentsPanelProps {
+  comments: DraftComment[];
+  // Threads whose mark is in the text; the rest lost their text
+  markedIds: Set<string>;
+  todoCount: number;
+  pending: PendingComment | null;
+  onAdd: (body: string) => Promise<void>;
+  onCancelPending: () => void;
+  onReply: (id: string, body: string) => Promise<void>;
+  onSetStatus: (id: string, status: CommentStatus) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+  onSelect: (id: string) => void;
+  onConvertTodos: () => Promise<number>;
+  onClose: () => void;
+}
+
+const excerpt = (text: string) => (text.length > 80 ? `${text.slice(0, 77).trimEnd()}...` : text);
+
+interface ComposerProps {
+  placeholder: string;
+  submitLabel: string;
+  // Resolves true once saved, which clears the box
+  onSubmit: (body: string) => Promise<boolean>;
+  onCancel?: () => void;
+}
+
+/**
+ * CommentComposer - Text box for a new comment or a reply
+ */
+function CommentComposer({ placeholder, submitLabel, onSubmit, onCancel }: ComposerProps) {
+  const [body, setBody] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const submit = async () => {
+    setSaving(true);
+    try {
+      if (await onSubmit(body)) setBody('');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        value={body}
+        onChange={e => setBody(e.target.value)}
+        onKeyDown={e => {
+          if (e.key === 'Enter' && (e.metaKey || e.ctrlKey) && body.trim()) submit();
+        }}
+        placeholder={placeholder}
+        rows={2}
+        maxLength={5000}
+      />
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button variant="ghost" size="sm" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+        <Button size="sm" onClick={submit} disabled={saving || !body.trim()}>
+          {submitLabel}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * CommentsPanel - Lists open or resolved threads with their replies, and
+ * starts new threads on the editor's selection
+ */
+export function CommentsPanel({
+  comments,
+  markedIds,
+  todoCount,
+  pending,
+  onAdd,
+  onCancelPending,
+  onReply,
+  onSetStatus,
+  onDelete,
+  onSelect,
+  onConvertTodos,
+  onClose,
+}: CommentsPanelProps) {
+  const { toast } = useToast();
+  const [filter, setFilter] = useState<CommentStatus>('open');
+  const [activeId, setActiveId] = useState<string | null>(null);
+
+  const showError = (error: unknown, failure: string) => toast({
+    title: failure,
+    description: error instanceof Error ? error.message : failure,
+    variant: 'destructive',
+  });
+
+  const run = async (action: () => Promise<void>, failure: string): Promise<boolean> => {
+    try {
+      await action();
+      return true;
+    } catch (error) {
+      showError(error, failure);
+      return false;
+    }
+  };
+
+  const convertTodos = async () => {
+    try {
+      const count = await onConvertTodos();
+      toast({ title: 'Notes converted', description: `${count} [[TODO]] note${count === 1 ? '' : 's'} became comments.` });
+      setFilter('open');
+    } catch (error) {
+      showError(error, 'Failed to convert notes');
+    }
+  };
+
+  const visible = comments.filter(comment => comment.status === filter);
+  const openCount = comments.filter(comment => comment.status === 'open').length;
+
+  return (
+    <aside className="w-80 shrink-0 border-l border-gray-100 dark:border-gray-800 bg-gray-50/50 dark:bg-gray-900 flex flex-col" aria-label="Comments">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100 dark:border-gray-800">
+        <h2 className="text-sm font-semibold flex items-center gap-2">
+          <MessageSquare className="h-4 w-4" />
+          Comments
+        </h2>
+        <Button variant="ghost" size="sm" className="h-7 w-7 p-0" aria-label="Close comments" onClick={onClose}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="px-4 py-2 space-y-2">
+        <Tabs value={filter} onValueChange={value => setFilter(value as CommentStatus)}>
+          <TabsList className="w-full">
+            <TabsTrigger value="open" className="flex-1">Open ({openCount})</TabsTrigger>
+            <TabsTrigger value="resolved" className="flex-1">Resolved ({comments.length - openCount})</TabsTrigger>
+          </TabsList>
+        </Tabs>
+        {todoCount > 0 && (
+          <Button variant="outline" size="sm" className="w-full gap-2" onClick={convertTodos}>
+            <ListTodo className="h-4 w-4" />
+            Convert {todoCount} [[TODO]] note{todoCount === 1 ? '' : 's'}
+          </Button>
+        )}
+      </div>
+
+      <ScrollArea className="flex-1 px-4 pb-4">
+        {pending && (
+          <div className="mb-3 rounded-md border bg-white dark:bg-gray-800 p-3 space-y-2">
+            <blockquote className="border-l-2 border-yellow-400 pl-2 text-xs text-muted-foreground italic">
+              {excerpt(pending.quote)}
+            </blockquote>
+            <CommentComposer
+              placeholder="Add a comment..."
+              submitLabel="Comment"
+              onSubmit={body => run(() => onAdd(body), 'Failed to add comment')}
+              onCancel={onCancelPending}
+            />
+          </div>
+        )}
+
+        {visible.length === 0 && !pending ? (
+          <p className="text-sm text-muted-foreground py-6 text-center">
+            {filter === 'open'
+              ? 'No open comments. Select some text and choose the comment button to start one.'
+              : 'No resolved comments.'}
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {visible.map(comment => {
+              const detached = !markedIds.has(comment.id);
+              const active = activeId === comment.id;
+              return (
+                <li
+                  key={comment.id}
+                  className={cn(
+                    'rounded-md border bg-white dark:bg-gray-800 p-3 space-y-2 cursor-pointer',
+                    active && 'ring-2 ring-yellow-400'
+                  )}
+                  onClick={() => {
+                    setActiveId(comment.id);
+                    onSelect(comment.id);
+                  }}
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <blockquote className="border-l-2 border-yellow-400 pl-2 text-xs text-muted-foreground italic">
+                      {excerpt(comment.anchor.quote)}
+                    </blockquote>
+                    {detached && (
+                      <Badge variant="outline" className="shrink-0 text-[10px]" title="The commented text is no longer in the draft">
+                        Text removed
+                      </Badge>
+                    )}
+                  </div>
+
+                  {comment.messages.map(message => (
+                    <div key={message.id} className="text-sm">
+                      <div className="flex items-baseline justify-between gap-2">
+                        <span className="font-medium">{message.author}</span>
+                        <span className="text-xs text-muted-foreground">{formatRelativeTime(message.createdAt)}</span>
+                      </div>
+                      <p className="whitespace-pre-wrap break-words">{message.body}</p>
+                    </div>
+                  ))}
+
+                  {active && (
+                    <div onClick={e => e.stopPropagation()} className="space-y-2">
+                      <CommentComposer
+                        placeholder="Reply..."
+                        submitLabel="Reply"
+                        onSubmit={body => run(() => onReply(comment.id, body), 'Failed to add reply')}
+                      />
+                      <div className="flex justify-between">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="gap-1"
+                          onClick={() => run(
+                            () => onSetStatus(comment.id, comment.status === 'open' ? 'resolved' : 'open'),
+                            'Failed to update comment'
+                          )}
+                        >
+                          {comment.status === 'open' ? <Check className="h-3 w-3" /> : <RotateCcw className="h-3 w-3" />}
+                          {comment.status === 'open' ? 'Resolve' : 'Reopen'}
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="gap-1 text-destructive"
+                          onClick={() => run(() => onDelete(comment.id), 'Failed to delete comment')}
+                        >
+                          <Trash2 className="h-3 w-3" />
+                          Delete
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </ScrollArea>
+    </aside>
+  );
+}
@@ -7,6 +7,7 @@ import OutlinePopup from './OutlinePopup';
 import { WritingViewOptions } from './WritingViewOptions';
 import { MobileNav } from '../layout/MobileNav';
 import { SidebarTrigger } from '@/components/ui/sidebar';
+import { ProjectSearchDialog } from '../search/ProjectSearchDialog';
 import { useIsMobile } from '@/hooks/use-mobile';
 
 interface EditorHeaderProps {
@@ -25,6 +26,10 @@ interface EditorHeaderProps {
   isFocusMode?: boolean;
   onToggleFocus?: () => void;
   showNavigation?: boolean;
+  // Version history control for the current draft
+  versionHistory?: React.ReactNode;
+  // Find and replace control for the project
+  findReplace?: React.ReactNode;
 }
 
 export const EditorHeader = ({
@@ -42,7 +47,9 @@ export const EditorHeader = ({
   onPageHeightChange = () => {},
   isFocusMode = false,
   onToggleFocus = () => {},
-  showNavigation = true
+  showNavigation = true,
+  versionHistory,
+  findReplace
 }: EditorHeaderProps) => {
   const { currentProject } = useProjects();
   const isMobile = useIsMobile();
@@ -78,6 +85,8 @@ export const EditorHeader = ({
         {/* Center: Quick Actions - Hidden on mobile */}
         <div className="hidden lg:flex items-center gap-2">
           {currentProject && <StoryBibleDrawer projectId={currentProject.id} />}
+          {currentProject && <ProjectSearchDialog projectId={currentProject.id} />}
+          {findReplace}
           <OutlinePopup />
           <Button
             variant="ghost"
@@ -127,6 +136,8 @@ export const EditorHeader = ({
             </>
           )}
 
+          {versionHistory}
+
           {/* Focus Mode Toggle */}
           <Button
             variant="ghost"
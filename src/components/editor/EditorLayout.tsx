@@ -1,7 +1,7 @@
 // EditorLayout.tsx
 // Layout component for the main editor view, handling both desktop and mobile layouts
 
-import { useState } from 'react';
+import { ReactNode, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { FilePlus, FolderOpen, MessageSquare } from 'lucide-react';
 import OutlinePopup from './OutlinePopup';
@@ -25,6 +25,10 @@ interface EditorLayoutProps {
   onNewDraft: () => void;
   onInsertLLMResponse: (text: string) => void;
   onEditorReady: (editor: any) => void;
+  // Version history control shown in the header
+  versionHistory?: ReactNode;
+  // Find and replace control shown in the header
+  findReplace?: ReactNode;
 }
 
 /**
@@ -38,6 +42,8 @@ const DesktopLayout = ({
   onNewDraft,
   onInsertLLMResponse,
   onEditorReady,
+  versionHistory,
+  findReplace,
   isFocusMode,
   isPanelCollapsed,
   toggleFocusMode,
@@ -78,6 +84,8 @@ const DesktopLayout = ({
         hasUnsavedChanges={hasUnsavedChanges}
         loading={loading}
         onSave={() => onSaveDraft(currentDraft?.content || '')}
+        versionHistory={versionHistory}
+        findReplace={findReplace}
       />
       
       <div className="flex-1 flex h-full w-full max-w-full overflow-hidden">
@@ -172,6 +180,8 @@ const MobileLayout = ({
   onNewDraft,
   onInsertLLMResponse,
   onEditorReady,
+  versionHistory,
+  findReplace,
   isFullscreen,
   onToggleFullscreen
 }: EditorLayoutProps & {
@@ -191,6 +201,8 @@ const MobileLayout = ({
         onInsertLLMResponse={onInsertLLMResponse}
         isFullscreen={isFullscreen}
         onToggleFullscreen={onToggleFullscreen}
+        versionHistory={versionHistory}
+        findReplace={findReplace}
       />
       <div className="flex-1 min-h-0 w-full max-w-full overflow-hidden bg-paper dark:bg-paper-dark">
         <RichTextEditor 
@@ -222,6 +234,8 @@ export const EditorLayout = ({
   onNewDraft,
   onInsertLLMResponse,
   onEditorReady,
+  versionHistory,
+  findReplace,
 }: EditorLayoutProps) => {
   const isMobile = useIsMobile();
   const [isFullscreen, setIsFullscreen] = useState(false);
@@ -246,6 +260,8 @@ export const EditorLayout = ({
         onNewDraft={onNewDraft}
         onInsertLLMResponse={onInsertLLMResponse}
         onEditorReady={onEditorReady}
+        versionHistory={versionHistory}
+        findReplace={findReplace}
         isFullscreen={isFullscreen}
         onToggleFullscreen={toggleFullscreen}
       />
@@ -261,6 +277,8 @@ export const EditorLayout = ({
       onNewDraft={onNewDraft}
       onInsertLLMResponse={onInsertLLMResponse}
       onEditorReady={onEditorReady}
+      versionHistory={versionHistory}
+      findReplace={findReplace}
       isFocusMode={isFocusMode}
       isPanelCollapsed={isPanelCollapsed}
       toggleFocusMode={toggleFocusMode}
@@ -1,16 +1,18 @@
 
 import { useEffect, useState, useRef } from 'react';
 import { Button } from '@/components/ui/button';
-import { Bold, Italic, Underline, Link, Code } from 'lucide-react';
+import { Bold, Italic, Underline, Link, Code, History, MessageSquarePlus } from 'lucide-react';
 import { createPortal } from 'react-dom';
 
 interface FloatingToolbarProps {
   editor: any;
   onFormatClick: (format: string, value?: any) => void;
   activeFormats: Record<string, any>;
+  onParagraphHistory?: () => void;
+  onComment?: () => void;
 }
 
-export const FloatingToolbar = ({ editor, onFormatClick, activeFormats }: FloatingToolbarProps) => {
+export const FloatingToolbar = ({ editor, onFormatClick, activeFormats, onParagraphHistory, onComment }: FloatingToolbarProps) => {
   const [position, setPosition] = useState<{ top: number; left: number } | null>(null);
   const [isVisible, setIsVisible] = useState(false);
   const toolbarRef = useRef<HTMLDivElement>(null);
@@ -112,6 +114,28 @@ export const FloatingToolbar = ({ editor, onFormatClick, activeFormats }: Floati
       >
         <Link className="h-4 w-4" />
       </Button>
+      {onParagraphHistory && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 w-8 p-0"
+          onClick={onParagraphHistory}
+          title="Paragraph history"
+        >
+          <History className="h-4 w-4" />
+        </Button>
+      )}
+      {onComment && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 w-8 p-0"
+          onClick={onComment}
+          title="Comment"
+        >
+          <MessageSquarePlus className="h-4 w-4" />
+        </Button>
+      )}
     </div>
   );
 
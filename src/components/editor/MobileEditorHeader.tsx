@@ -1,6 +1,7 @@
 // MobileEditorHeader.tsx
 // Header for the mobile editor view, showing draft title, navigation, and actions
 
+import { ReactNode } from 'react';
 import { Button } from '@/components/ui/button';
 import { FilePlus, FolderOpen, Eye, EyeOff, MessageSquare } from 'lucide-react';
 import { DarkModeToggle } from '@/components/ui/DarkModeToggle';
@@ -17,6 +18,8 @@ import LLMPanel from '../LLMPanel';
  * @property onInsertLLMResponse - Optional callback to insert LLM response
  * @property isFullscreen - Whether the editor is in fullscreen/focus mode
  * @property onToggleFullscreen - Callback to toggle fullscreen mode
+ * @property versionHistory - Optional version history control for the draft
+ * @property findReplace - Optional find and replace control for the project
  */
 interface MobileEditorHeaderProps {
   currentDraft: Draft | null;
@@ -25,6 +28,8 @@ interface MobileEditorHeaderProps {
   onInsertLLMResponse?: (text: string) => void;
   isFullscreen?: boolean;
   onToggleFullscreen?: () => void;
+  versionHistory?: ReactNode;
+  findReplace?: ReactNode;
 }
 
 /**
@@ -36,7 +41,9 @@ export const MobileEditorHeader = ({
   onNewDraft, 
   onInsertLLMResponse,
   isFullscreen = false,
-  onToggleFullscreen
+  onToggleFullscreen,
+  versionHistory,
+  findReplace
 }: MobileEditorHeaderProps) => {
   const formatLastSaved = (date: Date) => {
     return new Intl.DateTimeFormat('en-US', {
@@ -103,6 +110,8 @@ export const MobileEditorHeader = ({
         >
           <FilePlus className="h-4 w-4" />
         </Button>
+        {findReplace}
+        {versionHistory}
         {onToggleFullscreen && (
           <Button 
             variant="ghost" 
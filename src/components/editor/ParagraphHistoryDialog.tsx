@@ -0,0 +1,145 @@
+// ParagraphHistoryDialog.tsx
+// Earlier wordings of one paragraph, taken from the draft's saved versions
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Copy, RotateCcw } from 'lucide-react';
+import { getParagraphHistory, ParagraphRevision } from '@/lib/versioning';
+import { useToast } from '@/hooks/use-toast';
+
+interface ParagraphHistoryDialogProps {
+  draftId?: string;
+  // Text of the paragraph to trace; the dialog is closed when null
+  paragraph: string | null;
+  onClose: () => void;
+  onRestore: (html: string) => void;
+}
+
+const formatRange = (revision: ParagraphRevision) => {
+  const first = revision.firstSeen.toLocaleString();
+  return revision.firstSeen.getTime() === revision.lastSeen.getTime()
+    ? first
+    : `${first} – ${revision.lastSeen.toLocaleString()}`;
+};
+
+/**
+ * ParagraphHistoryDialog - Lists each earlier wording of a paragraph with
+ * when it was written, to copy or put back in place of the current one
+ */
+export function ParagraphHistoryDialog({ draftId, paragraph, onClose, onRestore }: ParagraphHistoryDialogProps) {
+  const { toast } = useToast();
+  const [revisions, setRevisions] = useState<ParagraphRevision[] | null>(null);
+
+  useEffect(() => {
+    if (!draftId || paragraph === null) return;
+    let cancelled = false;
+    setRevisions(null);
+    getParagraphHistory(draftId, paragraph)
+      .then(result => {
+        if (!cancelled) setRevisions(result);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        setRevisions([]);
+        toast({
+          title: 'Error',
+          description: error instanceof Error ? error.message : 'Failed to load paragraph history',
+          variant: 'destructive',
+          duration: 2000,
+        });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [draftId, paragraph, toast]);
+
+  const handleCopy = async (revision: ParagraphRevision) => {
+    try {
+      await navigator.clipboard.writeText(revision.text);
+      toast({ title: 'Copied', description: 'Paragraph copied to the clipboard.', duration: 2000 });
+    } catch (error) {
+      console.error('Failed to copy paragraph:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to copy paragraph',
+        variant: 'destructive',
+        duration: 2000,
+      });
+    }
+  };
+
+  const current = paragraph?.replace(/\s+/g, ' ').trim();
+
+  return (
+    <Dialog open={paragraph !== null} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Paragraph History</DialogTitle>
+          <DialogDescription>
+            Every wording of this paragraph found in the draft's saved versions, newest first.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="h-[420px] rounded-md border p-4">
+          {!revisions ? (
+            <p className="text-sm text-muted-foreground">Searching versions…</p>
+          ) : revisions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No saved version has this paragraph yet</p>
+          ) : (
+            <ul className="space-y-4">
+              {revisions.map((revision, index) => {
+                const isCurrent = revision.text === current;
+                const newSession = index === 0 || revisions[index - 1].session !== revision.session;
+                return (
+                  <li key={revision.versionIds[0]} className="space-y-2">
+                    {newSession && (
+                      <p className="text-xs font-medium text-muted-foreground">
+                        Session {revision.session} · started {revision.sessionStart.toLocaleString()}
+                      </p>
+                    )}
+                    <div className="rounded-md border p-3 space-y-2">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-xs text-muted-foreground">
+                          {formatRange(revision)} · {revision.versionIds.length} version{revision.versionIds.length === 1 ? '' : 's'}
+                        </span>
+                        {isCurrent && <Badge variant="secondary">Current</Badge>}
+                      </div>
+                      <p className="text-sm whitespace-pre-wrap">{revision.text}</p>
+                      <div className="flex justify-end gap-2">
+                        <Button size="sm" variant="ghost" onClick={() => handleCopy(revision)}>
+                          <Copy className="h-4 w-4 mr-2" />
+                          Copy
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={isCurrent}
+                          onClick={() => {
+                            onRestore(revision.html);
+                            onClose();
+                          }}
+                        >
+                          <RotateCcw className="h-4 w-4 mr-2" />
+                          Restore
+                        </Button>
+                      </div>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,72 @@
+// ParagraphPicker.tsx
+// Checklist of the paragraphs that differ between two texts
+
+import { Checkbox } from '@/components/ui/checkbox';
+import { cn } from '@/lib/utils';
+import { DocumentDiff, ParagraphDiff, getChangedParagraphs } from '@/lib/versioning/htmlDiff';
+import { DiffSegments } from './VersionDiffView';
+
+interface ParagraphPickerProps {
+  diff: DocumentDiff;
+  accepted: Set<number>;
+  onAcceptedChange: (accepted: Set<number>) => void;
+  emptyMessage: string;
+  // Keeps checkbox ids unique when more than one picker is mounted
+  idPrefix: string;
+}
+
+const changeLabels: Record<Exclude<ParagraphDiff['change'], 'unchanged'>, string> = {
+  added: 'Added',
+  removed: 'Removed',
+  changed: 'Changed',
+};
+
+/**
+ * ParagraphPicker - Lists changed paragraphs with their inline differences
+ * and a checkbox to accept each one
+ */
+export function ParagraphPicker({ diff, accepted, onAcceptedChange, emptyMessage, idPrefix }: ParagraphPickerProps) {
+  const changed = getChangedParagraphs(diff);
+
+  const toggle = (index: number, checked: boolean) => {
+    const next = new Set(accepted);
+    if (checked) next.add(index);
+    else next.delete(index);
+    onAcceptedChange(next);
+  };
+
+  if (changed.length === 0) {
+    return <p className="text-sm text-muted-foreground">{emptyMessage}</p>;
+  }
+
+  return (
+    <ul className="space-y-3">
+      {changed.map(index => {
+        const paragraph = diff.paragraphs[index];
+        return (
+          <li key={index} className="flex items-start gap-3">
+            <Checkbox
+              id={`${idPrefix}-${index}`}
+              className="mt-1"
+              checked={accepted.has(index)}
+              onCheckedChange={checked => toggle(index, checked === true)}
+            />
+            <label htmlFor={`${idPrefix}-${index}`} className="flex-1 space-y-1 text-sm cursor-pointer">
+              <span
+                className={cn(
+                  'text-xs font-medium',
+                  paragraph.change === 'added' && 'text-green-600',
+                  paragraph.change === 'removed' && 'text-red-600',
+                  paragraph.change === 'changed' && 'text-amber-600'
+                )}
+              >
+                {changeLabels[paragraph.change as keyof typeof changeLabels]}
+              </span>
+              <p><DiffSegments segments={paragraph.inline} /></p>
+            </label>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -6,6 +6,10 @@ import { Draft } from '@/lib/db';
 import { ModernToolbar } from './toolbar/ModernToolbar';
 import { ImprovedMobileToolbar } from './toolbar/ImprovedMobileToolbar';
 import { FloatingToolbar } from './FloatingToolbar';
+import { CommentsPanel } from './CommentsPanel';
+import { SuggestionsPanel } from './SuggestionsPanel';
+import { SpellcheckMenu } from './SpellcheckMenu';
+import { ParagraphHistoryDialog } from './ParagraphHistoryDialog';
 import { SlashCommands } from './SlashCommands';
 import { MarkdownShortcuts } from './MarkdownShortcuts';
 import { ModernStatusBar } from './ModernStatusBar';
@@ -20,12 +24,20 @@ import { useAnalytics } from '@/hooks/useAnalytics';
 import { useProjects } from '@/contexts/ProjectContext';
 import { StoryBibleEntry, getStoryBibleEntriesByProject } from '@/lib/storyBibleDb';
 import { debouncedHighlight, registerStoryBibleFormat, HighlightMatch } from '@/utils/highlighting';
+import { registerCommentFormat } from '@/utils/commentFormat';
+import { registerSuggestionFormats } from '@/utils/suggestionFormat';
+import { registerSpellcheckFormat, stripSpellingMarks } from '@/utils/spellcheckFormat';
 import { EditorErrorDisplay } from './EditorErrorDisplay';
 import { EditorValidationDisplay } from './EditorValidationDisplay';
 import { useEditorSync } from './hooks/useEditorSync';
 import { useEditorFormatting } from './hooks/useEditorFormatting';
 import { useEditorHighlighting } from './hooks/useEditorHighlighting';
+import { useEditorComments } from './hooks/useEditorComments';
+import { useSuggestionMode } from './hooks/useSuggestionMode';
+import { useSpellcheck } from './hooks/useSpellcheck';
 import { useOnlineStatus } from '@/hooks/useOfflineState';
+import { findParagraphIndex, replaceParagraph } from '@/lib/versioning';
+import { baseHtml } from '@/lib/suggestions';
 
 interface RichTextEditorProps {
   initialContent?: string;
@@ -45,6 +57,15 @@ interface RichTextEditorProps {
 
 const WORD_LIMIT = 50000;
 
+// Paragraph whose history is open, and which of the paragraphs that read
+// the same it is
+interface ParagraphTarget {
+  text: string;
+  occurrence: number;
+}
+
+const normalizeLine = (text: string | null) => (text ?? '').replace(/\s+/g, ' ').trim();
+
 const modules = {
   toolbar: false,
   history: {
@@ -63,7 +84,10 @@ const formats = [
   'align',
   'blockquote', 'code-block',
   'link',
-  'story-bible-highlight'
+  'story-bible-highlight',
+  'comment',
+  'suggestion-insert', 'suggestion-delete',
+  'spelling-error'
 ];
 
 const RichTextEditor = ({
@@ -85,6 +109,8 @@ const RichTextEditor = ({
   const [editorError, setEditorError] = useState<string | null>(null);
   const [isRecovering, setIsRecovering] = useState(false);
   const [wordCount, setWordCount] = useState(0);
+  const [historyTarget, setHistoryTarget] = useState<ParagraphTarget | null>(null);
+  const [sidePanel, setSidePanel] = useState<'comments' | 'suggestions' | null>(null);
   const { toast } = useToast();
   const editorRef = useRef<ReactQuill>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -121,8 +147,11 @@ const RichTextEditor = ({
 
   const isOnline = useOnlineStatus();
 
-  const unifiedContentChange = (newContent: string) => {
-    const plainText = newContent.replace(/<[^>]*>/g, ' ');
+  const unifiedContentChange = (editorHtml: string) => {
+    // Spelling marks are display only and never leave the editor
+    const newContent = stripSpellingMarks(editorHtml);
+    // Suggested insertions don't count until accepted
+    const plainText = baseHtml(newContent).replace(/<[^>]*>/g, ' ');
     const wc = plainText.trim().split(/\s+/).filter(word => word.length > 0).length;
     setWordCount(wc);
     trackAnalyticsWordCount(wc);
@@ -175,6 +204,9 @@ const RichTextEditor = ({
     try {
       if (Quill) {
         registerStoryBibleFormat(Quill);
+        registerCommentFormat(Quill);
+        registerSuggestionFormats(Quill);
+        registerSpellcheckFormat(Quill);
       }
     } catch (error) {
       console.error('Failed to register Story Bible format:', error);
@@ -200,7 +232,7 @@ const RichTextEditor = ({
   }, [currentProject]);
 
   useEffect(() => {
-    if (initialContent !== content) {
+    if (initialContent !== stripSpellingMarks(content)) {
       handleChange(initialContent);
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -223,7 +255,7 @@ const RichTextEditor = ({
       trackUserAction('save_document', { wordCount: wordCount, draftId: draft?.id });
       
       await measureSaveTime(async () => {
-        await onSave(contentToSave);
+        await onSave(stripSpellingMarks(contentToSave));
       });
       
       setHasUnsavedChanges(false);
@@ -275,6 +307,52 @@ const RichTextEditor = ({
     });
   }, [toast, trackError, draft?.id]);
 
+  const commentThreads = useEditorComments({ editorRef, draft, content });
+  const { startComment } = commentThreads;
+
+  const suggestionMode = useSuggestionMode({ editorRef, content });
+
+  const spellcheck = useSpellcheck({ editorRef, projectId: currentProject?.id, content });
+
+  const togglePanel = (panel: 'comments' | 'suggestions') =>
+    setSidePanel(open => (open === panel ? null : panel));
+
+  const handleComment = useCallback(() => {
+    if (startComment()) setSidePanel('comments');
+  }, [startComment]);
+
+  const handleParagraphHistory = useCallback(() => {
+    const quill = editorRef.current?.getEditor();
+    const selection = quill?.getSelection();
+    if (!quill || !selection) return;
+
+    const [line] = quill.getLine(selection.index);
+    if (!line) return;
+    const text = normalizeLine(line.domNode.textContent);
+    if (!text) return;
+
+    const lines = quill.getLines();
+    const occurrence = lines
+      .slice(0, lines.indexOf(line))
+      .filter(other => normalizeLine(other.domNode.textContent) === text).length;
+    setHistoryTarget({ text, occurrence });
+  }, []);
+
+  const handleParagraphRestore = useCallback((html: string) => {
+    if (!historyTarget) return;
+    const index = findParagraphIndex(content, historyTarget.text, historyTarget.occurrence);
+    if (index < 0) {
+      toast({
+        title: "Paragraph not found",
+        description: "The paragraph changed while its history was open",
+        variant: "destructive",
+      });
+      return;
+    }
+    handleChange(replaceParagraph(content, index, html));
+    trackUserAction('restore_paragraph', { draftId: draft?.id });
+  }, [historyTarget, content, handleChange, toast, trackUserAction, draft?.id]);
+
   const historyState = getHistoryState();
   const performanceData = getPerformanceData();
 
@@ -299,6 +377,7 @@ const RichTextEditor = ({
 
   const editorContent = (
     <div className="flex-1 w-full overflow-hidden relative">
+      {commentThreads.markStyles && <style>{commentThreads.markStyles}</style>}
       <ReactQuill
         ref={editorRef}
         theme="snow"
@@ -321,8 +400,17 @@ const RichTextEditor = ({
           editor={editorRef.current.getEditor()}
           onFormatClick={handleFormatClick}
           activeFormats={activeFormats}
+          onParagraphHistory={draft ? handleParagraphHistory : undefined}
+          onComment={draft ? handleComment : undefined}
         />
       )}
+
+      <ParagraphHistoryDialog
+        draftId={draft?.id}
+        paragraph={historyTarget?.text ?? null}
+        onClose={() => setHistoryTarget(null)}
+        onRestore={handleParagraphRestore}
+      />
       
       {!isFocusMode && editorRef.current?.getEditor && (
         <SlashCommands
@@ -340,6 +428,15 @@ const RichTextEditor = ({
     </div>
   );
 
+  const spellingMenu = (
+    <SpellcheckMenu
+      menu={spellcheck.menu}
+      onReplace={spellcheck.replaceWord}
+      onAddWord={spellcheck.addWord}
+      onClose={spellcheck.closeMenu}
+    />
+  );
+
   if (isFocusMode) {
     return (
       <FocusMode
@@ -349,6 +446,7 @@ const RichTextEditor = ({
         wordCount={wordCount}
       >
         {editorContent}
+        {spellingMenu}
       </FocusMode>
     );
   }
@@ -388,6 +486,20 @@ const RichTextEditor = ({
           canRedo={historyState.canRedo}
           isMobile={false}
           isFocusMode={isFocusMode}
+          commentsOpen={sidePanel === 'comments'}
+          onToggleComments={draft ? () => togglePanel('comments') : undefined}
+          suggestionMode={suggestionMode.enabled}
+          onToggleSuggestionMode={suggestionMode.toggle}
+          suggestionsOpen={sidePanel === 'suggestions'}
+          onToggleSuggestions={() => togglePanel('suggestions')}
+          spellcheck={currentProject ? {
+            settings: spellcheck.settings,
+            storyBibleWordCount: spellcheck.storyBibleWordCount,
+            loadingDictionary: spellcheck.loadingDictionary,
+            onEnabledChange: spellcheck.setEnabled,
+            onLanguageChange: spellcheck.setLanguage,
+            onRemoveWord: spellcheck.removeWord,
+          } : undefined}
         />
       )}
 
@@ -398,10 +510,36 @@ const RichTextEditor = ({
 
       <div 
         ref={containerRef}
-        className="flex-1 w-full overflow-hidden"
+        className="flex-1 w-full overflow-hidden flex"
       >
         {editorContent}
+        {sidePanel === 'comments' && draft && (
+          <CommentsPanel
+            comments={commentThreads.comments}
+            markedIds={commentThreads.markedIds}
+            todoCount={commentThreads.todoCount}
+            pending={commentThreads.pending}
+            onAdd={commentThreads.addComment}
+            onCancelPending={commentThreads.cancelComment}
+            onReply={commentThreads.reply}
+            onSetStatus={commentThreads.setStatus}
+            onDelete={commentThreads.remove}
+            onSelect={commentThreads.select}
+            onConvertTodos={commentThreads.convertTodos}
+            onClose={() => setSidePanel(null)}
+          />
+        )}
+        {sidePanel === 'suggestions' && (
+          <SuggestionsPanel
+            suggestions={suggestionMode.suggestions}
+            onDecide={suggestionMode.decide}
+            onSelect={suggestionMode.select}
+            onClose={() => setSidePanel(null)}
+          />
+        )}
       </div>
+
+      {spellingMenu}
       
       <ModernStatusBar
         stats={{
@@ -0,0 +1,52 @@
+// SpellcheckMenu.tsx
+// Context menu for a misspelled word, with suggestions and "Add to dictionary"
+
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { BookPlus } from 'lucide-react';
+import { SpellingMenuState } from './hooks/useSpellcheck';
+
+interface SpellcheckMenuProps {
+  menu: SpellingMenuState | null;
+  onReplace: (suggestion: string) => void;
+  onAddWord: (word: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * SpellcheckMenu - Opens where the writer right-clicked a misspelled word
+ * and offers replacements or adding the word to the project dictionary
+ */
+export function SpellcheckMenu({ menu, onReplace, onAddWord, onClose }: SpellcheckMenuProps) {
+  if (!menu) return null;
+
+  return (
+    <DropdownMenu key={`${menu.x}:${menu.y}`} open onOpenChange={open => !open && onClose()}>
+      <DropdownMenuTrigger asChild>
+        <span aria-hidden className="fixed h-0 w-0" style={{ left: menu.x, top: menu.y }} />
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-56" onCloseAutoFocus={event => event.preventDefault()}>
+        {menu.suggestions.length > 0 ? (
+          menu.suggestions.map(suggestion => (
+            <DropdownMenuItem key={suggestion} onSelect={() => onReplace(suggestion)} className="font-medium">
+              {suggestion}
+            </DropdownMenuItem>
+          ))
+        ) : (
+          <DropdownMenuLabel className="font-normal text-muted-foreground">No suggestions</DropdownMenuLabel>
+        )}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={() => onAddWord(menu.word)}>
+          <BookPlus className="mr-2 h-4 w-4" />
+          Add to dictionary
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,100 @@
+// SuggestionsPanel.tsx
+// Margin list of suggested edits on the open draft, for accepting or rejecting
+
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Check, GitPullRequestDraft, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Suggestion } from '@/lib/suggestions';
+import { formatRelativeTime } from '@/utils/dateUtils';
+import { SuggestionDecision } from './hooks/useSuggestionMode';
+
+interface SuggestionsPanelProps {
+  suggestions: Suggestion[];
+  onDecide: (suggestions: Suggestion[], decision: SuggestionDecision) => void;
+  onSelect: (suggestion: Suggestion) => void;
+  onClose: () => void;
+}
+
+const excerpt = (text: string) => {
+  const line = text.replace(/\s+/g, ' ').trim();
+  return line.length > 80 ? `${line.slice(0, 77).trimEnd()}...` : line || '(paragraph break)';
+};
+
+/**
+ * SuggestionsPanel - Shows each suggested insertion and deletion with its
+ * author, with accept and reject one at a time or all at once
+ */
+export function SuggestionsPanel({ suggestions, onDecide, onSelect, onClose }: SuggestionsPanelProps) {
+  return (
+    <aside className="w-80 shrink-0 border-l border-gray-100 dark:border-gray-800 bg-gray-50/50 dark:bg-gray-900 flex flex-col" aria-label="Suggestions">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100 dark:border-gray-800">
+        <h2 className="text-sm font-semibold flex items-center gap-2">
+          <GitPullRequestDraft className="h-4 w-4" />
+          Suggestions ({suggestions.length})
+        </h2>
+        <Button variant="ghost" size="sm" className="h-7 w-7 p-0" aria-label="Close suggestions" onClick={onClose}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {suggestions.length > 0 && (
+        <div className="flex gap-2 px-4 py-2">
+          <Button variant="outline" size="sm" className="flex-1 gap-1" onClick={() => onDecide(suggestions, 'accept')}>
+            <Check className="h-3 w-3" />
+            Accept all
+          </Button>
+          <Button variant="outline" size="sm" className="flex-1 gap-1" onClick={() => onDecide(suggestions, 'reject')}>
+            <X className="h-3 w-3" />
+            Reject all
+          </Button>
+        </div>
+      )}
+
+      <ScrollArea className="flex-1 px-4 pb-4">
+        {suggestions.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-6 text-center">
+            No suggestions. Turn on suggestion mode to propose edits without changing the text.
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {suggestions.map(suggestion => (
+              <li
+                key={`${suggestion.type}-${suggestion.index}`}
+                className="rounded-md border bg-white dark:bg-gray-800 p-3 space-y-2 cursor-pointer"
+                onClick={() => onSelect(suggestion)}
+              >
+                <div className="flex items-baseline justify-between gap-2 text-sm">
+                  <span className="font-medium">
+                    {suggestion.author} {suggestion.type === 'insert' ? 'added' : 'deleted'}
+                  </span>
+                  <span className="text-xs text-muted-foreground">
+                    {suggestion.time && formatRelativeTime(new Date(suggestion.time))}
+                  </span>
+                </div>
+                <p
+                  className={cn(
+                    'text-sm break-words',
+                    suggestion.type === 'insert' ? 'text-green-700 dark:text-green-400' : 'text-red-700 dark:text-red-400 line-through'
+                  )}
+                >
+                  {excerpt(suggestion.text)}
+                </p>
+                <div className="flex justify-end gap-2" onClick={e => e.stopPropagation()}>
+                  <Button variant="ghost" size="sm" className="gap-1" onClick={() => onDecide([suggestion], 'accept')}>
+                    <Check className="h-3 w-3" />
+                    Accept
+                  </Button>
+                  <Button variant="ghost" size="sm" className="gap-1" onClick={() => onDecide([suggestion], 'reject')}>
+                    <X className="h-3 w-3" />
+                    Reject
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </ScrollArea>
+    </aside>
+  );
+}
@@ -0,0 +1,173 @@
+// VersionDiffView.tsx
+// Renders the differences between two versions side by side or inline
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { cn } from '@/lib/utils';
+import { DocumentDiff, DiffSegment, InlineMark, ParagraphDiff } from '@/lib/versioning/htmlDiff';
+import { ChevronDown, ChevronUp } from 'lucide-react';
+
+export type DiffViewMode = 'side-by-side' | 'inline';
+
+interface VersionDiffViewProps {
+  diff: DocumentDiff;
+  mode: DiffViewMode;
+  beforeLabel: string;
+  afterLabel: string;
+}
+
+const MARK_ELEMENTS: Record<InlineMark, string> = {
+  bold: 'strong',
+  italic: 'em',
+  underline: 'u',
+  strike: 's',
+  code: 'code',
+  link: 'u',
+};
+
+const blockClasses: Record<string, string> = {
+  h1: 'text-2xl font-bold',
+  h2: 'text-xl font-bold',
+  h3: 'text-lg font-semibold',
+  blockquote: 'border-l-2 pl-3 italic',
+  pre: 'font-mono text-xs',
+  li: 'pl-4 before:content-["•"] before:-ml-3 before:mr-2',
+};
+
+const changeClasses: Record<ParagraphDiff['change'], string> = {
+  unchanged: 'border-transparent text-muted-foreground',
+  added: 'border-green-500',
+  removed: 'border-red-500',
+  changed: 'border-amber-500',
+};
+
+/**
+ * DiffSegments - Renders diff segments with their formatting, marking
+ * insertions and deletions
+ */
+export function DiffSegments({ segments }: { segments: DiffSegment[] }) {
+  return <>{segments.map((segment, index) => {
+    let content: React.ReactNode = segment.text;
+    segment.marks.forEach(mark => {
+      content = React.createElement(MARK_ELEMENTS[mark], null, content);
+    });
+
+    if (segment.op === 'insert') {
+      return <ins key={index} className="bg-green-100 text-green-900 no-underline rounded-sm">{content}</ins>;
+    }
+    if (segment.op === 'delete') {
+      return <del key={index} className="bg-red-100 text-red-900 rounded-sm">{content}</del>;
+    }
+    return <React.Fragment key={index}>{content}</React.Fragment>;
+  })}</>;
+}
+
+/**
+ * VersionDiffView - Shows paragraph and word changes between two versions,
+ * with buttons to step through the changed paragraphs
+ */
+export function VersionDiffView({ diff, mode, beforeLabel, afterLabel }: VersionDiffViewProps) {
+  const changeIndexes = diff.paragraphs
+    .map((paragraph, index) => (paragraph.change === 'unchanged' ? -1 : index))
+    .filter(index => index >= 0);
+  const [activeChange, setActiveChange] = useState(0);
+  const paragraphRefs = useRef<(HTMLDivElement | null)[]>([]);
+
+  useEffect(() => {
+    setActiveChange(0);
+  }, [diff]);
+
+  const goToChange = (change: number) => {
+    setActiveChange(change);
+    paragraphRefs.current[changeIndexes[change]]?.scrollIntoView?.({ block: 'center', behavior: 'smooth' });
+  };
+
+  const { summary } = diff;
+  const activeIndex = changeIndexes[activeChange];
+
+  const renderParagraph = (paragraph: ParagraphDiff, index: number) => {
+    const rowClass = cn(
+      'border-l-2 pl-3 py-1 text-sm',
+      changeClasses[paragraph.change],
+      index === activeIndex && 'bg-muted/60'
+    );
+    const setRef = (element: HTMLDivElement | null) => {
+      paragraphRefs.current[index] = element;
+    };
+
+    if (mode === 'inline') {
+      return (
+        <div key={index} ref={setRef} className={rowClass}>
+          <div className={blockClasses[paragraph.block]}><DiffSegments segments={paragraph.inline} /></div>
+        </div>
+      );
+    }
+
+    return (
+      <div key={index} ref={setRef} className={cn(rowClass, 'grid grid-cols-2 gap-4')}>
+        <div className={blockClasses[paragraph.block]}><DiffSegments segments={paragraph.before} /></div>
+        <div className={blockClasses[paragraph.block]}><DiffSegments segments={paragraph.after} /></div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="text-muted-foreground">Paragraphs:</span>
+          <span className="text-green-600">{summary.added} added</span>
+          <span className="text-red-600">{summary.removed} removed</span>
+          <span className="text-amber-600">{summary.changed} changed</span>
+          <span className="text-muted-foreground">
+            • Words: <span className="text-green-600">+{summary.wordsAdded}</span>{' '}
+            <span className="text-red-600">−{summary.wordsRemoved}</span>
+          </span>
+        </div>
+        <div className="flex items-center gap-1">
+          <span className="text-muted-foreground mr-1">
+            {changeIndexes.length === 0 ? 'No changes' : `Change ${activeChange + 1} of ${changeIndexes.length}`}
+          </span>
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-7 w-7"
+            aria-label="Previous change"
+            disabled={activeChange <= 0}
+            onClick={() => goToChange(activeChange - 1)}
+          >
+            <ChevronUp className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-7 w-7"
+            aria-label="Next change"
+            disabled={activeChange >= changeIndexes.length - 1}
+            onClick={() => goToChange(activeChange + 1)}
+          >
+            <ChevronDown className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {mode === 'side-by-side' && (
+        <div className="grid grid-cols-2 gap-4 pl-4 text-xs font-medium text-muted-foreground">
+          <span>{beforeLabel}</span>
+          <span>{afterLabel}</span>
+        </div>
+      )}
+
+      <ScrollArea className="h-[400px] rounded-md border p-4">
+        <div className="space-y-2">
+          {diff.paragraphs.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Both versions are empty</p>
+          ) : (
+            diff.paragraphs.map(renderParagraph)
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
@@ -1,6 +1,21 @@
-import { useState } from 'react';
-import { DocumentVersion } from '@/lib/versioning';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  DocumentVersion,
+  MAIN_BRANCH_ID,
+  VersionBranch,
+  VersionStorageReport,
+  getBranches,
+  getStorageReport,
+  forkBranch,
+  switchBranch,
+  setMilestone,
+  getDraftDiff,
+  cherryPickParagraphs,
+} from '@/lib/versioning';
+import { DocumentDiff } from '@/lib/versioning/htmlDiff';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
 import {
   Dialog,
   DialogContent,
@@ -15,38 +30,175 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { cn } from '@/lib/utils';
 import {
   getVersionLabel,
   getVersionMetadata,
   getVersionDiff,
   compareVersions,
 } from '@/utils/versioning';
-import { Clock, Plus, Minus } from 'lucide-react';
+import { formatBytes } from '@/utils/textUtils';
+import { Clock, Plus, Minus, Flag, GitBranch, GitMerge } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { VersionDiffView } from './VersionDiffView';
+import { BranchMergeDialog } from './BranchMergeDialog';
+import { ParagraphPicker } from './ParagraphPicker';
 
 interface VersionHistoryProps {
   versions: DocumentVersion[];
   currentVersion: DocumentVersion;
   onVersionSelect: (version: DocumentVersion) => void;
+  // Receives the draft's new content after a branch switch, a merge into
+  // the active branch or restoring paragraphs
+  onContentChange?: (content: string) => void;
+  // Called when milestones or branches change so versions can be reloaded
+  onHistoryChange?: () => void;
   className?: string;
 }
 
+// Select value standing for the content currently in the editor
+const CURRENT = 'current';
+
 export function VersionHistory({
   versions,
   currentVersion,
   onVersionSelect,
+  onContentChange,
+  onHistoryChange,
   className,
 }: VersionHistoryProps) {
+  const { toast } = useToast();
   const [isOpen, setIsOpen] = useState(false);
   const [selectedVersion, setSelectedVersion] = useState<DocumentVersion | null>(null);
-  
+  const [compareTo, setCompareTo] = useState<string>(CURRENT);
+  const [branches, setBranches] = useState<VersionBranch[]>([]);
+  const [report, setReport] = useState<VersionStorageReport | null>(null);
+  const [viewedBranchId, setViewedBranchId] = useState<string | null>(null);
+  const [milestoneName, setMilestoneName] = useState('');
+  const [branchName, setBranchName] = useState('');
+  const [mergeFrom, setMergeFrom] = useState<VersionBranch | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [restoreDiff, setRestoreDiff] = useState<DocumentDiff | null>(null);
+  const [restoreAccepted, setRestoreAccepted] = useState<Set<number>>(new Set());
+
+  const draftId = currentVersion.draftId;
+  const activeBranch = branches.find((b) => b.active) ?? branches[0];
+  const viewedBranch = branches.find((b) => b.id === viewedBranchId) ?? activeBranch;
+
+  const loadBranches = useCallback(async () => {
+    try {
+      const [nextBranches, nextReport] = await Promise.all([getBranches(draftId), getStorageReport(draftId)]);
+      setBranches(nextBranches);
+      setReport(nextReport);
+    } catch (error) {
+      console.error('Failed to load branches:', error);
+    }
+  }, [draftId]);
+
+  useEffect(() => {
+    if (isOpen) loadBranches();
+  }, [isOpen, versions, loadBranches]);
+
+  // Paragraphs of the selected version that could be brought back
+  useEffect(() => {
+    setRestoreDiff(null);
+    setRestoreAccepted(new Set());
+    if (!isOpen || !selectedVersion) return;
+    let cancelled = false;
+    getDraftDiff(draftId, selectedVersion.id)
+      .then((result) => {
+        if (!cancelled) setRestoreDiff(result);
+      })
+      .catch((error) => console.error('Failed to compare with draft:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, draftId, selectedVersion, currentVersion.content]);
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: 'Error',
+      description: error instanceof Error ? error.message : fallback,
+      variant: 'destructive',
+      duration: 2000,
+    });
+  };
+
+  // Runs a branch or milestone change, then refreshes what depends on it
+  const runAction = async (action: () => Promise<void>, fallback: string) => {
+    setBusy(true);
+    try {
+      await action();
+      await loadBranches();
+      onHistoryChange?.();
+    } catch (error) {
+      showError(error, fallback);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSetMilestone = (label: string | null) => {
+    if (!selectedVersion) return;
+    return runAction(async () => {
+      await setMilestone(selectedVersion.id, label);
+      setSelectedVersion({ ...selectedVersion, milestone: label?.trim() || undefined });
+      setMilestoneName('');
+    }, 'Failed to update milestone');
+  };
+
+  const handleFork = () => {
+    if (!selectedVersion) return;
+    return runAction(async () => {
+      const branch = await forkBranch(draftId, selectedVersion.id, branchName);
+      setViewedBranchId(branch.id);
+      setSelectedVersion(null);
+      setBranchName('');
+      toast({ title: 'Branch created', description: `"${branch.name}" starts from the selected version.`, duration: 2000 });
+    }, 'Failed to create branch');
+  };
+
+  const handleSwitch = (branch: VersionBranch) =>
+    runAction(async () => {
+      const content = await switchBranch(draftId, branch.id);
+      onContentChange?.(content);
+      toast({ title: 'Branch switched', description: `Now writing on "${branch.name}".`, duration: 2000 });
+    }, 'Failed to switch branch');
+
+  const handleRestoreParagraphs = () => {
+    if (!selectedVersion) return;
+    const count = restoreAccepted.size;
+    return runAction(async () => {
+      const content = await cherryPickParagraphs(draftId, selectedVersion.id, [...restoreAccepted]);
+      onContentChange?.(content);
+      toast({
+        title: 'Paragraphs restored',
+        description: `${count} paragraph${count === 1 ? '' : 's'} brought back from ${getVersionLabel(selectedVersion)}.`,
+        duration: 2000,
+      });
+    }, 'Failed to restore paragraphs');
+  };
+
+  const inViewedBranch = (version: DocumentVersion) =>
+    !viewedBranch || (version.branchId ?? MAIN_BRANCH_ID) === viewedBranch.id;
   const sortedVersions = [...versions].sort(compareVersions);
-  
-  const handleVersionSelect = (version: DocumentVersion) => {
-    setSelectedVersion(version);
-    const diff = getVersionDiff(version, currentVersion);
-    
+  const otherVersion = compareTo === CURRENT
+    ? currentVersion
+    : versions.find((v) => v.id === compareTo) ?? currentVersion;
+
+  // The older of the two is always shown as the "before" side
+  const [before, after] = selectedVersion && compareVersions(selectedVersion, otherVersion) > 0
+    ? [selectedVersion, otherVersion]
+    : [otherVersion, selectedVersion ?? otherVersion];
+  const labelFor = (version: DocumentVersion) =>
+    version === currentVersion ? 'Current version' : getVersionLabel(version);
+
+  const diff = useMemo(() => getVersionDiff(before, after), [before, after]);
+
+  const renderVersionDetails = (version: DocumentVersion) => {
+    const metadata = getVersionMetadata(version);
+
     return (
       <div className="space-y-4">
         <div className="flex items-center justify-between">
@@ -56,24 +208,24 @@ export function VersionHistory({
           <div className="flex items-center gap-2">
             <span className="flex items-center gap-1 text-green-600">
               <Plus className="h-4 w-4" />
-              {diff.added}
+              {diff.summary.wordsAdded}
             </span>
             <span className="flex items-center gap-1 text-red-600">
               <Minus className="h-4 w-4" />
-              {diff.removed}
+              {diff.summary.wordsRemoved}
             </span>
           </div>
         </div>
-        
+
         <div className="text-sm">
-          <p>Font: {getVersionMetadata(version).font}</p>
-          <p>View Mode: {getVersionMetadata(version).viewMode}</p>
+          <p>Font: {metadata.font}</p>
+          <p>View Mode: {metadata.viewMode}</p>
           <p>Word Count: {version.wordCount}</p>
         </div>
       </div>
     );
   };
-  
+
   return (
     <Dialog open={isOpen} onOpenChange={setIsOpen}>
       <DialogTrigger asChild>
@@ -85,14 +237,50 @@ export function VersionHistory({
           <Clock className="h-4 w-4" />
         </Button>
       </DialogTrigger>
-      
-      <DialogContent className="max-w-2xl">
+
+      <DialogContent className="max-w-5xl">
         <DialogHeader>
           <DialogTitle>Version History</DialogTitle>
         </DialogHeader>
-        
-        <div className="grid grid-cols-2 gap-4">
-          <div>
+
+        <div className="grid grid-cols-[240px_1fr] gap-4">
+          <div className="space-y-4">
+            {branches.length > 1 && viewedBranch && (
+              <div className="space-y-2">
+                <span className="text-sm text-muted-foreground">Branch</span>
+                <Select
+                  value={viewedBranch.id}
+                  onValueChange={(id) => {
+                    setViewedBranchId(id);
+                    setSelectedVersion(null);
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {branches.map((branch) => (
+                      <SelectItem key={branch.id} value={branch.id}>
+                        {branch.name}{branch.active ? ' (active)' : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {!viewedBranch.active && activeBranch && (
+                  <div className="flex flex-col gap-2">
+                    <Button size="sm" variant="outline" disabled={busy} onClick={() => handleSwitch(viewedBranch)}>
+                      <GitBranch className="h-4 w-4 mr-2" />
+                      Switch to this branch
+                    </Button>
+                    <Button size="sm" variant="outline" disabled={busy} onClick={() => setMergeFrom(viewedBranch)}>
+                      <GitMerge className="h-4 w-4 mr-2" />
+                      Merge into {activeBranch.name}
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+
             <Select
               value={selectedVersion?.id}
               onValueChange={(id) => {
@@ -106,31 +294,171 @@ export function VersionHistory({
                 <SelectValue placeholder="Select a version" />
               </SelectTrigger>
               <SelectContent>
-                {sortedVersions.map((version) => (
+                {sortedVersions.filter(inViewedBranch).map((version) => (
                   <SelectItem key={version.id} value={version.id}>
+                    {version.milestone && <Flag className="inline h-3 w-3 mr-1" />}
                     {getVersionLabel(version)}
                   </SelectItem>
                 ))}
               </SelectContent>
             </Select>
-            
+
+            <div className="space-y-1">
+              <span className="text-sm text-muted-foreground">Compare with</span>
+              <Select value={compareTo} onValueChange={setCompareTo}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={CURRENT}>Current version</SelectItem>
+                  {sortedVersions
+                    .filter((version) => version.id !== selectedVersion?.id)
+                    .map((version) => (
+                      <SelectItem key={version.id} value={version.id}>
+                        {getVersionLabel(version)}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {selectedVersion && renderVersionDetails(selectedVersion)}
+
             {selectedVersion && (
-              <div className="mt-4">
-                {handleVersionSelect(selectedVersion)}
+              <div className="space-y-2 border-t pt-4">
+                {selectedVersion.milestone ? (
+                  <div className="flex items-center justify-between gap-2">
+                    <Badge variant="secondary" className="truncate">
+                      <Flag className="h-3 w-3 mr-1" />
+                      {selectedVersion.milestone}
+                    </Badge>
+                    <Button size="sm" variant="ghost" disabled={busy} onClick={() => handleSetMilestone(null)}>
+                      Remove
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="flex gap-2">
+                    <Input
+                      value={milestoneName}
+                      onChange={(e) => setMilestoneName(e.target.value)}
+                      placeholder="Milestone name"
+                      maxLength={100}
+                    />
+                    <Button
+                      size="icon"
+                      variant="outline"
+                      aria-label="Mark as milestone"
+                      disabled={busy || !milestoneName.trim()}
+                      onClick={() => handleSetMilestone(milestoneName)}
+                    >
+                      <Flag className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+                <div className="flex gap-2">
+                  <Input
+                    value={branchName}
+                    onChange={(e) => setBranchName(e.target.value)}
+                    placeholder="New branch name"
+                    maxLength={100}
+                  />
+                  <Button
+                    size="icon"
+                    variant="outline"
+                    aria-label="Branch from this version"
+                    disabled={busy || !branchName.trim()}
+                    onClick={handleFork}
+                  >
+                    <GitBranch className="h-4 w-4" />
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Milestones are never removed by automatic cleanup.
+                </p>
               </div>
             )}
-          </div>
-          
-          <ScrollArea className="h-[400px] rounded-md border p-4">
-            {selectedVersion && (
-              <div
-                className="prose prose-sm max-w-none"
-                dangerouslySetInnerHTML={{ __html: selectedVersion.content }}
-              />
+
+            {report && report.versionCount > 0 && (
+              <div className="space-y-1 border-t pt-4 text-xs text-muted-foreground">
+                <p>
+                  {report.versionCount} versions: {report.manualCount} saved, {report.autoSaveCount} automatic
+                  {report.milestoneCount > 0 && `, ${report.milestoneCount} milestones`}
+                </p>
+                <p>
+                  {formatBytes(report.storedBytes)} stored for {formatBytes(report.contentBytes)} of text
+                </p>
+                {report.oldest && <p>Since {report.oldest.toLocaleDateString()}</p>}
+              </div>
             )}
-          </ScrollArea>
+          </div>
+
+          {selectedVersion ? (
+            <Tabs defaultValue="side-by-side">
+              <TabsList>
+                <TabsTrigger value="side-by-side">Side by side</TabsTrigger>
+                <TabsTrigger value="inline">Inline</TabsTrigger>
+                <TabsTrigger value="preview">Preview</TabsTrigger>
+                <TabsTrigger value="paragraphs">Restore paragraphs</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="side-by-side">
+                <VersionDiffView
+                  diff={diff}
+                  mode="side-by-side"
+                  beforeLabel={labelFor(before)}
+                  afterLabel={labelFor(after)}
+                />
+              </TabsContent>
+
+              <TabsContent value="inline">
+                <VersionDiffView
+                  diff={diff}
+                  mode="inline"
+                  beforeLabel={labelFor(before)}
+                  afterLabel={labelFor(after)}
+                />
+              </TabsContent>
+
+              <TabsContent value="preview">
+                <ScrollArea className="h-[440px] rounded-md border p-4">
+                  <div
+                    className="prose prose-sm max-w-none"
+                    dangerouslySetInnerHTML={{ __html: selectedVersion.content }}
+                  />
+                </ScrollArea>
+              </TabsContent>
+
+              <TabsContent value="paragraphs" className="space-y-2">
+                <p className="text-sm text-muted-foreground">
+                  Checked paragraphs are changed back to how this version had them. The rest of the draft stays as it is.
+                </p>
+                <ScrollArea className="h-[380px] rounded-md border p-4">
+                  {!restoreDiff ? (
+                    <p className="text-sm text-muted-foreground">Comparing with the draft…</p>
+                  ) : (
+                    <ParagraphPicker
+                      diff={restoreDiff}
+                      accepted={restoreAccepted}
+                      onAcceptedChange={setRestoreAccepted}
+                      emptyMessage="This version reads the same as the draft"
+                      idPrefix="restore"
+                    />
+                  )}
+                </ScrollArea>
+                <div className="flex justify-end">
+                  <Button size="sm" disabled={busy || restoreAccepted.size === 0} onClick={handleRestoreParagraphs}>
+                    Restore {restoreAccepted.size} paragraph{restoreAccepted.size === 1 ? '' : 's'}
+                  </Button>
+                </div>
+              </TabsContent>
+            </Tabs>
+          ) : (
+            <div className="flex h-[440px] items-center justify-center rounded-md border text-sm text-muted-foreground">
+              Select a version to see what changed
+            </div>
+          )}
         </div>
-        
+
         <div className="flex justify-end gap-2">
           <Button
             variant="outline"
@@ -138,8 +466,9 @@ export function VersionHistory({
           >
             Cancel
           </Button>
-          
+
           <Button
+            disabled={!selectedVersion}
             onClick={() => {
               if (selectedVersion) {
                 onVersionSelect(selectedVersion);
@@ -150,7 +479,21 @@ export function VersionHistory({
             Restore Version
           </Button>
         </div>
+
+        {activeBranch && (
+          <BranchMergeDialog
+            draftId={draftId}
+            from={mergeFrom}
+            into={activeBranch}
+            onClose={() => setMergeFrom(null)}
+            onMerged={(content) => {
+              onContentChange?.(content);
+              loadBranches();
+              onHistoryChange?.();
+            }}
+          />
+        )}
       </DialogContent>
     </Dialog>
   );
-} 
\ No newline at end of file
+}
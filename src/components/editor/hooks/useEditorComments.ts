@@ -0,0 +1,206 @@
+import { useCallback, useEffect, useState } from 'react';
+import ReactQuill, { Quill } from 'react-quill';
+import { Draft } from '@/lib/db';
+import {
+  COMMENT_ID_ATTRIBUTE,
+  CommentStatus,
+  DraftComment,
+  TextRange,
+  captureAnchor,
+  createComment,
+  deleteComment,
+  findAnchor,
+  findTodoMarkers,
+  getDraftComments,
+  replyToComment,
+  setCommentStatus,
+  updateCommentAnchor,
+} from '@/lib/comments';
+import { COMMENT_FORMAT } from '@/utils/commentFormat';
+import { useAuth } from '@/contexts/AuthContext';
+
+// Wait for typing to pause before matching marks against stored threads
+const RECONCILE_DELAY = 800;
+
+type QuillEditor = ReturnType<ReactQuill['getEditor']>;
+
+export interface PendingComment {
+  range: TextRange;
+  quote: string;
+}
+
+/**
+ * Where each comment mark is in the editor. A thread's mark can be split
+ * by other formatting, so its range runs from the first piece to the last.
+ */
+function markedRanges(quill: QuillEditor): Map<string, TextRange> {
+  const ranges = new Map<string, TextRange>();
+  quill.root.querySelectorAll(`[${COMMENT_ID_ATTRIBUTE}]`).forEach(node => {
+    const id = node.getAttribute(COMMENT_ID_ATTRIBUTE);
+    const blot = Quill.find(node);
+    if (!id || !blot || blot instanceof Quill) return;
+    const index = quill.getIndex(blot);
+    const end = index + blot.length();
+    const known = ranges.get(id);
+    const start = known ? Math.min(known.index, index) : index;
+    ranges.set(id, { index: start, length: Math.max(known ? known.index + known.length : end, end) - start });
+  });
+  return ranges;
+}
+
+export function useEditorComments({
+  editorRef,
+  draft,
+  content,
+}: {
+  editorRef: React.RefObject<ReactQuill>;
+  draft?: Draft | null;
+  content: string;
+}) {
+  const { user } = useAuth();
+  const [comments, setComments] = useState<DraftComment[]>([]);
+  const [markedIds, setMarkedIds] = useState<Set<string>>(new Set());
+  const [todoCount, setTodoCount] = useState(0);
+  const [pending, setPending] = useState<PendingComment | null>(null);
+  const author = user?.displayName || user?.email || 'Anonymous';
+  const draftId = draft?.id;
+
+  const getQuill = useCallback(() => editorRef.current?.getEditor() ?? null, [editorRef]);
+
+  const replace = (comment: DraftComment) =>
+    setComments(prev => prev.map(existing => existing.id === comment.id ? comment : existing));
+
+  useEffect(() => {
+    setPending(null);
+    if (!draftId) {
+      setComments([]);
+      return;
+    }
+    let cancelled = false;
+    getDraftComments(draftId)
+      .then(loaded => !cancelled && setComments(loaded))
+      .catch(error => console.error('Failed to load comments:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [draftId]);
+
+  // Keeps stored anchors up to date with their marks, and puts marks back
+  // on their text where edits, undo or a version restore took them away
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      const quill = getQuill();
+      if (!quill) return;
+      const ranges = markedRanges(quill);
+      const text = quill.getText();
+
+      comments.forEach(comment => {
+        const range = ranges.get(comment.id);
+        if (range) {
+          const anchor = captureAnchor(text, range);
+          if (anchor.quote !== comment.anchor.quote && anchor.quote.trim()) {
+            replace({ ...comment, anchor });
+            updateCommentAnchor(comment.id, anchor).catch(error => console.error('Failed to update comment anchor:', error));
+          }
+          return;
+        }
+        const found = findAnchor(text, comment.anchor);
+        if (found) {
+          quill.formatText(found.index, found.length, COMMENT_FORMAT, comment.id, 'api');
+          ranges.set(comment.id, found);
+        }
+      });
+
+      setMarkedIds(new Set(ranges.keys()));
+      setTodoCount(findTodoMarkers(text).length);
+    }, RECONCILE_DELAY);
+    return () => clearTimeout(timer);
+  }, [content, comments, getQuill]);
+
+  /**
+   * Starts a comment on the editor's selection; false without one
+   */
+  const startComment = useCallback((): boolean => {
+    const quill = getQuill();
+    const selection = quill?.getSelection();
+    if (!quill || !selection || selection.length === 0) return false;
+    setPending({
+      range: { index: selection.index, length: selection.length },
+      quote: quill.getText(selection.index, selection.length),
+    });
+    return true;
+  }, [getQuill]);
+
+  const addComment = useCallback(async (body: string) => {
+    const quill = getQuill();
+    if (!quill || !draft || !pending) return;
+    const comment = await createComment(draft, captureAnchor(quill.getText(), pending.range), author, body);
+    quill.formatText(pending.range.index, pending.range.length, COMMENT_FORMAT, comment.id, 'api');
+    setComments(prev => [...prev, comment]);
+    setPending(null);
+  }, [getQuill, draft, pending, author]);
+
+  const reply = useCallback(async (id: string, body: string) => {
+    replace(await replyToComment(id, author, body));
+  }, [author]);
+
+  const setStatus = useCallback(async (id: string, status: CommentStatus) => {
+    replace(await setCommentStatus(id, status));
+  }, []);
+
+  const remove = useCallback(async (id: string) => {
+    await deleteComment(id);
+    const quill = getQuill();
+    const range = quill && markedRanges(quill).get(id);
+    if (quill && range) quill.formatText(range.index, range.length, COMMENT_FORMAT, false, 'api');
+    setComments(prev => prev.filter(comment => comment.id !== id));
+  }, [getQuill]);
+
+  const select = useCallback((id: string) => {
+    const quill = getQuill();
+    const range = quill && markedRanges(quill).get(id);
+    if (quill && range) quill.setSelection(range.index, range.length, 'user');
+  }, [getQuill]);
+
+  /**
+   * Turns [[TODO]] notes in the text into comments on the sentence they
+   * refer to, removing the markers. Returns how many were converted.
+   */
+  const convertTodos = useCallback(async (): Promise<number> => {
+    const quill = getQuill();
+    if (!quill || !draft) return 0;
+    const markers = findTodoMarkers(quill.getText());
+    const created: DraftComment[] = [];
+    for (const marker of markers) {
+      quill.deleteText(marker.index, marker.length, 'api');
+      const comment = await createComment(draft, captureAnchor(quill.getText(), marker.target), author, marker.note || 'TODO');
+      quill.formatText(marker.target.index, marker.target.length, COMMENT_FORMAT, comment.id, 'api');
+      created.push(comment);
+    }
+    setComments(prev => [...prev, ...created.reverse()]);
+    return created.length;
+  }, [getQuill, draft, author]);
+
+  // Highlights open threads; resolved ones keep their marks unstyled so
+  // reopening finds them in place
+  const markStyles = comments
+    .filter(comment => comment.status === 'open')
+    .map(comment => `.ql-editor [${COMMENT_ID_ATTRIBUTE}="${comment.id}"]`)
+    .join(',\n');
+
+  return {
+    comments,
+    markedIds,
+    todoCount,
+    pending,
+    startComment,
+    cancelComment: () => setPending(null),
+    addComment,
+    reply,
+    setStatus,
+    remove,
+    select,
+    convertTodos,
+    markStyles: markStyles && `${markStyles} { background-color: rgba(250, 204, 21, 0.35); border-bottom: 2px solid rgb(234, 179, 8); }`,
+  };
+}
@@ -1,5 +1,6 @@
 import { useEffect } from 'react';
 import { useEditorContent } from '@/hooks/useEditorContent';
+import { stripSpellingMarks } from '@/utils/spellcheckFormat';
 
 export function useEditorSync({
   initialContent,
@@ -27,9 +28,10 @@ export function useEditorSync({
     maxLength: 5000000
   });
 
-  // Sync content when initialContent changes
+  // Sync content when initialContent changes. Saved content never has
+  // spelling marks, so they alone don't make the editor stale.
   useEffect(() => {
-    if (initialContent !== content) {
+    if (initialContent !== stripSpellingMarks(content)) {
       handleChange(initialContent);
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
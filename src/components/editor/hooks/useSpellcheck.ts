@@ -0,0 +1,236 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import ReactQuill, { Quill } from 'react-quill';
+import {
+  DEFAULT_SPELLCHECK_SETTINGS,
+  ProjectSpellcheckSettings,
+  SpellcheckLanguage,
+  Spellchecker,
+  WordRange,
+  addToProjectDictionary,
+  createWordChecker,
+  findMisspellings,
+  findWords,
+  getProjectSpellcheck,
+  getStoryBibleWords,
+  loadSpellchecker,
+  removeFromProjectDictionary,
+  updateProjectSpellcheck,
+} from '@/lib/spellcheck';
+import { SPELLING_FORMAT } from '@/utils/spellcheckFormat';
+import { useToast } from '@/hooks/use-toast';
+
+// Wait for typing to pause before checking
+const CHECK_DELAY = 600;
+const MAX_SUGGESTIONS = 5;
+
+type QuillEditor = ReturnType<ReactQuill['getEditor']>;
+
+// The misspelled word that was right-clicked, and where to show the menu
+export interface SpellingMenuState extends WordRange {
+  x: number;
+  y: number;
+  suggestions: string[];
+}
+
+const rangeKey = ({ index, length }: { index: number; length: number }) => `${index}:${length}`;
+
+// Underlined ranges in the editor, keyed by position
+function markedRanges(quill: QuillEditor): Map<string, { index: number; length: number }> {
+  const ranges = new Map<string, { index: number; length: number }>();
+  let position = 0;
+  let open: { index: number; length: number } | null = null;
+  quill.getContents().ops.forEach(op => {
+    const length = typeof op.insert === 'string' ? op.insert.length : 1;
+    if (op.attributes?.[SPELLING_FORMAT]) {
+      if (open && open.index + open.length === position) open.length += length;
+      else open = { index: position, length };
+    } else if (open) {
+      ranges.set(rangeKey(open), open);
+      open = null;
+    }
+    position += length;
+  });
+  if (open) ranges.set(rangeKey(open), open);
+  return ranges;
+}
+
+export function useSpellcheck({
+  editorRef,
+  projectId,
+  content,
+}: {
+  editorRef: React.RefObject<ReactQuill>;
+  projectId?: string;
+  content: string;
+}) {
+  const { toast } = useToast();
+  const [settings, setSettings] = useState<ProjectSpellcheckSettings>(DEFAULT_SPELLCHECK_SETTINGS);
+  const [storyBibleWords, setStoryBibleWords] = useState<string[]>([]);
+  const [spellchecker, setSpellchecker] = useState<Spellchecker | null>(null);
+  const [loadingDictionary, setLoadingDictionary] = useState(false);
+  const [menu, setMenu] = useState<SpellingMenuState | null>(null);
+  const { enabled, language } = settings;
+
+  const getQuill = useCallback(() => editorRef.current?.getEditor() ?? null, [editorRef]);
+
+  const showError = useCallback((title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : 'Something went wrong',
+      variant: 'destructive',
+    });
+  }, [toast]);
+
+  useEffect(() => {
+    setSettings(DEFAULT_SPELLCHECK_SETTINGS);
+    if (!projectId) return;
+    let cancelled = false;
+    getProjectSpellcheck(projectId)
+      .then(loaded => !cancelled && setSettings(loaded))
+      .catch(error => console.error('Failed to load spellcheck settings:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  // Reread when checking is turned on, so story bible edits made since count
+  useEffect(() => {
+    setStoryBibleWords([]);
+    if (!projectId || !enabled) return;
+    let cancelled = false;
+    getStoryBibleWords(projectId)
+      .then(words => !cancelled && setStoryBibleWords(words))
+      .catch(error => console.error('Failed to load story bible words:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, enabled]);
+
+  useEffect(() => {
+    setSpellchecker(null);
+    if (!enabled) return;
+    let cancelled = false;
+    setLoadingDictionary(true);
+    loadSpellchecker(language)
+      .then(loaded => !cancelled && setSpellchecker(loaded))
+      .catch(error => !cancelled && showError('Spellcheck unavailable', error))
+      .finally(() => !cancelled && setLoadingDictionary(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, language, showError]);
+
+  const isCorrect = useMemo(
+    () => spellchecker && createWordChecker(word => spellchecker.correct(word), [...settings.words, ...storyBibleWords]),
+    [spellchecker, settings.words, storyBibleWords]
+  );
+
+  // Underlines what is misspelled now and clears what no longer is. Marks
+  // are applied silently, so they never count as an edit.
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      const quill = getQuill();
+      if (!quill) return;
+      // The browser's own checker would underline the same words again
+      quill.root.spellcheck = !enabled;
+
+      const current = markedRanges(quill);
+      const next = new Map<string, WordRange>();
+      if (enabled && isCorrect) {
+        const cursor = quill.getSelection()?.index;
+        findMisspellings(quill.getText(), isCorrect, cursor).forEach(range => next.set(rangeKey(range), range));
+      }
+      current.forEach((range, key) => {
+        if (!next.has(key)) quill.formatText(range.index, range.length, SPELLING_FORMAT, false, 'silent');
+      });
+      next.forEach((range, key) => {
+        if (!current.has(key)) quill.formatText(range.index, range.length, SPELLING_FORMAT, true, 'silent');
+      });
+    }, CHECK_DELAY);
+    return () => clearTimeout(timeout);
+  }, [content, enabled, isCorrect, getQuill]);
+
+  useEffect(() => {
+    const quill = getQuill();
+    if (!quill || !spellchecker) return;
+
+    const handleContextMenu = (event: MouseEvent) => {
+      const mark = event.target instanceof Element ? event.target.closest(`.${SPELLING_FORMAT}`) : null;
+      const blot = mark && Quill.find(mark);
+      if (!blot || blot instanceof Quill) return;
+
+      // The mark may be split by other formatting, so take the whole word
+      const index = quill.getIndex(blot);
+      const [line, offset] = quill.getLine(index);
+      if (!line) return;
+      const lineStart = index - offset;
+      const word = findWords(quill.getText(lineStart, line.length()))
+        .map(range => ({ ...range, index: lineStart + range.index }))
+        .find(range => range.index <= index && index < range.index + range.length);
+      if (!word) return;
+
+      event.preventDefault();
+      setMenu({
+        ...word,
+        x: event.clientX,
+        y: event.clientY,
+        suggestions: spellchecker.suggest(word.word).slice(0, MAX_SUGGESTIONS),
+      });
+    };
+
+    quill.root.addEventListener('contextmenu', handleContextMenu);
+    return () => quill.root.removeEventListener('contextmenu', handleContextMenu);
+  }, [getQuill, spellchecker]);
+
+  const replaceWord = useCallback((suggestion: string) => {
+    const quill = getQuill();
+    if (!quill || !menu) return;
+    // The suggestion keeps the formatting the word had
+    const { [SPELLING_FORMAT]: _mark, ...formats } = quill.getFormat(menu.index, menu.length);
+    quill.deleteText(menu.index, menu.length, 'user');
+    quill.insertText(menu.index, suggestion, formats, 'user');
+    setMenu(null);
+  }, [getQuill, menu]);
+
+  const addWord = useCallback(async (word: string) => {
+    setMenu(null);
+    if (!projectId) return;
+    try {
+      setSettings(await addToProjectDictionary(projectId, word));
+    } catch (error) {
+      showError('Could not add word', error);
+    }
+  }, [projectId, showError]);
+
+  const removeWord = useCallback(async (word: string) => {
+    if (!projectId) return;
+    try {
+      setSettings(await removeFromProjectDictionary(projectId, word));
+    } catch (error) {
+      showError('Could not remove word', error);
+    }
+  }, [projectId, showError]);
+
+  const update = useCallback(async (updates: { enabled?: boolean; language?: SpellcheckLanguage }) => {
+    setSettings(prev => ({ ...prev, ...updates }));
+    if (!projectId) return;
+    try {
+      setSettings(await updateProjectSpellcheck(projectId, updates));
+    } catch (error) {
+      showError('Could not save spellcheck settings', error);
+    }
+  }, [projectId, showError]);
+
+  return {
+    settings,
+    storyBibleWordCount: storyBibleWords.length,
+    loadingDictionary,
+    menu,
+    closeMenu: () => setMenu(null),
+    replaceWord,
+    addWord,
+    removeWord,
+    setEnabled: (value: boolean) => update({ enabled: value }),
+    setLanguage: (value: SpellcheckLanguage) => update({ language: value }),
+  };
+}
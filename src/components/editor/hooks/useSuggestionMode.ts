@@ -0,0 +1,88 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import ReactQuill from 'react-quill';
+import { DeltaOp, SUGGESTION_FORMATS, Suggestion, listSuggestions, suggestionDelta } from '@/lib/suggestions';
+import { useAuth } from '@/contexts/AuthContext';
+
+export type SuggestionDecision = 'accept' | 'reject';
+
+export function useSuggestionMode({
+  editorRef,
+  content,
+}: {
+  editorRef: React.RefObject<ReactQuill>;
+  content: string;
+}) {
+  const { user } = useAuth();
+  const [enabled, setEnabled] = useState(false);
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+  // Whether the last key pressed deletes forwards, which decides where the
+  // caret goes after deleted text is put back
+  const forwardDelete = useRef(false);
+  const author = user?.displayName || user?.email || 'Anonymous';
+
+  const getQuill = useCallback(() => editorRef.current?.getEditor() ?? null, [editorRef]);
+
+  useEffect(() => {
+    const quill = getQuill();
+    if (!enabled || !quill) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      forwardDelete.current = event.key === 'Delete';
+    };
+    // Quill's delta type is wider than the operations read here
+    const handleTextChange = (delta: { ops: unknown[] }, oldDelta: { ops: unknown[] }, source: string) => {
+      if (source !== 'user') return;
+      const fix = suggestionDelta(
+        delta.ops as DeltaOp[],
+        oldDelta.ops as DeltaOp[],
+        { author, time: new Date().toISOString() },
+        forwardDelete.current
+      );
+      if (!fix) return;
+      quill.updateContents(fix.ops as Parameters<typeof quill.updateContents>[0], 'api');
+      quill.setSelection(fix.cursor, 0, 'silent');
+    };
+
+    quill.root.addEventListener('keydown', handleKeyDown);
+    quill.on('text-change', handleTextChange);
+    return () => {
+      quill.root.removeEventListener('keydown', handleKeyDown);
+      quill.off('text-change', handleTextChange);
+    };
+  }, [enabled, getQuill, author]);
+
+  useEffect(() => {
+    const quill = getQuill();
+    setSuggestions(quill ? listSuggestions(quill.getContents().ops as DeltaOp[]) : []);
+  }, [content, getQuill]);
+
+  /**
+   * Accepting an insertion or rejecting a deletion keeps the text and drops
+   * the mark; the other two remove the text. Later suggestions are handled
+   * first so earlier positions stay valid.
+   */
+  const decide = useCallback((targets: Suggestion[], decision: SuggestionDecision) => {
+    const quill = getQuill();
+    if (!quill) return;
+    [...targets].sort((a, b) => b.index - a.index).forEach(suggestion => {
+      const keepText = (suggestion.type === 'insert') === (decision === 'accept');
+      if (keepText) {
+        quill.formatText(suggestion.index, suggestion.length, SUGGESTION_FORMATS[suggestion.type], false, 'api');
+      } else {
+        quill.deleteText(suggestion.index, suggestion.length, 'api');
+      }
+    });
+  }, [getQuill]);
+
+  const select = useCallback((suggestion: Suggestion) => {
+    getQuill()?.setSelection(suggestion.index, suggestion.length, 'user');
+  }, [getQuill]);
+
+  return {
+    enabled,
+    toggle: () => setEnabled(value => !value),
+    suggestions,
+    decide,
+    select,
+  };
+}
@@ -5,11 +5,12 @@ import {
   Bold, Italic, Underline, Strikethrough, Code,
   AlignLeft, AlignCenter, AlignRight, AlignJustify,
   List, ListOrdered, Quote, Undo, Redo, Type,
-  MoreHorizontal, ChevronDown
+  MoreHorizontal, ChevronDown, MessageSquare, PencilLine, ListChecks
 } from 'lucide-react';
 import { useState, useEffect } from 'react';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { SpellcheckPopover, SpellcheckPopoverProps } from './SpellcheckPopover';
 
 interface ModernToolbarProps {
   selectedFont: string;
@@ -22,6 +23,13 @@ interface ModernToolbarProps {
   canRedo: boolean;
   isMobile?: boolean;
   isFocusMode?: boolean;
+  commentsOpen?: boolean;
+  onToggleComments?: () => void;
+  suggestionMode?: boolean;
+  onToggleSuggestionMode?: () => void;
+  suggestionsOpen?: boolean;
+  onToggleSuggestions?: () => void;
+  spellcheck?: SpellcheckPopoverProps;
 }
 
 const fonts = [
@@ -51,7 +59,14 @@ export const ModernToolbar = ({
   canUndo,
   canRedo,
   isMobile = false,
-  isFocusMode = false
+  isFocusMode = false,
+  commentsOpen = false,
+  onToggleComments,
+  suggestionMode = false,
+  onToggleSuggestionMode,
+  suggestionsOpen = false,
+  onToggleSuggestions,
+  spellcheck
 }: ModernToolbarProps) => {
   const [showAdvanced, setShowAdvanced] = useState(false);
 
@@ -263,6 +278,36 @@ export const ModernToolbar = ({
             />
           </div>
         </div>
+
+        {(onToggleComments || onToggleSuggestionMode || spellcheck) && (
+          <div className="flex items-center space-x-1">
+            {spellcheck && <SpellcheckPopover {...spellcheck} />}
+            {onToggleSuggestionMode && (
+              <ToolbarButton
+                icon={PencilLine}
+                onClick={onToggleSuggestionMode}
+                active={suggestionMode}
+                tooltip={suggestionMode ? "Suggesting (edits are tracked)" : "Suggest edits"}
+              />
+            )}
+            {onToggleSuggestions && (
+              <ToolbarButton
+                icon={ListChecks}
+                onClick={onToggleSuggestions}
+                active={suggestionsOpen}
+                tooltip="Review suggestions"
+              />
+            )}
+            {onToggleComments && (
+              <ToolbarButton
+                icon={MessageSquare}
+                onClick={onToggleComments}
+                active={commentsOpen}
+                tooltip="Comments"
+              />
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
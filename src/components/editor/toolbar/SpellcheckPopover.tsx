@@ -0,0 +1,108 @@
+// SpellcheckPopover.tsx
+// Toolbar popover for the spellchecker language and the project dictionary
+
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Loader2, SpellCheck, X } from 'lucide-react';
+import { ProjectSpellcheckSettings, SPELLCHECK_LANGUAGES, SpellcheckLanguage } from '@/lib/spellcheck';
+
+/**
+ * Props for the SpellcheckPopover component
+ * @property settings - The project's spellcheck settings and dictionary
+ * @property storyBibleWordCount - Names and tags the story bible adds to the dictionary
+ * @property loadingDictionary - Whether the language's dictionary is still loading
+ */
+export interface SpellcheckPopoverProps {
+  settings: ProjectSpellcheckSettings;
+  storyBibleWordCount: number;
+  loadingDictionary: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  onLanguageChange: (language: SpellcheckLanguage) => void;
+  onRemoveWord: (word: string) => void;
+}
+
+/**
+ * SpellcheckPopover - Turns checking on or off, picks the dictionary language
+ * and lists the words added to the project dictionary
+ */
+export const SpellcheckPopover = ({
+  settings,
+  storyBibleWordCount,
+  loadingDictionary,
+  onEnabledChange,
+  onLanguageChange,
+  onRemoveWord
+}: SpellcheckPopoverProps) => {
+  const { enabled, language, words } = settings;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          className={`inline-flex items-center justify-center rounded-md h-9 w-9 transition-colors ${
+            enabled
+              ? "bg-blue-100 dark:bg-blue-900 text-blue-900 dark:text-blue-100 hover:bg-blue-200 dark:hover:bg-blue-800"
+              : "text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800"
+          }`}
+          title="Spelling"
+        >
+          <SpellCheck className="h-4 w-4" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72" align="end">
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="spellcheck-enabled" className="text-sm font-medium">Check spelling</Label>
+            <Switch id="spellcheck-enabled" checked={enabled} onCheckedChange={onEnabledChange} />
+          </div>
+
+          <div>
+            <Label className="text-sm font-medium flex items-center gap-2">
+              Language
+              {enabled && loadingDictionary && <Loader2 className="h-3 w-3 animate-spin text-gray-400" />}
+            </Label>
+            <Select value={language} onValueChange={value => onLanguageChange(value as SpellcheckLanguage)}>
+              <SelectTrigger className="mt-2 w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(SPELLCHECK_LANGUAGES).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <Label className="text-sm font-medium">Project dictionary</Label>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              {storyBibleWordCount === 1 ? '1 word' : `${storyBibleWordCount} words`} from story bible names and tags.
+              Right-click an underlined word to add it.
+            </p>
+            {words.length > 0 && (
+              <ul className="mt-2 max-h-40 overflow-y-auto space-y-1 pr-1">
+                {words.map(word => (
+                  <li key={word} className="flex items-center justify-between text-sm">
+                    <span className="truncate">{word}</span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0"
+                      onClick={() => onRemoveWord(word)}
+                      title={`Remove "${word}"`}
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
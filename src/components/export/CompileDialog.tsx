@@ -0,0 +1,539 @@
+// CompileDialog.tsx
+// Chooses what goes into a compiled manuscript, how its text is transformed and which format it is written to
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ArrowDown, ArrowUp, Plus, Save, Settings2, Trash2, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useProjects } from '@/contexts/ProjectContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { EnhancedOutlineService } from '@/utils/outlineDb';
+import { EnhancedOutline } from '@/types/outline';
+import { ManuscriptChapter, ManuscriptSource, buildManuscript } from '@/lib/export/manuscript';
+import {
+  ChapterNumbering,
+  CompileMatterPage,
+  CompilePreset,
+  CompileSelectionItem,
+  CompileSettings,
+  DEFAULT_COMPILE_SETTINGS,
+  SceneSeparator,
+  compileProject,
+  deleteCompilePreset,
+  getCompilePresets,
+  listCompileWriters,
+  saveCompilePreset,
+} from '@/lib/compile';
+import { downloadBlob } from '@/utils/download';
+
+interface CompileDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface CompileEntry {
+  id: string;
+  title: string;
+  included: boolean;
+}
+
+interface CompileChapterEntry extends CompileEntry {
+  scenes: CompileEntry[];
+}
+
+// Select values for chapters taken from the binder and for unsaved settings
+const BINDER = 'binder';
+const NO_PRESET = 'none';
+
+const SEPARATORS: [SceneSeparator, string][] = [
+  ['hash', '#'],
+  ['asterisks', '* * *'],
+  ['asterism', '⁂'],
+  ['blank', 'Blank line'],
+  ['none', 'None'],
+];
+
+const NUMBERING: [ChapterNumbering, string][] = [
+  ['words', 'Chapter One'],
+  ['numbers', '1'],
+  ['none', 'None'],
+];
+
+const sourceValue = (source: ManuscriptSource) => source.type === 'outline' ? source.outlineId : BINDER;
+
+/**
+ * The checklist for a manuscript's chapters. With a saved selection, its
+ * chapters and scenes come first in its order and anything added since
+ * follows unchecked.
+ */
+function arrange(chapters: ManuscriptChapter[], selection?: CompileSelectionItem[]): CompileChapterEntry[] {
+  const ordered = <T extends { id: string }>(items: T[], ids?: string[]) => {
+    if (!ids) return items.map(item => ({ item, included: true }));
+    const picked = ids.flatMap(id => items.find(item => item.id === id) ?? []);
+    return [
+      ...picked.map(item => ({ item, included: true })),
+      ...items.filter(item => !picked.includes(item)).map(item => ({ item, included: false })),
+    ];
+  };
+
+  return ordered(chapters, selection?.map(item => item.id)).map(({ item: chapter, included }) => ({
+    id: chapter.id,
+    title: chapter.title || 'Untitled chapter',
+    included,
+    scenes: ordered(chapter.scenes, selection?.find(item => item.id === chapter.id)?.scenes)
+      .map(({ item: scene, included: sceneIncluded }) => ({
+        id: scene.id,
+        title: scene.title || 'Untitled scene',
+        included: included && sceneIncluded,
+      })),
+  }));
+}
+
+const toSelection = (entries: CompileChapterEntry[]): CompileSelectionItem[] =>
+  entries
+    .filter(entry => entry.included)
+    .map(entry => ({ id: entry.id, scenes: entry.scenes.filter(scene => scene.included).map(scene => scene.id) }));
+
+function move<T>(items: T[], index: number, offset: number): T[] {
+  const target = index + offset;
+  if (target < 0 || target >= items.length) return items;
+  const next = [...items];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+}
+
+interface MatterPagesProps {
+  id: string;
+  label: string;
+  pages: CompileMatterPage[];
+  onChange: (pages: CompileMatterPage[]) => void;
+}
+
+/**
+ * MatterPages - Edits a list of front or back matter pages as plain text
+ */
+function MatterPages({ id, label, pages, onChange }: MatterPagesProps) {
+  const update = (index: number, changes: Partial<CompileMatterPage>) =>
+    onChange(pages.map((page, i) => i === index ? { ...page, ...changes } : page));
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>{label}</Label>
+        <Button variant="ghost" size="sm" className="gap-1" onClick={() => onChange([...pages, { title: '', text: '' }])}>
+          <Plus className="h-3 w-3" />
+          Add page
+        </Button>
+      </div>
+      {pages.map((page, index) => (
+        <div key={index} className="space-y-2 rounded-md border p-2">
+          <div className="flex items-center gap-2">
+            <Input
+              id={`${id}-${index}-title`}
+              value={page.title}
+              onChange={e => update(index, { title: e.target.value })}
+              placeholder="Heading (optional)"
+              maxLength={200}
+            />
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 w-8 p-0"
+              aria-label={`Remove ${label.toLowerCase()} page`}
+              onClick={() => onChange(pages.filter((_, i) => i !== index))}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+          <Textarea
+            value={page.text}
+            onChange={e => update(index, { text: e.target.value })}
+            placeholder="Dedication, epigraph, acknowledgements..."
+            rows={3}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * OrderButtons - Moves a chapter or scene up or down the compile order
+ */
+function OrderButtons({ onMove, label }: { onMove: (offset: number) => void; label: string }) {
+  return (
+    <div className="flex">
+      <Button variant="ghost" size="sm" className="h-6 w-6 p-0" aria-label={`Move ${label} up`} onClick={() => onMove(-1)}>
+        <ArrowUp className="h-3 w-3" />
+      </Button>
+      <Button variant="ghost" size="sm" className="h-6 w-6 p-0" aria-label={`Move ${label} down`} onClick={() => onMove(1)}>
+        <ArrowDown className="h-3 w-3" />
+      </Button>
+    </div>
+  );
+}
+
+/**
+ * CompileDialog - Builds a manuscript from chosen chapters and scenes with
+ * the selected transforms and output writer, and keeps the choices as
+ * named presets on the project
+ */
+export function CompileDialog({ open, onOpenChange }: CompileDialogProps) {
+  const { currentProject } = useProjects();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [settings, setSettings] = useState<CompileSettings>(DEFAULT_COMPILE_SETTINGS);
+  const [entries, setEntries] = useState<CompileChapterEntry[]>([]);
+  const [outlines, setOutlines] = useState<EnhancedOutline[]>([]);
+  const [presets, setPresets] = useState<CompilePreset[]>([]);
+  const [presetId, setPresetId] = useState(NO_PRESET);
+  const [presetName, setPresetName] = useState('');
+  const [compiling, setCompiling] = useState(false);
+  const writers = listCompileWriters();
+
+  const loadEntries = (projectId: string, source: ManuscriptSource, selection?: CompileSelectionItem[]) =>
+    buildManuscript(projectId, { source })
+      .then(manuscript => setEntries(arrange(manuscript.chapters, selection)))
+      .catch(error => {
+        console.error('Failed to load manuscript:', error);
+        setEntries([]);
+      });
+
+  useEffect(() => {
+    if (!open || !currentProject) return;
+    setSettings({ ...DEFAULT_COMPILE_SETTINGS, author: user?.displayName ?? '' });
+    setPresetId(NO_PRESET);
+    setPresetName('');
+    buildManuscript(currentProject.id)
+      .then(manuscript => setEntries(arrange(manuscript.chapters)))
+      .catch(error => console.error('Failed to load manuscript:', error));
+    EnhancedOutlineService.getProjectOutlines(currentProject.id)
+      .then(setOutlines)
+      .catch(error => console.error('Failed to load outlines:', error));
+    getCompilePresets(currentProject.id)
+      .then(setPresets)
+      .catch(error => console.error('Failed to load compile presets:', error));
+  }, [open, currentProject, user]);
+
+  if (!currentProject) return null;
+
+  const update = (changes: Partial<CompileSettings>) => setSettings(prev => ({ ...prev, ...changes }));
+
+  const chooseSource = (value: string) => {
+    const source: ManuscriptSource = value === BINDER ? { type: 'binder' } : { type: 'outline', outlineId: value };
+    update({ source });
+    loadEntries(currentProject.id, source);
+  };
+
+  const choosePreset = (id: string) => {
+    setPresetId(id);
+    const preset = presets.find(p => p.id === id);
+    if (!preset) return;
+    setSettings({ ...DEFAULT_COMPILE_SETTINGS, ...preset.settings });
+    setPresetName(preset.name);
+    loadEntries(currentProject.id, preset.settings.source, preset.settings.selection);
+  };
+
+  const toggleChapter = (id: string, included: boolean) =>
+    setEntries(prev => prev.map(entry => entry.id === id
+      ? { ...entry, included, scenes: entry.scenes.map(scene => ({ ...scene, included })) }
+      : entry));
+
+  const toggleScene = (chapterId: string, sceneId: string, included: boolean) =>
+    setEntries(prev => prev.map(entry => {
+      if (entry.id !== chapterId) return entry;
+      const scenes = entry.scenes.map(scene => scene.id === sceneId ? { ...scene, included } : scene);
+      return { ...entry, scenes, included: scenes.some(scene => scene.included) };
+    }));
+
+  const moveScene = (chapterId: string, index: number, offset: number) =>
+    setEntries(prev => prev.map(entry => entry.id === chapterId ? { ...entry, scenes: move(entry.scenes, index, offset) } : entry));
+
+  const currentSettings = (): CompileSettings => ({ ...settings, selection: toSelection(entries) });
+
+  const handleSavePreset = async () => {
+    try {
+      const preset = await saveCompilePreset(currentProject.id, presetName, currentSettings());
+      setPresets(await getCompilePresets(currentProject.id));
+      setPresetId(preset.id);
+      toast({ title: 'Preset saved', description: `"${preset.name}" will compile the same way next time.` });
+    } catch (error) {
+      toast({
+        title: 'Save failed',
+        description: error instanceof Error ? error.message : 'Failed to save preset',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDeletePreset = async () => {
+    try {
+      await deleteCompilePreset(currentProject.id, presetId);
+      setPresets(prev => prev.filter(preset => preset.id !== presetId));
+      setPresetId(NO_PRESET);
+      setPresetName('');
+    } catch (error) {
+      toast({
+        title: 'Delete failed',
+        description: error instanceof Error ? error.message : 'Failed to delete preset',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleCompile = async () => {
+    setCompiling(true);
+    try {
+      const { blob, fileName } = await compileProject(currentProject.id, currentSettings());
+      downloadBlob(blob, fileName);
+      toast({ title: 'Manuscript compiled', description: `"${currentProject.title}" was saved as ${fileName}.` });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'Compile failed',
+        description: error instanceof Error ? error.message : 'Failed to compile manuscript',
+        variant: 'destructive',
+      });
+    } finally {
+      setCompiling(false);
+    }
+  };
+
+  const sceneCount = entries.reduce((count, entry) => count + entry.scenes.filter(scene => scene.included).length, 0);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Compile Manuscript</DialogTitle>
+          <DialogDescription>
+            Choose the chapters and scenes to include, how the text is prepared and the format to write.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-end gap-2">
+          <div className="space-y-2 min-w-[180px] flex-1">
+            <Label htmlFor="compile-preset">Preset</Label>
+            <Select value={presetId} onValueChange={choosePreset}>
+              <SelectTrigger id="compile-preset">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_PRESET}>Unsaved settings</SelectItem>
+                {presets.map(preset => (
+                  <SelectItem key={preset.id} value={preset.id}>
+                    {preset.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Input
+            aria-label="Preset name"
+            value={presetName}
+            onChange={e => setPresetName(e.target.value)}
+            placeholder="Preset name, e.g. Agent submission"
+            maxLength={100}
+            className="flex-1 min-w-[180px]"
+          />
+          <Button variant="outline" onClick={handleSavePreset} disabled={!presetName.trim()} className="gap-2">
+            <Save className="h-4 w-4" />
+            Save Preset
+          </Button>
+          {presetId !== NO_PRESET && (
+            <Button variant="ghost" onClick={handleDeletePreset} aria-label="Delete preset">
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+
+        <div className="grid gap-6 md:grid-cols-2">
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="compile-source">Chapters</Label>
+                <Select value={sourceValue(settings.source)} onValueChange={chooseSource}>
+                  <SelectTrigger id="compile-source">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={BINDER}>Manuscript binder</SelectItem>
+                    {outlines.map(outline => (
+                      <SelectItem key={outline.id} value={outline.id}>
+                        Outline: {outline.title}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="compile-writer">Format</Label>
+                <Select value={settings.writer} onValueChange={writer => update({ writer })}>
+                  <SelectTrigger id="compile-writer">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {writers.map(writer => (
+                      <SelectItem key={writer.id} value={writer.id}>
+                        {writer.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="compile-separator">Scene separator</Label>
+                <Select
+                  value={settings.sceneSeparator}
+                  onValueChange={value => update({ sceneSeparator: value as SceneSeparator })}
+                >
+                  <SelectTrigger id="compile-separator">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SEPARATORS.map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="compile-numbering">Chapter numbers</Label>
+                <Select
+                  value={settings.chapterNumbering}
+                  onValueChange={value => update({ chapterNumbering: value as ChapterNumbering })}
+                >
+                  <SelectTrigger id="compile-numbering">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {NUMBERING.map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              {([
+                ['chapter-titles', 'Chapter titles', settings.chapterTitles, (checked: boolean) => update({ chapterTitles: checked })],
+                ['title-page', 'Title page', settings.titlePage, (checked: boolean) => update({ titlePage: checked })],
+                ['smart-quotes', 'Smart quotes', settings.smartQuotes, (checked: boolean) => update({ smartQuotes: checked })],
+                ['highlights', 'Remove story bible highlights', settings.stripHighlights, (checked: boolean) => update({ stripHighlights: checked })],
+                ['comments', 'Remove comments', settings.stripComments, (checked: boolean) => update({ stripComments: checked })],
+              ] as const).map(([id, label, checked, onChange]) => (
+                <div key={id} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`compile-${id}`}
+                    checked={checked}
+                    onCheckedChange={value => onChange(value === true)}
+                  />
+                  <Label htmlFor={`compile-${id}`}>{label}</Label>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="compile-author">Author</Label>
+              <Input
+                id="compile-author"
+                value={settings.author ?? ''}
+                onChange={e => update({ author: e.target.value })}
+                maxLength={200}
+              />
+            </div>
+
+            <MatterPages
+              id="compile-front"
+              label="Front matter"
+              pages={settings.frontMatter}
+              onChange={frontMatter => update({ frontMatter })}
+            />
+            <MatterPages
+              id="compile-back"
+              label="Back matter"
+              pages={settings.backMatter}
+              onChange={backMatter => update({ backMatter })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Contents</Label>
+            <ScrollArea className="h-[480px] rounded-md border p-3">
+              {entries.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Nothing with text to compile from this source.</p>
+              ) : (
+                <ul className="space-y-2">
+                  {entries.map((entry, index) => (
+                    <li key={entry.id} className="space-y-1">
+                      <div className="flex items-center gap-2">
+                        <Checkbox
+                          id={`compile-chapter-${entry.id}`}
+                          checked={entry.included}
+                          onCheckedChange={checked => toggleChapter(entry.id, checked === true)}
+                        />
+                        <Label htmlFor={`compile-chapter-${entry.id}`} className="flex-1 truncate">
+                          {entry.title}
+                        </Label>
+                        <OrderButtons onMove={offset => setEntries(prev => move(prev, index, offset))} label={entry.title} />
+                      </div>
+                      <ul className="space-y-1 pl-6">
+                        {entry.scenes.map((scene, sceneIndex) => (
+                          <li key={scene.id} className="flex items-center gap-2">
+                            <Checkbox
+                              id={`compile-scene-${entry.id}-${scene.id}`}
+                              checked={scene.included}
+                              onCheckedChange={checked => toggleScene(entry.id, scene.id, checked === true)}
+                            />
+                            <Label
+                              htmlFor={`compile-scene-${entry.id}-${scene.id}`}
+                              className={cn('flex-1 truncate font-normal', !scene.included && 'text-muted-foreground')}
+                            >
+                              {scene.title}
+                            </Label>
+                            <OrderButtons onMove={offset => moveScene(entry.id, sceneIndex, offset)} label={scene.title} />
+                          </li>
+                        ))}
+                      </ul>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </ScrollArea>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleCompile} disabled={compiling || sceneCount === 0} className="gap-2">
+            <Settings2 className="h-4 w-4" />
+            {compiling ? 'Compiling...' : 'Compile'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
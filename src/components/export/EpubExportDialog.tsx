@@ -0,0 +1,249 @@
+// EpubExportDialog.tsx
+// Options for compiling the current project into an EPUB for e-readers
+
+import { useEffect, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { BookOpen, Type, X } from 'lucide-react';
+import { useProjects } from '@/contexts/ProjectContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { EnhancedOutlineService } from '@/utils/outlineDb';
+import { EnhancedOutline } from '@/types/outline';
+import { ManuscriptSource } from '@/lib/export/manuscript';
+import {
+  EMBEDDABLE_FONT_EXTENSIONS,
+  EPUB_EXTENSION,
+  EmbeddedFont,
+  exportProjectToEpub,
+  fontMediaType,
+} from '@/lib/export/epub';
+import { downloadBlob, toFileName } from '@/utils/download';
+
+interface EpubExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Select value for chapters taken from the binder
+const BINDER = 'binder';
+
+// "Garamond-BoldItalic.ttf" -> Garamond, bold, italic
+function fontFromFile(fileName: string, data: Uint8Array): EmbeddedFont {
+  const stem = fileName.replace(/\.[^.]+$/, '');
+  const [family] = stem.split(/[-_]/);
+  return {
+    family: family.replace(/([a-z])([A-Z])/g, '$1 $2').trim() || stem,
+    fileName,
+    data,
+    weight: /bold/i.test(stem) ? 'bold' : 'normal',
+    style: /italic|oblique/i.test(stem) ? 'italic' : 'normal',
+  };
+}
+
+/**
+ * EpubExportDialog - Collects metadata, chapter source and fonts, then
+ * downloads the project as an EPUB 3 book
+ */
+export function EpubExportDialog({ open, onOpenChange }: EpubExportDialogProps) {
+  const { currentProject } = useProjects();
+  const { user } = useAuth();
+  const { i18n } = useTranslation();
+  const { toast } = useToast();
+  const fontInputRef = useRef<HTMLInputElement>(null);
+  const [author, setAuthor] = useState('');
+  const [language, setLanguage] = useState('');
+  const [source, setSource] = useState(BINDER);
+  const [outlines, setOutlines] = useState<EnhancedOutline[]>([]);
+  const [includeCover, setIncludeCover] = useState(true);
+  const [includeTitlePage, setIncludeTitlePage] = useState(true);
+  const [fonts, setFonts] = useState<EmbeddedFont[]>([]);
+  const [exporting, setExporting] = useState(false);
+
+  useEffect(() => {
+    if (!open || !currentProject) return;
+    setAuthor(user?.displayName ?? '');
+    setLanguage(i18n.language?.split('-')[0] || 'en');
+    setSource(BINDER);
+    EnhancedOutlineService.getProjectOutlines(currentProject.id)
+      .then(setOutlines)
+      .catch(error => console.error('Failed to load outlines:', error));
+  }, [open, currentProject, user, i18n.language]);
+
+  if (!currentProject) return null;
+
+  const handleFontsSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    const supported = files.filter(file => fontMediaType(file.name));
+    if (supported.length < files.length) {
+      toast({
+        title: 'Some fonts were skipped',
+        description: `Only ${EMBEDDABLE_FONT_EXTENSIONS.join(', ')} files can be embedded.`,
+        variant: 'destructive',
+      });
+    }
+    const added = await Promise.all(
+      supported.map(async file => fontFromFile(file.name, new Uint8Array(await file.arrayBuffer())))
+    );
+    setFonts(prev => [...prev, ...added]);
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const manuscriptSource: ManuscriptSource = source === BINDER
+        ? { type: 'binder' }
+        : { type: 'outline', outlineId: source };
+      const blob = await exportProjectToEpub(currentProject.id, {
+        source: manuscriptSource,
+        author,
+        language: language.trim() || 'en',
+        includeCover,
+        includeTitlePage,
+        fonts,
+      });
+      downloadBlob(blob, `${toFileName(currentProject.title, 'manuscript')}${EPUB_EXTENSION}`);
+      toast({
+        title: 'EPUB created',
+        description: `"${currentProject.title}" is ready for e-readers.`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'Export failed',
+        description: error instanceof Error ? error.message : 'Failed to export EPUB',
+        variant: 'destructive',
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Export EPUB</DialogTitle>
+          <DialogDescription>
+            Compiles {currentProject.title} into an e-book with a table of contents, ready for e-readers.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-[1fr_120px] gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="epub-author">Author</Label>
+              <Input id="epub-author" value={author} onChange={e => setAuthor(e.target.value)} maxLength={200} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="epub-language">Language</Label>
+              <Input id="epub-language" value={language} onChange={e => setLanguage(e.target.value)} maxLength={35} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="epub-source">Chapters</Label>
+            <Select value={source} onValueChange={setSource}>
+              <SelectTrigger id="epub-source">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={BINDER}>Manuscript binder order</SelectItem>
+                {outlines.map(outline => (
+                  <SelectItem key={outline.id} value={outline.id}>
+                    Outline: {outline.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="epub-cover"
+                checked={includeCover}
+                disabled={!currentProject.coverImage}
+                onCheckedChange={checked => setIncludeCover(checked === true)}
+              />
+              <Label htmlFor="epub-cover">
+                Cover image{!currentProject.coverImage && ' (the project has none)'}
+              </Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="epub-title-page"
+                checked={includeTitlePage}
+                onCheckedChange={checked => setIncludeTitlePage(checked === true)}
+              />
+              <Label htmlFor="epub-title-page">Title page</Label>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Embedded fonts</Label>
+            {fonts.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                None; e-readers use their own serif font. The first font added is used for the text.
+              </p>
+            ) : (
+              <ul className="space-y-1">
+                {fonts.map((font, index) => (
+                  <li key={`${font.fileName}-${index}`} className="flex items-center justify-between text-sm">
+                    <span>
+                      {font.family} ({font.weight}, {font.style}) · {font.fileName}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0"
+                      aria-label={`Remove ${font.fileName}`}
+                      onClick={() => setFonts(prev => prev.filter((_, i) => i !== index))}
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <Button variant="outline" size="sm" onClick={() => fontInputRef.current?.click()} className="gap-2">
+              <Type className="h-4 w-4" />
+              Add Font Files
+            </Button>
+            <input
+              ref={fontInputRef}
+              type="file"
+              accept={EMBEDDABLE_FONT_EXTENSIONS.join(',')}
+              multiple
+              className="hidden"
+              onChange={handleFontsSelected}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={exporting} className="gap-2">
+            <BookOpen className="h-4 w-4" />
+            {exporting ? 'Exporting...' : 'Export EPUB'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
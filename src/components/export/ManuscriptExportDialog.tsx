@@ -0,0 +1,269 @@
+// ManuscriptExportDialog.tsx
+// Compiles chosen drafts into a standard manuscript format Word document
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { FileText } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Draft, getDrafts } from '@/lib/db';
+import { buildBinderTree, flattenBinder } from '@/lib/binder';
+import { useProjects } from '@/contexts/ProjectContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import {
+  DOCX_EXTENSION,
+  MANUSCRIPT_FORMAT_PRESETS,
+  ManuscriptFormat,
+  exportManuscriptDocx,
+} from '@/lib/export/docx';
+import { downloadBlob, toFileName } from '@/utils/download';
+
+interface ManuscriptExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const FONTS = ['Times New Roman', 'Courier New'];
+
+/**
+ * ManuscriptExportDialog - Picks drafts, a format preset with a few
+ * overrides, and the author details for the title page and header
+ */
+export function ManuscriptExportDialog({ open, onOpenChange }: ManuscriptExportDialogProps) {
+  const { currentProject } = useProjects();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [drafts, setDrafts] = useState<Draft[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [presetId, setPresetId] = useState(MANUSCRIPT_FORMAT_PRESETS[0].id);
+  const [format, setFormat] = useState<ManuscriptFormat>(MANUSCRIPT_FORMAT_PRESETS[0].format);
+  const [name, setName] = useState('');
+  const [surname, setSurname] = useState('');
+  const [penName, setPenName] = useState('');
+  const [contact, setContact] = useState('');
+  const [exporting, setExporting] = useState(false);
+
+  useEffect(() => {
+    if (!open || !currentProject) return;
+    const displayName = user?.displayName ?? '';
+    setName(displayName);
+    setSurname(displayName.split(/\s+/).pop() ?? '');
+    getDrafts(currentProject.id)
+      .then(projectDrafts => {
+        const ordered = flattenBinder(buildBinderTree(projectDrafts));
+        setDrafts(ordered);
+        setSelected(new Set(ordered.map(draft => draft.id)));
+      })
+      .catch(error => console.error('Failed to load drafts:', error));
+  }, [open, currentProject, user]);
+
+  if (!currentProject) return null;
+
+  const choosePreset = (id: string) => {
+    const preset = MANUSCRIPT_FORMAT_PRESETS.find(p => p.id === id);
+    if (!preset) return;
+    setPresetId(id);
+    setFormat(preset.format);
+  };
+
+  const update = (changes: Partial<ManuscriptFormat>) => setFormat(prev => ({ ...prev, ...changes }));
+
+  const toggle = (id: string, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const blob = await exportManuscriptDocx(
+        currentProject.id,
+        {
+          name: name.trim(),
+          surname: surname.trim(),
+          penName: penName.trim() || undefined,
+          contact: contact.split('\n').map(line => line.trim()).filter(Boolean),
+        },
+        format,
+        { draftIds: [...selected] }
+      );
+      downloadBlob(blob, `${toFileName(currentProject.title, 'manuscript')}${DOCX_EXTENSION}`);
+      toast({
+        title: 'Manuscript created',
+        description: `${selected.size} draft${selected.size === 1 ? '' : 's'} compiled into "${currentProject.title}".`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'Export failed',
+        description: error instanceof Error ? error.message : 'Failed to export manuscript',
+        variant: 'destructive',
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Export Manuscript</DialogTitle>
+          <DialogDescription>
+            A Word document in standard manuscript format, as agents and publishers ask for.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-6 md:grid-cols-2">
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="manuscript-preset">Format</Label>
+              <Select value={presetId} onValueChange={choosePreset}>
+                <SelectTrigger id="manuscript-preset">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MANUSCRIPT_FORMAT_PRESETS.map(preset => (
+                    <SelectItem key={preset.id} value={preset.id}>
+                      {preset.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-muted-foreground">
+                {MANUSCRIPT_FORMAT_PRESETS.find(preset => preset.id === presetId)?.description}
+              </p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="manuscript-font">Font</Label>
+                <Select value={format.font} onValueChange={font => update({ font })}>
+                  <SelectTrigger id="manuscript-font">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {FONTS.map(font => (
+                      <SelectItem key={font} value={font}>
+                        {font}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="manuscript-scene-break">Scene break</Label>
+                <Input
+                  id="manuscript-scene-break"
+                  value={format.sceneBreak}
+                  onChange={e => update({ sceneBreak: e.target.value })}
+                  maxLength={20}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              {([
+                ['underline', 'Underline italics', format.italics === 'underline', (checked: boolean) => update({ italics: checked ? 'underline' : 'italic' })],
+                ['title-page', 'Title page with word count', format.titlePage, (checked: boolean) => update({ titlePage: checked })],
+                ['chapter-page', 'Start chapters on a new page', format.chapterNewPage, (checked: boolean) => update({ chapterNewPage: checked })],
+                ['header', 'Surname / title / page header', format.header, (checked: boolean) => update({ header: checked })],
+              ] as const).map(([id, label, checked, onChange]) => (
+                <div key={id} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`manuscript-${id}`}
+                    checked={checked}
+                    onCheckedChange={value => onChange(value === true)}
+                  />
+                  <Label htmlFor={`manuscript-${id}`}>{label}</Label>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="manuscript-name">Legal name</Label>
+                <Input id="manuscript-name" value={name} onChange={e => setName(e.target.value)} maxLength={200} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="manuscript-surname">Surname for header</Label>
+                <Input id="manuscript-surname" value={surname} onChange={e => setSurname(e.target.value)} maxLength={100} />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="manuscript-pen-name">Pen name (optional)</Label>
+              <Input id="manuscript-pen-name" value={penName} onChange={e => setPenName(e.target.value)} maxLength={200} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="manuscript-contact">Contact details</Label>
+              <Textarea
+                id="manuscript-contact"
+                value={contact}
+                onChange={e => setContact(e.target.value)}
+                placeholder={'Street address\nCity, postcode\nemail@example.com'}
+                rows={3}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Drafts</Label>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setSelected(selected.size === drafts.length ? new Set() : new Set(drafts.map(d => d.id)))}
+              >
+                {selected.size === drafts.length ? 'Select none' : 'Select all'}
+              </Button>
+            </div>
+            <ScrollArea className="h-[420px] rounded-md border p-3">
+              <ul className="space-y-2">
+                {drafts.map(draft => (
+                  <li key={draft.id} className={cn('flex items-center gap-2', draft.kind === 'scene' && 'pl-6')}>
+                    <Checkbox
+                      id={`manuscript-draft-${draft.id}`}
+                      checked={selected.has(draft.id)}
+                      onCheckedChange={checked => toggle(draft.id, checked === true)}
+                    />
+                    <Label htmlFor={`manuscript-draft-${draft.id}`} className="truncate font-normal">
+                      {draft.title}
+                    </Label>
+                  </li>
+                ))}
+              </ul>
+            </ScrollArea>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={exporting || selected.size === 0 || !name.trim()} className="gap-2">
+            <FileText className="h-4 w-4" />
+            {exporting ? 'Exporting...' : 'Export DOCX'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,296 @@
+// DocxImportDialog.tsx
+// Imports a Word manuscript as chapters and scenes, with a preview of the split
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { FileUp } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useProjects } from '@/contexts/ProjectContext';
+import { useToast } from '@/hooks/use-toast';
+import {
+  DEFAULT_SPLIT_RULE,
+  DOCX_FILE_TYPES,
+  SplitPoint,
+  SplitRule,
+  findSplitPoints,
+  importDocx,
+  parseDocx,
+  splitDocx,
+} from '@/lib/import/docx';
+import { TextBlock, blockWordCount } from '@/lib/import/blocks';
+
+interface DocxImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: (count: number) => void;
+}
+
+const DEFAULT_PATTERN = 'chapter\\s+(\\d+|[a-z]+)\\b';
+
+type SplitChoice = 'chapter' | 'scene' | 'none';
+
+/**
+ * DocxImportDialog - Reads a .docx file, proposes split points from
+ * headings or a pattern, and lets the writer adjust them before import
+ */
+export function DocxImportDialog({ open, onOpenChange, onImported }: DocxImportDialogProps) {
+  const { currentProject } = useProjects();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState('');
+  const [blocks, setBlocks] = useState<TextBlock[]>([]);
+  const [chapterRule, setChapterRule] = useState('1');
+  const [pattern, setPattern] = useState(DEFAULT_PATTERN);
+  const [scenes, setScenes] = useState<SplitRule['scenes']>(DEFAULT_SPLIT_RULE.scenes);
+  const [points, setPoints] = useState<SplitPoint[]>([]);
+  // Where the rule split, kept in the list after a split is turned off
+  const [suggested, setSuggested] = useState<Set<number>>(new Set());
+  const [patternError, setPatternError] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+
+  useEffect(() => {
+    if (!open) {
+      setFileName('');
+      setBlocks([]);
+      setPoints([]);
+    }
+  }, [open]);
+
+  useEffect(() => {
+    const rule: SplitRule = {
+      chapters: chapterRule === 'pattern' ? { type: 'pattern', pattern } : { type: 'heading', level: Number(chapterRule) },
+      scenes,
+    };
+    try {
+      const found = findSplitPoints(blocks, rule);
+      setPoints(found);
+      setSuggested(new Set(found.map(point => point.index)));
+      setPatternError(null);
+    } catch (error) {
+      setPatternError(error instanceof Error ? error.message : 'Invalid pattern');
+    }
+  }, [blocks, chapterRule, pattern, scenes]);
+
+  const candidates = useMemo(() => {
+    return blocks
+      .map((block, index) => ({ block, index }))
+      .filter(({ block, index }) => suggested.has(index) || block.heading > 0 || block.sceneBreak);
+  }, [blocks, suggested]);
+
+  const sections = useMemo(() => {
+    const sorted = [...points].sort((a, b) => a.index - b.index);
+    const words = new Map<number, number>();
+    sorted.forEach((point, i) => {
+      words.set(point.index, blockWordCount(blocks.slice(point.index + 1, sorted[i + 1]?.index ?? blocks.length)));
+    });
+    return {
+      words,
+      leadWords: blockWordCount(blocks.slice(0, sorted[0]?.index ?? blocks.length)),
+      chapters: sorted.filter(point => point.kind === 'chapter').length,
+      scenes: sorted.filter(point => point.kind === 'scene').length,
+    };
+  }, [blocks, points]);
+
+  if (!currentProject) return null;
+
+  const leadTitle = fileName.replace(/\.[^.]+$/, '') || 'Imported text';
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      setBlocks(parseDocx(new Uint8Array(await file.arrayBuffer())));
+      setFileName(file.name);
+    } catch (error) {
+      toast({
+        title: 'Could not read document',
+        description: error instanceof Error ? error.message : 'Failed to read document',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const setChoice = (block: TextBlock, index: number, choice: SplitChoice) => {
+    setPoints(prev => {
+      const rest = prev.filter(point => point.index !== index);
+      if (choice === 'none') return rest;
+      const title = prev.find(point => point.index === index)?.title ?? (block.sceneBreak ? 'Scene' : block.text);
+      return [...rest, { index, kind: choice, title }];
+    });
+  };
+
+  const setTitle = (index: number, title: string) => {
+    setPoints(prev => prev.map(point => point.index === index ? { ...point, title } : point));
+  };
+
+  const handleImport = async () => {
+    setImporting(true);
+    try {
+      const ids = await importDocx(currentProject.id, splitDocx(blocks, points, leadTitle));
+      onImported(ids.length);
+      toast({
+        title: 'Document imported',
+        description: `${ids.length} draft${ids.length === 1 ? '' : 's'} added to the end of the manuscript.`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'Import failed',
+        description: error instanceof Error ? error.message : 'Failed to import document',
+        variant: 'destructive',
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import Word Document</DialogTitle>
+          <DialogDescription>
+            Splits a manuscript into chapters and scenes at the end of {currentProject.title}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center gap-3">
+            <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} className="gap-2">
+              <FileUp className="h-4 w-4" />
+              Choose .docx File
+            </Button>
+            <span className="text-sm text-muted-foreground truncate">{fileName || 'No file chosen'}</span>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={DOCX_FILE_TYPES.join(',')}
+              className="hidden"
+              onChange={handleFileSelected}
+            />
+          </div>
+
+          {blocks.length > 0 && (
+            <>
+              <div className="grid gap-3 sm:grid-cols-3">
+                <div className="space-y-2">
+                  <Label htmlFor="docx-chapters">Chapters start at</Label>
+                  <Select value={chapterRule} onValueChange={setChapterRule}>
+                    <SelectTrigger id="docx-chapters">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="1">Heading 1</SelectItem>
+                      <SelectItem value="2">Heading 1 or 2</SelectItem>
+                      <SelectItem value="3">Heading 1 to 3</SelectItem>
+                      <SelectItem value="pattern">Paragraphs matching a pattern</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="docx-pattern">Pattern</Label>
+                  <Input
+                    id="docx-pattern"
+                    value={pattern}
+                    onChange={e => setPattern(e.target.value)}
+                    disabled={chapterRule !== 'pattern'}
+                    className={cn(patternError && 'border-destructive')}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="docx-scenes">Scenes start at</Label>
+                  <Select value={scenes} onValueChange={value => setScenes(value as SplitRule['scenes'])}>
+                    <SelectTrigger id="docx-scenes">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Don't split scenes</SelectItem>
+                      <SelectItem value="heading">The next heading level</SelectItem>
+                      <SelectItem value="scene-break">Scene breaks (#, * * *)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              {patternError && <p className="text-sm text-destructive">{patternError}</p>}
+
+              <p className="text-sm text-muted-foreground">
+                {sections.chapters} chapter{sections.chapters === 1 ? '' : 's'}, {sections.scenes} scene{sections.scenes === 1 ? '' : 's'},{' '}
+                {blockWordCount(blocks).toLocaleString()} words. Change any split point below.
+              </p>
+
+              <ScrollArea className="h-[320px] rounded-md border">
+                <ul className="divide-y">
+                  {sections.leadWords > 0 && (
+                    <li className="flex items-center justify-between gap-3 p-3 text-sm">
+                      <span className="font-medium">{leadTitle}</span>
+                      <span className="text-muted-foreground">{sections.leadWords.toLocaleString()} words before the first split</span>
+                    </li>
+                  )}
+                  {candidates.map(({ block, index }) => {
+                    const point = points.find(p => p.index === index);
+                    return (
+                      <li key={index} className={cn('flex items-center gap-3 p-3', !point && 'opacity-60')}>
+                        <Select
+                          value={point?.kind ?? 'none'}
+                          onValueChange={value => setChoice(block, index, value as SplitChoice)}
+                        >
+                          <SelectTrigger className="w-[120px] shrink-0" aria-label="Split here as">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="chapter">Chapter</SelectItem>
+                            <SelectItem value="scene">Scene</SelectItem>
+                            <SelectItem value="none">No split</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        {point ? (
+                          <Input
+                            value={point.title}
+                            onChange={e => setTitle(index, e.target.value)}
+                            maxLength={200}
+                            aria-label="Title"
+                            className={cn(point.kind === 'scene' && 'ml-6')}
+                          />
+                        ) : (
+                          <span className="flex-1 truncate text-sm">{block.text}</span>
+                        )}
+                        <span className="shrink-0 text-xs text-muted-foreground">
+                          {point
+                            ? `${(sections.words.get(index) ?? 0).toLocaleString()} words`
+                            : block.sceneBreak ? 'Scene break' : block.heading ? `Heading ${block.heading}` : 'Pattern match'}
+                        </span>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </ScrollArea>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={importing || blocks.length === 0 || !!patternError} className="gap-2">
+            <FileUp className="h-4 w-4" />
+            {importing ? 'Importing...' : 'Import'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,198 @@
+// ScrivenerImportDialog.tsx
+// Imports a zipped Scrivener project as drafts, an outline and story bible entries
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { FileUp } from 'lucide-react';
+import { useProjects } from '@/contexts/ProjectContext';
+import { useToast } from '@/hooks/use-toast';
+import {
+  SCRIVENER_FILE_TYPES,
+  ScrivenerImportPlan,
+  ScrivenerImportSummary,
+  importScrivener,
+  readScrivener,
+} from '@/lib/import/scrivener';
+import { OutlineValidation } from '@/utils/outline/outlineValidation';
+
+interface ScrivenerImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: (count: number) => void;
+}
+
+const plural = (count: number, noun: string, nouns = `${noun}s`) => `${count.toLocaleString()} ${count === 1 ? noun : nouns}`;
+const entries = (count: number) => plural(count, 'story bible entry', 'story bible entries');
+
+/**
+ * ScrivenerImportDialog - Reads a zipped .scriv project, shows what will be
+ * brought across and what can't be, then imports it and reports the result
+ */
+export function ScrivenerImportDialog({ open, onOpenChange, onImported }: ScrivenerImportDialogProps) {
+  const { currentProject } = useProjects();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState('');
+  const [plan, setPlan] = useState<ScrivenerImportPlan | null>(null);
+  const [summary, setSummary] = useState<ScrivenerImportSummary | null>(null);
+  const [importing, setImporting] = useState(false);
+
+  useEffect(() => {
+    if (!open) {
+      setFileName('');
+      setPlan(null);
+      setSummary(null);
+    }
+  }, [open]);
+
+  const counts = useMemo(() => {
+    if (!plan) return null;
+    const byType = new Map<string, number>();
+    plan.entries.forEach(entry => byType.set(entry.type, (byType.get(entry.type) ?? 0) + 1));
+    return {
+      chapters: plan.drafts.length,
+      scenes: plan.drafts.reduce((total, draft) => total + (draft.children?.length ?? 0), 0),
+      entryTypes: Array.from(byType, ([type, count]) => `${count} ${type}`).join(', '),
+    };
+  }, [plan]);
+
+  if (!currentProject) return null;
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      setPlan(readScrivener(new Uint8Array(await file.arrayBuffer())));
+      setSummary(null);
+      setFileName(file.name);
+    } catch (error) {
+      toast({
+        title: 'Could not read project',
+        description: error instanceof Error ? error.message : 'Failed to read project',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleImport = async () => {
+    if (!plan) return;
+    setImporting(true);
+    try {
+      const result = await importScrivener(currentProject.id, plan);
+      setSummary(result);
+      onImported(result.drafts);
+      toast({
+        title: 'Scrivener project imported',
+        description: `${plural(result.drafts, 'draft')} and ${entries(result.entries)} added.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Import failed',
+        description: error instanceof Error ? error.message : 'Failed to import project',
+        variant: 'destructive',
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const skipped = summary?.skipped ?? plan?.skipped ?? [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import Scrivener Project</DialogTitle>
+          <DialogDescription>
+            Zip the .scriv folder first. Its manuscript is added to the end of {currentProject.title}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center gap-3">
+            <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={importing} className="gap-2">
+              <FileUp className="h-4 w-4" />
+              Choose .zip File
+            </Button>
+            <span className="text-sm text-muted-foreground truncate">{fileName || 'No file chosen'}</span>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={SCRIVENER_FILE_TYPES.join(',')}
+              className="hidden"
+              onChange={handleFileSelected}
+            />
+          </div>
+
+          {plan && counts && (
+            <ul className="space-y-1 text-sm">
+              {summary ? (
+                <>
+                  <li>{plural(summary.drafts, 'draft')} added to the binder</li>
+                  <li>{plural(summary.outlineScenes, 'scene')} in the new outline "{plan.title}"</li>
+                  <li>{entries(summary.entries)} created</li>
+                </>
+              ) : (
+                <>
+                  <li>{plural(counts.chapters, 'chapter')} and {plural(counts.scenes, 'scene')} for the binder</li>
+                  <li>An outline named "{plan.title}"</li>
+                  <li>
+                    {entries(plan.entries.length)}
+                    {counts.entryTypes && ` (${counts.entryTypes})`}
+                  </li>
+                </>
+              )}
+              {plan.omittedScenes > 0 && (
+                <li className="text-destructive">
+                  {plural(plan.omittedScenes, 'scene')} past the outline limit of {OutlineValidation.getMaxScenes()} will be in the binder only
+                </li>
+              )}
+            </ul>
+          )}
+
+          {skipped.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Not imported</p>
+              <ScrollArea className="h-[200px] rounded-md border">
+                <ul className="divide-y">
+                  {skipped.map((item, index) => (
+                    <li key={index} className="flex items-center justify-between gap-3 p-2 text-sm">
+                      <span className="truncate">{item.title}</span>
+                      <span className="shrink-0 text-xs text-muted-foreground">{item.reason}</span>
+                    </li>
+                  ))}
+                </ul>
+              </ScrollArea>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          {summary ? (
+            <Button onClick={() => onOpenChange(false)}>Done</Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleImport} disabled={importing || !plan} className="gap-2">
+                <FileUp className="h-4 w-4" />
+                {importing ? 'Importing...' : 'Import'}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -23,6 +23,8 @@ import {
   FileText, 
   BookOpen, 
   Settings, 
+  Search,
+  Trash2,
   LogOut,
   Plus,
   List
@@ -67,6 +69,8 @@ export function AppSidebar() {
     { name: 'Dashboard', href: '/app/dashboard', icon: Home },
     { name: 'Editor', href: '/app/editor', icon: FileText },
     { name: 'Story Bible', href: '/app/story-bible', icon: BookOpen },
+    { name: 'Search', href: '/app/search', icon: Search },
+    { name: 'Trash', href: '/app/trash', icon: Trash2 },
     { name: 'Settings', href: '/app/settings', icon: Settings },
   ];
 
@@ -1,16 +1,21 @@
 
+import { useRef } from 'react';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { AlertTriangle, Sparkles } from 'lucide-react';
+import { AlertTriangle, FileDown, FileUp, Sparkles } from 'lucide-react';
 import { EnhancedOutlineService } from '@/utils/outlineDb';
+import { OPML_FILE_TYPES } from '@/lib/import/opml';
 
 interface OutlineHeaderProps {
   totalScenes: number;
   aiLoading: boolean;
   onGenerateAI: () => void;
+  onExportOpml: () => void;
+  onImportOpml: (file: File) => void;
 }
 
-export default function OutlineHeader({ totalScenes, aiLoading, onGenerateAI }: OutlineHeaderProps) {
+export default function OutlineHeader({ totalScenes, aiLoading, onGenerateAI, onExportOpml, onImportOpml }: OutlineHeaderProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const sceneWarningThreshold = EnhancedOutlineService.getMaxScenes() * 0.8;
   const showSceneWarning = totalScenes >= sceneWarningThreshold;
 
@@ -25,6 +30,23 @@ export default function OutlineHeader({ totalScenes, aiLoading, onGenerateAI }:
         </div>
         <div className="flex gap-2">
           {aiLoading && <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-primary"></div>}
+          <Button variant="ghost" size="sm" onClick={onExportOpml} title="Export as OPML">
+            <FileDown className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => fileInputRef.current?.click()} title="Import OPML">
+            <FileUp className="h-4 w-4" />
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={OPML_FILE_TYPES.join(',')}
+            className="hidden"
+            onChange={e => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) onImportOpml(file);
+            }}
+          />
           <Button variant="ghost" size="sm" onClick={onGenerateAI}>
             <Sparkles className="h-4 w-4" />
           </Button>
@@ -0,0 +1,294 @@
+// FindReplaceDialog.tsx
+// Find and replace across the open draft or the whole project, with a preview of every match
+
+import { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { BookOpen, FileText, List, Replace } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useFindReplace } from '@/hooks/useFindReplace';
+import { ReplaceQuery, ReplaceSourceType, ReplaceSummary, ReplaceTarget, replaceInProject } from '@/lib/replace';
+
+const SOURCE_ICONS: Record<ReplaceSourceType, typeof FileText> = {
+  draft: FileText,
+  outline: List,
+  story_bible: BookOpen,
+};
+
+const EMPTY_QUERY: ReplaceQuery = { find: '', replace: '', caseSensitive: false, wholeWord: false, regex: false };
+
+const matchId = (target: ReplaceTarget, index: number) => `${target.key}#${index}`;
+
+const describeSummary = ({ replacements, drafts, outlineNodes, storyBibleEntries }: ReplaceSummary) => {
+  if (replacements === 0) return 'Nothing was replaced.';
+  const places = [
+    drafts && `${drafts} draft${drafts === 1 ? '' : 's'}`,
+    outlineNodes && `${outlineNodes} outline note${outlineNodes === 1 ? '' : 's'}`,
+    storyBibleEntries && `${storyBibleEntries} story bible entr${storyBibleEntries === 1 ? 'y' : 'ies'}`,
+  ].filter(Boolean);
+  return `${replacements} replacement${replacements === 1 ? '' : 's'} in ${places.join(', ')}.`;
+};
+
+interface FindReplaceDialogProps {
+  projectId: string;
+  // The open draft, searched on its own when the scope is "This draft"
+  draftId?: string;
+  // Edits in the open draft that replacing would overwrite
+  hasUnsavedChanges?: boolean;
+  onReplaced?: (summary: ReplaceSummary) => void;
+}
+
+/**
+ * FindReplaceDialog - Replace button and dialog for the editor header. Every
+ * match is previewed in context and can be left out before replacing.
+ */
+export function FindReplaceDialog({ projectId, draftId, hasUnsavedChanges = false, onReplaced }: FindReplaceDialogProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState<ReplaceQuery>(EMPTY_QUERY);
+  const [scope, setScope] = useState<'draft' | 'project'>(draftId ? 'draft' : 'project');
+  const [includeOutline, setIncludeOutline] = useState(false);
+  const [includeStoryBible, setIncludeStoryBible] = useState(false);
+  // Matches left out of the replacement; everything else is replaced
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [replacing, setReplacing] = useState(false);
+
+  const options = useMemo(() => ({
+    draftId: scope === 'draft' ? draftId : undefined,
+    includeOutline: scope === 'project' && includeOutline,
+    includeStoryBible: scope === 'project' && includeStoryBible,
+  }), [scope, draftId, includeOutline, includeStoryBible]);
+
+  const { targets, loading, error, refresh } = useFindReplace({
+    projectId: open ? projectId : undefined,
+    query,
+    options,
+  });
+
+  // Only a new search changes which matches there are; a new replacement text doesn't
+  useEffect(() => setExcluded(new Set()), [query.find, query.caseSensitive, query.wholeWord, query.regex, options]);
+
+  useEffect(() => {
+    if (!draftId) setScope('project');
+  }, [draftId]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.shiftKey && e.key.toLowerCase() === 'h') {
+        e.preventDefault();
+        setOpen(true);
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const update = (changes: Partial<ReplaceQuery>) => setQuery(prev => ({ ...prev, ...changes }));
+
+  const total = targets.reduce((count, target) => count + target.matches.length, 0);
+  const selectedCount = total - excluded.size;
+  const touchesOpenDraft = targets.some(target => target.sourceType === 'draft' && target.sourceId === draftId);
+  const blocked = hasUnsavedChanges && touchesOpenDraft;
+
+  const toggleMatches = (ids: string[], include: boolean) => {
+    setExcluded(prev => {
+      const next = new Set(prev);
+      ids.forEach(id => (include ? next.delete(id) : next.add(id)));
+      return next;
+    });
+  };
+
+  const handleReplace = async () => {
+    const selection = Object.fromEntries(targets.map(target => [
+      target.key,
+      target.matches.map((_, i) => i).filter(i => !excluded.has(matchId(target, i))),
+    ]));
+
+    setReplacing(true);
+    try {
+      const summary = await replaceInProject(projectId, query, options, selection);
+      toast({
+        title: 'Text replaced',
+        description: `${describeSummary(summary)}${summary.drafts ? ' Each draft has a version from before the change.' : ''}`,
+      });
+      onReplaced?.(summary);
+      setExcluded(new Set());
+      refresh();
+    } catch (error) {
+      toast({
+        title: 'Replace failed',
+        description: error instanceof Error ? error.message : 'Failed to replace text',
+        variant: 'destructive',
+      });
+    } finally {
+      setReplacing(false);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-8 w-8 p-0"
+        title="Find and replace (Ctrl+Shift+H)"
+        onClick={() => setOpen(true)}
+      >
+        <Replace className="h-4 w-4" />
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-3xl max-h-[90vh] flex flex-col">
+          <DialogHeader>
+            <DialogTitle>Find and Replace</DialogTitle>
+            <DialogDescription>
+              Review the matches below and untick any you want to keep as they are.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="replace-find">Find</Label>
+              <Input
+                id="replace-find"
+                autoFocus
+                value={query.find}
+                onChange={(e) => update({ find: e.target.value })}
+                placeholder={query.regex ? 'Regular expression' : 'Text to find'}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="replace-with">Replace with</Label>
+              <Input
+                id="replace-with"
+                value={query.replace}
+                onChange={(e) => update({ replace: e.target.value })}
+                placeholder={query.regex ? 'Use $1 for groups' : 'Replacement'}
+              />
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+            {([
+              ['case', 'Match case', query.caseSensitive, (checked: boolean) => update({ caseSensitive: checked })],
+              ['word', 'Whole word', query.wholeWord, (checked: boolean) => update({ wholeWord: checked })],
+              ['regex', 'Regular expression', query.regex, (checked: boolean) => update({ regex: checked })],
+            ] as const).map(([id, label, checked, onChange]) => (
+              <div key={id} className="flex items-center gap-2">
+                <Checkbox id={`replace-${id}`} checked={checked} onCheckedChange={value => onChange(value === true)} />
+                <Label htmlFor={`replace-${id}`}>{label}</Label>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+            <Select value={scope} onValueChange={(value) => setScope(value as 'draft' | 'project')}>
+              <SelectTrigger className="w-40" aria-label="Search in">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {draftId && <SelectItem value="draft">This draft</SelectItem>}
+                <SelectItem value="project">All drafts</SelectItem>
+              </SelectContent>
+            </Select>
+            {scope === 'project' && ([
+              ['outline', 'Outline notes', includeOutline, setIncludeOutline],
+              ['story-bible', 'Story bible descriptions', includeStoryBible, setIncludeStoryBible],
+            ] as const).map(([id, label, checked, onChange]) => (
+              <div key={id} className="flex items-center gap-2">
+                <Checkbox id={`replace-${id}`} checked={checked} onCheckedChange={value => onChange(value === true)} />
+                <Label htmlFor={`replace-${id}`}>{label}</Label>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex-1 min-h-[12rem] overflow-y-auto border rounded-md">
+            {error ? (
+              <p className="text-sm text-destructive text-center py-8">{error}</p>
+            ) : !query.find ? (
+              <p className="text-sm text-muted-foreground text-center py-8">Type something to find</p>
+            ) : !loading && targets.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">No matches</p>
+            ) : (
+              <ul className="divide-y divide-border">
+                {targets.map(target => {
+                  const Icon = SOURCE_ICONS[target.sourceType];
+                  const ids = target.matches.map((_, i) => matchId(target, i));
+                  const included = ids.filter(id => !excluded.has(id)).length;
+                  return (
+                    <li key={target.key} className="px-3 py-2 space-y-1">
+                      <div className="flex items-center gap-2 min-w-0">
+                        <Checkbox
+                          aria-label={`Replace all matches in ${target.title}`}
+                          checked={included === ids.length ? true : included === 0 ? false : 'indeterminate'}
+                          onCheckedChange={value => toggleMatches(ids, value === true)}
+                        />
+                        <Icon className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                        <span className="font-medium truncate">{target.title}</span>
+                        {target.context && (
+                          <span className="text-xs text-muted-foreground truncate">{target.context}</span>
+                        )}
+                        <Badge variant="secondary" className="ml-auto flex-shrink-0">
+                          {target.matches.length}
+                        </Badge>
+                      </div>
+                      <ul className="pl-6 space-y-1">
+                        {target.matches.map((match, i) => {
+                          const id = matchId(target, i);
+                          return (
+                            <li key={id} className="flex items-start gap-2 text-sm">
+                              <Checkbox
+                                className="mt-0.5"
+                                aria-label={`Replace match ${i + 1} in ${target.title}`}
+                                checked={!excluded.has(id)}
+                                onCheckedChange={value => toggleMatches([id], value === true)}
+                              />
+                              <p className="text-muted-foreground break-words min-w-0">
+                                {match.before}
+                                <del className="bg-red-100 dark:bg-red-900/50 text-red-700 dark:text-red-300">{match.text}</del>
+                                {match.replacement && (
+                                  <ins className="bg-green-100 dark:bg-green-900/50 text-green-700 dark:text-green-300 no-underline">
+                                    {match.replacement}
+                                  </ins>
+                                )}
+                                {match.after}
+                              </p>
+                            </li>
+                          );
+                        })}
+                      </ul>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+
+          <DialogFooter className="items-center gap-2 sm:justify-between">
+            <span className="text-sm text-muted-foreground">
+              {blocked
+                ? 'Save the open draft before replacing in it.'
+                : total > 0 && `${selectedCount} of ${total} match${total === 1 ? '' : 'es'} selected`}
+            </span>
+            <Button onClick={handleReplace} disabled={replacing || loading || selectedCount === 0 || blocked}>
+              {replacing ? 'Replacing...' : 'Replace selected'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
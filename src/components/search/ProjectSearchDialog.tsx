@@ -0,0 +1,96 @@
+// ProjectSearchDialog.tsx
+// Quick project-wide search from inside the editor (Ctrl/Cmd+Shift+F)
+
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Search } from 'lucide-react';
+import { useProjectSearch } from '@/hooks/useProjectSearch';
+import { SearchResultList } from './SearchResultList';
+import { searchResultPath } from './searchRoutes';
+
+interface ProjectSearchDialogProps {
+  projectId: string;
+}
+
+/**
+ * ProjectSearchDialog - Search button and dialog for the editor header
+ */
+export function ProjectSearchDialog({ projectId }: ProjectSearchDialogProps) {
+  const navigate = useNavigate();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const { results, loading } = useProjectSearch({ projectId, query, limit: 20 });
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.shiftKey && e.key.toLowerCase() === 'f') {
+        e.preventDefault();
+        setOpen(true);
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-8 w-8 p-0"
+        title="Search project (Ctrl+Shift+F)"
+        onClick={() => setOpen(true)}
+      >
+        <Search className="h-4 w-4" />
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-2xl p-0 gap-0">
+          <DialogHeader className="p-4 pb-2">
+            <DialogTitle>Search Project</DialogTitle>
+          </DialogHeader>
+          <div className="px-4 pb-3">
+            <Input
+              autoFocus
+              placeholder="Search drafts, outline and story bible..."
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+            />
+          </div>
+          <div className="max-h-[60vh] overflow-y-auto border-t">
+            {query.trim() && !loading && results.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">No matches</p>
+            ) : (
+              <SearchResultList
+                compact
+                results={results}
+                onSelect={(result) => {
+                  setOpen(false);
+                  navigate(searchResultPath(result));
+                }}
+              />
+            )}
+          </div>
+          {query.trim() && (
+            <div className="border-t px-4 py-2 text-right">
+              <Button
+                variant="link"
+                size="sm"
+                onClick={() => {
+                  setOpen(false);
+                  navigate(`/app/search?q=${encodeURIComponent(query)}`);
+                }}
+              >
+                Open full search
+              </Button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,73 @@
+// SearchResultList.tsx
+// Ranked project search results with highlighted titles and snippets
+
+import { Badge } from '@/components/ui/badge';
+import { FileText, List, BookOpen } from 'lucide-react';
+import { SearchResult, SearchSourceType, SnippetSegment } from '@/lib/search';
+
+const SOURCE_ICONS: Record<SearchSourceType, typeof FileText> = {
+  draft: FileText,
+  outline: List,
+  story_bible: BookOpen,
+};
+
+const Highlighted = ({ segments }: { segments: SnippetSegment[] }) => (
+  <>
+    {segments.map((segment, i) =>
+      segment.highlight ? (
+        <mark key={i} className="bg-yellow-200 dark:bg-yellow-800 text-inherit rounded-sm px-0.5">
+          {segment.text}
+        </mark>
+      ) : (
+        <span key={i}>{segment.text}</span>
+      )
+    )}
+  </>
+);
+
+interface SearchResultListProps {
+  results: SearchResult[];
+  onSelect: (result: SearchResult) => void;
+  compact?: boolean;
+}
+
+/**
+ * SearchResultList - Renders search results as selectable rows
+ */
+export function SearchResultList({ results, onSelect, compact = false }: SearchResultListProps) {
+  return (
+    <ul className="divide-y divide-border">
+      {results.map(result => {
+        const { document } = result;
+        const Icon = SOURCE_ICONS[document.sourceType];
+        return (
+          <li key={document.id}>
+            <button
+              type="button"
+              onClick={() => onSelect(result)}
+              className="w-full text-left px-3 py-2 hover:bg-accent focus:bg-accent focus:outline-none"
+            >
+              <div className="flex items-center gap-2 min-w-0">
+                <Icon className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                <span className="font-medium truncate">
+                  <Highlighted segments={result.titleSegments} />
+                </span>
+                <Badge variant="secondary" className="ml-auto flex-shrink-0 capitalize">
+                  {document.kind}
+                </Badge>
+              </div>
+              {document.context && (
+                <div className="text-xs text-muted-foreground truncate mt-0.5">{document.context}</div>
+              )}
+              {result.snippet.length > 0 && (
+                <p className={`text-sm text-muted-foreground mt-1 ${compact ? 'line-clamp-2' : 'line-clamp-3'}`}>
+                  <Highlighted segments={result.snippet} />
+                </p>
+              )}
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,15 @@
+import { SearchResult } from '@/lib/search';
+
+/**
+ * Where selecting a search result takes the user
+ */
+export const searchResultPath = ({ document }: SearchResult): string => {
+  switch (document.sourceType) {
+    case 'draft':
+      return `/app/editor/${document.projectId}?draft=${document.sourceId}`;
+    case 'outline':
+      return `/app/editor/${document.projectId}`;
+    case 'story_bible':
+      return `/app/story-bible?q=${encodeURIComponent(document.title)}`;
+  }
+};
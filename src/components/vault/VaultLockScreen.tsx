@@ -0,0 +1,76 @@
+// VaultLockScreen.tsx
+// Full-screen passphrase prompt shown instead of the app while the vault is locked
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Lock, LogOut } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useVault } from '@/contexts/VaultContext';
+
+/**
+ * VaultLockScreen - Unlocks the vault for the signed-in user
+ */
+export function VaultLockScreen() {
+  const { user, signOut } = useAuth();
+  const { unlock } = useVault();
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [unlocking, setUnlocking] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!passphrase) return;
+
+    setUnlocking(true);
+    setError(null);
+    try {
+      await unlock(passphrase);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to unlock');
+    } finally {
+      setPassphrase('');
+      setUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-background p-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader className="text-center">
+          <Lock className="h-10 w-10 mx-auto text-muted-foreground" />
+          <CardTitle>Vault locked</CardTitle>
+          <CardDescription>
+            Enter your passphrase to open your manuscripts{user?.email ? ` as ${user.email}` : ''}.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="vault-passphrase">Passphrase</Label>
+              <Input
+                id="vault-passphrase"
+                type="password"
+                autoComplete="current-password"
+                autoFocus
+                value={passphrase}
+                onChange={e => setPassphrase(e.target.value)}
+                disabled={unlocking}
+              />
+              {error && <p className="text-sm text-destructive">{error}</p>}
+            </div>
+            <Button type="submit" className="w-full" disabled={unlocking || !passphrase}>
+              {unlocking ? 'Unlocking...' : 'Unlock'}
+            </Button>
+            <Button type="button" variant="ghost" className="w-full gap-2" onClick={() => signOut()}>
+              <LogOut className="h-4 w-4" />
+              Sign out
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+// VaultSettingsCard.tsx
+// Settings card for setting up, locking, re-keying and removing the passphrase vault
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Lock, KeyRound, ShieldOff } from 'lucide-react';
+import { useVault } from '@/contexts/VaultContext';
+import { useToast } from '@/hooks/use-toast';
+import { MIN_PASSPHRASE_LENGTH } from '@/lib/vault';
+
+type VaultDialog = 'enable' | 'change' | 'disable' | null;
+
+/**
+ * VaultSettingsCard - Manages at-rest encryption of drafts, outlines, story
+ * bible details and version history
+ */
+export function VaultSettingsCard() {
+  const { status, lock, enable, changePassphrase, disable } = useVault();
+  const { toast } = useToast();
+  const [dialog, setDialog] = useState<VaultDialog>(null);
+  const [current, setCurrent] = useState('');
+  const [next, setNext] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [working, setWorking] = useState(false);
+
+  const openDialog = (which: VaultDialog) => {
+    setCurrent('');
+    setNext('');
+    setConfirm('');
+    setDialog(which);
+  };
+
+  const needsNew = dialog === 'enable' || dialog === 'change';
+  const needsCurrent = dialog === 'change' || dialog === 'disable';
+  const mismatch = needsNew && confirm.length > 0 && next !== confirm;
+  const canSubmit =
+    (!needsCurrent || current.length > 0) &&
+    (!needsNew || (next.length >= MIN_PASSPHRASE_LENGTH && next === confirm));
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!canSubmit) return;
+
+    setWorking(true);
+    try {
+      if (dialog === 'enable') {
+        await enable(next);
+        toast({ title: 'Vault enabled', description: 'Your manuscripts are now encrypted on this device.' });
+      } else if (dialog === 'change') {
+        await changePassphrase(current, next);
+        toast({ title: 'Passphrase changed', description: 'Everything has been re-encrypted with the new passphrase.' });
+      } else if (dialog === 'disable') {
+        await disable(current);
+        toast({ title: 'Vault removed', description: 'Your manuscripts are stored unencrypted again.' });
+      }
+      setDialog(null);
+    } catch (error) {
+      toast({
+        title: 'Vault error',
+        description: error instanceof Error ? error.message : 'Vault operation failed',
+        variant: 'destructive',
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const titles: Record<Exclude<VaultDialog, null>, string> = {
+    enable: 'Set up vault',
+    change: 'Change passphrase',
+    disable: 'Remove vault',
+  };
+
+  const descriptions: Record<Exclude<VaultDialog, null>, string> = {
+    enable: 'There is no way to recover a forgotten passphrase. Keep a backup archive somewhere safe.',
+    change: 'All of your projects are re-encrypted with the new passphrase.',
+    disable: 'All of your projects are decrypted and stored in plain text on this device.',
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <CardTitle>Encryption Vault</CardTitle>
+          <Badge variant={status === 'disabled' ? 'secondary' : 'default'}>
+            {status === 'disabled' ? 'Off' : 'On'}
+          </Badge>
+        </div>
+        <CardDescription>
+          Encrypts draft content and synopses, outlines, story bible details and version history on this
+          device with a passphrase. Useful on shared computers. Backup archives are not encrypted.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-wrap gap-2">
+        {status === 'disabled' ? (
+          <Button onClick={() => openDialog('enable')} className="gap-2">
+            <Lock className="h-4 w-4" />
+            Set Up Vault
+          </Button>
+        ) : (
+          <>
+            <Button onClick={lock} className="gap-2">
+              <Lock className="h-4 w-4" />
+              Lock Now
+            </Button>
+            <Button variant="outline" onClick={() => openDialog('change')} className="gap-2">
+              <KeyRound className="h-4 w-4" />
+              Change Passphrase
+            </Button>
+            <Button variant="outline" onClick={() => openDialog('disable')} className="gap-2 text-destructive">
+              <ShieldOff className="h-4 w-4" />
+              Remove Vault
+            </Button>
+          </>
+        )}
+      </CardContent>
+
+      <Dialog open={dialog !== null} onOpenChange={open => !open && !working && setDialog(null)}>
+        <DialogContent>
+          {dialog && (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <DialogHeader>
+                <DialogTitle>{titles[dialog]}</DialogTitle>
+                <DialogDescription>{descriptions[dialog]}</DialogDescription>
+              </DialogHeader>
+
+              {needsCurrent && (
+                <div className="space-y-2">
+                  <Label htmlFor="vault-current">Current passphrase</Label>
+                  <Input
+                    id="vault-current"
+                    type="password"
+                    autoComplete="current-password"
+                    value={current}
+                    onChange={e => setCurrent(e.target.value)}
+                  />
+                </div>
+              )}
+
+              {needsNew && (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="vault-new">New passphrase</Label>
+                    <Input
+                      id="vault-new"
+                      type="password"
+                      autoComplete="new-password"
+                      value={next}
+                      onChange={e => setNext(e.target.value)}
+                    />
+                    <p className="text-xs text-muted-foreground">At least {MIN_PASSPHRASE_LENGTH} characters</p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="vault-confirm">Confirm passphrase</Label>
+                    <Input
+                      id="vault-confirm"
+                      type="password"
+                      autoComplete="new-password"
+                      value={confirm}
+                      onChange={e => setConfirm(e.target.value)}
+                    />
+                    {mismatch && <p className="text-sm text-destructive">Passphrases do not match</p>}
+                  </div>
+                </>
+              )}
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setDialog(null)} disabled={working}>
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  variant={dialog === 'disable' ? 'destructive' : 'default'}
+                  disabled={working || !canSubmit}
+                >
+                  {working ? 'Working...' : titles[dialog]}
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,157 @@
+// VersionRetentionCard.tsx
+// Settings card for how long the current project keeps old versions of its drafts
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { History } from 'lucide-react';
+import { useProjects } from '@/contexts/ProjectContext';
+import { useToast } from '@/hooks/use-toast';
+import {
+  AUTO_SAVE_RETENTION_PRESETS,
+  MANUAL_RETENTION_PRESETS,
+  RetentionPreset,
+  applyProjectRetentionPolicy,
+  findRetentionPreset,
+  resolveVersioningConfig,
+} from '@/lib/versioning';
+
+// Select value for a schedule that matches no preset
+const CUSTOM = 'custom';
+
+/**
+ * VersionRetentionCard - Picks thinning schedules for automatic and manual
+ * versions, and the most versions a draft may keep
+ */
+export function VersionRetentionCard() {
+  const { currentProject, updateProject } = useProjects();
+  const { toast } = useToast();
+  const [autoSave, setAutoSave] = useState(CUSTOM);
+  const [manual, setManual] = useState(CUSTOM);
+  const [maxVersions, setMaxVersions] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [cleaning, setCleaning] = useState(false);
+
+  useEffect(() => {
+    const config = resolveVersioningConfig(currentProject?.versioning);
+    setAutoSave(findRetentionPreset(AUTO_SAVE_RETENTION_PRESETS, config.retention.autoSave)?.id ?? CUSTOM);
+    setManual(findRetentionPreset(MANUAL_RETENTION_PRESETS, config.retention.manual)?.id ?? CUSTOM);
+    setMaxVersions(String(config.maxVersions));
+  }, [currentProject]);
+
+  if (!currentProject) return null;
+
+  const config = resolveVersioningConfig(currentProject.versioning);
+  const tiersFor = (presets: RetentionPreset[], id: string, current: RetentionPreset['tiers']) =>
+    presets.find(preset => preset.id === id)?.tiers ?? current;
+  const limit = Number(maxVersions);
+  const validLimit = Number.isInteger(limit) && limit > 0;
+
+  const handleSave = async () => {
+    if (!validLimit) return;
+    setSaving(true);
+    try {
+      await updateProject(currentProject.id, {
+        versioning: {
+          maxVersions: limit,
+          retention: {
+            autoSave: tiersFor(AUTO_SAVE_RETENTION_PRESETS, autoSave, config.retention.autoSave),
+            manual: tiersFor(MANUAL_RETENTION_PRESETS, manual, config.retention.manual),
+          },
+        },
+      });
+    } catch {
+      // The project context reports the failure
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCleanUp = async () => {
+    setCleaning(true);
+    try {
+      const deleted = await applyProjectRetentionPolicy(currentProject.id);
+      toast({
+        title: 'History cleaned up',
+        description: `${deleted} old version${deleted === 1 ? '' : 's'} removed.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to clean up version history',
+        variant: 'destructive',
+      });
+    } finally {
+      setCleaning(false);
+    }
+  };
+
+  const renderSelect = (
+    id: string,
+    label: string,
+    value: string,
+    onChange: (value: string) => void,
+    presets: RetentionPreset[]
+  ) => (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger id={id}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {presets.map(preset => (
+            <SelectItem key={preset.id} value={preset.id}>
+              {preset.label}
+            </SelectItem>
+          ))}
+          {value === CUSTOM && <SelectItem value={CUSTOM}>Custom</SelectItem>}
+        </SelectContent>
+      </Select>
+      <p className="text-sm text-muted-foreground">
+        {presets.find(preset => preset.id === value)?.description ?? 'A schedule set outside these presets'}
+      </p>
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Version History</CardTitle>
+        <CardDescription>
+          How long {currentProject.title} keeps old versions of its drafts. Older versions are thinned
+          out over time; milestones and the latest version of every branch are always kept.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {renderSelect('retention-autosave', 'Automatic versions', autoSave, setAutoSave, AUTO_SAVE_RETENTION_PRESETS)}
+        {renderSelect('retention-manual', 'Manual saves', manual, setManual, MANUAL_RETENTION_PRESETS)}
+
+        <div className="space-y-2">
+          <Label htmlFor="retention-max">Most versions per draft</Label>
+          <Input
+            id="retention-max"
+            type="number"
+            min={1}
+            value={maxVersions}
+            onChange={e => setMaxVersions(e.target.value)}
+            className="max-w-[160px]"
+          />
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button onClick={handleSave} disabled={saving || !validLimit}>
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+          <Button variant="outline" onClick={handleCleanUp} disabled={cleaning} className="gap-2">
+            <History className="h-4 w-4" />
+            {cleaning ? 'Cleaning up...' : 'Clean Up Now'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
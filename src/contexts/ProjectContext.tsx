@@ -1,18 +1,18 @@
-
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { useAuth } from './AuthContext';
 import { useToast } from '@/hooks/use-toast';
+import { useLiveQuery } from '@/hooks/useLiveQuery';
+import db, {
+  Project,
+  createProject as createProjectRecord,
+  updateProject as updateProjectRecord,
+  deleteProject as deleteProjectRecord,
+} from '@/lib/db';
+import { importLegacyProjects } from '@/lib/migrations';
 
-interface Project {
-  id: string;
-  title: string;
-  description: string;
-  isPublic: boolean;
-  status: 'planning' | 'writing' | 'editing' | 'completed';
-  createdAt: Date;
-  updatedAt: Date;
-  userId: string;
-}
+export type { Project };
+
+const LAST_PROJECT_KEY = 'storyforge_last_project';
 
 interface ProjectContextType {
   projects: Project[];
@@ -43,68 +43,63 @@ interface ProjectProviderProps {
 }
 
 export const ProjectProvider: React.FC<ProjectProviderProps> = ({ children }) => {
-  const [projects, setProjects] = useState<Project[]>([]);
-  const [currentProject, setCurrentProject] = useState<Project | null>(null);
-  const [loading, setLoading] = useState(false);
+  const [currentProjectId, setCurrentProjectId] = useState<string | null>(
+    () => localStorage.getItem(LAST_PROJECT_KEY)
+  );
+  const [migrated, setMigrated] = useState(false);
+  const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const { user } = useAuth();
   const { toast } = useToast();
 
-  // Load projects from localStorage for now (can be upgraded to Supabase later)
+  // One-time import of projects saved by the old localStorage implementation.
+  // Keyed on the ID, since the user object is replaced when going online or offline.
+  const userId = user?.id;
   useEffect(() => {
-    if (user) {
-      const savedProjects = localStorage.getItem(`projects_${user.id}`);
-      if (savedProjects) {
-        try {
-          const parsedProjects = JSON.parse(savedProjects).map((p: any) => ({
-            ...p,
-            createdAt: new Date(p.createdAt),
-            updatedAt: new Date(p.updatedAt),
-          }));
-          setProjects(parsedProjects);
-          
-          // Set current project to first project if none selected
-          if (!currentProject && parsedProjects.length > 0) {
-            setCurrentProject(parsedProjects[0]);
-          }
-        } catch (err) {
-          console.error('Failed to load projects:', err);
-          setError('Failed to load projects');
-        }
-      }
-    } else {
-      setProjects([]);
-      setCurrentProject(null);
+    setMigrated(false);
+    if (!userId) return;
+    importLegacyProjects(db, userId).finally(() => setMigrated(true));
+  }, [userId]);
+
+  // Live query: any write to the projects table, from any component or tab,
+  // is reflected here without manual refreshes
+  const { data: projects, loading: projectsLoading, error: queryError } = useLiveQuery<Project[]>(
+    async () => {
+      if (!user || !migrated) return [];
+      const rows = await db.projects.where('userId').equals(user.id).toArray();
+      return rows.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    },
+    [user?.id, migrated],
+    []
+  );
+
+  // Fall back to the first project when the remembered one is gone
+  const currentProject = projects.find(p => p.id === currentProjectId) ?? projects[0] ?? null;
+
+  const resolvedProjectId = currentProject?.id;
+  useEffect(() => {
+    if (resolvedProjectId) {
+      localStorage.setItem(LAST_PROJECT_KEY, resolvedProjectId);
     }
-  }, [user]);
+  }, [resolvedProjectId]);
 
-  const saveProjects = (updatedProjects: Project[]) => {
-    if (user) {
-      localStorage.setItem(`projects_${user.id}`, JSON.stringify(updatedProjects));
-    }
+  const setCurrentProject = (project: Project | null) => {
+    setCurrentProjectId(project?.id ?? null);
   };
 
   const createProject = async (projectData: Omit<Project, 'id' | 'createdAt' | 'updatedAt' | 'userId'>): Promise<Project> => {
     if (!user) throw new Error('User must be logged in to create projects');
     
-    setLoading(true);
+    setSaving(true);
     setError(null);
     
     try {
-      const newProject: Project = {
-        ...projectData,
-        id: crypto.randomUUID(),
-        createdAt: new Date(),
-        updatedAt: new Date(),
-        userId: user.id,
-      };
-      
-      const updatedProjects = [...projects, newProject];
-      setProjects(updatedProjects);
-      saveProjects(updatedProjects);
+      const id = await createProjectRecord({ ...projectData, userId: user.id });
+      const newProject = await db.projects.get(id);
+      if (!newProject) throw new Error('Failed to create project');
       
       // Set as current project
-      setCurrentProject(newProject);
+      setCurrentProjectId(newProject.id);
       
       toast({
         title: 'Project created',
@@ -122,28 +117,16 @@ export const ProjectProvider: React.FC<ProjectProviderProps> = ({ children }) =>
       });
       throw err;
     } finally {
-      setLoading(false);
+      setSaving(false);
     }
   };
 
   const updateProject = async (id: string, updates: Partial<Project>): Promise<void> => {
-    setLoading(true);
+    setSaving(true);
     setError(null);
     
     try {
-      const updatedProjects = projects.map(project =>
-        project.id === id
-          ? { ...project, ...updates, updatedAt: new Date() }
-          : project
-      );
-      
-      setProjects(updatedProjects);
-      saveProjects(updatedProjects);
-      
-      // Update current project if it's the one being updated
-      if (currentProject?.id === id) {
-        setCurrentProject({ ...currentProject, ...updates, updatedAt: new Date() });
-      }
+      await updateProjectRecord(id, updates);
       
       toast({
         title: 'Project updated',
@@ -159,27 +142,25 @@ export const ProjectProvider: React.FC<ProjectProviderProps> = ({ children }) =>
       });
       throw err;
     } finally {
-      setLoading(false);
+      setSaving(false);
     }
   };
 
   const deleteProject = async (id: string): Promise<void> => {
-    setLoading(true);
+    setSaving(true);
     setError(null);
     
     try {
-      const updatedProjects = projects.filter(project => project.id !== id);
-      setProjects(updatedProjects);
-      saveProjects(updatedProjects);
+      // Projects go to the trash along with their drafts, outlines and story bible
+      await deleteProjectRecord(id);
       
-      // Clear current project if it's the one being deleted
-      if (currentProject?.id === id) {
-        setCurrentProject(updatedProjects.length > 0 ? updatedProjects[0] : null);
+      if (currentProjectId === id) {
+        setCurrentProjectId(null);
       }
       
       toast({
         title: 'Project deleted',
-        description: 'Project has been deleted successfully.',
+        description: 'Project has been moved to the trash.',
       });
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to delete project';
@@ -191,7 +172,7 @@ export const ProjectProvider: React.FC<ProjectProviderProps> = ({ children }) =>
       });
       throw err;
     } finally {
-      setLoading(false);
+      setSaving(false);
     }
   };
 
@@ -202,8 +183,8 @@ export const ProjectProvider: React.FC<ProjectProviderProps> = ({ children }) =>
   const value = {
     projects,
     currentProject,
-    loading,
-    error,
+    loading: saving || (!!user && (!migrated || projectsLoading)),
+    error: error ?? queryError?.message ?? null,
     createProject,
     updateProject,
     deleteProject,
@@ -0,0 +1,74 @@
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { useAuth } from './AuthContext';
+import {
+  VaultStatus,
+  getVaultStatus,
+  subscribeVaultStatus,
+  loadVault,
+  unlockVault,
+  lockVault,
+  enableVault,
+  changeVaultPassphrase,
+  disableVault,
+} from '@/lib/vault';
+
+interface VaultContextType {
+  status: VaultStatus;
+  loading: boolean;
+  unlock: (passphrase: string) => Promise<void>;
+  lock: () => void;
+  enable: (passphrase: string) => Promise<void>;
+  changePassphrase: (currentPassphrase: string, newPassphrase: string) => Promise<void>;
+  disable: (passphrase: string) => Promise<void>;
+}
+
+const VaultContext = createContext<VaultContextType | undefined>(undefined);
+
+interface VaultProviderProps {
+  children: ReactNode;
+}
+
+export const VaultProvider: React.FC<VaultProviderProps> = ({ children }) => {
+  const { user } = useAuth();
+  const [status, setStatus] = useState<VaultStatus>(getVaultStatus);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => subscribeVaultStatus(setStatus), []);
+
+  // Signing out (including a session timeout) or switching accounts forgets the key
+  const userId = user?.id ?? null;
+  useEffect(() => {
+    setLoading(true);
+    loadVault(userId)
+      .catch(error => console.error('Failed to load vault:', error))
+      .finally(() => setLoading(false));
+  }, [userId]);
+
+  const requireUser = () => {
+    if (!user) throw new Error('You must be signed in to use the vault');
+    return user.id;
+  };
+
+  const value: VaultContextType = {
+    status,
+    loading,
+    unlock: passphrase => unlockVault(requireUser(), passphrase),
+    lock: lockVault,
+    enable: passphrase => enableVault(requireUser(), passphrase),
+    changePassphrase: (currentPassphrase, newPassphrase) =>
+      changeVaultPassphrase(requireUser(), currentPassphrase, newPassphrase),
+    disable: passphrase => disableVault(requireUser(), passphrase),
+  };
+
+  return <VaultContext.Provider value={value}>{children}</VaultContext.Provider>;
+};
+
+export const useVault = () => {
+  const context = useContext(VaultContext);
+  if (context === undefined) {
+    throw new Error('useVault must be used within a VaultProvider');
+  }
+  return context;
+};
+
+export default VaultContext;
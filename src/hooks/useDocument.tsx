@@ -1,7 +1,8 @@
 
 import { useState, useEffect } from 'react';
-import { Draft } from '../lib/db';
+import { Draft, getDraft } from '../lib/db';
 import db from '../lib/db';
+import { sealDraft } from '../lib/vault/records';
 
 interface UseDocumentOptions {
   autoSave?: boolean;
@@ -38,7 +39,7 @@ export function useDocument(documentId: string | null, options: UseDocumentOptio
         setLoading(true);
         setError(null);
         
-        const doc = await db.drafts.get(documentId);
+        const doc = await getDraft(documentId);
         if (doc) {
           setDocument(doc);
         } else {
@@ -66,10 +67,10 @@ export function useDocument(documentId: string | null, options: UseDocumentOptio
     
     const saveChanges = async () => {
       try {
-        await db.drafts.update(document.id, {
+        await db.drafts.update(document.id, await sealDraft({
           ...document,
           updatedAt: new Date()
-        });
+        }));
         
         setLastSaved(new Date());
       } catch (e) {
@@ -102,7 +103,7 @@ export function useDocument(documentId: string | null, options: UseDocumentOptio
         updatedAt: new Date()
       };
       
-      await db.drafts.update(document.id, updatedDoc);
+      await db.drafts.update(document.id, await sealDraft(updatedDoc));
       
       setDocument(updatedDoc);
       setLastSaved(new Date());
@@ -1,4 +1,5 @@
 import { useState, useEffect, useCallback, useMemo } from 'react';
+import { baseHtml } from '@/lib/suggestions';
 
 export interface WordCountStats {
   words: number;
@@ -50,8 +51,8 @@ export function useEnhancedWordCount(options: WordCountOptions = {}) {
       };
     }
 
-    // Remove HTML tags for accurate counting
-    const plainText = content.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+    // Remove HTML tags for accurate counting; suggested insertions don't count until accepted
+    const plainText = baseHtml(content).replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
     
     // Word count
     const words = plainText ? plainText.split(/\s+/).filter(word => word.length > 0).length : 0;
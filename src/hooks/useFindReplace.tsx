@@ -0,0 +1,67 @@
+import { useCallback, useEffect, useState } from 'react';
+import { buildPattern, findInProject, ReplaceOptions, ReplaceQuery, ReplaceTarget } from '@/lib/replace';
+
+interface UseFindReplaceOptions {
+  projectId?: string;
+  query: ReplaceQuery;
+  options: ReplaceOptions;
+  debounceMs?: number;
+}
+
+/**
+ * Runs a debounced find over the project for the replace preview. An
+ * invalid regular expression is reported as the error instead of searched.
+ */
+export const useFindReplace = ({ projectId, query, options, debounceMs = 300 }: UseFindReplaceOptions) => {
+  const [targets, setTargets] = useState<ReplaceTarget[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Bumped to search again after a replacement
+  const [generation, setGeneration] = useState(0);
+  const { find, replace, caseSensitive, wholeWord, regex } = query;
+  const { draftId, includeOutline, includeStoryBible } = options;
+
+  useEffect(() => {
+    setTargets([]);
+    if (!projectId || !find) {
+      setLoading(false);
+      setError(null);
+      return;
+    }
+
+    const current: ReplaceQuery = { find, replace, caseSensitive, wholeWord, regex };
+    try {
+      buildPattern(current);
+    } catch (err) {
+      setLoading(false);
+      setError(err instanceof Error ? err.message : 'Invalid pattern');
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+
+    const timeout = setTimeout(async () => {
+      try {
+        const found = await findInProject(projectId, current, { draftId, includeOutline, includeStoryBible });
+        if (!cancelled) {
+          setTargets(found);
+          setError(null);
+        }
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Search failed');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, debounceMs);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [projectId, find, replace, caseSensitive, wholeWord, regex, draftId, includeOutline, includeStoryBible, debounceMs, generation]);
+
+  const refresh = useCallback(() => setGeneration(value => value + 1), []);
+
+  return { targets, loading, error, refresh };
+};
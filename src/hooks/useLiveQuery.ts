@@ -0,0 +1,41 @@
+import { useEffect, useState } from 'react';
+import { liveQuery } from 'dexie';
+
+/**
+ * Subscribes to a Dexie query and re-renders whenever the tables it reads
+ * change, including writes made from other components or tabs
+ * @param querier - Reads from the database; must only touch Dexie tables
+ * @param deps - Re-subscribe when these change
+ * @param defaultValue - Returned until the first result arrives
+ */
+export function useLiveQuery<T>(
+  querier: () => Promise<T>,
+  deps: unknown[],
+  defaultValue: T
+): { data: T; loading: boolean; error: Error | null } {
+  const [data, setData] = useState<T>(defaultValue);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    setLoading(true);
+    const subscription = liveQuery(querier).subscribe({
+      next: (value) => {
+        setData(value);
+        setError(null);
+        setLoading(false);
+      },
+      error: (err) => {
+        console.error('Live query failed:', err);
+        setError(err instanceof Error ? err : new Error(String(err)));
+        setLoading(false);
+      },
+    });
+
+    return () => subscription.unsubscribe();
+    // The querier is recreated every render; deps decide when to resubscribe
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, deps);
+
+  return { data, loading, error };
+}
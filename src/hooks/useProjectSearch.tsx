@@ -0,0 +1,61 @@
+import { useEffect, useState } from 'react';
+import { searchProject, SearchResult, SearchSourceType } from '@/lib/search';
+
+interface UseProjectSearchOptions {
+  projectId?: string;
+  query: string;
+  types?: SearchSourceType[];
+  limit?: number;
+  debounceMs?: number;
+}
+
+/**
+ * Runs a debounced full-text search over the current project
+ */
+export const useProjectSearch = ({
+  projectId,
+  query,
+  types,
+  limit = 50,
+  debounceMs = 200,
+}: UseProjectSearchOptions) => {
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const typesKey = types?.join(',') ?? '';
+
+  useEffect(() => {
+    if (!projectId || !query.trim()) {
+      setResults([]);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+
+    const timeout = setTimeout(async () => {
+      try {
+        const found = await searchProject(projectId, query, {
+          limit,
+          types: typesKey ? (typesKey.split(',') as SearchSourceType[]) : undefined,
+        });
+        if (!cancelled) {
+          setResults(found);
+          setError(null);
+        }
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Search failed');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, debounceMs);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [projectId, query, typesKey, limit, debounceMs]);
+
+  return { results, loading, error };
+};
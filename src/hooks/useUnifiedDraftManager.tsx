@@ -3,6 +3,7 @@ import { Draft } from '@/lib/db';
 import { DraftService, EnhancedDraft } from '@/services/draftService';
 import { useAutoSave } from '@/hooks/useAutoSave';
 import { useToast } from '@/hooks/use-toast';
+import { baseHtml } from '@/lib/suggestions';
 
 interface DraftState {
   currentDraft: EnhancedDraft | null;
@@ -132,7 +133,7 @@ export function useUnifiedDraftManager({
         title: title || 'Untitled Draft', // Let the service handle unique naming
         content,
         projectId,
-        wordCount: content.trim().split(/\s+/).filter(w => w.length > 0).length,
+        wordCount: baseHtml(content).trim().split(/\s+/).filter(w => w.length > 0).length,
       });
 
       const newDraft = await DraftService.getDraft(draftId);
@@ -1,65 +1,120 @@
-
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useMemo } from 'react';
 import { useToast } from '@/hooks/use-toast';
 import { useTranslation } from 'react-i18next';
+import { useLiveQuery } from '@/hooks/useLiveQuery';
+import {
+  DocumentVersion,
+  createVersion as saveDocumentVersion,
+  deleteVersion as deleteDocumentVersion,
+  clearVersionHistory,
+} from '@/lib/versioning';
+import db from '@/lib/db';
+import { StoredVersion, MAIN_BRANCH_ID } from '@/lib/versioning/types';
+import { decodeVersions, getBranchId, getVersionRows } from '@/lib/versioning/storage';
+import { getActiveBranchId } from '@/lib/versioning/branches';
+import { migrateLegacyVersions } from '@/lib/versioning/legacy';
+import { htmlToText } from '@/lib/search/tokenize';
+import { countWords } from '@/utils/textUtils';
+import { baseHtml } from '@/lib/suggestions';
 
-interface DocumentVersion {
-  id: string;
-  content: string;
-  timestamp: Date;
-  wordCount: number;
-  title?: string;
-  metadata?: {
-    font?: string;
-    theme?: string;
-    viewMode?: string;
-  };
+interface VersionMetadata {
+  font?: string;
+  theme?: string;
+  viewMode?: string;
 }
 
 interface UseVersionHistoryOptions {
   draftId?: string;
-  maxVersions?: number;
   autoSaveVersions?: boolean;
-  onVersionRestore?: (version: DocumentVersion) => void;
+  onVersionRestore?: (version: DocumentVersion) => void | Promise<void>;
 }
 
+// An autosave becomes a version after this many words change, or this long
+// after the previous version
+const AUTO_VERSION_WORD_DELTA = 10;
+const AUTO_VERSION_INTERVAL = 300000; // 5 minutes
+
+interface StoredHistory {
+  rows: StoredVersion[];
+  activeBranchId: string;
+}
+
+const NO_HISTORY: StoredHistory = { rows: [], activeBranchId: MAIN_BRANCH_ID };
+
+/**
+ * Version history of a draft, read live from the versions table. Retention
+ * and storage are handled by the versioning store.
+ */
 export const useVersionHistory = ({
   draftId,
-  maxVersions = 50,
   autoSaveVersions = true,
   onVersionRestore
 }: UseVersionHistoryOptions = {}) => {
-  const [versions, setVersions] = useState<DocumentVersion[]>([]);
-  const [currentVersionIndex, setCurrentVersionIndex] = useState(-1);
+  const [currentVersionId, setCurrentVersionId] = useState<string | null>(null);
   const [isRestoring, setIsRestoring] = useState(false);
   const { toast } = useToast();
   const { t } = useTranslation();
 
-  // Load versions from localStorage
+  // Histories from older releases live in localStorage until first opened
   useEffect(() => {
     if (!draftId) return;
-    
-    const savedVersions = localStorage.getItem(`versions_${draftId}`);
-    if (savedVersions) {
-      try {
-        const parsed = JSON.parse(savedVersions).map((v: any) => ({
-          ...v,
-          timestamp: new Date(v.timestamp)
-        }));
-        setVersions(parsed);
-        setCurrentVersionIndex(parsed.length - 1);
-      } catch (error) {
-        console.error('Failed to load version history:', error);
-      }
-    }
+    setCurrentVersionId(null);
+    migrateLegacyVersions(draftId).catch(error => {
+      console.error('Failed to load version history:', error);
+    });
   }, [draftId]);
 
-  // Save versions to localStorage
-  const saveVersions = useCallback((versionsToSave: DocumentVersion[]) => {
-    if (!draftId) return;
-    
+  // The live query only reads rows; decrypting them uses WebCrypto, which
+  // would end its transaction, so they are decoded once they arrive
+  const { data: stored, loading: reading } = useLiveQuery<StoredHistory>(
+    async () => {
+      if (!draftId) return NO_HISTORY;
+      const [rows, draft] = await Promise.all([getVersionRows(draftId), db.drafts.get(draftId)]);
+      return { rows, activeBranchId: draft ? getActiveBranchId(draft) : MAIN_BRANCH_ID };
+    },
+    [draftId],
+    NO_HISTORY
+  );
+  const [newestFirst, setNewestFirst] = useState<DocumentVersion[]>([]);
+  const [decoding, setDecoding] = useState(false);
+  const loading = reading || decoding;
+  const { activeBranchId } = stored;
+
+  useEffect(() => {
+    let cancelled = false;
+    setDecoding(true);
+    decodeVersions(stored.rows)
+      .then(decoded => !cancelled && setNewestFirst(decoded))
+      .catch(error => console.error('Failed to load version history:', error))
+      .finally(() => !cancelled && setDecoding(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [stored.rows]);
+  // Oldest first, so undo steps back through the list
+  const versions = useMemo(() => [...newestFirst].reverse(), [newestFirst]);
+
+  const restoredIndex = versions.findIndex(v => v.id === currentVersionId);
+  const currentVersionIndex = restoredIndex >= 0 ? restoredIndex : versions.length - 1;
+
+  const saveVersion = useCallback(async (
+    content: string,
+    metadata: VersionMetadata = {},
+    title?: string,
+    isAutoSave = false
+  ) => {
+    if (!draftId || !content.trim()) return;
+
     try {
-      localStorage.setItem(`versions_${draftId}`, JSON.stringify(versionsToSave));
+      const version = await saveDocumentVersion(
+        draftId,
+        content,
+        countWords(htmlToText(baseHtml(content))),
+        { ...metadata, ...(title ? { title } : {}) },
+        isAutoSave
+      );
+      setCurrentVersionId(null);
+      return version;
     } catch (error) {
       console.error('Failed to save version history:', error);
     }
@@ -68,35 +123,9 @@ export const useVersionHistory = ({
   // Create a new version
   const createVersion = useCallback((
     content: string,
-    metadata?: DocumentVersion['metadata'],
+    metadata?: VersionMetadata,
     title?: string
-  ) => {
-    if (!draftId || !content.trim()) return;
-
-    const newVersion: DocumentVersion = {
-      id: crypto.randomUUID(),
-      content,
-      timestamp: new Date(),
-      wordCount: content.trim().split(/\s+/).length,
-      title,
-      metadata,
-    };
-
-    setVersions(prev => {
-      const updated = [...prev, newVersion];
-      
-      // Limit the number of versions
-      if (updated.length > maxVersions) {
-        updated.splice(0, updated.length - maxVersions);
-      }
-      
-      setCurrentVersionIndex(updated.length - 1);
-      saveVersions(updated);
-      return updated;
-    });
-
-    return newVersion;
-  }, [draftId, maxVersions, saveVersions]);
+  ) => saveVersion(content, metadata, title), [saveVersion]);
 
   // Restore a specific version
   const restoreVersion = useCallback(async (versionId: string) => {
@@ -111,16 +140,15 @@ export const useVersionHistory = ({
     }
 
     setIsRestoring(true);
-    
+
     try {
-      onVersionRestore?.(version);
-      const versionIndex = versions.findIndex(v => v.id === versionId);
-      setCurrentVersionIndex(versionIndex);
-      
+      await onVersionRestore?.(version);
+      setCurrentVersionId(version.id);
+
       toast({
         title: t('versionRestored'),
-        description: t('versionRestoredDescription', { 
-          time: version.timestamp.toLocaleString() 
+        description: t('versionRestoredDescription', {
+          time: version.createdAt.toLocaleString()
         }),
       });
     } catch (error) {
@@ -138,7 +166,7 @@ export const useVersionHistory = ({
   // Undo to previous version
   const undo = useCallback(() => {
     if (currentVersionIndex <= 0) return;
-    
+
     const previousVersion = versions[currentVersionIndex - 1];
     if (previousVersion) {
       restoreVersion(previousVersion.id);
@@ -148,7 +176,7 @@ export const useVersionHistory = ({
   // Redo to next version
   const redo = useCallback(() => {
     if (currentVersionIndex >= versions.length - 1) return;
-    
+
     const nextVersion = versions[currentVersionIndex + 1];
     if (nextVersion) {
       restoreVersion(nextVersion.id);
@@ -156,80 +184,86 @@ export const useVersionHistory = ({
   }, [currentVersionIndex, versions, restoreVersion]);
 
   // Delete a version
-  const deleteVersion = useCallback((versionId: string) => {
-    setVersions(prev => {
-      const updated = prev.filter(v => v.id !== versionId);
-      saveVersions(updated);
-      
-      // Adjust current index if necessary
-      if (currentVersionIndex >= updated.length) {
-        setCurrentVersionIndex(updated.length - 1);
-      }
-      
-      return updated;
-    });
-
-    toast({
-      title: t('versionDeleted'),
-      description: t('versionDeletedDescription'),
-    });
-  }, [currentVersionIndex, saveVersions, toast, t]);
+  const deleteVersion = useCallback(async (versionId: string) => {
+    try {
+      await deleteDocumentVersion(versionId);
+      toast({
+        title: t('versionDeleted'),
+        description: t('versionDeletedDescription'),
+      });
+    } catch (error) {
+      console.error('Failed to delete version:', error);
+      toast({
+        title: t('error'),
+        description: t('versionDeleteFailedDescription'),
+        variant: "destructive",
+      });
+    }
+  }, [toast, t]);
 
   // Clear all versions
-  const clearHistory = useCallback(() => {
-    setVersions([]);
-    setCurrentVersionIndex(-1);
-    if (draftId) {
-      localStorage.removeItem(`versions_${draftId}`);
+  const clearHistory = useCallback(async () => {
+    if (!draftId) return;
+
+    try {
+      await clearVersionHistory(draftId);
+      setCurrentVersionId(null);
+      toast({
+        title: t('historyCleared'),
+        description: t('historyClearedDescription'),
+      });
+    } catch (error) {
+      console.error('Failed to clear version history:', error);
+      toast({
+        title: t('error'),
+        description: t('historyClearFailedDescription'),
+        variant: "destructive",
+      });
     }
-    
-    toast({
-      title: t('historyCleared'),
-      description: t('historyClearedDescription'),
-    });
   }, [draftId, toast, t]);
 
   // Auto-save version when content changes significantly
   const autoSaveVersion = useCallback((
     content: string,
-    metadata?: DocumentVersion['metadata']
+    metadata?: VersionMetadata
   ) => {
     if (!autoSaveVersions || !content.trim()) return;
 
-    const lastVersion = versions[versions.length - 1];
+    // Measured against the branch being written on, not whichever branch
+    // was saved to last
+    const lastVersion = newestFirst.find(v => getBranchId(v) === activeBranchId);
     if (!lastVersion) {
-      createVersion(content, metadata, t('initialVersion'));
-      return;
+      return saveVersion(content, metadata, t('initialVersion'), true);
     }
+    if (lastVersion.content === content) return;
 
     // Check if enough has changed to warrant a new version
-    const wordCountDiff = Math.abs(
-      content.trim().split(/\s+/).length - lastVersion.wordCount
-    );
-    const timeDiff = Date.now() - lastVersion.timestamp.getTime();
-    
+    const wordCountDiff = Math.abs(countWords(htmlToText(baseHtml(content))) - lastVersion.wordCount);
+    const timeDiff = Date.now() - lastVersion.createdAt.getTime();
+
     // Create version if significant changes or enough time has passed
-    if (wordCountDiff >= 10 || timeDiff >= 300000) { // 10 words or 5 minutes
-      createVersion(content, metadata, t('autoSavedVersion'));
+    if (wordCountDiff >= AUTO_VERSION_WORD_DELTA || timeDiff >= AUTO_VERSION_INTERVAL) {
+      return saveVersion(content, metadata, t('autoSavedVersion'), true);
     }
-  }, [autoSaveVersions, versions, createVersion, t]);
+  }, [autoSaveVersions, newestFirst, activeBranchId, saveVersion, t]);
 
   // Get version comparison data
   const compareVersions = useCallback((versionId1: string, versionId2: string) => {
     const v1 = versions.find(v => v.id === versionId1);
     const v2 = versions.find(v => v.id === versionId2);
-    
+
     if (!v1 || !v2) return null;
 
     return {
       wordCountDiff: v2.wordCount - v1.wordCount,
-      timeDiff: v2.timestamp.getTime() - v1.timestamp.getTime(),
+      timeDiff: v2.createdAt.getTime() - v1.createdAt.getTime(),
       contentLengthDiff: v2.content.length - v1.content.length,
     };
   }, [versions]);
 
   return {
     versions,
+    loading,
     currentVersionIndex,
     isRestoring,
     createVersion,
@@ -68,6 +68,22 @@ const resources = {
       autoSaveFailedTitle: 'Auto-save Failed',
       saveFailedDescription: 'Failed to save draft',
       unknownError: 'Unknown error occurred',
+
+      // Version history
+      initialVersion: 'Initial version',
+      autoSavedVersion: 'Auto-saved version',
+      versionNotFound: 'Version Not Found',
+      versionNotFoundDescription: 'This version is no longer in the history',
+      versionRestored: 'Version Restored',
+      versionRestoredDescription: 'Restored the version from {{time}}',
+      restoreFailedTitle: 'Restore Failed',
+      restoreFailedDescription: 'The version could not be restored',
+      versionDeleted: 'Version Deleted',
+      versionDeletedDescription: 'The version was removed from the history',
+      versionDeleteFailedDescription: 'The version could not be deleted',
+      historyCleared: 'History Cleared',
+      historyClearedDescription: 'All versions of this draft were deleted',
+      historyClearFailedDescription: 'The version history could not be cleared',
     }
   },
   es: {
@@ -134,6 +150,22 @@ const resources = {
       autoSaveFailedTitle: 'Error en Guardado Automático',
       saveFailedDescription: 'Error al guardar borrador',
       unknownError: 'Error desconocido',
+
+      // Version history
+      initialVersion: 'Versión inicial',
+      autoSavedVersion: 'Versión guardada automáticamente',
+      versionNotFound: 'Versión No Encontrada',
+      versionNotFoundDescription: 'Esta versión ya no está en el historial',
+      versionRestored: 'Versión Restaurada',
+      versionRestoredDescription: 'Se restauró la versión del {{time}}',
+      restoreFailedTitle: 'Error al Restaurar',
+      restoreFailedDescription: 'No se pudo restaurar la versión',
+      versionDeleted: 'Versión Eliminada',
+      versionDeletedDescription: 'La versión se eliminó del historial',
+      versionDeleteFailedDescription: 'No se pudo eliminar la versión',
+      historyCleared: 'Historial Borrado',
+      historyClearedDescription: 'Se eliminaron todas las versiones de este borrador',
+      historyClearFailedDescription: 'No se pudo borrar el historial de versiones',
     }
   },
   fr: {
@@ -200,6 +232,22 @@ const resources = {
       autoSaveFailedTitle: 'Échec de la Sauvegarde Automatique',
       saveFailedDescription: 'Échec de l\'enregistrement du brouillon',
       unknownError: 'Erreur inconnue',
+
+      // Version history
+      initialVersion: 'Version initiale',
+      autoSavedVersion: 'Version enregistrée automatiquement',
+      versionNotFound: 'Version Introuvable',
+      versionNotFoundDescription: 'Cette version ne fait plus partie de l\'historique',
+      versionRestored: 'Version Restaurée',
+      versionRestoredDescription: 'La version du {{time}} a été restaurée',
+      restoreFailedTitle: 'Échec de la Restauration',
+      restoreFailedDescription: 'La version n\'a pas pu être restaurée',
+      versionDeleted: 'Version Supprimée',
+      versionDeletedDescription: 'La version a été retirée de l\'historique',
+      versionDeleteFailedDescription: 'La version n\'a pas pu être supprimée',
+      historyCleared: 'Historique Effacé',
+      historyClearedDescription: 'Toutes les versions de ce brouillon ont été supprimées',
+      historyClearFailedDescription: 'L\'historique des versions n\'a pas pu être effacé',
     }
   }
 };
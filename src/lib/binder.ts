@@ -0,0 +1,271 @@
+import db, { Draft, BinderItemKind, createDraft, getDrafts, updateDraft } from './db';
+import { htmlToText } from './search/tokenize';
+import { buildDraftDocuments } from './search/documents';
+import { sealDraft, sealSearchDocuments } from './vault/records';
+import { sanitizeText } from '@/utils/security';
+import { countWords } from '@/utils/textUtils';
+
+/*
+ * The manuscript binder: a project's drafts arranged as an ordered tree of
+ * chapters and scenes. Placement lives on the draft rows themselves (parentId
+ * and order), so drafts created elsewhere still show up, after the ordered
+ * items.
+ */
+
+export type RevisionStatus = NonNullable<Draft['revisionStatus']>;
+
+export const REVISION_STATUS_LABELS: Record<RevisionStatus, string> = {
+  draft: 'Draft',
+  revised: 'Revised',
+  final: 'Final',
+};
+
+export const BINDER_KIND_LABELS: Record<BinderItemKind, string> = {
+  chapter: 'Chapter',
+  scene: 'Scene',
+};
+
+export const MAX_SYNOPSIS_LENGTH = 2000;
+export const MAX_POV_LENGTH = 200;
+
+export interface BinderNode {
+  draft: Draft;
+  children: BinderNode[];
+  // Words in this item and everything nested under it
+  wordCount: number;
+}
+
+export type BinderItemUpdates = Partial<Pick<Draft, 'title' | 'kind' | 'revisionStatus' | 'synopsis' | 'pov'>>;
+
+// A chapter or scene read from a file, with its text as editor HTML
+export interface ImportedBinderItem extends BinderItemUpdates {
+  title: string;
+  content: string;
+  children?: ImportedBinderItem[];
+}
+
+const compareItems = (a: Draft, b: Draft) =>
+  (a.order ?? Infinity) - (b.order ?? Infinity) ||
+  new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+
+/**
+ * Arranges drafts into the binder tree. Items whose parent is missing, for
+ * example after restoring a scene from the trash, are placed at the top level.
+ */
+export function buildBinderTree(drafts: Draft[]): BinderNode[] {
+  const ids = new Set(drafts.map(d => d.id));
+  const byParent = new Map<string | undefined, Draft[]>();
+  drafts.forEach(draft => {
+    const parentId = draft.parentId && ids.has(draft.parentId) ? draft.parentId : undefined;
+    byParent.set(parentId, [...(byParent.get(parentId) || []), draft]);
+  });
+
+  const build = (parentId: string | undefined, seen: Set<string>): BinderNode[] =>
+    (byParent.get(parentId) || [])
+      .filter(draft => !seen.has(draft.id))
+      .sort(compareItems)
+      .map(draft => {
+        const children = build(draft.id, new Set(seen).add(draft.id));
+        const wordCount = children.reduce((total, child) => total + child.wordCount, draft.wordCount || 0);
+        return { draft, children, wordCount };
+      });
+
+  return build(undefined, new Set());
+}
+
+/**
+ * Drafts in reading order, depth first
+ */
+export const flattenBinder = (nodes: BinderNode[]): Draft[] =>
+  nodes.flatMap(node => [node.draft, ...flattenBinder(node.children)]);
+
+/**
+ * The given items plus every item nested under them, at any depth
+ */
+export function withNestedItems(drafts: Pick<Draft, 'id' | 'parentId'>[], ids: Iterable<string>): Set<string> {
+  const found = new Set(ids);
+  let added = true;
+  while (added) {
+    added = false;
+    drafts.forEach(draft => {
+      if (draft.parentId && found.has(draft.parentId) && !found.has(draft.id)) {
+        found.add(draft.id);
+        added = true;
+      }
+    });
+  }
+  return found;
+}
+
+export const getManuscriptWordCount = (nodes: BinderNode[]): number =>
+  nodes.reduce((total, node) => total + node.wordCount, 0);
+
+export const getBinder = async (projectId: string): Promise<BinderNode[]> => {
+  try {
+    return buildBinderTree(await getDrafts(projectId));
+  } catch (error) {
+    console.error('Failed to get binder:', error);
+    throw new Error('Failed to retrieve manuscript');
+  }
+};
+
+const validateBinderItem = (updates: BinderItemUpdates): void => {
+  if (updates.title !== undefined) {
+    if (!updates.title.trim()) {
+      throw new Error('Title is required');
+    }
+    if (updates.title.length > 200) {
+      throw new Error('Title must be less than 200 characters');
+    }
+  }
+  if (updates.kind !== undefined && !(updates.kind in BINDER_KIND_LABELS)) {
+    throw new Error('Invalid item kind');
+  }
+  if (updates.revisionStatus !== undefined && !(updates.revisionStatus in REVISION_STATUS_LABELS)) {
+    throw new Error('Invalid status value');
+  }
+  if (updates.synopsis !== undefined && updates.synopsis.length > MAX_SYNOPSIS_LENGTH) {
+    throw new Error(`Synopsis must be less than ${MAX_SYNOPSIS_LENGTH} characters`);
+  }
+  if (updates.pov !== undefined && updates.pov.length > MAX_POV_LENGTH) {
+    throw new Error(`Point of view must be less than ${MAX_POV_LENGTH} characters`);
+  }
+};
+
+const sanitizeBinderItem = (updates: BinderItemUpdates): BinderItemUpdates => ({
+  ...updates,
+  ...(updates.title !== undefined && { title: sanitizeText(updates.title, 200) }),
+  ...(updates.synopsis !== undefined && { synopsis: sanitizeText(updates.synopsis, MAX_SYNOPSIS_LENGTH) }),
+  ...(updates.pov !== undefined && { pov: sanitizeText(updates.pov, MAX_POV_LENGTH) }),
+});
+
+/**
+ * Adds an empty chapter or scene at the end of its parent
+ */
+export const createBinderItem = async (
+  projectId: string,
+  item: { title: string; kind: BinderItemKind; parentId?: string }
+): Promise<string> => {
+  validateBinderItem(item);
+
+  const siblings = (await db.drafts.where('projectId').equals(projectId).toArray())
+    .filter(draft => draft.parentId === item.parentId);
+  if (item.parentId && !(await db.drafts.get(item.parentId))) {
+    throw new Error('Parent item not found');
+  }
+
+  try {
+    return await createDraft({
+      projectId,
+      title: sanitizeText(item.title, 200),
+      content: '',
+      wordCount: 0,
+      parentId: item.parentId,
+      order: Math.max(siblings.length, ...siblings.map(d => (d.order ?? 0) + 1)),
+      kind: item.kind,
+      revisionStatus: 'draft',
+    });
+  } catch (error) {
+    console.error('Failed to create binder item:', error);
+    throw new Error('Failed to create item');
+  }
+};
+
+export const updateBinderItem = async (id: string, updates: BinderItemUpdates): Promise<void> => {
+  validateBinderItem(updates);
+
+  try {
+    await updateDraft(id, sanitizeBinderItem(updates));
+  } catch (error) {
+    console.error('Failed to update binder item:', error);
+    throw new Error('Failed to update item');
+  }
+};
+
+/**
+ * Moves an item to a position among the children of a parent (undefined for
+ * the top level) and renumbers that parent's children. An item can't be
+ * moved inside itself.
+ */
+export const moveBinderItem = async (id: string, parentId: string | undefined, index: number): Promise<void> => {
+  const item = await db.drafts.get(id);
+  if (!item) throw new Error('Item not found');
+
+  const drafts = await db.drafts.where('projectId').equals(item.projectId).toArray();
+  const byId = new Map(drafts.map(d => [d.id, d]));
+  if (parentId !== undefined && !byId.has(parentId)) {
+    throw new Error('Parent item not found');
+  }
+  for (let ancestor = parentId; ancestor; ancestor = byId.get(ancestor)?.parentId) {
+    if (ancestor === id) throw new Error('An item cannot be moved inside itself');
+  }
+
+  const siblings = drafts
+    .filter(d => d.id !== id && (d.parentId && byId.has(d.parentId) ? d.parentId : undefined) === parentId)
+    .sort(compareItems);
+  siblings.splice(Math.max(0, Math.min(index, siblings.length)), 0, item);
+
+  try {
+    // Placement fields are never encrypted, so rows can be updated in place
+    await db.transaction('rw', db.drafts, async () => {
+      await Promise.all(siblings.map((draft, order) =>
+        db.drafts.update(draft.id, draft.id === id ? { parentId, order } : { order })
+      ));
+    });
+  } catch (error) {
+    console.error('Failed to move binder item:', error);
+    throw new Error('Failed to move item');
+  }
+};
+
+/**
+ * Adds imported items at the end of the binder, children under their
+ * parent, and returns the new ids in reading order. Everything is written in
+ * one transaction, so a failed import leaves no partial tree behind.
+ */
+export const importBinderItems = async (projectId: string, items: ImportedBinderItem[]): Promise<string[]> => {
+  const validate = (list: ImportedBinderItem[]): void => list.forEach(item => {
+    validateBinderItem({ ...item, title: item.title.trim() ? item.title : 'Untitled' });
+    validate(item.children ?? []);
+  });
+  validate(items);
+
+  const topLevel = (await db.drafts.where('projectId').equals(projectId).toArray()).filter(draft => !draft.parentId);
+  const timestamp = new Date();
+  const drafts: Draft[] = [];
+  const add = (list: ImportedBinderItem[], parentId: string | undefined, firstOrder: number) => {
+    list.forEach(({ children, content, ...item }, index) => {
+      const id = crypto.randomUUID();
+      drafts.push({
+        ...sanitizeBinderItem(item),
+        id,
+        title: sanitizeText(item.title, 200) || 'Untitled',
+        projectId,
+        content,
+        wordCount: countWords(htmlToText(content)),
+        parentId,
+        order: firstOrder + index,
+        kind: item.kind ?? 'chapter',
+        revisionStatus: item.revisionStatus ?? 'draft',
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      });
+      add(children ?? [], id, 0);
+    });
+  };
+  add(items, undefined, Math.max(topLevel.length, ...topLevel.map(d => (d.order ?? 0) + 1)));
+
+  try {
+    // Sealing uses WebCrypto, which would end the transaction, so it happens first
+    const rows = await Promise.all(drafts.map(draft => sealDraft(draft)));
+    const documents = await sealSearchDocuments(drafts.flatMap(buildDraftDocuments));
+    await db.transaction('rw', [db.drafts, db.search_index], async () => {
+      await db.drafts.bulkAdd(rows);
+      await db.search_index.bulkPut(documents);
+    });
+    return drafts.map(draft => draft.id);
+  } catch (error) {
+    console.error('Failed to import binder items:', error);
+    throw new Error('Failed to import drafts');
+  }
+};
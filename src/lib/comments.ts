@@ -0,0 +1,122 @@
+import { v4 as uuidv4 } from 'uuid';
+import db from './db';
+import { CommentAnchor, CommentMessage, CommentStatus, DraftComment } from './comments/types';
+import { sealComment, openComment } from './vault/records';
+import { sanitizeText } from '@/utils/security';
+
+export * from './comments/types';
+export {
+  COMMENT_ID_ATTRIBUTE,
+  captureAnchor,
+  findAnchor,
+  findTodoMarkers,
+  markedCommentIds,
+} from './comments/anchors';
+export type { TextRange, TodoMarker } from './comments/anchors';
+
+const MAX_COMMENT_LENGTH = 5000;
+
+function newMessage(author: string, body: string): CommentMessage {
+  const text = sanitizeText(body, MAX_COMMENT_LENGTH);
+  if (!text) throw new Error('Comment is empty');
+  return { id: uuidv4(), author: sanitizeText(author, 100) || 'Anonymous', body: text, createdAt: new Date() };
+}
+
+async function getComment(id: string): Promise<DraftComment> {
+  const row = await db.comments.get(id);
+  if (!row) throw new Error('Comment not found');
+  return openComment(row);
+}
+
+async function putComment(comment: DraftComment): Promise<DraftComment> {
+  await db.comments.put(await sealComment(comment));
+  return comment;
+}
+
+/**
+ * A draft's comment threads in the order they were started
+ */
+export async function getDraftComments(draftId: string): Promise<DraftComment[]> {
+  try {
+    const rows = await db.comments.where('draftId').equals(draftId).toArray();
+    const comments = await Promise.all(rows.map(row => openComment(row)));
+    return comments.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  } catch (error) {
+    console.error('Failed to get comments:', error);
+    throw new Error('Failed to load comments');
+  }
+}
+
+export async function createComment(
+  draft: { id: string; projectId: string },
+  anchor: CommentAnchor,
+  author: string,
+  body: string
+): Promise<DraftComment> {
+  const message = newMessage(author, body);
+  const now = new Date();
+  try {
+    return await putComment({
+      id: uuidv4(),
+      projectId: draft.projectId,
+      draftId: draft.id,
+      anchor,
+      messages: [message],
+      status: 'open',
+      createdAt: now,
+      updatedAt: now,
+    });
+  } catch (error) {
+    console.error('Failed to create comment:', error);
+    throw new Error('Failed to add comment');
+  }
+}
+
+export async function replyToComment(id: string, author: string, body: string): Promise<DraftComment> {
+  const message = newMessage(author, body);
+  const comment = await getComment(id);
+  try {
+    // Replying to a resolved thread reopens it
+    return await putComment({ ...comment, messages: [...comment.messages, message], status: 'open', resolvedAt: undefined, updatedAt: new Date() });
+  } catch (error) {
+    console.error('Failed to reply to comment:', error);
+    throw new Error('Failed to add reply');
+  }
+}
+
+export async function setCommentStatus(id: string, status: CommentStatus): Promise<DraftComment> {
+  const comment = await getComment(id);
+  try {
+    return await putComment({
+      ...comment,
+      status,
+      resolvedAt: status === 'resolved' ? new Date() : undefined,
+      updatedAt: new Date(),
+    });
+  } catch (error) {
+    console.error('Failed to update comment:', error);
+    throw new Error('Failed to update comment');
+  }
+}
+
+/**
+ * Records the text a comment is on now, for finding it again later
+ */
+export async function updateCommentAnchor(id: string, anchor: CommentAnchor): Promise<void> {
+  const comment = await getComment(id);
+  try {
+    await putComment({ ...comment, anchor });
+  } catch (error) {
+    console.error('Failed to update comment anchor:', error);
+    throw new Error('Failed to update comment');
+  }
+}
+
+export async function deleteComment(id: string): Promise<void> {
+  try {
+    await db.comments.delete(id);
+  } catch (error) {
+    console.error('Failed to delete comment:', error);
+    throw new Error('Failed to delete comment');
+  }
+}
@@ -0,0 +1,129 @@
+import { CommentAnchor } from './types';
+
+/*
+ * Locating comments in a draft's plain text. Positions are offsets into
+ * the editor's text, so they line up with Quill indexes.
+ */
+
+export const COMMENT_ID_ATTRIBUTE = 'data-comment-id';
+
+// Characters of context kept either side of the quote
+const CONTEXT_LENGTH = 32;
+
+export interface TextRange {
+  index: number;
+  length: number;
+}
+
+export function captureAnchor(text: string, { index, length }: TextRange): CommentAnchor {
+  return {
+    quote: text.slice(index, index + length),
+    prefix: text.slice(Math.max(0, index - CONTEXT_LENGTH), index),
+    suffix: text.slice(index + length, index + length + CONTEXT_LENGTH),
+  };
+}
+
+const sharedSuffix = (a: string, b: string) => {
+  let n = 0;
+  while (n < a.length && n < b.length && a[a.length - 1 - n] === b[b.length - 1 - n]) n++;
+  return n;
+};
+
+const sharedPrefix = (a: string, b: string) => {
+  let n = 0;
+  while (n < a.length && n < b.length && a[n] === b[n]) n++;
+  return n;
+};
+
+/**
+ * Where an anchor's quote appears now. With several copies of the quote,
+ * the one whose surroundings match best wins; null when it is gone.
+ */
+export function findAnchor(text: string, anchor: CommentAnchor): TextRange | null {
+  const { quote } = anchor;
+  if (!quote.trim()) return null;
+
+  let best: TextRange | null = null;
+  let bestScore = -1;
+  for (let index = text.indexOf(quote); index >= 0; index = text.indexOf(quote, index + 1)) {
+    const score = sharedSuffix(text.slice(Math.max(0, index - anchor.prefix.length), index), anchor.prefix) +
+      sharedPrefix(text.slice(index + quote.length, index + quote.length + anchor.suffix.length), anchor.suffix);
+    if (score > bestScore) {
+      best = { index, length: quote.length };
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * Ids of the comments marked in a draft's HTML
+ */
+export function markedCommentIds(html: string): Set<string> {
+  const doc = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+  return new Set(
+    Array.from(doc.body.querySelectorAll(`[${COMMENT_ID_ATTRIBUTE}]`))
+      .map(element => element.getAttribute(COMMENT_ID_ATTRIBUTE) ?? '')
+      .filter(Boolean)
+  );
+}
+
+/**
+ * A note left in the text as "[[TODO]]" or "[[TODO: check dates]]"
+ */
+export interface TodoMarker extends TextRange {
+  note: string;
+  // The sentence the note is about, as it will be once the marker is
+  // taken out
+  target: TextRange;
+}
+
+const TODO_MARKER = /\[\[TODO(?:\s*:\s*([^\]]*))?\]\]/gi;
+const SENTENCE_END = /[.!?\n]/;
+
+/**
+ * Finds TODO markers and the text each one refers to: the sentence it
+ * ends, or the one it starts when it opens a paragraph. Markers are
+ * listed last first so they can be taken out in that order without
+ * moving the ones still to come.
+ */
+export function findTodoMarkers(text: string): TodoMarker[] {
+  return Array.from(text.matchAll(TODO_MARKER)).map(match => {
+    let index = match.index ?? 0;
+    let length = match[0].length;
+    // Take a space with the marker so removing it leaves none doubled
+    const before = text[index - 1];
+    const after = text[index + length];
+    if (before === ' ' && (after === undefined || /[\s.,;:!?]/.test(after))) {
+      index--;
+      length++;
+    } else if ((index === 0 || before === '\n') && after === ' ') {
+      length++;
+    }
+
+    let start = index;
+    while (start > 0 && !SENTENCE_END.test(text[start - 1])) start--;
+    // A marker right after a full stop still belongs to that sentence
+    if (!text.slice(start, index).trim() && start > 0 && text[start - 1] !== '\n') {
+      start--;
+      while (start > 0 && !SENTENCE_END.test(text[start - 1])) start--;
+    }
+    let target: TextRange;
+    if (text.slice(start, index).trim()) {
+      target = trimRange(text, start, index);
+    } else {
+      let end = index + length;
+      while (end < text.length && !SENTENCE_END.test(text[end])) end++;
+      if (end < text.length && text[end] !== '\n') end++;
+      const after = trimRange(text, index + length, end);
+      target = { index: after.index - length, length: after.length };
+    }
+    return { index, length, note: (match[1] ?? '').trim(), target };
+  }).reverse();
+}
+
+function trimRange(text: string, start: number, end: number): TextRange {
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return { index: start, length: end - start };
+}
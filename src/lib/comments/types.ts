@@ -0,0 +1,36 @@
+export type CommentStatus = 'open' | 'resolved';
+
+export interface CommentMessage {
+  id: string;
+  author: string;
+  body: string;
+  createdAt: Date;
+}
+
+/**
+ * The commented text with a little of what surrounds it, so the comment
+ * can be put back on its text when the mark in the draft is lost, e.g.
+ * after restoring a version written before the comment
+ */
+export interface CommentAnchor {
+  quote: string;
+  prefix: string;
+  suffix: string;
+}
+
+/**
+ * A comment thread on a range of a draft. Threads live in their own table;
+ * the draft only carries an empty mark with the thread's id.
+ */
+export interface DraftComment {
+  id: string;
+  projectId: string;
+  draftId: string;
+  anchor: CommentAnchor;
+  // The opening comment, then replies in order
+  messages: CommentMessage[];
+  status: CommentStatus;
+  resolvedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
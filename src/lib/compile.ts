@@ -0,0 +1,78 @@
+import { v4 as uuidv4 } from 'uuid';
+import db, { updateProject } from './db';
+import { Manuscript, buildManuscript } from './export/manuscript';
+import { compileManuscript } from './compile/transforms';
+import { getCompileWriter } from './compile/writers';
+import { CompilePreset, CompileSettings } from './compile/types';
+import { sanitizeText } from '@/utils/security';
+import { toFileName } from '@/utils/download';
+
+export * from './compile/types';
+export { compileManuscript, selectChapters, numberToWords, SCENE_SEPARATOR_HTML } from './compile/transforms';
+export { registerCompileWriter, getCompileWriter, listCompileWriters } from './compile/writers';
+
+/**
+ * Compiles a project with the given settings into a file from the chosen writer
+ */
+export async function compileProject(projectId: string, settings: CompileSettings): Promise<{ blob: Blob; fileName: string }> {
+  const writer = getCompileWriter(settings.writer);
+  if (!writer) throw new Error('Unknown output format');
+
+  let manuscript: Manuscript;
+  try {
+    manuscript = await buildManuscript(projectId, { source: settings.source, author: settings.author });
+  } catch (error) {
+    console.error('Failed to load manuscript:', error);
+    throw new Error('Failed to load manuscript');
+  }
+
+  const compiled = compileManuscript(manuscript, settings);
+  if (compiled.chapters.length === 0) throw new Error('There is no text to compile');
+
+  try {
+    const output = await writer.write(compiled);
+    return {
+      blob: new Blob([output], { type: writer.mimeType }),
+      fileName: `${toFileName(manuscript.metadata.title, 'manuscript')}${writer.extension}`,
+    };
+  } catch (error) {
+    console.error('Failed to compile manuscript:', error);
+    throw new Error('Failed to compile manuscript');
+  }
+}
+
+export const getCompilePresets = async (projectId: string): Promise<CompilePreset[]> =>
+  (await db.projects.get(projectId))?.compilePresets ?? [];
+
+/**
+ * Saves settings under a name on the project, replacing a preset of the
+ * same name
+ */
+export async function saveCompilePreset(projectId: string, name: string, settings: CompileSettings): Promise<CompilePreset> {
+  const cleanName = sanitizeText(name, 100);
+  if (!cleanName) throw new Error('Preset name is required');
+
+  const presets = await getCompilePresets(projectId);
+  const existing = presets.find(preset => preset.name.toLowerCase() === cleanName.toLowerCase());
+  const preset: CompilePreset = { id: existing?.id ?? uuidv4(), name: cleanName, settings, updatedAt: new Date() };
+
+  try {
+    await updateProject(projectId, {
+      compilePresets: existing ? presets.map(p => p.id === existing.id ? preset : p) : [...presets, preset],
+    });
+    return preset;
+  } catch (error) {
+    console.error('Failed to save compile preset:', error);
+    throw new Error('Failed to save preset');
+  }
+}
+
+export async function deleteCompilePreset(projectId: string, presetId: string): Promise<void> {
+  const presets = await getCompilePresets(projectId);
+  try {
+    await updateProject(projectId, { compilePresets: presets.filter(preset => preset.id !== presetId) });
+  } catch (error) {
+    console.error('Failed to delete compile preset:', error);
+    throw new Error('Failed to delete preset');
+  }
+}
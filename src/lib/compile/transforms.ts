@@ -0,0 +1,172 @@
+import { Manuscript, ManuscriptChapter, SCENE_BREAK_TEXT } from '../export/manuscript';
+import { isStoryBibleHighlight } from '../export/markdown';
+import { escapeHtml } from '../import/blocks';
+import {
+  ChapterNumbering,
+  CompileMatterPage,
+  CompileSelectionItem,
+  CompileSettings,
+  CompiledManuscript,
+  CompiledPage,
+  SceneSeparator,
+} from './types';
+
+/*
+ * The text side of compiling: choosing and ordering chapters and scenes,
+ * then rewriting their HTML. Everything here is pure so a preset always
+ * gives the same output for the same drafts.
+ */
+
+export const SCENE_SEPARATOR_HTML: Record<SceneSeparator, string> = {
+  hash: '<p class="ql-align-center">#</p>',
+  asterisks: '<p class="ql-align-center">* * *</p>',
+  asterism: '<p class="ql-align-center">⁂</p>',
+  blank: '<p><br></p>',
+  none: '',
+};
+
+const BLOCK_TAGS = new Set(['p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'li', 'blockquote', 'pre', 'div', 'body']);
+
+const ONES = [
+  'Zero', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten',
+  'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen',
+];
+const TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+/**
+ * A chapter number in words, "Twenty-One"; numerals past 9999
+ */
+export function numberToWords(n: number): string {
+  if (!Number.isInteger(n) || n < 0 || n > 9999) return String(n);
+  if (n < 20) return ONES[n];
+  if (n < 100) return `${TENS[Math.floor(n / 10)]}${n % 10 ? `-${ONES[n % 10]}` : ''}`;
+  const [unit, size] = n < 1000 ? ['Hundred', 100] : ['Thousand', 1000];
+  const rest = n % size;
+  return `${ONES[Math.floor(n / size)]} ${unit}${rest ? ` ${numberToWords(rest)}` : ''}`;
+}
+
+export function chapterLabel(numbering: ChapterNumbering, n: number): string | undefined {
+  if (numbering === 'words') return `Chapter ${numberToWords(n)}`;
+  if (numbering === 'numbers') return String(n);
+  return undefined;
+}
+
+/**
+ * The chapters and scenes a selection names, in its order. Scenes may be
+ * moved between chapters; ids that no longer exist are passed over.
+ */
+export function selectChapters(chapters: ManuscriptChapter[], selection?: CompileSelectionItem[]): ManuscriptChapter[] {
+  if (!selection) return chapters;
+  const chapterById = new Map(chapters.map(chapter => [chapter.id, chapter]));
+  const sceneById = new Map(chapters.flatMap(chapter => chapter.scenes).map(scene => [scene.id, scene]));
+  return selection.flatMap(item => {
+    const chapter = chapterById.get(item.id);
+    const scenes = item.scenes.flatMap(id => sceneById.get(id) ?? []);
+    return chapter && scenes.length ? [{ ...chapter, scenes }] : [];
+  });
+}
+
+const isOpening = (char: string) => !char || /[\s([{—–/“‘-]/.test(char);
+
+/**
+ * Curly quotes for straight ones, judged by the character before each
+ */
+export function smartenQuotes(text: string, before = ''): string {
+  let previous = before;
+  return Array.from(text).map((char, index, chars) => {
+    let result = char;
+    if (char === '"') {
+      result = isOpening(previous) ? '“' : '”';
+    } else if (char === '\'') {
+      // Apostrophes in "don't" and "'90s" close; quotes after a space open
+      result = isOpening(previous) && !/\d/.test(chars[index + 1] ?? '') ? '‘' : '’';
+    }
+    previous = result;
+    return result;
+  }).join('');
+}
+
+const unwrap = (element: Element) => element.replaceWith(...Array.from(element.childNodes));
+
+function blockOf(node: Node): Node | null {
+  for (let parent = node.parentNode; parent; parent = parent.parentNode) {
+    if (BLOCK_TAGS.has(parent.nodeName.toLowerCase())) return parent;
+  }
+  return null;
+}
+
+/**
+ * One scene's HTML with the text transforms applied. Scene breaks already
+ * in the text take the chosen separator.
+ */
+export function transformSceneHtml(html: string, settings: Pick<CompileSettings, 'smartQuotes' | 'stripHighlights' | 'stripComments' | 'sceneSeparator'>): string {
+  const doc = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+  const { body } = doc;
+
+  if (settings.stripHighlights) {
+    Array.from(body.querySelectorAll('span')).filter(isStoryBibleHighlight).forEach(unwrap);
+  }
+  if (settings.stripComments) {
+    body.querySelectorAll('[data-comment-id]').forEach(unwrap);
+    const comments = doc.createTreeWalker(body, NodeFilter.SHOW_COMMENT);
+    const found: Node[] = [];
+    while (comments.nextNode()) found.push(comments.currentNode);
+    found.forEach(comment => comment.parentNode?.removeChild(comment));
+  }
+
+  Array.from(body.children)
+    .filter(element => element.tagName === 'P' && SCENE_BREAK_TEXT.test(element.textContent ?? ''))
+    .forEach(element => {
+      const separator = doc.createElement('template');
+      separator.innerHTML = SCENE_SEPARATOR_HTML[settings.sceneSeparator];
+      element.replaceWith(separator.content);
+    });
+
+  if (settings.smartQuotes) {
+    const walker = doc.createTreeWalker(body, NodeFilter.SHOW_TEXT);
+    let previous = '';
+    let block: Node | null = null;
+    while (walker.nextNode()) {
+      const node = walker.currentNode;
+      if (node.parentElement?.closest('pre, code')) continue;
+      const nodeBlock = blockOf(node);
+      if (nodeBlock !== block) previous = '';
+      block = nodeBlock;
+      const text = node.textContent ?? '';
+      node.textContent = smartenQuotes(text, previous);
+      previous = node.textContent.slice(-1) || previous;
+    }
+  }
+  return body.innerHTML;
+}
+
+// Blank lines start paragraphs, single line breaks stay as breaks
+export function matterPageHtml(text: string): string {
+  return text.trim().split(/\n\s*\n/)
+    .map(paragraph => `<p>${paragraph.trim().split('\n').map(line => escapeHtml(line.trim())).join('<br>')}</p>`)
+    .join('');
+}
+
+/**
+ * Runs a manuscript through the chosen selection and transforms
+ */
+export function compileManuscript(manuscript: Manuscript, settings: CompileSettings): CompiledManuscript {
+  const page = ({ title, text }: CompileMatterPage): CompiledPage => ({
+    title: title.trim(),
+    html: transformSceneHtml(matterPageHtml(text), { ...settings, stripHighlights: false, stripComments: false }),
+  });
+  const separator = SCENE_SEPARATOR_HTML[settings.sceneSeparator];
+
+  return {
+    metadata: settings.author?.trim() ? { ...manuscript.metadata, author: settings.author.trim() } : manuscript.metadata,
+    titlePage: settings.titlePage,
+    frontMatter: settings.frontMatter.filter(matter => matter.text.trim()).map(page),
+    chapters: selectChapters(manuscript.chapters, settings.selection).map((chapter, index) => ({
+      id: chapter.id,
+      label: chapterLabel(settings.chapterNumbering, index + 1),
+      title: settings.chapterTitles ? chapter.title : undefined,
+      html: chapter.scenes.map(scene => transformSceneHtml(scene.html, settings)).join(separator),
+    })),
+    backMatter: settings.backMatter.filter(matter => matter.text.trim()).map(page),
+  };
+}
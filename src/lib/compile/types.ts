@@ -0,0 +1,92 @@
+import type { ManuscriptMetadata, ManuscriptSource } from '../export/manuscript';
+
+export type SceneSeparator = 'hash' | 'asterisks' | 'asterism' | 'blank' | 'none';
+
+// "Chapter One", "1", or no label
+export type ChapterNumbering = 'words' | 'numbers' | 'none';
+
+// A front or back matter page, written as plain text
+export interface CompileMatterPage {
+  title: string;
+  text: string;
+}
+
+// A chapter to include with the scenes to include from it, in compile order
+export interface CompileSelectionItem {
+  id: string;
+  scenes: string[];
+}
+
+export interface CompileSettings {
+  source: ManuscriptSource;
+  // Everything in reading order when left out. Kept as ids, so a preset
+  // compiles the same text until the writer changes its selection.
+  selection?: CompileSelectionItem[];
+  sceneSeparator: SceneSeparator;
+  smartQuotes: boolean;
+  stripHighlights: boolean;
+  stripComments: boolean;
+  chapterNumbering: ChapterNumbering;
+  chapterTitles: boolean;
+  titlePage: boolean;
+  frontMatter: CompileMatterPage[];
+  backMatter: CompileMatterPage[];
+  // Id of a registered output writer
+  writer: string;
+  author?: string;
+}
+
+export interface CompilePreset {
+  id: string;
+  name: string;
+  settings: CompileSettings;
+  updatedAt: Date;
+}
+
+export interface CompiledPage {
+  title: string;
+  html: string;
+}
+
+export interface CompiledChapter {
+  id: string;
+  // From the numbering, e.g. "Chapter One"
+  label?: string;
+  title?: string;
+  // Scenes joined by the separator, with transforms applied
+  html: string;
+}
+
+export interface CompiledManuscript {
+  metadata: ManuscriptMetadata;
+  titlePage: boolean;
+  frontMatter: CompiledPage[];
+  chapters: CompiledChapter[];
+  backMatter: CompiledPage[];
+}
+
+/**
+ * Turns a compiled manuscript into a file. Writers only lay out what the
+ * pipeline produced; every text change happens in the transforms.
+ */
+export interface CompileWriter {
+  id: string;
+  label: string;
+  extension: string;
+  mimeType: string;
+  write: (manuscript: CompiledManuscript) => string | Uint8Array | Promise<string | Uint8Array>;
+}
+
+export const DEFAULT_COMPILE_SETTINGS: CompileSettings = {
+  source: { type: 'binder' },
+  sceneSeparator: 'hash',
+  smartQuotes: true,
+  stripHighlights: true,
+  stripComments: true,
+  chapterNumbering: 'words',
+  chapterTitles: true,
+  titlePage: true,
+  frontMatter: [],
+  backMatter: [],
+  writer: 'html',
+};
@@ -0,0 +1,145 @@
+import { Manuscript, ManuscriptChapter } from '../export/manuscript';
+import { EPUB_EXTENSION, EPUB_MIME_TYPE, buildEpub } from '../export/epub';
+import { MARKDOWN_EXTENSION, MARKDOWN_MIME_TYPE, htmlToMarkdown } from '../export/markdown';
+import { escapeHtml } from '../import/blocks';
+import { CompileWriter, CompiledChapter, CompiledManuscript, CompiledPage } from './types';
+
+/*
+ * Output writers for compiled manuscripts. Writers are looked up by id, so
+ * a preset names its format and other modules can add formats of their own
+ * with registerCompileWriter.
+ */
+
+const writers = new Map<string, CompileWriter>();
+
+export function registerCompileWriter(writer: CompileWriter): void {
+  writers.set(writer.id, writer);
+}
+
+export const getCompileWriter = (id: string): CompileWriter | undefined => writers.get(id);
+
+export const listCompileWriters = (): CompileWriter[] => Array.from(writers.values());
+
+// "Chapter One: The Harbour", or whichever half is set
+const chapterHeading = (chapter: CompiledChapter) => [chapter.label, chapter.title].filter(Boolean).join(': ');
+
+const byline = (manuscript: CompiledManuscript) => `by ${manuscript.metadata.author}`;
+
+const HTML_CSS = `
+body { font-family: Georgia, serif; line-height: 1.6; max-width: 40em; margin: 2em auto; padding: 0 1em; }
+section { break-before: page; page-break-before: always; }
+h1 { text-align: center; margin: 3em 0 0.5em; }
+h2.chapter-title { text-align: center; font-weight: normal; font-style: italic; margin: 0 0 2em; }
+p { margin: 0; text-indent: 1.5em; }
+h1 + p, h2 + p, .ql-align-center { text-indent: 0; }
+.title-page { text-align: center; margin-top: 30vh; }
+.ql-align-center { text-align: center; }
+.ql-align-right { text-align: right; }
+.ql-align-justify { text-align: justify; }
+${[1, 2, 3, 4, 5, 6, 7, 8].map(level => `.ql-indent-${level} { margin-left: ${level * 2}em; }`).join('\n')}
+`;
+
+function toHtml(manuscript: CompiledManuscript): string {
+  const { metadata } = manuscript;
+  const page = ({ title, html }: CompiledPage) =>
+    `<section class="matter">${title ? `<h1>${escapeHtml(title)}</h1>` : ''}${html}</section>`;
+  const chapter = (item: CompiledChapter) => {
+    const heading = item.label
+      ? `<h1>${escapeHtml(item.label)}</h1>${item.title ? `<h2 class="chapter-title">${escapeHtml(item.title)}</h2>` : ''}`
+      : item.title ? `<h1>${escapeHtml(item.title)}</h1>` : '';
+    return `<section class="chapter">${heading}${item.html}</section>`;
+  };
+
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(metadata.language)}">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(metadata.title)}</title>
+<meta name="author" content="${escapeHtml(metadata.author).replace(/"/g, '&quot;')}">
+<style>${HTML_CSS}</style>
+</head>
+<body>
+${[
+  manuscript.titlePage ? `<section class="title-page"><h1>${escapeHtml(metadata.title)}</h1><p>${escapeHtml(byline(manuscript))}</p></section>` : '',
+  ...manuscript.frontMatter.map(page),
+  ...manuscript.chapters.map(chapter),
+  ...manuscript.backMatter.map(page),
+].filter(Boolean).join('\n')}
+</body>
+</html>
+`;
+}
+
+/**
+ * Editor HTML as plain text: a blank line between paragraphs, list items
+ * marked, line breaks kept
+ */
+export function htmlToPlainText(html: string): string {
+  const doc = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+  const text = (element: Element) => {
+    const copy = element.cloneNode(true) as Element;
+    copy.querySelectorAll('br').forEach(br => br.replaceWith('\n'));
+    return (copy.textContent ?? '').replace(/\u00a0/g, ' ').trim();
+  };
+
+  return Array.from(doc.body.children).map(element => {
+    const tag = element.tagName.toLowerCase();
+    if (tag === 'ul' || tag === 'ol') {
+      return Array.from(element.children).map((item, index) => {
+        const indent = '  '.repeat(Number(/ql-indent-(\d)/.exec(item.className)?.[1] ?? 0));
+        return `${indent}${tag === 'ol' ? `${index + 1}.` : '-'} ${text(item)}`;
+      }).join('\n');
+    }
+    return text(element);
+  }).join('\n\n').replace(/\n{3,}/g, '\n\n');
+}
+
+function toText(manuscript: CompiledManuscript): string {
+  const { metadata } = manuscript;
+  const sections = [
+    manuscript.titlePage ? `${metadata.title}\n${byline(manuscript)}` : '',
+    ...manuscript.frontMatter.map(({ title, html }) => [title, htmlToPlainText(html)].filter(Boolean).join('\n\n')),
+    ...manuscript.chapters.map(item => [item.label, item.title].filter(Boolean).join('\n') + `\n\n${htmlToPlainText(item.html)}`),
+    ...manuscript.backMatter.map(({ title, html }) => [title, htmlToPlainText(html)].filter(Boolean).join('\n\n')),
+  ];
+  return `${sections.filter(section => section.trim()).map(section => section.trim()).join('\n\n\n')}\n`;
+}
+
+function toMarkdown(manuscript: CompiledManuscript): string {
+  const { metadata } = manuscript;
+  const section = (heading: string, html: string) => `${heading ? `# ${heading}\n\n` : ''}${htmlToMarkdown(html)}`;
+  return [
+    manuscript.titlePage ? `# ${metadata.title}\n\n*${byline(manuscript)}*\n` : '',
+    ...manuscript.frontMatter.map(page => section(page.title, page.html)),
+    ...manuscript.chapters.map(item => section(chapterHeading(item), item.html)),
+    ...manuscript.backMatter.map(page => section(page.title, page.html)),
+  ].filter(Boolean).join('\n');
+}
+
+// Matter pages and chapters become the book's chapters, one scene each
+function toEpubManuscript(manuscript: CompiledManuscript): Manuscript {
+  const asChapter = (id: string, title: string, html: string): ManuscriptChapter => ({
+    id,
+    title: title || manuscript.metadata.title,
+    scenes: [{ id, title, html }],
+  });
+  return {
+    metadata: manuscript.metadata,
+    chapters: [
+      ...manuscript.frontMatter.map((page, index) => asChapter(`front-${index + 1}`, page.title, page.html)),
+      ...manuscript.chapters.map(item => asChapter(item.id, chapterHeading(item), item.html)),
+      ...manuscript.backMatter.map((page, index) => asChapter(`back-${index + 1}`, page.title, page.html)),
+    ],
+  };
+}
+
+registerCompileWriter({ id: 'html', label: 'Web page (.html)', extension: '.html', mimeType: 'text/html', write: toHtml });
+registerCompileWriter({ id: 'text', label: 'Plain text (.txt)', extension: '.txt', mimeType: 'text/plain', write: toText });
+registerCompileWriter({ id: 'markdown', label: 'Markdown (.md)', extension: MARKDOWN_EXTENSION, mimeType: MARKDOWN_MIME_TYPE, write: toMarkdown });
+registerCompileWriter({
+  id: 'epub',
+  label: 'EPUB e-book (.epub)',
+  extension: EPUB_EXTENSION,
+  mimeType: EPUB_MIME_TYPE,
+  write: manuscript => buildEpub(toEpubManuscript(manuscript), { includeTitlePage: manuscript.titlePage, includeCover: true }),
+});
@@ -1,5 +1,26 @@
 import Dexie, { Table } from 'dexie';
 import { v4 as uuidv4 } from 'uuid';
+import type { Chapter } from '../types';
+import type { StoryBibleEntry } from './storyBibleDb';
+import type { DocumentVersion, StoredVersion, ProjectVersioningSettings } from './versioning/types';
+import type { CompilePreset } from './compile/types';
+import type { DraftComment } from './comments/types';
+import type { ProjectSpellcheckSettings } from './spellcheck/types';
+import { encodeKeyframe } from './versioning/encoding';
+import type { SearchDocument } from './search/types';
+import {
+  buildDraftDocuments,
+  buildOutlineDocuments,
+  buildStoryBibleDocuments,
+  replaceSearchDocuments,
+  removeSearchDocuments,
+} from './search/documents';
+import { importLegacyDatabases } from './migrations';
+import { inferFieldsFromTags } from './storyBibleFields';
+import { baseHtml } from './suggestions';
+import { htmlToText } from './search/tokenize';
+import { countWords } from '@/utils/textUtils';
+import { sealDraft, openDraft, sealOutline, openOutline, sealSearchDocuments } from './vault/records';
 
 // Define interfaces for database entities
 export interface Project {
@@ -7,16 +28,25 @@ export interface Project {
   userId: string;
   title: string;
   description?: string;
+  coverImage?: string;
   isPublic: boolean;
   genre?: string;
   tags?: string[];
   wordCountGoal?: number;
   deadline?: Date;
   status: 'planning' | 'writing' | 'editing' | 'completed';
+  // Version retention overrides for the project's drafts
+  versioning?: ProjectVersioningSettings;
+  // Saved compile settings, so a build can be repeated
+  compilePresets?: CompilePreset[];
+  // Spellchecker language and the project's own dictionary
+  spellcheck?: Partial<ProjectSpellcheckSettings>;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export type BinderItemKind = 'chapter' | 'scene';
+
 export interface Draft {
   id: string;
   projectId: string;
@@ -24,6 +54,15 @@ export interface Draft {
   content: string;
   wordCount: number;
   lastEditPosition?: number;
+  // Placement in the manuscript binder; top-level items have no parent
+  parentId?: string;
+  order?: number;
+  kind?: BinderItemKind;
+  revisionStatus?: Chapter['status'];
+  synopsis?: string;
+  pov?: string;
+  // Version history branch the content belongs to, main when unset
+  activeBranchId?: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -37,20 +76,142 @@ export interface Outline {
   updatedAt: Date;
 }
 
-// Define the database schema
+export type TrashItemType = 'project' | 'draft' | 'outline' | 'story_bible';
+
+/**
+ * Rows removed together by one delete. Stored verbatim so a restore puts
+ * everything back with the same IDs and relationships.
+ */
+export interface TrashSnapshot {
+  projects?: Project[];
+  drafts?: Draft[];
+  outlines?: Outline[];
+  story_bible?: StoryBibleEntry[];
+  versions?: StoredVersion[];
+  comments?: DraftComment[];
+}
+
+export interface TrashEntry {
+  id: string;
+  itemType: TrashItemType;
+  itemId: string;
+  projectId: string;
+  userId?: string;
+  title: string;
+  deletedAt: Date;
+  snapshot: TrashSnapshot;
+}
+
+/**
+ * Per-user passphrase vault. Only the salt and a verifier are stored; the
+ * derived key never leaves memory.
+ */
+export interface VaultRecord {
+  userId: string;
+  salt: Uint8Array;
+  iterations: number;
+  // A known string encrypted with the key, used to check a passphrase
+  verifier: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Define the database schema. Every schema change gets a new version entry
+// below; never edit a version that has already shipped.
 class NovelWritingAppDB extends Dexie {
   projects!: Table<Project, string>;
   drafts!: Table<Draft, string>;
   outlines!: Table<Outline, string>;
+  story_bible!: Table<StoryBibleEntry, string>;
+  versions!: Table<StoredVersion, string>;
+  search_index!: Table<SearchDocument, string>;
+  trash!: Table<TrashEntry, string>;
+  vaults!: Table<VaultRecord, string>;
+  comments!: Table<DraftComment, string>;
 
   constructor() {
     super('NovelWritingAppDB');
     
+    // v1: projects, drafts and outlines
     this.version(1).stores({
       projects: 'id, userId, title, status, createdAt, updatedAt',
       drafts: 'id, projectId, title, wordCount, createdAt, updatedAt',
       outlines: 'id, projectId, title, createdAt, updatedAt'
     });
+
+    // v2: story bible (formerly WriterDB) and version history (formerly versioning-db)
+    this.version(2).stores({
+      story_bible: 'id, project_id, type, name, updated_at, created_at',
+      versions: 'id, draftId, createdAt, [draftId+createdAt]'
+    });
+
+    // v3: versions are stored compressed, as keyframes or deltas against one
+    this.version(3).stores({
+      versions: 'id, draftId, createdAt, [draftId+createdAt], keyframeId'
+    }).upgrade(tx => tx.table('versions').toCollection().modify((row, ref) => {
+      if (typeof row.content === 'string') {
+        ref.value = encodeKeyframe(row as DocumentVersion);
+      }
+    }));
+
+    // v4: full-text search index, seeded from existing content
+    this.version(4).stores({
+      search_index: 'id, projectId, [sourceType+sourceId], *terms'
+    }).upgrade(async tx => {
+      const [drafts, outlines, entries] = await Promise.all([
+        tx.table('drafts').toArray(),
+        tx.table('outlines').toArray(),
+        tx.table('story_bible').toArray(),
+      ]);
+      await tx.table('search_index').bulkPut([
+        ...drafts.flatMap(buildDraftDocuments),
+        ...outlines.flatMap(buildOutlineDocuments),
+        ...entries.flatMap(buildStoryBibleDocuments),
+      ]);
+    });
+
+    // v5: trash bin for soft-deleted items
+    this.version(5).stores({
+      trash: 'id, projectId, userId, itemType, itemId, deletedAt'
+    });
+
+    // v6: passphrase vaults for at-rest encryption
+    this.version(6).stores({
+      vaults: 'userId'
+    });
+
+    // v7: type-specific story bible fields. Existing entries keep everything
+    // they had and get fields inferred from matching tags.
+    this.version(7).stores({}).upgrade(tx => tx.table('story_bible').toCollection().modify(entry => {
+      if (entry.fields === undefined) {
+        entry.fields = inferFieldsFromTags(entry.type, entry.tags || []);
+      }
+    }));
+
+    // v8: drafts become binder items. Existing drafts are made top-level
+    // chapters in the order they were created.
+    this.version(8).stores({}).upgrade(async tx => {
+      const drafts = await tx.table('drafts').toArray() as Draft[];
+      const nextOrder = new Map<string, number>();
+      drafts
+        .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+        .forEach(draft => {
+          const order = nextOrder.get(draft.projectId) ?? 0;
+          nextOrder.set(draft.projectId, order + 1);
+          draft.order ??= order;
+          draft.kind ??= 'chapter';
+          draft.revisionStatus ??= 'draft';
+        });
+      await tx.table('drafts').bulkPut(drafts);
+    });
+
+    // v9: comment threads anchored to ranges of drafts
+    this.version(9).stores({
+      comments: 'id, projectId, draftId, status, updatedAt'
+    });
+
+    // Rows from the retired databases are copied in once the schema is open.
+    this.on('ready', () => importLegacyDatabases(this));
   }
 }
 
@@ -89,13 +250,49 @@ export const updateProject = async (id: string, updates: Partial<Project>) => {
   });
 };
 
+export const addTrashEntry = async (entry: Omit<TrashEntry, 'id' | 'deletedAt'>) => {
+  const trashEntry: TrashEntry = {
+    ...entry,
+    id: uuidv4(),
+    deletedAt: new Date(),
+  };
+  await db.trash.add(trashEntry);
+  return trashEntry.id;
+};
+
 export const deleteProject = async (id: string) => {
-  // First delete all associated drafts and outlines
-  await db.drafts.where('projectId').equals(id).delete();
-  await db.outlines.where('projectId').equals(id).delete();
-  
-  // Then delete the project
-  return await db.projects.delete(id);
+  // Move the project and everything hanging off it to the trash in one
+  // transaction so a failure part-way never leaves orphaned rows behind
+  return await db.transaction('rw', [db.projects, db.drafts, db.outlines, db.story_bible, db.versions, db.comments, db.search_index, db.trash], async () => {
+    const project = await db.projects.get(id);
+    const drafts = await db.drafts.where('projectId').equals(id).toArray();
+    const draftIds = drafts.map(d => d.id);
+    const snapshot: TrashSnapshot = {
+      projects: project ? [project] : [],
+      drafts,
+      outlines: await db.outlines.where('projectId').equals(id).toArray(),
+      story_bible: await db.story_bible.where('project_id').equals(id).toArray(),
+      versions: await db.versions.where('draftId').anyOf(draftIds).toArray(),
+      comments: await db.comments.where('projectId').equals(id).toArray(),
+    };
+
+    await db.versions.where('draftId').anyOf(draftIds).delete();
+    await db.comments.where('projectId').equals(id).delete();
+    await db.search_index.where('projectId').equals(id).delete();
+    await db.drafts.where('projectId').equals(id).delete();
+    await db.outlines.where('projectId').equals(id).delete();
+    await db.story_bible.where('project_id').equals(id).delete();
+    await db.projects.delete(id);
+
+    return addTrashEntry({
+      itemType: 'project',
+      itemId: id,
+      projectId: id,
+      userId: project?.userId,
+      title: project?.title || 'Untitled Project',
+      snapshot,
+    });
+  });
 };
 
 // Draft CRUD operations
@@ -110,40 +307,84 @@ export const createDraft = async (draft: Omit<Draft, 'id' | 'createdAt' | 'updat
     updatedAt: timestamp,
   };
   
-  return await db.drafts.add(newDraft);
+  const row = await sealDraft(newDraft);
+  const documents = await sealSearchDocuments(buildDraftDocuments(newDraft));
+  return await db.transaction('rw', [db.drafts, db.search_index], async () => {
+    const key = await db.drafts.add(row);
+    await replaceSearchDocuments(db.search_index, 'draft', id, documents);
+    return key;
+  });
 };
 
 export const getDraft = async (id: string) => {
-  return await db.drafts.get(id);
+  const draft = await db.drafts.get(id);
+  return draft && await openDraft(draft);
 };
 
 export const getDrafts = async (projectId: string) => {
-  return await db.drafts.where('projectId').equals(projectId).toArray();
+  const drafts = await db.drafts.where('projectId').equals(projectId).toArray();
+  return Promise.all(drafts.map(draft => openDraft(draft)));
 };
 
 export const updateDraft = async (id: string, updates: Partial<Draft>) => {
   const updatedAt = new Date();
   // Fetch existing draft to fill missing fields
-  const existing = await db.drafts.get(id);
+  const existing = await getDraft(id);
   if (!existing) throw new Error('Draft not found');
   let wordCount = updates.wordCount;
   let content = updates.content ?? existing.content;
   if (updates.content) {
-    wordCount = updates.content.trim().split(/\s+/).length;
+    // Suggested insertions don't count until accepted
+    wordCount = countWords(htmlToText(baseHtml(updates.content)));
   } else {
     wordCount = existing.wordCount;
   }
-  return await db.drafts.update(id, {
+  const updated: Draft = {
     ...existing,
     ...updates,
     content,
     wordCount,
     updatedAt,
+  };
+  const row = await sealDraft(updated);
+  const documents = await sealSearchDocuments(buildDraftDocuments(updated));
+  return await db.transaction('rw', [db.drafts, db.search_index], async () => {
+    const count = await db.drafts.update(id, row);
+    await replaceSearchDocuments(db.search_index, 'draft', id, documents);
+    return count;
   });
 };
 
+/**
+ * Moves a draft to the trash together with any binder items nested under it
+ */
 export const deleteDraft = async (id: string) => {
-  return await db.drafts.delete(id);
+  return await db.transaction('rw', [db.drafts, db.versions, db.comments, db.search_index, db.trash], async () => {
+    const draft = await db.drafts.get(id);
+    if (!draft) throw new Error('Draft not found');
+
+    const siblings = await db.drafts.where('projectId').equals(draft.projectId).toArray();
+    const drafts = [draft];
+    for (let i = 0; i < drafts.length; i++) {
+      drafts.push(...siblings.filter(d => d.parentId === drafts[i].id));
+    }
+    const draftIds = drafts.map(d => d.id);
+    const versions = await db.versions.where('draftId').anyOf(draftIds).toArray();
+    const comments = await db.comments.where('draftId').anyOf(draftIds).toArray();
+
+    await db.versions.where('draftId').anyOf(draftIds).delete();
+    await db.comments.where('draftId').anyOf(draftIds).delete();
+    await removeSearchDocuments(db.search_index, 'draft', draftIds);
+    await db.drafts.bulkDelete(draftIds);
+
+    return addTrashEntry({
+      itemType: 'draft',
+      itemId: id,
+      projectId: draft.projectId,
+      title: draft.title,
+      snapshot: { drafts, versions, comments },
+    });
+  });
 };
 
 // Outline CRUD operations
@@ -158,28 +399,59 @@ export const createOutline = async (outline: Omit<Outline, 'id' | 'createdAt' |
     updatedAt: timestamp,
   };
   
-  return await db.outlines.add(newOutline);
+  const row = await sealOutline(newOutline);
+  const documents = await sealSearchDocuments(buildOutlineDocuments(newOutline));
+  return await db.transaction('rw', [db.outlines, db.search_index], async () => {
+    const key = await db.outlines.add(row);
+    await replaceSearchDocuments(db.search_index, 'outline', id, documents);
+    return key;
+  });
 };
 
 export const getOutline = async (id: string) => {
-  return await db.outlines.get(id);
+  const outline = await db.outlines.get(id);
+  return outline && await openOutline(outline);
 };
 
 export const getOutlines = async (projectId: string) => {
-  return await db.outlines.where('projectId').equals(projectId).toArray();
+  const outlines = await db.outlines.where('projectId').equals(projectId).toArray();
+  return Promise.all(outlines.map(outline => openOutline(outline)));
 };
 
 export const updateOutline = async (id: string, updates: Partial<Outline>) => {
-  const updatedAt = new Date();
-  
-  return await db.outlines.update(id, {
+  const existing = await getOutline(id);
+  if (!existing) return 0;
+
+  const updated: Outline = {
+    ...existing,
     ...updates,
-    updatedAt,
+    updatedAt: new Date(),
+  };
+  const row = await sealOutline(updated);
+  const documents = await sealSearchDocuments(buildOutlineDocuments(updated));
+  return await db.transaction('rw', [db.outlines, db.search_index], async () => {
+    const count = await db.outlines.update(id, row);
+    await replaceSearchDocuments(db.search_index, 'outline', id, documents);
+    return count;
   });
 };
 
 export const deleteOutline = async (id: string) => {
-  return await db.outlines.delete(id);
+  return await db.transaction('rw', [db.outlines, db.search_index, db.trash], async () => {
+    const outline = await db.outlines.get(id);
+    if (!outline) throw new Error('Outline not found');
+
+    await removeSearchDocuments(db.search_index, 'outline', [id]);
+    await db.outlines.delete(id);
+
+    return addTrashEntry({
+      itemType: 'outline',
+      itemId: id,
+      projectId: outline.projectId,
+      title: outline.title,
+      snapshot: { outlines: [outline] },
+    });
+  });
 };
 
 export default db;
@@ -0,0 +1,456 @@
+import { zipSync, strToU8 } from 'fflate';
+import { Manuscript, ManuscriptOptions, SCENE_BREAK_TEXT, buildManuscript } from './manuscript';
+import { escapeXml } from './xhtml';
+import { htmlToText } from '../search/tokenize';
+import { countWords } from '@/utils/textUtils';
+
+/*
+ * Standard manuscript format (after William Shunn) as a Word document:
+ * a title page with contact details and word count, a running header of
+ * surname / title / page, double-spaced text with indented paragraphs,
+ * "#" scene breaks and every chapter on a new page.
+ */
+
+export const DOCX_EXTENSION = '.docx';
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+export interface ManuscriptFormat {
+  font: string;
+  // Points
+  fontSize: number;
+  // 1 for single spacing, 2 for double
+  lineSpacing: number;
+  // Typewriter convention: italics are underlined
+  italics: 'italic' | 'underline';
+  sceneBreak: string;
+  chapterNewPage: boolean;
+  titlePage: boolean;
+  header: boolean;
+  // Closing line after the text, e.g. "END"; none when empty
+  endMarker: string;
+  paperSize: 'letter' | 'a4';
+}
+
+export interface ManuscriptFormatPreset {
+  id: string;
+  label: string;
+  description: string;
+  format: ManuscriptFormat;
+}
+
+export interface ManuscriptAuthor {
+  // Legal name for the title page
+  name: string;
+  // Shown in the running header
+  surname: string;
+  // Address, email, phone... one line each
+  contact: string[];
+  // Byline, when the book goes out under a pen name
+  penName?: string;
+}
+
+const SHUNN_MODERN: ManuscriptFormat = {
+  font: 'Times New Roman',
+  fontSize: 12,
+  lineSpacing: 2,
+  italics: 'italic',
+  sceneBreak: '#',
+  chapterNewPage: true,
+  titlePage: true,
+  header: true,
+  endMarker: 'END',
+  paperSize: 'letter',
+};
+
+export const MANUSCRIPT_FORMAT_PRESETS: ManuscriptFormatPreset[] = [
+  {
+    id: 'shunn-modern',
+    label: 'Standard (Times)',
+    description: 'Times New Roman 12pt, double spaced, italics kept',
+    format: SHUNN_MODERN,
+  },
+  {
+    id: 'shunn-classic',
+    label: 'Classic (Courier)',
+    description: 'Courier New 12pt, double spaced, italics underlined',
+    format: { ...SHUNN_MODERN, font: 'Courier New', italics: 'underline' },
+  },
+  {
+    id: 'shunn-a4',
+    label: 'Standard, A4 paper',
+    description: 'As standard, on A4 paper for agents outside North America',
+    format: { ...SHUNN_MODERN, paperSize: 'a4' },
+  },
+];
+
+// Word measures in twentieths of a point; an inch is 1440
+const INCH = 1440;
+const PAGE_SIZES = {
+  letter: { width: 12240, height: 15840 },
+  a4: { width: 11906, height: 16838 },
+};
+
+const BLOCK_TAGS = new Set(['p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote', 'pre', 'div']);
+
+/**
+ * Shunn's "about N words": to the nearest hundred for short work, the
+ * nearest thousand for longer
+ */
+export function roundWordCount(words: number): number {
+  if (words < 100) return Math.max(words, 0);
+  const step = words < 10000 ? 100 : 1000;
+  return Math.round(words / step) * step;
+}
+
+interface RunStyle {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strike?: boolean;
+  vertAlign?: 'superscript' | 'subscript';
+  code?: boolean;
+}
+
+interface DocxContext {
+  format: ManuscriptFormat;
+  // One numbering instance per list so each ordered list counts from 1
+  lists: ('bullet' | 'decimal')[];
+}
+
+const text = (value: string) => `<w:t xml:space="preserve">${escapeXml(value)}</w:t>`;
+
+function runProperties(style: RunStyle, format: ManuscriptFormat): string {
+  const props = [
+    style.code ? '<w:rFonts w:ascii="Courier New" w:hAnsi="Courier New" w:cs="Courier New"/>' : '',
+    style.bold ? '<w:b/>' : '',
+    style.italic && format.italics === 'italic' ? '<w:i/>' : '',
+    style.strike ? '<w:strike/>' : '',
+    style.underline || (style.italic && format.italics === 'underline') ? '<w:u w:val="single"/>' : '',
+    style.vertAlign ? `<w:vertAlign w:val="${style.vertAlign}"/>` : '',
+  ].join('');
+  return props ? `<w:rPr>${props}</w:rPr>` : '';
+}
+
+function run(value: string, style: RunStyle, format: ManuscriptFormat): string {
+  return `<w:r>${runProperties(style, format)}${text(value)}</w:r>`;
+}
+
+function inlineRuns(node: Node, style: RunStyle, format: ManuscriptFormat): string {
+  if (node.nodeType === Node.TEXT_NODE) {
+    const value = (node.textContent ?? '').replace(/[\r\n]+/g, ' ');
+    return value ? run(value, style, format) : '';
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+  const element = node as Element;
+  const tag = element.tagName.toLowerCase();
+  if (tag === 'br') return '<w:r><w:br/></w:r>';
+  if (tag === 'img') return '';
+
+  const next: RunStyle = { ...style };
+  if (tag === 'strong' || tag === 'b') next.bold = true;
+  if (tag === 'em' || tag === 'i') next.italic = true;
+  if (tag === 'u') next.underline = true;
+  if (tag === 's' || tag === 'strike') next.strike = true;
+  if (tag === 'sup') next.vertAlign = 'superscript';
+  if (tag === 'sub') next.vertAlign = 'subscript';
+  if (tag === 'code') next.code = true;
+
+  return Array.from(element.childNodes).map(child => inlineRuns(child, next, format)).join('');
+}
+
+const classLevel = (element: Element, prefix: string) => {
+  const match = new RegExp(`\\b${prefix}-(\\d)\\b`).exec(element.getAttribute('class') ?? '');
+  return match ? Number(match[1]) : 0;
+};
+
+function alignment(element: Element): string {
+  const match = /\bql-align-(center|right|justify)\b/.exec(element.getAttribute('class') ?? '');
+  if (!match) return '';
+  return `<w:jc w:val="${match[1] === 'justify' ? 'both' : match[1]}"/>`;
+}
+
+function paragraph(style: string, content: string, extra = ''): string {
+  return `<w:p><w:pPr><w:pStyle w:val="${style}"/>${extra}</w:pPr>${content}</w:p>`;
+}
+
+function blockParagraph(element: Element, context: DocxContext): string {
+  const tag = element.tagName.toLowerCase();
+  const { format } = context;
+
+  // Quill writes an empty line as a paragraph holding a lone <br>
+  const onlyBreak = element.childNodes.length === 1 && (element.firstChild as Element).tagName?.toLowerCase() === 'br';
+  const content = onlyBreak ? '' : Array.from(element.childNodes).map(child => inlineRuns(child, {}, format)).join('');
+
+  if (tag === 'p' && SCENE_BREAK_TEXT.test(element.textContent ?? '')) {
+    return paragraph('SceneBreak', run(format.sceneBreak, {}, format));
+  }
+
+  const indent = classLevel(element, 'ql-indent');
+  const extra = `${indent ? `<w:ind w:left="${indent * INCH / 2}"/>` : ''}${alignment(element)}`;
+  if (/^h[1-6]$/.test(tag)) return paragraph(`Heading${Math.min(Number(tag[1]), 3)}`, content, extra);
+  if (tag === 'blockquote') return paragraph('Quote', content, extra);
+  if (tag === 'pre') return paragraph('Code', content, extra);
+  return paragraph('Normal', content, extra);
+}
+
+function listParagraphs(list: Element, context: DocxContext): string[] {
+  context.lists.push(list.tagName.toLowerCase() === 'ol' ? 'decimal' : 'bullet');
+  // numId 0 means "no numbering" in Word, so instances start at 1
+  const numId = context.lists.length;
+  return Array.from(list.children)
+    .filter(item => item.tagName.toLowerCase() === 'li')
+    .map(item => {
+      const level = Math.min(classLevel(item, 'ql-indent'), 8);
+      const content = Array.from(item.childNodes).map(child => inlineRuns(child, {}, context.format)).join('');
+      return paragraph(
+        'ListParagraph',
+        content,
+        `<w:numPr><w:ilvl w:val="${level}"/><w:numId w:val="${numId}"/></w:numPr>${alignment(item)}`
+      );
+    });
+}
+
+/**
+ * Word paragraphs for a piece of editor HTML
+ */
+function htmlToParagraphs(html: string, context: DocxContext): string[] {
+  const doc = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+  const paragraphs: string[] = [];
+  let loose = '';
+  const flush = () => {
+    if (loose.trim()) paragraphs.push(paragraph('Normal', loose));
+    loose = '';
+  };
+
+  Array.from(doc.body.childNodes).forEach(node => {
+    const tag = node.nodeType === Node.ELEMENT_NODE ? (node as Element).tagName.toLowerCase() : '';
+    if (tag === 'ul' || tag === 'ol') {
+      flush();
+      paragraphs.push(...listParagraphs(node as Element, context));
+    } else if (BLOCK_TAGS.has(tag)) {
+      flush();
+      paragraphs.push(blockParagraph(node as Element, context));
+    } else {
+      loose += inlineRuns(node, {}, context.format);
+    }
+  });
+  flush();
+  return paragraphs;
+}
+
+function titlePage(manuscript: Manuscript, author: ManuscriptAuthor, words: number, format: ManuscriptFormat): string[] {
+  const contact = [author.name, ...author.contact].filter(line => line.trim());
+  const [first = '', ...rest] = contact;
+  return [
+    paragraph('TitlePageContact', `${run(first, {}, format)}<w:r><w:tab/></w:r>${run(`about ${roundWordCount(words).toLocaleString('en-US')} words`, {}, format)}`),
+    ...rest.map(line => paragraph('TitlePageContact', run(line, {}, format))),
+    paragraph('Title', run(manuscript.metadata.title, {}, format)),
+    paragraph('Byline', run(`by ${author.penName?.trim() || author.name}`, {}, format)),
+  ];
+}
+
+const styleXml = (format: ManuscriptFormat) => {
+  const line = Math.round(240 * format.lineSpacing);
+  const font = escapeXml(format.font);
+  const size = format.fontSize * 2;
+  const { width } = PAGE_SIZES[format.paperSize];
+  const textWidth = width - 2 * INCH;
+  const style = (id: string, name: string, pPr: string, rPr = '') =>
+    `<w:style w:type="paragraph" w:styleId="${id}"><w:name w:val="${name}"/><w:basedOn w:val="Normal"/><w:qFormat/><w:pPr>${pPr}</w:pPr>${rPr ? `<w:rPr>${rPr}</w:rPr>` : ''}</w:style>`;
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">',
+    '<w:docDefaults>',
+    `<w:rPrDefault><w:rPr><w:rFonts w:ascii="${font}" w:hAnsi="${font}" w:eastAsia="${font}" w:cs="${font}"/><w:sz w:val="${size}"/><w:szCs w:val="${size}"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault>`,
+    `<w:pPrDefault><w:pPr><w:spacing w:before="0" w:after="0" w:line="${line}" w:lineRule="auto"/></w:pPr></w:pPrDefault>`,
+    '</w:docDefaults>',
+    `<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/><w:pPr><w:ind w:firstLine="${INCH / 2}"/></w:pPr></w:style>`,
+    style('Heading1', 'heading 1', `<w:keepNext/><w:ind w:firstLine="0"/><w:jc w:val="center"/><w:outlineLvl w:val="0"/>`),
+    style('Heading2', 'heading 2', `<w:keepNext/><w:ind w:firstLine="0"/><w:jc w:val="center"/><w:outlineLvl w:val="1"/>`),
+    style('Heading3', 'heading 3', `<w:keepNext/><w:ind w:firstLine="0"/><w:outlineLvl w:val="2"/>`, '<w:b/>'),
+    style('ChapterTitle', 'Chapter Title', `<w:keepNext/><w:spacing w:before="${2 * INCH}" w:after="${line}"/><w:ind w:firstLine="0"/><w:jc w:val="center"/><w:outlineLvl w:val="0"/>`),
+    style('SceneBreak', 'Scene Break', '<w:keepNext/><w:ind w:firstLine="0"/><w:jc w:val="center"/>'),
+    style('Quote', 'Quote', `<w:ind w:left="${INCH / 2}" w:right="${INCH / 2}" w:firstLine="0"/>`),
+    style('Code', 'Code', '<w:ind w:firstLine="0"/>', '<w:rFonts w:ascii="Courier New" w:hAnsi="Courier New" w:cs="Courier New"/>'),
+    style('ListParagraph', 'List Paragraph', '<w:ind w:firstLine="0"/>'),
+    style('TitlePageContact', 'Title Page Contact', `<w:tabs><w:tab w:val="right" w:pos="${textWidth}"/></w:tabs><w:spacing w:line="240" w:lineRule="auto"/><w:ind w:firstLine="0"/>`),
+    style('Title', 'Title', `<w:spacing w:before="${3 * INCH}" w:after="${line}"/><w:ind w:firstLine="0"/><w:jc w:val="center"/>`),
+    style('Byline', 'Byline', '<w:ind w:firstLine="0"/><w:jc w:val="center"/>'),
+    style('Header', 'header', '<w:spacing w:line="240" w:lineRule="auto"/><w:ind w:firstLine="0"/><w:jc w:val="right"/>'),
+    '</w:styles>',
+  ].join('\n');
+};
+
+const numberingXml = (lists: DocxContext['lists']) => {
+  const levels = (kind: 'bullet' | 'decimal') =>
+    Array.from({ length: 9 }, (_, level) =>
+      `<w:lvl w:ilvl="${level}"><w:start w:val="1"/><w:numFmt w:val="${kind}"/><w:lvlText w:val="${kind === 'bullet' ? '•' : `%${level + 1}.`}"/><w:lvlJc w:val="left"/><w:pPr><w:ind w:left="${(level + 1) * INCH / 2}" w:hanging="${INCH / 4}"/></w:pPr></w:lvl>`
+    ).join('');
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<w:numbering xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">',
+    `<w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="hybridMultilevel"/>${levels('bullet')}</w:abstractNum>`,
+    `<w:abstractNum w:abstractNumId="1"><w:multiLevelType w:val="hybridMultilevel"/>${levels('decimal')}</w:abstractNum>`,
+    ...lists.map((kind, index) =>
+      `<w:num w:numId="${index + 1}"><w:abstractNumId w:val="${kind === 'bullet' ? 0 : 1}"/>${kind === 'decimal' ? '<w:lvlOverride w:ilvl="0"><w:startOverride w:val="1"/></w:lvlOverride>' : ''}</w:num>`
+    ),
+    '</w:numbering>',
+  ].join('\n');
+};
+
+const headerXml = (content: string) => [
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+  '<w:hdr xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">',
+  content,
+  '</w:hdr>',
+].join('\n');
+
+const W_NAMESPACES = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+
+/**
+ * Writes a manuscript as a Word document in standard manuscript format
+ */
+export function buildManuscriptDocx(
+  manuscript: Manuscript,
+  author: ManuscriptAuthor,
+  format: ManuscriptFormat = SHUNN_MODERN
+): Uint8Array {
+  const context: DocxContext = { format, lists: [] };
+  const words = manuscript.chapters
+    .flatMap(chapter => chapter.scenes)
+    .reduce((total, scene) => total + countWords(htmlToText(scene.html)), 0);
+
+  const body: string[] = format.titlePage ? titlePage(manuscript, author, words, format) : [];
+  manuscript.chapters.forEach((chapter, index) => {
+    const breakBefore = (format.chapterNewPage && (index > 0 || format.titlePage)) ? '<w:pageBreakBefore/>' : '';
+    body.push(paragraph('ChapterTitle', run(chapter.title || `Chapter ${index + 1}`, {}, format), breakBefore));
+    chapter.scenes.forEach((scene, sceneIndex) => {
+      if (sceneIndex > 0) body.push(paragraph('SceneBreak', run(format.sceneBreak, {}, format)));
+      body.push(...htmlToParagraphs(scene.html, context));
+    });
+  });
+  if (format.endMarker.trim()) body.push(paragraph('SceneBreak', run(format.endMarker.trim(), {}, format)));
+
+  const page = PAGE_SIZES[format.paperSize];
+  const headerTitle = manuscript.metadata.title.toUpperCase();
+  const headerReferences = format.header
+    ? '<w:headerReference w:type="default" r:id="rIdHeaderDefault"/><w:headerReference w:type="first" r:id="rIdHeaderFirst"/>'
+    : '';
+  const sectPr = [
+    '<w:sectPr>',
+    headerReferences,
+    `<w:pgSz w:w="${page.width}" w:h="${page.height}"/>`,
+    `<w:pgMar w:top="${INCH}" w:right="${INCH}" w:bottom="${INCH}" w:left="${INCH}" w:header="${INCH / 2}" w:footer="${INCH / 2}" w:gutter="0"/>`,
+    // The title page is page 0, so the text starts on page 1
+    format.titlePage ? '<w:pgNumType w:start="0"/><w:titlePg/>' : '',
+    '</w:sectPr>',
+  ].join('');
+
+  const document = [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    `<w:document ${W_NAMESPACES}>`,
+    '<w:body>',
+    ...body,
+    sectPr,
+    '</w:body>',
+    '</w:document>',
+  ].join('\n');
+
+  const runningHeader = paragraph(
+    'Header',
+    [
+      run(`${author.surname || author.name} / ${headerTitle} / `, {}, format),
+      '<w:r><w:fldChar w:fldCharType="begin"/></w:r>',
+      '<w:r><w:instrText xml:space="preserve"> PAGE </w:instrText></w:r>',
+      '<w:r><w:fldChar w:fldCharType="separate"/></w:r>',
+      run('1', {}, format),
+      '<w:r><w:fldChar w:fldCharType="end"/></w:r>',
+    ].join('')
+  );
+  // With a title page the first page has no header; without one the
+  // first page carries it like every other
+  const firstHeader = format.titlePage ? paragraph('Header', '') : runningHeader;
+
+  const relationships = [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+    '<Relationship Id="rIdStyles" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>',
+    '<Relationship Id="rIdNumbering" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering" Target="numbering.xml"/>',
+    '<Relationship Id="rIdHeaderDefault" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/header" Target="header1.xml"/>',
+    '<Relationship Id="rIdHeaderFirst" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/header" Target="header2.xml"/>',
+    '</Relationships>',
+  ].join('\n');
+
+  const contentTypes = [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">',
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>',
+    '<Default Extension="xml" ContentType="application/xml"/>',
+    '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>',
+    '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>',
+    '<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>',
+    '<Override PartName="/word/header1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.header+xml"/>',
+    '<Override PartName="/word/header2.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.header+xml"/>',
+    '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>',
+    '</Types>',
+  ].join('\n');
+
+  const packageRelationships = [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>',
+    '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>',
+    '</Relationships>',
+  ].join('\n');
+
+  const coreProperties = [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">',
+    `<dc:title>${escapeXml(manuscript.metadata.title)}</dc:title>`,
+    `<dc:creator>${escapeXml(author.penName?.trim() || author.name)}</dc:creator>`,
+    `<dc:language>${escapeXml(manuscript.metadata.language)}</dc:language>`,
+    `<dcterms:modified xsi:type="dcterms:W3CDTF">${manuscript.metadata.modified.toISOString().replace(/\.\d{3}Z$/, 'Z')}</dcterms:modified>`,
+    '</cp:coreProperties>',
+  ].join('\n');
+
+  return zipSync({
+    '[Content_Types].xml': strToU8(contentTypes),
+    '_rels/.rels': strToU8(packageRelationships),
+    'docProps/core.xml': strToU8(coreProperties),
+    'word/document.xml': strToU8(document),
+    'word/styles.xml': strToU8(styleXml(format)),
+    'word/numbering.xml': strToU8(numberingXml(context.lists)),
+    'word/header1.xml': strToU8(headerXml(runningHeader)),
+    'word/header2.xml': strToU8(headerXml(firstHeader)),
+    'word/_rels/document.xml.rels': strToU8(relationships),
+  });
+}
+
+/**
+ * Compiles chosen drafts of a project into a standard manuscript DOCX
+ */
+export async function exportManuscriptDocx(
+  projectId: string,
+  author: ManuscriptAuthor,
+  format: ManuscriptFormat,
+  options: ManuscriptOptions = {}
+): Promise<Blob> {
+  let manuscript: Manuscript;
+  try {
+    manuscript = await buildManuscript(projectId, options);
+  } catch (error) {
+    console.error('Failed to load manuscript:', error);
+    throw new Error('Failed to load manuscript');
+  }
+  if (manuscript.chapters.length === 0) throw new Error('There is no text to export');
+
+  try {
+    return new Blob([buildManuscriptDocx(manuscript, author, format)], { type: DOCX_MIME_TYPE });
+  } catch (error) {
+    console.error('Failed to export DOCX:', error);
+    throw new Error('Failed to export manuscript');
+  }
+}
@@ -0,0 +1,322 @@
+import { zipSync, strToU8, Zippable } from 'fflate';
+import { Manuscript, ManuscriptOptions, buildManuscript } from './manuscript';
+import { BinaryResource, ImageCollector, decodeDataUrl, escapeXml, imageExtension, toXhtml, xhtmlDocument } from './xhtml';
+
+/*
+ * EPUB 3 writer. Books carry an EPUB 2 NCX alongside the navigation
+ * document so older e-readers still show the table of contents.
+ */
+
+export const EPUB_EXTENSION = '.epub';
+export const EPUB_MIME_TYPE = 'application/epub+zip';
+
+export interface EmbeddedFont {
+  family: string;
+  fileName: string;
+  data: Uint8Array;
+  weight?: 'normal' | 'bold';
+  style?: 'normal' | 'italic';
+}
+
+export interface EpubOptions {
+  // Font files to embed; the first family is used for body text
+  fonts?: EmbeddedFont[];
+  includeTitlePage?: boolean;
+  includeCover?: boolean;
+}
+
+const FONT_MEDIA_TYPES: Record<string, string> = {
+  ttf: 'font/ttf',
+  otf: 'font/otf',
+  woff: 'font/woff',
+  woff2: 'font/woff2',
+};
+
+export const EMBEDDABLE_FONT_EXTENSIONS = Object.keys(FONT_MEDIA_TYPES).map(extension => `.${extension}`);
+
+export const fontMediaType = (fileName: string): string | undefined =>
+  FONT_MEDIA_TYPES[fileName.split('.').pop()?.toLowerCase() ?? ''];
+
+const BOOK_CSS = `
+body { font-family: serif; line-height: 1.5; margin: 0 5%; }
+h1.chapter-title { font-size: 1.6em; text-align: center; margin: 3em 0 1.5em; page-break-before: always; break-before: page; }
+p { margin: 0; text-indent: 1.5em; text-align: justify; }
+h1 + p, hr.scene-break + p, .no-indent { text-indent: 0; }
+hr.scene-break { border: none; margin: 1.5em 0; text-align: center; }
+hr.scene-break::after { content: "* * *"; }
+blockquote { margin: 1em 2em; font-style: italic; }
+pre, code { font-family: monospace; white-space: pre-wrap; }
+img { max-width: 100%; }
+.ql-align-center { text-align: center; text-indent: 0; }
+.ql-align-right { text-align: right; text-indent: 0; }
+.ql-align-justify { text-align: justify; }
+.ql-direction-rtl { direction: rtl; }
+.ql-size-small { font-size: 0.75em; }
+.ql-size-large { font-size: 1.5em; }
+.ql-size-huge { font-size: 2.5em; }
+.ql-font-serif { font-family: serif; }
+.ql-font-monospace { font-family: monospace; }
+${[1, 2, 3, 4, 5, 6, 7, 8].map(level => `.ql-indent-${level} { margin-left: ${level * 2}em; }`).join('\n')}
+.title-page { text-align: center; margin-top: 30%; }
+.title-page h1 { font-size: 2em; }
+.title-page p { text-indent: 0; text-align: center; }
+.cover { text-align: center; margin: 0; padding: 0; }
+.cover img { max-height: 100%; }
+nav ol { list-style: none; padding-left: 0; }
+`.trim();
+
+// Fonts are stored under generated names so any uploaded file name is safe
+const fontFile = (font: EmbeddedFont, index: number) =>
+  `font-${index + 1}.${font.fileName.split('.').pop()?.toLowerCase()}`;
+
+const fontFamily = (font: EmbeddedFont) => `"${font.family.replace(/["\\]/g, '')}"`;
+
+const fontCss = (fonts: EmbeddedFont[]) =>
+  fonts
+    .map((font, index) => [
+      '@font-face {',
+      `  font-family: ${fontFamily(font)};`,
+      `  font-weight: ${font.weight ?? 'normal'};`,
+      `  font-style: ${font.style ?? 'normal'};`,
+      `  src: url("../fonts/${fontFile(font, index)}");`,
+      '}',
+    ].join('\n'))
+    .join('\n');
+
+// EPUB wants dates without fractional seconds
+const formatDate = (date: Date) => date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+const chapterFile = (index: number) => `text/chapter-${String(index + 1).padStart(3, '0')}.xhtml`;
+
+/**
+ * Cover image bytes from a data URL, or fetched from an http(s) URL
+ */
+async function loadCover(url: string): Promise<{ mediaType: string; data: Uint8Array } | null> {
+  const decoded = decodeDataUrl(url);
+  if (decoded) return imageExtension(decoded.mediaType) ? decoded : null;
+  if (!/^https?:/i.test(url)) return null;
+
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return null;
+    const mediaType = (response.headers.get('content-type') ?? '').split(';')[0].trim().toLowerCase();
+    if (!imageExtension(mediaType)) return null;
+    return { mediaType, data: new Uint8Array(await response.arrayBuffer()) };
+  } catch (error) {
+    // A book without its cover beats no book
+    console.error('Failed to load cover image:', error);
+    return null;
+  }
+}
+
+interface ManifestItem {
+  id: string;
+  href: string;
+  mediaType: string;
+  properties?: string;
+}
+
+/**
+ * Writes a manuscript as an EPUB 3 archive
+ */
+export async function buildEpub(manuscript: Manuscript, options: EpubOptions = {}): Promise<Uint8Array> {
+  const { metadata, chapters } = manuscript;
+  const { fonts = [], includeTitlePage = true, includeCover = true } = options;
+  const lang = metadata.language;
+
+  const files: Zippable = {};
+  const manifest: ManifestItem[] = [];
+  const spine: string[] = [];
+  const add = (item: ManifestItem, content: string | Uint8Array) => {
+    files[`OEBPS/${item.href}`] = typeof content === 'string' ? strToU8(content) : content;
+    manifest.push(item);
+  };
+
+  const css = [BOOK_CSS, fontCss(fonts), fonts[0] ? `body { font-family: ${fontFamily(fonts[0])}, serif; }` : '']
+    .filter(Boolean)
+    .join('\n\n');
+  add({ id: 'css', href: 'styles/book.css', mediaType: 'text/css' }, css);
+
+  fonts.forEach((font, index) => {
+    const mediaType = fontMediaType(font.fileName);
+    if (!mediaType) throw new Error(`Unsupported font file: ${font.fileName}`);
+    add({ id: `font-${index + 1}`, href: `fonts/${fontFile(font, index)}`, mediaType }, font.data);
+  });
+
+  const cover = includeCover && metadata.coverImage ? await loadCover(metadata.coverImage) : null;
+  if (cover) {
+    add(
+      { id: 'cover-image', href: `images/cover.${imageExtension(cover.mediaType)}`, mediaType: cover.mediaType, properties: 'cover-image' },
+      cover.data
+    );
+    add(
+      { id: 'cover', href: 'text/cover.xhtml', mediaType: 'application/xhtml+xml' },
+      xhtmlDocument(
+        metadata.title,
+        `<body class="cover"><section epub:type="cover"><img src="../images/cover.${imageExtension(cover.mediaType)}" alt="${escapeXml(metadata.title)}"/></section></body>`,
+        lang
+      )
+    );
+    spine.push('cover');
+  }
+
+  if (includeTitlePage) {
+    add(
+      { id: 'title-page', href: 'text/title.xhtml', mediaType: 'application/xhtml+xml' },
+      xhtmlDocument(
+        metadata.title,
+        [
+          '<body>',
+          '<section class="title-page" epub:type="titlepage">',
+          `<h1>${escapeXml(metadata.title)}</h1>`,
+          `<p>${escapeXml(metadata.author)}</p>`,
+          '</section>',
+          '</body>',
+        ].join('\n'),
+        lang
+      )
+    );
+    spine.push('title-page');
+  }
+
+  const tocEntries = chapters.map((chapter, index) => ({ title: chapter.title || `Chapter ${index + 1}`, href: chapterFile(index) }));
+  add(
+    { id: 'nav', href: 'nav.xhtml', mediaType: 'application/xhtml+xml', properties: 'nav' },
+    xhtmlDocument(
+      'Contents',
+      [
+        '<body>',
+        '<nav epub:type="toc" id="toc">',
+        '<h1>Contents</h1>',
+        '<ol>',
+        ...tocEntries.map(entry => `<li><a href="${entry.href}">${escapeXml(entry.title)}</a></li>`),
+        '</ol>',
+        '</nav>',
+        '<nav epub:type="landmarks" hidden="hidden">',
+        '<ol>',
+        ...(cover ? ['<li><a epub:type="cover" href="text/cover.xhtml">Cover</a></li>'] : []),
+        ...(includeTitlePage ? ['<li><a epub:type="titlepage" href="text/title.xhtml">Title Page</a></li>'] : []),
+        '<li><a epub:type="toc" href="nav.xhtml">Contents</a></li>',
+        ...(tocEntries[0] ? [`<li><a epub:type="bodymatter" href="${tocEntries[0].href}">Start</a></li>`] : []),
+        '</ol>',
+        '</nav>',
+        '</body>',
+      ].join('\n'),
+      lang,
+      'styles/book.css'
+    )
+  );
+  spine.push('nav');
+
+  const images = new ImageCollector();
+  chapters.forEach((chapter, index) => {
+    const body = chapter.scenes.map(scene => toXhtml(scene.html, images)).join('\n<hr class="scene-break"/>\n');
+    const id = `chapter-${index + 1}`;
+    add(
+      { id, href: chapterFile(index), mediaType: 'application/xhtml+xml' },
+      xhtmlDocument(
+        tocEntries[index].title,
+        [
+          '<body>',
+          `<section epub:type="chapter" id="${id}">`,
+          `<h1 class="chapter-title">${escapeXml(tocEntries[index].title)}</h1>`,
+          body,
+          '</section>',
+          '</body>',
+        ].join('\n'),
+        lang
+      )
+    );
+    spine.push(id);
+  });
+  images.resources.forEach((image: BinaryResource, index) => {
+    add({ id: `image-${index + 1}`, href: image.href, mediaType: image.mediaType }, image.data);
+  });
+
+  add(
+    { id: 'ncx', href: 'toc.ncx', mediaType: 'application/x-dtbncx+xml' },
+    [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1">',
+      '<head>',
+      `<meta name="dtb:uid" content="${escapeXml(metadata.identifier)}"/>`,
+      '<meta name="dtb:depth" content="1"/>',
+      '</head>',
+      `<docTitle><text>${escapeXml(metadata.title)}</text></docTitle>`,
+      '<navMap>',
+      ...tocEntries.map((entry, index) =>
+        `<navPoint id="nav-${index + 1}" playOrder="${index + 1}"><navLabel><text>${escapeXml(entry.title)}</text></navLabel><content src="${entry.href}"/></navPoint>`
+      ),
+      '</navMap>',
+      '</ncx>',
+    ].join('\n')
+  );
+
+  const subjects = [metadata.genre, ...metadata.tags].filter((subject): subject is string => !!subject?.trim());
+  const opf = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${escapeXml(lang)}">`,
+    '<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    `<dc:identifier id="book-id">${escapeXml(metadata.identifier)}</dc:identifier>`,
+    `<dc:title>${escapeXml(metadata.title)}</dc:title>`,
+    `<dc:creator id="author">${escapeXml(metadata.author)}</dc:creator>`,
+    '<meta refines="#author" property="role" scheme="marc:relators">aut</meta>',
+    `<dc:language>${escapeXml(lang)}</dc:language>`,
+    ...(metadata.description ? [`<dc:description>${escapeXml(metadata.description)}</dc:description>`] : []),
+    ...subjects.map(subject => `<dc:subject>${escapeXml(subject)}</dc:subject>`),
+    `<meta property="dcterms:modified">${formatDate(metadata.modified)}</meta>`,
+    ...(cover ? ['<meta name="cover" content="cover-image"/>'] : []),
+    '</metadata>',
+    '<manifest>',
+    ...manifest.map(item =>
+      `<item id="${item.id}" href="${escapeXml(item.href)}" media-type="${item.mediaType}"${item.properties ? ` properties="${item.properties}"` : ''}/>`
+    ),
+    '</manifest>',
+    '<spine toc="ncx">',
+    ...spine.map(idref => `<itemref idref="${idref}"/>`),
+    '</spine>',
+    '</package>',
+  ].join('\n');
+
+  const container = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">',
+    '<rootfiles>',
+    '<rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>',
+    '</rootfiles>',
+    '</container>',
+  ].join('\n');
+
+  // The mimetype entry must come first and be stored uncompressed
+  return zipSync({
+    mimetype: [strToU8(EPUB_MIME_TYPE), { level: 0 }],
+    'META-INF/container.xml': strToU8(container),
+    'OEBPS/content.opf': strToU8(opf),
+    ...files,
+  });
+}
+
+/**
+ * Compiles a project into an EPUB file
+ */
+export async function exportProjectToEpub(
+  projectId: string,
+  options: ManuscriptOptions & EpubOptions = {}
+): Promise<Blob> {
+  let manuscript: Manuscript;
+  try {
+    manuscript = await buildManuscript(projectId, options);
+  } catch (error) {
+    console.error('Failed to load manuscript:', error);
+    throw new Error('Failed to load manuscript');
+  }
+  if (manuscript.chapters.length === 0) throw new Error('There is no text to export');
+
+  try {
+    const epub = await buildEpub(manuscript, options);
+    return new Blob([epub], { type: EPUB_MIME_TYPE });
+  } catch (error) {
+    console.error('Failed to export EPUB:', error);
+    throw new Error('Failed to export EPUB');
+  }
+}
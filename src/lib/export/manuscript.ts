@@ -0,0 +1,128 @@
+import db, { Draft, Project, getDrafts } from '../db';
+import { buildBinderTree, flattenBinder } from '../binder';
+import { EnhancedOutlineService } from '@/utils/outlineDb';
+import { baseHtml } from '../suggestions';
+
+/*
+ * A project gathered into chapters in reading order, ready for a writer
+ * to turn into a file. Chapters come from the binder, where a chapter
+ * starts a new one and the scenes after it are part of it, or from the
+ * chapters of one of the project's outlines.
+ */
+
+export interface ManuscriptScene {
+  id: string;
+  title: string;
+  html: string;
+}
+
+export interface ManuscriptChapter {
+  id: string;
+  title: string;
+  // The chapter's own text, if any, then its scenes in order
+  scenes: ManuscriptScene[];
+}
+
+export interface ManuscriptMetadata {
+  title: string;
+  author: string;
+  // BCP 47 tag, e.g. "en" or "fr-CA"
+  language: string;
+  description?: string;
+  genre?: string;
+  tags: string[];
+  // Data or http(s) URL
+  coverImage?: string;
+  identifier: string;
+  modified: Date;
+}
+
+export interface Manuscript {
+  metadata: ManuscriptMetadata;
+  chapters: ManuscriptChapter[];
+}
+
+export type ManuscriptSource = { type: 'binder' } | { type: 'outline'; outlineId: string };
+
+export interface ManuscriptOptions {
+  source?: ManuscriptSource;
+  // Binder drafts to include; all of them when left out
+  draftIds?: string[];
+  author?: string;
+  language?: string;
+}
+
+// A paragraph holding only a scene break: "#", "***" or "* * *"
+export const SCENE_BREAK_TEXT = /^\s*(#|\*(\s*\*){2})\s*$/;
+
+const hasText = (html: string) => html.replace(/<[^>]*>/g, '').trim().length > 0;
+
+/**
+ * Groups drafts in reading order into chapters. A scene with no chapter
+ * before it starts one of its own. With `include`, only those drafts'
+ * text is kept, still under the chapter they belong to.
+ */
+export function chaptersFromDrafts(drafts: Draft[], include?: Set<string>): ManuscriptChapter[] {
+  const chapters: ManuscriptChapter[] = [];
+  flattenBinder(buildBinderTree(drafts)).forEach(draft => {
+    const scene = { id: draft.id, title: draft.title, html: baseHtml(draft.content) };
+    const current = chapters[chapters.length - 1];
+    if (draft.kind === 'scene' && current) {
+      current.scenes.push(scene);
+    } else {
+      chapters.push({ id: draft.id, title: draft.title, scenes: [scene] });
+    }
+  });
+  return chapters.map(chapter => ({
+    ...chapter,
+    scenes: chapter.scenes.filter(scene => (!include || include.has(scene.id)) && hasText(scene.html)),
+  }));
+}
+
+async function chaptersFromOutline(projectId: string, outlineId: string): Promise<ManuscriptChapter[]> {
+  const outline = await EnhancedOutlineService.getOutline(outlineId);
+  if (!outline || outline.projectId !== projectId) throw new Error('Outline not found');
+
+  const byOrder = <T extends { order: number }>(items: T[]) => [...items].sort((a, b) => a.order - b.order);
+  return byOrder(outline.parts).flatMap(part =>
+    byOrder(part.chapters).map(chapter => ({
+      id: chapter.id,
+      title: chapter.title,
+      scenes: byOrder(chapter.scenes)
+        .filter(scene => scene.content && hasText(scene.content))
+        .map(scene => ({ id: scene.id, title: scene.title, html: scene.content! })),
+    }))
+  );
+}
+
+export function getManuscriptMetadata(project: Project, options: ManuscriptOptions = {}): ManuscriptMetadata {
+  return {
+    title: project.title,
+    author: options.author?.trim() || 'Unknown',
+    language: options.language || 'en',
+    description: project.description,
+    genre: project.genre,
+    tags: project.tags ?? [],
+    coverImage: project.coverImage,
+    identifier: `urn:uuid:${project.id}`,
+    modified: new Date(project.updatedAt),
+  };
+}
+
+/**
+ * Loads a project's text and metadata as a manuscript
+ */
+export async function buildManuscript(projectId: string, options: ManuscriptOptions = {}): Promise<Manuscript> {
+  const project = await db.projects.get(projectId);
+  if (!project) throw new Error('Project not found');
+
+  const source = options.source ?? { type: 'binder' };
+  const chapters = source.type === 'outline'
+    ? await chaptersFromOutline(projectId, source.outlineId)
+    : chaptersFromDrafts(await getDrafts(projectId), options.draftIds && new Set(options.draftIds));
+
+  return {
+    metadata: getManuscriptMetadata(project, options),
+    chapters: chapters.filter(chapter => chapter.scenes.length > 0),
+  };
+}
@@ -0,0 +1,311 @@
+import { zipSync, strToU8 } from 'fflate';
+import db, { Draft, getDraft, getDrafts } from '../db';
+import { buildBinderTree, flattenBinder } from '../binder';
+import { SCENE_BREAK_TEXT } from './manuscript';
+import { baseHtml } from '../suggestions';
+import { toFileName } from '@/utils/download';
+
+/*
+ * Drafts as CommonMark, for writers who work in plain-text editors. Beyond
+ * CommonMark we write GFM strikethrough, footnotes as [^label], scene
+ * breaks as "* * *", and story bible highlights as [text](bible:Name) links
+ * when asked to keep them. Underline, superscript and subscript have no
+ * Markdown syntax and are kept as inline HTML. Alignment, colours and
+ * fonts are dropped. The matching reader is lib/import/markdown.
+ */
+
+export const MARKDOWN_EXTENSION = '.md';
+export const MARKDOWN_MIME_TYPE = 'text/markdown';
+
+// Link scheme for story bible highlights kept as links
+export const STORY_BIBLE_LINK_SCHEME = 'bible:';
+
+// Footnotes live in the editor as a superscript "[label]": where the note
+// is referenced, and again at the start of the paragraph holding its text
+export const FOOTNOTE_MARKER = /^\[([^\]\s]+)\]$/;
+
+export interface MarkdownOptions {
+  // Keep story bible highlights as bible: links, or drop them to plain text
+  highlights?: 'drop' | 'link';
+  // Title, kind, status, synopsis and point of view as YAML front matter
+  frontMatter?: boolean;
+}
+
+const INLINE_TAGS: Record<string, string> = { strong: '**', b: '**', s: '~~', strike: '~~', del: '~~' };
+const RAW_INLINE_TAGS = new Set(['u', 'sup', 'sub']);
+
+const ESCAPED = /[\\`*_[\]<>~|]/g;
+
+function escapeText(text: string): string {
+  return text.replace(ESCAPED, '\\$&').replace(/&(?=[#\w]+;)/g, '\\&');
+}
+
+// Characters that would start a block at the beginning of a line
+function escapeLineStart(line: string): string {
+  return line
+    .replace(/^(\s*)(#{1,6}(?:\s|$)|[-+=](?:\s|$)|>)/, '$1\\$2')
+    .replace(/^(\s*\d+)([.)])(?=\s|$)/, '$1\\$2');
+}
+
+// A code span fence longer than any run of backticks inside it
+function codeSpan(text: string): string {
+  const longest = Math.max(0, ...(text.match(/`+/g) ?? []).map(run => run.length));
+  const fence = '`'.repeat(longest + 1);
+  const pad = text.startsWith('`') || text.endsWith('`') ? ' ' : '';
+  return `${fence}${pad}${text}${pad}${fence}`;
+}
+
+// Delimiters must hug the text, so surrounding spaces move outside them
+function wrap(content: string, open: string, close = open): string {
+  const match = /^(\s*)([\s\S]*?)(\s*)$/.exec(content)!;
+  return match[2] ? `${match[1]}${open}${match[2]}${close}${match[3]}` : content;
+}
+
+const isWordChar = (char: string | undefined) => !!char && /[\p{L}\p{N}]/u.test(char);
+
+export function isStoryBibleHighlight(element: Element): boolean {
+  return element.classList.contains('story-bible-highlight') ||
+    // The editor's highlight format, a span with the entry as its tooltip
+    (element.tagName.toLowerCase() === 'span' && element.hasAttribute('title') && /dotted/.test(element.getAttribute('style') ?? ''));
+}
+
+// The entry name from a "Name: description" tooltip, else its id
+function storyBibleReference(element: Element): string {
+  const title = element.getAttribute('title');
+  if (title) return title.split(':')[0].trim();
+  return element.getAttribute('data-entry-id') ?? element.textContent?.trim() ?? '';
+}
+
+const safeUrl = (url: string) => /^(https?:|mailto:|#|\/)/i.test(url.trim()) ? url.trim() : '';
+const linkDestination = (url: string) => /[\s()<>]/.test(url) ? `<${url.replace(/[<>]/g, encodeURIComponent)}>` : url;
+
+function inline(node: Node, options: MarkdownOptions): string {
+  if (node.nodeType === Node.TEXT_NODE) {
+    return escapeText((node.textContent ?? '').replace(/\u00a0/g, ' ').replace(/\s*\n\s*/g, ' '));
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+  const element = node as Element;
+  const tag = element.tagName.toLowerCase();
+  const children = () => Array.from(element.childNodes).map(child => inline(child, options)).join('');
+
+  if (tag === 'br') return '\\\n';
+  if (tag === 'code') return codeSpan(element.textContent ?? '');
+  if (tag === 'img') {
+    const src = element.getAttribute('src') ?? '';
+    return src ? `![${escapeText(element.getAttribute('alt') ?? '')}](${linkDestination(src)})` : '';
+  }
+  if (tag === 'em' || tag === 'i') {
+    // Underscores read better but don't work inside a word
+    const before = element.previousSibling?.textContent?.slice(-1);
+    const after = element.nextSibling?.textContent?.[0];
+    return wrap(children(), isWordChar(before) || isWordChar(after) ? '*' : '_');
+  }
+  if (INLINE_TAGS[tag]) return wrap(children(), INLINE_TAGS[tag]);
+  if (tag === 'sup' && FOOTNOTE_MARKER.test(element.textContent ?? '')) {
+    return `[^${FOOTNOTE_MARKER.exec(element.textContent!)![1]}]`;
+  }
+  if (RAW_INLINE_TAGS.has(tag)) return wrap(children(), `<${tag}>`, `</${tag}>`);
+  if (tag === 'a') {
+    const href = safeUrl(element.getAttribute('href') ?? '');
+    return href ? `[${children()}](${linkDestination(href)})` : children();
+  }
+  if (isStoryBibleHighlight(element)) {
+    const reference = storyBibleReference(element);
+    return options.highlights === 'link' && reference
+      ? `[${children()}](${STORY_BIBLE_LINK_SCHEME}${encodeURIComponent(reference)})`
+      : children();
+  }
+  return children();
+}
+
+function inlineContent(element: Element, options: MarkdownOptions): string {
+  return Array.from(element.childNodes)
+    .map(child => inline(child, options))
+    .join('')
+    // A trailing hard break would join the next block
+    .replace(/(\\\n)+$/, '')
+    .split('\n')
+    .map(line => escapeLineStart(line.replace(/^\s+/, '')))
+    .join('\n')
+    .trim();
+}
+
+const indentLevel = (element: Element) => {
+  const match = /\bql-indent-(\d)\b/.exec(element.getAttribute('class') ?? '');
+  return match ? Number(match[1]) : 0;
+};
+
+const indentLines = (text: string, prefix: string, first = prefix) =>
+  text.split('\n').map((line, index) => (index === 0 ? first : prefix) + line).join('\n');
+
+function listBlock(list: Element, options: MarkdownOptions): string {
+  const ordered = list.tagName.toLowerCase() === 'ol';
+  const counters: number[] = [];
+  return Array.from(list.children)
+    .filter(item => item.tagName.toLowerCase() === 'li')
+    .map(item => {
+      const level = indentLevel(item);
+      counters.length = level + 1;
+      counters[level] = (counters[level] ?? 0) + 1;
+      const marker = ordered ? `${counters[level]}. ` : '- ';
+      const indent = '    '.repeat(level);
+      return indentLines(inlineContent(item, options) || ' ', `${indent}    `, `${indent}${marker}`);
+    })
+    .join('\n');
+}
+
+function codeBlock(element: Element): string {
+  const text = (element.textContent ?? '').replace(/\n$/, '');
+  const longest = Math.max(2, ...(text.match(/^`+/gm) ?? []).map(run => run.length));
+  const fence = '`'.repeat(longest + 1);
+  return `${fence}\n${text}\n${fence}`;
+}
+
+/**
+ * Converts editor HTML to Markdown
+ */
+export function htmlToMarkdown(html: string, options: MarkdownOptions = {}): string {
+  const doc = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+  const blocks: { text: string; quote?: boolean; list?: string }[] = [];
+  let loose = '';
+  const flush = () => {
+    if (loose.trim()) blocks.push({ text: escapeLineStart(loose.trim()) });
+    loose = '';
+  };
+
+  Array.from(doc.body.childNodes).forEach(node => {
+    if (node.nodeType !== Node.ELEMENT_NODE) {
+      loose += inline(node, options);
+      return;
+    }
+    const element = node as Element;
+    const tag = element.tagName.toLowerCase();
+
+    if (tag === 'ul' || tag === 'ol') {
+      flush();
+      blocks.push({ text: listBlock(element, options), list: tag });
+    } else if (tag === 'pre') {
+      flush();
+      blocks.push({ text: codeBlock(element) });
+    } else if (/^h[1-6]$/.test(tag)) {
+      flush();
+      const text = inlineContent(element, options).replace(/\\\n/g, ' ');
+      if (text) blocks.push({ text: `${'#'.repeat(Number(tag[1]))} ${text}` });
+    } else if (tag === 'blockquote') {
+      flush();
+      const text = inlineContent(element, options);
+      if (text) blocks.push({ text: indentLines(text, '> '), quote: true });
+    } else if (tag === 'p' || tag === 'div') {
+      flush();
+      if (SCENE_BREAK_TEXT.test(element.textContent ?? '')) {
+        blocks.push({ text: '* * *' });
+        return;
+      }
+      // A footnote's text starts with its marker
+      const first = element.firstChild as Element | null;
+      const label = first?.tagName?.toLowerCase() === 'sup' && FOOTNOTE_MARKER.exec(first.textContent ?? '');
+      if (label) {
+        const rest = element.cloneNode(true) as Element;
+        rest.firstChild!.remove();
+        blocks.push({ text: indentLines(inlineContent(rest, options), '    ', `[^${label[1]}]: `) });
+        return;
+      }
+      const text = inlineContent(element, options);
+      if (text) blocks.push({ text });
+    } else {
+      loose += inline(element, options);
+    }
+  });
+  flush();
+
+  return blocks
+    .map((block, index) => {
+      const previous = blocks[index - 1];
+      if (!previous) return block.text;
+      // Consecutive quotes are one quote with paragraphs; lists of the same
+      // kind need a separator or they would merge into one
+      if (block.quote && previous.quote) return `>\n${block.text}`;
+      if (block.list && block.list === previous.list) return `\n<!-- -->\n\n${block.text}`;
+      return `\n${block.text}`;
+    })
+    .join('\n')
+    .concat('\n');
+}
+
+const yamlString = (value: string) => JSON.stringify(value);
+
+/**
+ * A draft as a Markdown file, with its binder details as front matter.
+ * Suggestions still under review are left out.
+ */
+export function draftToMarkdown(draft: Draft, options: MarkdownOptions = {}): string {
+  const body = htmlToMarkdown(baseHtml(draft.content), options);
+  if (options.frontMatter === false) return `# ${escapeText(draft.title)}\n\n${body}`;
+
+  const fields: [string, string | undefined][] = [
+    ['title', draft.title],
+    ['kind', draft.kind],
+    ['status', draft.revisionStatus],
+    ['synopsis', draft.synopsis],
+    ['pov', draft.pov],
+  ];
+  const frontMatter = fields
+    .filter(([, value]) => value)
+    .map(([key, value]) => `${key}: ${yamlString(value!)}`);
+  return `---\n${frontMatter.join('\n')}\n---\n\n${body}`;
+}
+
+/**
+ * Downloads one draft as Markdown
+ */
+export async function exportDraftMarkdown(draftId: string, options: MarkdownOptions = {}): Promise<{ blob: Blob; fileName: string }> {
+  let draft: Draft | undefined;
+  try {
+    draft = await getDraft(draftId);
+  } catch (error) {
+    console.error('Failed to load draft:', error);
+    throw new Error('Failed to load draft');
+  }
+  if (!draft) throw new Error('Draft not found');
+
+  return {
+    blob: new Blob([draftToMarkdown(draft, options)], { type: MARKDOWN_MIME_TYPE }),
+    fileName: `${toFileName(draft.title)}${MARKDOWN_EXTENSION}`,
+  };
+}
+
+/**
+ * Every draft of a project as a folder of Markdown files, zipped. File
+ * names are numbered in binder order so the folder lists in reading order.
+ */
+export async function exportProjectMarkdown(projectId: string, options: MarkdownOptions = {}): Promise<{ blob: Blob; fileName: string }> {
+  let folder: string;
+  let drafts: Draft[];
+  try {
+    const project = await db.projects.get(projectId);
+    if (!project) throw new Error('Project not found');
+    folder = toFileName(project.title, 'manuscript');
+    drafts = flattenBinder(buildBinderTree(await getDrafts(projectId)));
+  } catch (error) {
+    console.error('Failed to load project:', error);
+    throw new Error('Failed to load project');
+  }
+  if (drafts.length === 0) throw new Error('There are no drafts to export');
+
+  try {
+    const digits = Math.max(2, String(drafts.length).length);
+    const files: Record<string, Uint8Array> = {};
+    drafts.forEach((draft, index) => {
+      const number = String(index + 1).padStart(digits, '0');
+      files[`${folder}/${number} ${toFileName(draft.title)}${MARKDOWN_EXTENSION}`] = strToU8(draftToMarkdown(draft, options));
+    });
+    return {
+      blob: new Blob([zipSync(files)], { type: 'application/zip' }),
+      fileName: `${folder}.zip`,
+    };
+  } catch (error) {
+    console.error('Failed to export Markdown:', error);
+    throw new Error('Failed to export Markdown');
+  }
+}
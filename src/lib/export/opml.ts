@@ -0,0 +1,68 @@
+import { EnhancedOutline } from '@/types/outline';
+import { htmlToText } from '../search/tokenize';
+import { escapeXml } from './xhtml';
+import { toFileName } from '@/utils/download';
+
+/*
+ * Writes an outline as OPML for outliner apps. Parts, chapters and scenes
+ * nest as outline elements; notes go in the _note attribute outliners
+ * read, and a kind attribute lets our own import restore the levels.
+ */
+
+export const OPML_EXTENSION = '.opml';
+export const OPML_MIME_TYPE = 'text/x-opml';
+
+// Attribute values keep their line breaks, which XML would otherwise fold to spaces
+const attribute = (name: string, value: string | number | undefined) =>
+  value === undefined || value === '' ? '' : ` ${name}="${escapeXml(String(value)).replace(/\r?\n/g, '&#10;')}"`;
+
+// Summaries and notes are stored sanitized as HTML; outliners expect plain text
+const plain = (html: string | undefined) => (html ? htmlToText(html) : undefined);
+
+/**
+ * An outline as an OPML 2.0 document
+ */
+export function outlineToOpml(outline: EnhancedOutline): string {
+  const node = (indent: string, attributes: string, children: string[]) =>
+    children.length
+      ? `${indent}<outline${attributes}>\n${children.join('')}${indent}</outline>\n`
+      : `${indent}<outline${attributes}/>\n`;
+
+  const body = outline.parts.map(part => node(
+    '    ',
+    `${attribute('text', part.title)}${attribute('kind', 'part')}${attribute('summary', plain(part.summary))}${attribute('_note', plain(part.notes))}`,
+    part.chapters.map(chapter => node(
+      '      ',
+      `${attribute('text', chapter.title)}${attribute('kind', 'chapter')}${attribute('summary', plain(chapter.summary))}${attribute('_note', plain(chapter.notes))}`,
+      chapter.scenes.map(scene => node(
+        '        ',
+        `${attribute('text', scene.title)}${attribute('kind', 'scene')}${attribute('status', scene.status)}` +
+          `${attribute('pov', scene.pov)}${attribute('location', scene.location)}${attribute('wordCount', scene.wordCount)}` +
+          `${attribute('summary', plain(scene.summary))}${attribute('_note', plain(scene.notes))}`,
+        [],
+      )),
+    )),
+  )).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<opml version="2.0">
+  <head>
+    <title>${escapeXml(outline.title)}</title>
+    <dateCreated>${new Date(outline.createdAt).toUTCString()}</dateCreated>
+    <dateModified>${new Date(outline.updatedAt).toUTCString()}</dateModified>
+  </head>
+  <body>
+${body}  </body>
+</opml>
+`;
+}
+
+/**
+ * Downloads an outline as OPML
+ */
+export function exportOutlineOpml(outline: EnhancedOutline): { blob: Blob; fileName: string } {
+  return {
+    blob: new Blob([outlineToOpml(outline)], { type: OPML_MIME_TYPE }),
+    fileName: `${toFileName(outline.title, 'outline')}${OPML_EXTENSION}`,
+  };
+}
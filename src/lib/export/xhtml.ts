@@ -0,0 +1,160 @@
+/*
+ * Converts editor HTML into well-formed XHTML for e-book chapters. Only
+ * markup the editor produces survives; anything else is unwrapped to its
+ * text. Embedded images are pulled out into separate files.
+ */
+
+export interface BinaryResource {
+  // Path inside the book, relative to the package document
+  href: string;
+  mediaType: string;
+  data: Uint8Array;
+}
+
+const BLOCK_TAGS = new Set(['p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'li', 'blockquote', 'pre', 'div']);
+const INLINE_TAGS = new Set(['strong', 'b', 'em', 'i', 'u', 's', 'sub', 'sup', 'code', 'span', 'a']);
+const VOID_TAGS = new Set(['br', 'hr', 'img']);
+const RENAMED_TAGS: Record<string, string> = { strike: 's' };
+
+// Editor classes the book stylesheet knows about
+const KEPT_CLASS = /^(ql-align-(center|right|justify)|ql-indent-[1-8]|ql-direction-rtl|ql-size-(small|large|huge)|ql-font-(serif|monospace))$/;
+const SAFE_LINK = /^(https?:|mailto:|#)/i;
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/svg+xml': 'svg',
+  'image/webp': 'webp',
+};
+
+export const escapeXml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Characters XML 1.0 doesn't allow at all
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+
+/**
+ * Splits a base64 data URL into its media type and bytes
+ */
+export function decodeDataUrl(url: string): { mediaType: string; data: Uint8Array } | null {
+  const match = /^data:([^;,]+)(;[^,]*)?,(.*)$/s.exec(url.trim());
+  if (!match) return null;
+  const [, mediaType, params = '', payload] = match;
+
+  try {
+    if (params.includes(';base64')) {
+      const binary = atob(payload);
+      const data = new Uint8Array(binary.length);
+      for (let i = 0; i < binary.length; i++) data[i] = binary.charCodeAt(i);
+      return { mediaType: mediaType.toLowerCase(), data };
+    }
+    return { mediaType: mediaType.toLowerCase(), data: new TextEncoder().encode(decodeURIComponent(payload)) };
+  } catch {
+    return null;
+  }
+}
+
+export const imageExtension = (mediaType: string): string | undefined => IMAGE_EXTENSIONS[mediaType];
+
+/**
+ * Collects images embedded as data URLs, giving each a file in the book.
+ * Identical images share one file.
+ */
+export class ImageCollector {
+  readonly resources: BinaryResource[] = [];
+  private byUrl = new Map<string, string>();
+
+  constructor(private folder = 'images') {}
+
+  /**
+   * Path of the image relative to the package document, or null for images
+   * that can't be embedded
+   */
+  add(url: string): string | null {
+    const known = this.byUrl.get(url);
+    if (known) return known;
+
+    const decoded = decodeDataUrl(url);
+    const extension = decoded && imageExtension(decoded.mediaType);
+    if (!decoded || !extension) return null;
+
+    const href = `${this.folder}/image-${String(this.resources.length + 1).padStart(3, '0')}.${extension}`;
+    this.resources.push({ href, mediaType: decoded.mediaType, data: decoded.data });
+    this.byUrl.set(url, href);
+    return href;
+  }
+}
+
+function serializeAttributes(element: Element, images: ImageCollector, imagePrefix: string): string | null {
+  const attributes: string[] = [];
+  const classes = (element.getAttribute('class') ?? '').split(/\s+/).filter(name => KEPT_CLASS.test(name));
+  if (classes.length) attributes.push(`class="${classes.join(' ')}"`);
+
+  const tag = element.tagName.toLowerCase();
+  if (tag === 'a') {
+    const href = element.getAttribute('href');
+    if (href && SAFE_LINK.test(href)) attributes.push(`href="${escapeXml(href)}"`);
+  }
+  if (tag === 'img') {
+    const href = images.add(element.getAttribute('src') ?? '');
+    if (!href) return null;
+    attributes.push(`src="${escapeXml(imagePrefix + href)}"`);
+    attributes.push(`alt="${escapeXml(element.getAttribute('alt') ?? '')}"`);
+  }
+  return attributes.length ? ` ${attributes.join(' ')}` : '';
+}
+
+function serializeNode(node: Node, images: ImageCollector, imagePrefix: string): string {
+  if (node.nodeType === Node.TEXT_NODE) return escapeXml(node.textContent ?? '');
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+  const element = node as Element;
+  const rawTag = element.tagName.toLowerCase();
+  const tag = RENAMED_TAGS[rawTag] ?? rawTag;
+  const children = () => Array.from(element.childNodes).map(child => serializeNode(child, images, imagePrefix)).join('');
+
+  if (VOID_TAGS.has(tag)) {
+    const attributes = serializeAttributes(element, images, imagePrefix);
+    return attributes === null ? '' : `<${tag}${attributes}/>`;
+  }
+  if (!BLOCK_TAGS.has(tag) && !INLINE_TAGS.has(tag)) return children();
+
+  const inner = children();
+  // Spans with nothing to style add only noise
+  const attributes = serializeAttributes(element, images, imagePrefix) ?? '';
+  if (tag === 'span' && !attributes) return inner;
+  if (tag === 'a' && !attributes) return inner;
+  return `<${tag}${attributes}>${inner}</${tag}>`;
+}
+
+/**
+ * Well-formed XHTML body markup for a piece of editor HTML
+ * @param imagePrefix - Prepended to image paths, to reach the package root
+ */
+export function toXhtml(html: string, images: ImageCollector, imagePrefix = '../'): string {
+  const doc = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+  return Array.from(doc.body.childNodes).map(node => serializeNode(node, images, imagePrefix)).join('');
+}
+
+/**
+ * A complete XHTML content document
+ */
+export function xhtmlDocument(title: string, body: string, language: string, stylesheet = '../styles/book.css'): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE html>',
+    `<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="${escapeXml(language)}" xml:lang="${escapeXml(language)}">`,
+    '<head>',
+    `<meta charset="UTF-8"/>`,
+    `<title>${escapeXml(title)}</title>`,
+    `<link rel="stylesheet" type="text/css" href="${stylesheet}"/>`,
+    '</head>',
+    body,
+    '</html>',
+  ].join('\n');
+}
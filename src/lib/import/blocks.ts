@@ -0,0 +1,91 @@
+import { validateEditorContent } from '@/utils/editorValidation';
+import { countWords } from '@/utils/textUtils';
+
+/*
+ * The paragraph model shared by the word processor importers: runs of
+ * text with the formatting the editor supports, gathered into blocks of
+ * editor HTML.
+ */
+
+export interface TextBlock {
+  html: string;
+  text: string;
+  // Heading level from the paragraph style or outline level, 0 for body text
+  heading: number;
+  sceneBreak: boolean;
+  list?: { ordered: boolean; level: number };
+}
+
+export interface RunStyle {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strike?: boolean;
+}
+
+// A run of text, "\n" for a line break
+export interface Segment {
+  text: string;
+  style: RunStyle;
+}
+
+export const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const sameStyle = (a: RunStyle, b: RunStyle) =>
+  !!a.bold === !!b.bold && !!a.italic === !!b.italic && !!a.underline === !!b.underline && !!a.strike === !!b.strike;
+
+/**
+ * A paragraph's inline HTML and plain text. Leading tabs are first-line
+ * indents and are dropped; other tabs become spaces.
+ */
+export function renderSegments(segments: Segment[]): { content: string; text: string } {
+  const merged: Segment[] = [];
+  segments.forEach(segment => {
+    const text = (merged.some(s => s.text.trim()) ? segment.text : segment.text.replace(/^[\t ]+/, '')).replace(/\t/g, ' ');
+    if (!text) return;
+    const last = merged[merged.length - 1];
+    if (last && last.text !== '\n' && text !== '\n' && sameStyle(last.style, segment.style)) last.text += text;
+    else merged.push({ text, style: segment.style });
+  });
+
+  const content = merged.map(({ text, style }) => {
+    if (text === '\n') return '<br>';
+    let html = escapeHtml(text);
+    if (style.strike) html = `<s>${html}</s>`;
+    if (style.underline) html = `<u>${html}</u>`;
+    if (style.italic) html = `<em>${html}</em>`;
+    if (style.bold) html = `<strong>${html}</strong>`;
+    return html;
+  }).join('').replace(/(<br>)+$/, '');
+
+  return { content, text: merged.map(segment => segment.text).join('').trim() };
+}
+
+/**
+ * Editor HTML for a run of blocks, with list items gathered into lists
+ */
+export function blocksToHtml(blocks: TextBlock[]): string {
+  let html = '';
+  let openList: 'ol' | 'ul' | null = null;
+  blocks.forEach(block => {
+    const tag = block.list ? (block.list.ordered ? 'ol' : 'ul') : null;
+    if (openList && openList !== tag) html += `</${openList}>`;
+    if (tag && openList !== tag) html += `<${tag}>`;
+    openList = tag;
+    html += block.list
+      ? `<li${block.list.level ? ` class="ql-indent-${block.list.level}"` : ''}>${block.html}</li>`
+      : block.html;
+  });
+  return openList ? `${html}</${openList}>` : html;
+}
+
+export const blockWordCount = (blocks: TextBlock[]) => blocks.reduce((total, block) => total + countWords(block.text), 0);
+
+/**
+ * Imported HTML as the editor would accept it, or an error naming the item
+ */
+export function validatedContent(title: string, html: string): string {
+  const result = validateEditorContent(html);
+  if (!result.isValid) throw new Error(`"${title}": ${result.errors[0]}`);
+  return result.sanitizedContent ?? '';
+}
@@ -0,0 +1,321 @@
+import { unzipSync, strFromU8 } from 'fflate';
+import { BinderItemKind } from '../db';
+import { ImportedBinderItem, importBinderItems } from '../binder';
+import { SCENE_BREAK_TEXT } from '../export/manuscript';
+import { RunStyle, Segment, TextBlock, renderSegments, blocksToHtml, validatedContent } from './blocks';
+
+/*
+ * Reads a Word manuscript into editor HTML, one block per paragraph, and
+ * splits it into chapters and scenes. Only what the editor allows survives:
+ * bold, italic, underline, strikethrough, headings, lists, quotes,
+ * alignment and line breaks. Tables are read as their paragraphs.
+ */
+
+export const DOCX_FILE_TYPES = ['.docx'];
+
+const W = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+export type ChapterRule = { type: 'heading'; level: number } | { type: 'pattern'; pattern: string };
+
+export interface SplitRule {
+  chapters: ChapterRule;
+  // Start scenes at the next heading level down, or at scene breaks
+  scenes: 'none' | 'heading' | 'scene-break';
+}
+
+export interface SplitPoint {
+  index: number;
+  kind: BinderItemKind;
+  title: string;
+}
+
+export const DEFAULT_SPLIT_RULE: SplitRule = { chapters: { type: 'heading', level: 1 }, scenes: 'none' };
+
+interface StyleDefinition {
+  name: string;
+  basedOn?: string;
+  outlineLevel?: number;
+  run: RunStyle;
+  numbering?: { numId: string; level: number };
+}
+
+const children = (element: Element | undefined, name?: string) =>
+  element ? Array.from(element.children).filter(child => !name || child.localName === name) : [];
+const child = (element: Element | undefined, name: string) => children(element, name)[0];
+const val = (element: Element | undefined) => element?.getAttributeNS(W, 'val') ?? null;
+
+// On/off properties such as <w:b/> are on unless their value says off
+const toggle = (element: Element | undefined) =>
+  element ? !['false', '0', 'off', 'none'].includes(val(element) ?? '') : undefined;
+
+function runStyle(rPr: Element | undefined): RunStyle {
+  return {
+    bold: toggle(child(rPr, 'b')),
+    italic: toggle(child(rPr, 'i')),
+    underline: toggle(child(rPr, 'u')),
+    strike: toggle(child(rPr, 'strike')) || toggle(child(rPr, 'dstrike')),
+  };
+}
+
+const merge = (base: RunStyle, over: RunStyle): RunStyle => ({
+  bold: over.bold ?? base.bold,
+  italic: over.italic ?? base.italic,
+  underline: over.underline ?? base.underline,
+  strike: over.strike ?? base.strike,
+});
+
+function numbering(pPr: Element | undefined): StyleDefinition['numbering'] {
+  const numPr = child(pPr, 'numPr');
+  const numId = val(child(numPr, 'numId'));
+  return numId ? { numId, level: Number(val(child(numPr, 'ilvl')) ?? 0) } : undefined;
+}
+
+function parseStyles(xml: Document | null): Map<string, StyleDefinition> {
+  const styles = new Map<string, StyleDefinition>();
+  children(xml?.documentElement, 'style').forEach(style => {
+    const id = style.getAttributeNS(W, 'styleId');
+    if (!id) return;
+    const pPr = child(style, 'pPr');
+    const outline = val(child(pPr, 'outlineLvl'));
+    styles.set(id, {
+      name: (val(child(style, 'name')) ?? id).toLowerCase(),
+      basedOn: val(child(style, 'basedOn')) ?? undefined,
+      outlineLevel: outline === null ? undefined : Number(outline),
+      run: runStyle(child(style, 'rPr')),
+      numbering: numbering(pPr),
+    });
+  });
+  return styles;
+}
+
+// numId -> ilvl -> ordered
+function parseNumbering(xml: Document | null): Map<string, Map<number, boolean>> {
+  const abstract = new Map<string, Map<number, boolean>>();
+  children(xml?.documentElement, 'abstractNum').forEach(definition => {
+    const levels = new Map<number, boolean>();
+    children(definition, 'lvl').forEach(level => {
+      const format = val(child(level, 'numFmt')) ?? 'bullet';
+      levels.set(Number(level.getAttributeNS(W, 'ilvl') ?? 0), !['bullet', 'none'].includes(format));
+    });
+    abstract.set(definition.getAttributeNS(W, 'abstractNumId') ?? '', levels);
+  });
+
+  const lists = new Map<string, Map<number, boolean>>();
+  children(xml?.documentElement, 'num').forEach(num => {
+    const levels = abstract.get(val(child(num, 'abstractNumId')) ?? '');
+    if (levels) lists.set(num.getAttributeNS(W, 'numId') ?? '', levels);
+  });
+  return lists;
+}
+
+class DocxReader {
+  private styles: Map<string, StyleDefinition>;
+  private lists: Map<string, Map<number, boolean>>;
+
+  constructor(styles: Document | null, numberingXml: Document | null) {
+    this.styles = parseStyles(styles);
+    this.lists = parseNumbering(numberingXml);
+  }
+
+  // A style with the ones it is based on, most general first
+  private styleChain(id: string | null): StyleDefinition[] {
+    const chain: StyleDefinition[] = [];
+    for (let style = id ? this.styles.get(id) : undefined; style && chain.length < 20; style = style.basedOn ? this.styles.get(style.basedOn) : undefined) {
+      chain.unshift(style);
+    }
+    return chain;
+  }
+
+  private characterStyle(rPr: Element | undefined): RunStyle {
+    return this.styleChain(val(child(rPr, 'rStyle'))).reduce<RunStyle>((style, definition) => merge(style, definition.run), {});
+  }
+
+  private segments(node: Element | undefined, segments: Segment[]): void {
+    children(node).forEach(element => {
+      switch (element.localName) {
+        case 'r': {
+          const rPr = child(element, 'rPr');
+          const style = merge(this.characterStyle(rPr), runStyle(rPr));
+          children(element).forEach(part => {
+            if (part.localName === 't') segments.push({ text: part.textContent ?? '', style });
+            else if (part.localName === 'tab') segments.push({ text: '\t', style });
+            else if (part.localName === 'noBreakHyphen') segments.push({ text: '-', style });
+            else if ((part.localName === 'br' && !part.getAttributeNS(W, 'type')) || part.localName === 'cr') {
+              segments.push({ text: '\n', style });
+            }
+          });
+          break;
+        }
+        case 'hyperlink':
+        case 'ins':
+        case 'smartTag':
+        case 'customXml':
+        case 'fldSimple':
+        case 'moveTo':
+          this.segments(element, segments);
+          break;
+        case 'sdt':
+          this.segments(child(element, 'sdtContent'), segments);
+          break;
+      }
+    });
+  }
+
+  paragraph(p: Element): TextBlock {
+    const pPr = child(p, 'pPr');
+    const chain = this.styleChain(val(child(pPr, 'pStyle')));
+    const name = chain[chain.length - 1]?.name ?? '';
+
+    const segments: Segment[] = [];
+    this.segments(p, segments);
+    const { content, text } = renderSegments(segments);
+
+    // Outline level 9 is body text
+    const direct = val(child(pPr, 'outlineLvl'));
+    const outline = direct !== null
+      ? Number(direct)
+      : chain.reduce<number | undefined>((level, style) => style.outlineLevel ?? level, undefined);
+    const headingName = /^heading (\d)$/.exec(name);
+    const heading = !text ? 0 : headingName ? Number(headingName[1]) : outline !== undefined && outline < 9 ? outline + 1 : 0;
+
+    const numbered = numbering(pPr) ?? chain.reduce<StyleDefinition['numbering']>((found, style) => style.numbering ?? found, undefined);
+    const levels = numbered && numbered.numId !== '0' ? this.lists.get(numbered.numId) : undefined;
+
+    const jc = val(child(pPr, 'jc'));
+    const align = jc === 'center' ? 'center' : jc === 'right' || jc === 'end' ? 'right' : jc === 'both' ? 'justify' : '';
+    const className = align ? ` class="ql-align-${align}"` : '';
+    const sceneBreak = SCENE_BREAK_TEXT.test(text);
+
+    if (levels && text) {
+      return {
+        html: content,
+        text,
+        heading: 0,
+        sceneBreak: false,
+        list: { ordered: levels.get(numbered!.level) ?? false, level: Math.min(numbered!.level, 8) },
+      };
+    }
+    if (heading) {
+      const tag = `h${Math.min(heading, 3)}`;
+      return { html: `<${tag}${className}>${content}</${tag}>`, text, heading, sceneBreak: false };
+    }
+    const tag = /quote/.test(name) ? 'blockquote' : 'p';
+    return { html: `<${tag}${className}>${content || '<br>'}</${tag}>`, text, heading: 0, sceneBreak };
+  }
+
+  blocks(container: Element | undefined): TextBlock[] {
+    return children(container).flatMap(element => {
+      switch (element.localName) {
+        case 'p':
+          return [this.paragraph(element)];
+        case 'tbl':
+          return children(element, 'tr').flatMap(row => children(row, 'tc').flatMap(cell => this.blocks(cell)));
+        case 'sdt':
+          return this.blocks(child(element, 'sdtContent'));
+        default:
+          return [];
+      }
+    });
+  }
+}
+
+/**
+ * Reads the body of a .docx file as blocks in document order
+ */
+export function parseDocx(data: Uint8Array): TextBlock[] {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(data);
+  } catch {
+    throw new Error('This file is not a Word document');
+  }
+  if (!files['word/document.xml']) throw new Error('This file is not a Word document');
+
+  const parser = new DOMParser();
+  const xml = (path: string) => files[path] ? parser.parseFromString(strFromU8(files[path]), 'application/xml') : null;
+  const document = xml('word/document.xml')!;
+  if (document.getElementsByTagName('parsererror').length) throw new Error('The document is damaged');
+
+  const reader = new DocxReader(xml('word/styles.xml'), xml('word/numbering.xml'));
+  return reader.blocks(child(document.documentElement, 'body'));
+}
+
+function chapterPattern(pattern: string): RegExp {
+  try {
+    return new RegExp(`^\\s*(?:${pattern})`, 'i');
+  } catch {
+    throw new Error('The chapter pattern is not a valid regular expression');
+  }
+}
+
+/**
+ * Where new chapters and scenes start under a rule. Chapter and scene
+ * titles are the heading or matching paragraph, which is left out of the
+ * text; scenes started by a scene break are numbered within their chapter.
+ */
+export function findSplitPoints(blocks: TextBlock[], rule: SplitRule): SplitPoint[] {
+  const pattern = rule.chapters.type === 'pattern' ? chapterPattern(rule.chapters.pattern) : null;
+  const chapterLevel = rule.chapters.type === 'heading' ? rule.chapters.level : 0;
+  const points: SplitPoint[] = [];
+  let scene = 1;
+
+  blocks.forEach((block, index) => {
+    const isChapter = pattern
+      ? !block.list && !!block.text && pattern.test(block.text)
+      : block.heading > 0 && block.heading <= chapterLevel;
+    if (isChapter) {
+      points.push({ index, kind: 'chapter', title: block.text });
+      scene = 1;
+      return;
+    }
+    // Under a pattern any heading starts a scene, else the level below chapters
+    const sceneHeading = rule.scenes === 'heading' && block.heading > 0 && (pattern !== null || block.heading === chapterLevel + 1);
+    if (sceneHeading) {
+      points.push({ index, kind: 'scene', title: block.text });
+    } else if (rule.scenes === 'scene-break' && block.sceneBreak && points.length) {
+      scene += 1;
+      points.push({ index, kind: 'scene', title: `Scene ${scene}` });
+    }
+  });
+  return points;
+}
+
+/**
+ * Binder items for blocks split at the given points. Text before the first
+ * point becomes an item of its own named `leadTitle`. Scenes go under the
+ * chapter before them. Each item's text passes the editor's validation.
+ */
+export function splitDocx(blocks: TextBlock[], points: SplitPoint[], leadTitle: string): ImportedBinderItem[] {
+  const sorted = [...points].sort((a, b) => a.index - b.index);
+  const items: ImportedBinderItem[] = [];
+  const sections = [{ start: 0, point: null as SplitPoint | null }, ...sorted.map(point => ({ start: point.index, point }))];
+
+  sections.forEach(({ start, point }, index) => {
+    const end = sections[index + 1]?.start ?? blocks.length;
+    // The block a chapter or scene starts at is its title
+    const body = blocks.slice(point ? start + 1 : start, end);
+    if (!point && !body.some(block => block.text)) return;
+
+    const title = (point?.title.trim() || leadTitle).slice(0, 200);
+    const item: ImportedBinderItem = {
+      title,
+      content: validatedContent(title, blocksToHtml(body)),
+      kind: point?.kind ?? 'chapter',
+    };
+    const chapter = items[items.length - 1];
+    if (item.kind === 'scene' && chapter) {
+      chapter.children = [...(chapter.children ?? []), item];
+    } else {
+      items.push({ ...item, kind: 'chapter' });
+    }
+  });
+  return items;
+}
+
+/**
+ * Adds a split Word document to the end of the binder
+ */
+export async function importDocx(projectId: string, items: ImportedBinderItem[]): Promise<string[]> {
+  if (items.length === 0) throw new Error('There is no text to import');
+  return importBinderItems(projectId, items);
+}
@@ -0,0 +1,464 @@
+import { BINDER_KIND_LABELS, ImportedBinderItem, REVISION_STATUS_LABELS, importBinderItems } from '../binder';
+import { STORY_BIBLE_LINK_SCHEME } from '../export/markdown';
+import { BinderItemKind, Draft } from '../db';
+
+/*
+ * Reads Markdown written by lib/export/markdown, or by hand in a plain-text
+ * editor, back into editor HTML. This covers CommonMark blocks and inlines
+ * as the editor can show them, GFM strikethrough, footnotes, "bible:" links
+ * as story bible highlights, and a lone "#" or a thematic break as a scene
+ * break. Other raw HTML is shown as text.
+ */
+
+export const MARKDOWN_FILE_TYPES = ['.md', '.markdown', '.txt'];
+
+const SCENE_BREAK_HTML = '<p class="ql-align-center">* * *</p>';
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const PUNCTUATION = /[!-/:-@[-`{-~]/;
+const isSpace = (char: string | undefined) => char === undefined || /\s/.test(char);
+const isWordChar = (char: string | undefined) => !!char && /[\p{L}\p{N}]/u.test(char);
+
+const safeHref = (url: string) => /^(https?:|mailto:|#|\/)/i.test(url) ? url : '';
+const safeSrc = (url: string) => /^(https?:|data:image\/)/i.test(url) ? url : '';
+
+// Index just past the run of `char` starting at `from`
+const runEnd = (text: string, from: number, char: string) => {
+  let end = from;
+  while (text[end] === char) end++;
+  return end;
+};
+
+// Index of the closing backtick run for a code span opened at `from`
+function codeSpanEnd(text: string, from: number): { close: number; length: number } | null {
+  const length = runEnd(text, from, '`') - from;
+  for (let i = from + length; i < text.length; i++) {
+    if (text[i] !== '`') continue;
+    const end = runEnd(text, i, '`');
+    if (end - i === length) return { close: i, length };
+    i = end;
+  }
+  return null;
+}
+
+// Index of the "]" matching the "[" at `from`
+function bracketEnd(text: string, from: number): number {
+  let depth = 0;
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') i++;
+    else if (text[i] === '`') {
+      const span = codeSpanEnd(text, i);
+      if (span) i = span.close + span.length - 1;
+    } else if (text[i] === '[') depth++;
+    else if (text[i] === ']' && --depth === 0) return i;
+  }
+  return -1;
+}
+
+// "(destination "title")" starting at `from`
+function linkTarget(text: string, from: number): { url: string; end: number } | null {
+  if (text[from] !== '(') return null;
+  let i = from + 1;
+  while (text[i] === ' ') i++;
+  let url = '';
+  if (text[i] === '<') {
+    const close = text.indexOf('>', i);
+    if (close < 0) return null;
+    url = text.slice(i + 1, close);
+    i = close + 1;
+  } else {
+    let depth = 0;
+    for (; i < text.length && !/\s/.test(text[i]); i++) {
+      if (text[i] === '\\' && PUNCTUATION.test(text[i + 1] ?? '')) i++;
+      else if (text[i] === '(') depth++;
+      else if (text[i] === ')' && depth-- === 0) break;
+      url += text[i];
+    }
+  }
+  const rest = /^\s*(?:(["'])(?:\\.|(?!\1).)*\1\s*)?\)/.exec(text.slice(i));
+  return rest ? { url: url.replace(/\\(?=[!-/:-@[-`{-~])/g, ''), end: i + rest[0].length } : null;
+}
+
+// Index of the delimiter run closing emphasis opened by `length` x `char`
+function emphasisEnd(text: string, from: number, char: string, length: number): number {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text[i] === '`') {
+      const span = codeSpanEnd(text, i);
+      if (span) i = span.close + span.length - 1;
+    } else if (text[i] === char) {
+      const end = runEnd(text, i, char);
+      const closes = !isSpace(text[i - 1]) && (char === '*' || !isWordChar(text[end]));
+      // A longer run closes with its last characters, as in "*a **b***"
+      if (closes && (end - i === length || end - i === 3)) return end - length;
+      i = end - 1;
+    }
+  }
+  return -1;
+}
+
+const EMPHASIS_TAGS: Record<number, [string, string]> = {
+  1: ['<em>', '</em>'],
+  2: ['<strong>', '</strong>'],
+  3: ['<strong><em>', '</em></strong>'],
+};
+
+/**
+ * Converts one block's Markdown inlines to HTML
+ */
+export function inlineToHtml(source: string): string {
+  const text = source.replace(/ {2,}\n/g, '\\\n').replace(/[ \t]*\n[ \t]*/g, '\n');
+  let html = '';
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+    const rest = text.slice(i);
+
+    if (char === '\\') {
+      if (text[i + 1] === '\n') {
+        html += '<br>';
+        i += 2;
+      } else if (PUNCTUATION.test(text[i + 1] ?? '')) {
+        html += escapeHtml(text[i + 1]);
+        i += 2;
+      } else {
+        html += '\\';
+        i++;
+      }
+      continue;
+    }
+
+    if (char === '\n') {
+      html += ' ';
+      i++;
+      continue;
+    }
+
+    if (char === '`') {
+      const span = codeSpanEnd(text, i);
+      const end = runEnd(text, i, '`');
+      if (!span) {
+        html += text.slice(i, end);
+        i = end;
+        continue;
+      }
+      let code = text.slice(i + span.length, span.close).replace(/\n/g, ' ');
+      if (/^ .* $/.test(code) && code.trim()) code = code.slice(1, -1);
+      html += `<code>${escapeHtml(code)}</code>`;
+      i = span.close + span.length;
+      continue;
+    }
+
+    if (char === '[' || (char === '!' && text[i + 1] === '[')) {
+      const image = char === '!';
+      const open = image ? i + 1 : i;
+      const footnote = !image && /^\[\^([^\]\s]+)\]/.exec(rest);
+      if (footnote) {
+        html += `<sup>[${escapeHtml(footnote[1])}]</sup>`;
+        i += footnote[0].length;
+        continue;
+      }
+      const close = bracketEnd(text, open);
+      const target = close > 0 ? linkTarget(text, close + 1) : null;
+      if (target) {
+        const label = text.slice(open + 1, close);
+        if (image) {
+          const src = safeSrc(target.url);
+          html += src ? `<img src="${escapeHtml(src)}" alt="${escapeHtml(label.replace(/\\(.)/g, '$1'))}">` : '';
+        } else if (target.url.startsWith(STORY_BIBLE_LINK_SCHEME)) {
+          const reference = decodeURIComponent(target.url.slice(STORY_BIBLE_LINK_SCHEME.length));
+          html += `<span class="story-bible-highlight" title="${escapeHtml(reference)}">${inlineToHtml(label)}</span>`;
+        } else {
+          const href = safeHref(target.url);
+          html += href
+            ? `<a href="${escapeHtml(href)}" rel="noopener noreferrer" target="_blank">${inlineToHtml(label)}</a>`
+            : inlineToHtml(label);
+        }
+        i = target.end;
+        continue;
+      }
+      html += escapeHtml(char);
+      i++;
+      continue;
+    }
+
+    if (char === '<') {
+      const autolink = /^<((?:https?:\/\/|mailto:)[^\s<>]+)>/i.exec(rest);
+      const tag = /^<(u|sup|sub)>([\s\S]*?)<\/\1>/i.exec(rest);
+      if (autolink) {
+        html += `<a href="${escapeHtml(autolink[1])}" rel="noopener noreferrer" target="_blank">${escapeHtml(autolink[1].replace(/^mailto:/i, ''))}</a>`;
+        i += autolink[0].length;
+      } else if (tag) {
+        const name = tag[1].toLowerCase();
+        html += `<${name}>${inlineToHtml(tag[2])}</${name}>`;
+        i += tag[0].length;
+      } else {
+        html += '&lt;';
+        i++;
+      }
+      continue;
+    }
+
+    if (char === '*' || char === '_') {
+      const end = runEnd(text, i, char);
+      const length = end - i;
+      const opens = length <= 3 && !isSpace(text[end]) && (char === '*' || !isWordChar(text[i - 1]));
+      const close = opens ? emphasisEnd(text, end, char, length) : -1;
+      if (close > end) {
+        const [open, shut] = EMPHASIS_TAGS[length];
+        html += `${open}${inlineToHtml(text.slice(end, close))}${shut}`;
+        i = close + length;
+      } else {
+        html += text.slice(i, end);
+        i = end;
+      }
+      continue;
+    }
+
+    if (char === '~' && text[i + 1] === '~') {
+      const close = text.indexOf('~~', i + 2);
+      if (close > i + 2 && !isSpace(text[i + 2]) && !isSpace(text[close - 1])) {
+        html += `<s>${inlineToHtml(text.slice(i + 2, close))}</s>`;
+        i = close + 2;
+        continue;
+      }
+    }
+
+    if (char === '&') {
+      const entity = /^&(?:#\d{1,7}|#x[\da-f]{1,6}|[a-z][a-z\d]{1,31});/i.exec(rest);
+      html += entity ? entity[0] : '&amp;';
+      i += entity ? entity[0].length : 1;
+      continue;
+    }
+
+    html += escapeHtml(char);
+    i++;
+  }
+  return html;
+}
+
+const BLANK = /^\s*$/;
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const THEMATIC_BREAK = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+const QUOTE = /^ {0,3}> ?/;
+const LIST_ITEM = /^( *)([-*+]|\d{1,9}[.)])(?:[ \t]+(.*)|[ \t]*)$/;
+const FOOTNOTE_DEFINITION = /^ {0,3}\[\^([^\]\s]+)\]:[ \t]*(.*)$/;
+const HTML_COMMENT = /^ {0,3}<!--.*-->\s*$/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*$/;
+
+const startsBlock = (line: string) =>
+  ATX_HEADING.test(line) || THEMATIC_BREAK.test(line) || FENCE.test(line) || QUOTE.test(line) ||
+  FOOTNOTE_DEFINITION.test(line) || HTML_COMMENT.test(line) ||
+  // Only lists starting at 1, or bullets with text, interrupt a paragraph
+  /^ {0,3}([-*+][ \t]+\S|1[.)]([ \t]|$))/.test(line);
+
+interface ListItem {
+  ordered: boolean;
+  level: number;
+  lines: string[];
+}
+
+function listHtml(items: ListItem[]): string {
+  const lists: string[] = [];
+  items.forEach((item, index) => {
+    const tag = item.ordered ? 'ol' : 'ul';
+    const className = item.level ? ` class="ql-indent-${Math.min(item.level, 8)}"` : '';
+    const li = `<li${className}>${inlineToHtml(item.lines.join('\n')) || '<br>'}</li>`;
+    if (index > 0 && items[index - 1].ordered === item.ordered) {
+      lists[lists.length - 1] = lists[lists.length - 1].replace(/<\/[ou]l>$/, `${li}</${tag}>`);
+    } else {
+      lists.push(`<${tag}>${li}</${tag}>`);
+    }
+  });
+  return lists.join('');
+}
+
+/**
+ * Converts Markdown to editor HTML
+ */
+export function markdownToHtml(markdown: string): string {
+  const lines = markdown.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n');
+  const blocks: string[] = [];
+  const footnotes: string[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (BLANK.test(line) || HTML_COMMENT.test(line)) {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const marker = fence[1];
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !new RegExp(`^ {0,3}${marker[0]}{${marker.length},}\\s*$`).test(lines[i])) {
+        code.push(lines[i++]);
+      }
+      i++;
+      blocks.push(`<pre class="ql-syntax" spellcheck="false">${escapeHtml(code.join('\n'))}\n</pre>`);
+      continue;
+    }
+
+    const heading = ATX_HEADING.exec(line);
+    if (heading) {
+      const text = heading[2]?.trim() ?? '';
+      // Plain-text writers often mark a scene break with a lone "#"
+      blocks.push(text ? `<h${heading[1].length}>${inlineToHtml(text)}</h${heading[1].length}>` : SCENE_BREAK_HTML);
+      i++;
+      continue;
+    }
+
+    if (THEMATIC_BREAK.test(line)) {
+      blocks.push(SCENE_BREAK_HTML);
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) quoted.push(lines[i++].replace(QUOTE, ''));
+      quoted.join('\n').split(/\n\s*\n/).filter(text => text.trim()).forEach(text => {
+        blocks.push(`<blockquote>${inlineToHtml(text.trim())}</blockquote>`);
+      });
+      continue;
+    }
+
+    const definition = FOOTNOTE_DEFINITION.exec(line);
+    if (definition) {
+      const text = [definition[2]];
+      i++;
+      while (i < lines.length && (/^ {4}/.test(lines[i]) || (!BLANK.test(lines[i]) && !startsBlock(lines[i])) ||
+        (BLANK.test(lines[i]) && /^ {4}\S/.test(lines[i + 1] ?? '')))) {
+        text.push(lines[i++].trim());
+      }
+      footnotes.push(`<p><sup>[${escapeHtml(definition[1])}]</sup> ${inlineToHtml(text.join('\n').trim())}</p>`);
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const items: ListItem[] = [];
+      const stack: { indent: number; content: number }[] = [];
+      while (i < lines.length) {
+        const match = LIST_ITEM.exec(lines[i]);
+        if (match && !THEMATIC_BREAK.test(lines[i])) {
+          const indent = match[1].length;
+          while (stack.length && indent < stack[stack.length - 1].content && indent <= stack[stack.length - 1].indent) stack.pop();
+          const parent = stack[stack.length - 1];
+          const content = indent + match[2].length + 1;
+          if (!parent || indent >= parent.content) stack.push({ indent, content });
+          else stack[stack.length - 1] = { indent, content };
+          items.push({ ordered: /\d/.test(match[2]), level: stack.length - 1, lines: [match[3] ?? ''] });
+          i++;
+        } else if (!BLANK.test(lines[i]) && (/^ {2}/.test(lines[i]) || !startsBlock(lines[i]))) {
+          items[items.length - 1].lines.push(lines[i++].trim());
+        } else if (BLANK.test(lines[i]) && (LIST_ITEM.test(lines[i + 1] ?? '') || /^ {2}\S/.test(lines[i + 1] ?? ''))) {
+          i++;
+        } else {
+          break;
+        }
+      }
+      blocks.push(listHtml(items));
+      continue;
+    }
+
+    const paragraph = [line];
+    i++;
+    let setext = 0;
+    while (i < lines.length && !BLANK.test(lines[i])) {
+      const underline = SETEXT_UNDERLINE.exec(lines[i]);
+      if (underline) {
+        setext = underline[1][0] === '=' ? 1 : 2;
+        i++;
+        break;
+      }
+      if (startsBlock(lines[i])) break;
+      paragraph.push(lines[i++]);
+    }
+    const text = paragraph.join('\n').trim().replace(/\\$/, '');
+    blocks.push(setext ? `<h${setext}>${inlineToHtml(text)}</h${setext}>` : `<p>${inlineToHtml(text)}</p>`);
+  }
+
+  return [...blocks, ...footnotes].join('');
+}
+
+/**
+ * Splits "---" delimited YAML front matter from the body. Only flat
+ * "key: value" pairs are read, with values optionally quoted.
+ */
+export function parseFrontMatter(markdown: string): { fields: Record<string, string>; body: string } {
+  const match = /^\uFEFF?---[ \t]*\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/.exec(markdown);
+  if (!match) return { fields: {}, body: markdown.replace(/^\uFEFF/, '') };
+
+  const fields: Record<string, string> = {};
+  match[1].split(/\r?\n/).forEach(line => {
+    const pair = /^([A-Za-z][\w-]*):\s*(.*)$/.exec(line);
+    if (!pair) return;
+    let value = pair[2].trim();
+    if (value.startsWith('"')) {
+      try {
+        value = JSON.parse(value);
+      } catch {
+        value = value.slice(1, -1);
+      }
+    } else if (value.startsWith("'")) {
+      value = value.slice(1, -1).replace(/''/g, "'");
+    }
+    fields[pair[1].toLowerCase()] = value;
+  });
+  return { fields, body: markdown.slice(match[0].length) };
+}
+
+/**
+ * A Markdown file as a binder item. The title comes from front matter, a
+ * leading "# Heading", or the file name without its number prefix.
+ */
+export function parseMarkdownDraft(markdown: string, fileName: string): ImportedBinderItem {
+  const { fields, body } = parseFrontMatter(markdown);
+  let content = markdownToHtml(body);
+  let title = fields.title?.trim();
+
+  if (!title) {
+    const heading = /^<h1>(.*?)<\/h1>/.exec(content);
+    if (heading) {
+      title = new DOMParser().parseFromString(heading[1], 'text/html').body.textContent?.trim();
+      content = content.slice(heading[0].length);
+    }
+  }
+  if (!title) {
+    title = fileName.replace(/\.[^.]+$/, '').replace(/^\d+[\s._-]+/, '').trim() || 'Untitled';
+  }
+
+  return {
+    title,
+    content,
+    kind: (fields.kind ?? '') in BINDER_KIND_LABELS ? fields.kind as BinderItemKind : undefined,
+    revisionStatus: (fields.status ?? '') in REVISION_STATUS_LABELS ? fields.status as Draft['revisionStatus'] : undefined,
+    synopsis: fields.synopsis || undefined,
+    pov: fields.pov || undefined,
+  };
+}
+
+/**
+ * Adds Markdown files to the end of the binder in file name order, which
+ * is reading order for a folder written by exportProjectMarkdown
+ */
+export async function importMarkdownFiles(projectId: string, files: File[]): Promise<string[]> {
+  let items: ImportedBinderItem[];
+  try {
+    const sorted = [...files].sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+    items = await Promise.all(sorted.map(async file => parseMarkdownDraft(await file.text(), file.name)));
+  } catch (error) {
+    console.error('Failed to read Markdown files:', error);
+    throw new Error('Failed to read Markdown files');
+  }
+  return importBinderItems(projectId, items);
+}
@@ -0,0 +1,179 @@
+import { htmlToText } from '../search/tokenize';
+import { EnhancedOutlineService } from '@/utils/outlineDb';
+import { OutlineValidation } from '@/utils/outline/outlineValidation';
+import { OutlineChapter, OutlinePart, OutlineScene } from '@/types/outline';
+
+/*
+ * Reads OPML from outliner apps (Workflowy, OmniOutliner, Dynalist and our
+ * own export) into an outline. The top three levels become parts, chapters
+ * and scenes; shallower files get a part or chapter named after the file,
+ * and anything nested under a scene is folded into its notes.
+ */
+
+export const OPML_FILE_TYPES = ['.opml', '.xml'];
+
+// Outline titles are longer than the part, chapter and scene titles sanitizeOutline allows
+const MAX_OUTLINE_TITLE = 200;
+const MAX_ITEM_TITLE = 100;
+
+const SCENE_STATUSES: OutlineScene['status'][] = ['planned', 'draft', 'complete'];
+
+export interface OpmlTruncation {
+  // Scenes past the outline limit, left out
+  scenes: number;
+  // Titles cut to the length the outline allows
+  titles: number;
+  // Items below scene level, folded into scene notes
+  nested: number;
+}
+
+export interface OpmlOutline {
+  title: string;
+  parts: OutlinePart[];
+  truncation: OpmlTruncation;
+}
+
+interface OpmlNode {
+  element: Element;
+  title: string;
+  children: OpmlNode[];
+}
+
+const attribute = (node: OpmlNode, name: string) => node.element.getAttribute(name)?.trim() || undefined;
+
+function readNodes(container: Element | null | undefined): OpmlNode[] {
+  if (!container) return [];
+  return Array.from(container.children)
+    .filter(element => element.localName === 'outline')
+    .map(element => ({
+      element,
+      // Workflowy and Dynalist keep inline formatting as markup in the text
+      title: htmlToText(element.getAttribute('text') ?? element.getAttribute('title') ?? '') || 'Untitled',
+      children: readNodes(element),
+    }));
+}
+
+const depth = (nodes: OpmlNode[]): number => nodes.reduce((deepest, node) => Math.max(deepest, 1 + depth(node.children)), 0);
+
+class OpmlReader {
+  readonly truncation: OpmlTruncation = { scenes: 0, titles: 0, nested: 0 };
+
+  private title(title: string, max = MAX_ITEM_TITLE): string {
+    if (title.length > max) this.truncation.titles++;
+    return title;
+  }
+
+  // Lines for everything under a scene, indented by depth
+  private folded(nodes: OpmlNode[], indent = ''): string[] {
+    return nodes.flatMap(node => {
+      this.truncation.nested++;
+      const note = attribute(node, '_note');
+      return [`${indent}- ${node.title}`, ...(note ? [`${indent}  ${note}`] : []), ...this.folded(node.children, `${indent}  `)];
+    });
+  }
+
+  scene(node: OpmlNode, order: number): OutlineScene {
+    const status = attribute(node, 'status') as OutlineScene['status'] | undefined;
+    const words = Number(attribute(node, 'wordCount'));
+    const notes = [attribute(node, '_note'), ...this.folded(node.children)].filter(Boolean).join('\n');
+    return {
+      id: crypto.randomUUID(),
+      title: this.title(node.title),
+      summary: attribute(node, 'summary'),
+      notes: notes || undefined,
+      order,
+      wordCount: Number.isInteger(words) && words >= 0 ? words : undefined,
+      status: status && SCENE_STATUSES.includes(status) ? status : attribute(node, '_complete') === 'true' ? 'complete' : 'planned',
+      pov: attribute(node, 'pov'),
+      location: attribute(node, 'location'),
+    };
+  }
+
+  chapter(node: OpmlNode, order: number, scenes = node.children): OutlineChapter {
+    return {
+      id: crypto.randomUUID(),
+      title: this.title(node.title),
+      summary: attribute(node, 'summary'),
+      notes: attribute(node, '_note'),
+      order,
+      scenes: scenes.map((scene, index) => this.scene(scene, index)),
+    };
+  }
+
+  part(node: OpmlNode, order: number): OutlinePart {
+    return {
+      id: crypto.randomUUID(),
+      title: this.title(node.title),
+      summary: attribute(node, 'summary'),
+      notes: attribute(node, '_note'),
+      order,
+      chapters: node.children.map((chapter, index) => this.chapter(chapter, index)),
+    };
+  }
+
+  outlineTitle(title: string): string {
+    return this.title(title, MAX_OUTLINE_TITLE);
+  }
+}
+
+/**
+ * Reads an OPML document into outline parts, sanitized as the outline
+ * store would save them, with what was cut to fit its limits
+ */
+export function parseOpml(xml: string, fallbackTitle = 'Imported outline'): OpmlOutline {
+  const document = new DOMParser().parseFromString(xml, 'application/xml');
+  const root = document.documentElement;
+  if (document.getElementsByTagName('parsererror').length || root.localName !== 'opml') {
+    throw new Error('This file is not an OPML outline');
+  }
+  const head = Array.from(root.children).find(element => element.localName === 'head');
+  const body = Array.from(root.children).find(element => element.localName === 'body');
+  const nodes = readNodes(body);
+  if (nodes.length === 0) throw new Error('The outline is empty');
+
+  const reader = new OpmlReader();
+  const title = reader.outlineTitle(
+    htmlToText(Array.from(head?.children ?? []).find(element => element.localName === 'title')?.textContent ?? '') || fallbackTitle
+  );
+  const wrapper = (children: OpmlNode[]): OpmlNode => ({ element: root, title, children });
+
+  // Our own export marks its levels, which keeps empty parts and chapters in place
+  const levels = nodes.every(node => attribute(node, 'kind') === 'part') ? 3 : Math.min(depth(nodes), 3);
+  const parts = levels === 3
+    ? nodes.map((node, index) => reader.part(node, index))
+    : [{
+      ...reader.part(wrapper([]), 0),
+      chapters: levels === 2
+        ? nodes.map((node, index) => reader.chapter(node, index))
+        : [reader.chapter(wrapper([]), 0, nodes)],
+    }];
+
+  const { parts: kept, omitted } = OutlineValidation.truncateScenes(parts);
+  reader.truncation.scenes = omitted;
+  const sanitized = OutlineValidation.sanitizeOutline({
+    id: '',
+    projectId: '',
+    title,
+    parts: kept,
+    totalScenes: OutlineValidation.countTotalScenes(kept),
+    maxScenes: OutlineValidation.getMaxScenes(),
+    structure: 'custom',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  return { title: sanitized.title, parts: sanitized.parts, truncation: reader.truncation };
+}
+
+/**
+ * Saves a read OPML outline as a new outline of the project
+ */
+export async function importOpml(projectId: string, outline: OpmlOutline): Promise<string> {
+  return EnhancedOutlineService.createOutline({
+    projectId,
+    title: outline.title,
+    parts: outline.parts,
+    maxScenes: OutlineValidation.getMaxScenes(),
+    structure: 'custom',
+  });
+}
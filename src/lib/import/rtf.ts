@@ -0,0 +1,308 @@
+import { SCENE_BREAK_TEXT } from '../export/manuscript';
+import { RunStyle, Segment, TextBlock, renderSegments, blocksToHtml } from './blocks';
+
+/*
+ * Reads RTF, as written by Scrivener, Word and TextEdit, into the same
+ * blocks as the Word importer. Character formatting, alignment, outline
+ * levels and lists survive; fonts, colours and page layout are dropped.
+ * Pictures and footnotes are counted so the caller can report them.
+ */
+
+export interface RtfDocument {
+  blocks: TextBlock[];
+  images: number;
+  footnotes: number;
+}
+
+// Destinations whose text is not part of the body
+const SKIPPED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'expandedcolortbl', 'stylesheet', 'info', 'listtable', 'listoverridetable',
+  'revtbl', 'rsidtbl', 'generator', 'fldinst', 'header', 'headerl', 'headerr', 'headerf', 'footer',
+  'footerl', 'footerr', 'footerf', 'themedata', 'colorschememapping', 'latentstyles', 'datastore',
+  'xmlnstbl', 'object', 'pict', 'nonshppict', 'NeXTGraphic', 'footnote', 'annotation', 'atnid', 'atnauthor',
+]);
+
+const SYMBOLS: Record<string, string> = {
+  emdash: '—',
+  endash: '–',
+  lquote: '‘',
+  rquote: '’',
+  ldblquote: '“',
+  rdblquote: '”',
+  bullet: '•',
+  emspace: ' ',
+  enspace: ' ',
+  qmspace: ' ',
+  tab: '\t',
+  line: '\n',
+};
+
+type Align = '' | 'center' | 'right' | 'justify';
+
+interface GroupState {
+  style: RunStyle;
+  skip: boolean;
+  listText: boolean;
+  // Characters to drop after a \u escape
+  uc: number;
+  // The destination the group belongs to, as named by its first control word
+  destination: string;
+}
+
+interface ParagraphState {
+  align: Align;
+  outline?: number;
+  list?: number;
+  level: number;
+}
+
+const decoderFor = (codePage: number) => {
+  try {
+    return new TextDecoder(codePage === 65001 ? 'utf-8' : `windows-${codePage}`);
+  } catch {
+    return new TextDecoder('windows-1252');
+  }
+};
+
+class RtfReader {
+  private state: GroupState = { style: {}, skip: false, listText: false, uc: 1, destination: 'rtf' };
+  private stack: GroupState[] = [];
+  private paragraph: ParagraphState = { align: '', level: 0 };
+  private segments: Segment[] = [];
+  private listMarker = '';
+  private bytes: number[] = [];
+  private decoder = decoderFor(1252);
+  private pendingSkip = 0;
+  // Set by "{", so the next control word can name a destination
+  private groupStart = false;
+  // TextEdit follows an attached picture with a placeholder character
+  private attachment = false;
+  readonly blocks: TextBlock[] = [];
+  images = 0;
+  footnotes = 0;
+
+  constructor(private rtf: string) {}
+
+  read(): void {
+    const { rtf } = this;
+    let i = 0;
+    while (i < rtf.length) {
+      const char = rtf[i];
+      if (char === '{') {
+        this.flushBytes();
+        this.stack.push(this.state);
+        this.state = { ...this.state, style: { ...this.state.style } };
+        this.groupStart = true;
+        this.pendingSkip = 0;
+        i++;
+      } else if (char === '}') {
+        this.flushBytes();
+        this.state = this.stack.pop() ?? this.state;
+        this.groupStart = false;
+        this.pendingSkip = 0;
+        i++;
+      } else if (char === '\\') {
+        i = this.control(i + 1);
+      } else {
+        if (char !== '\r' && char !== '\n') this.text(char);
+        this.groupStart = false;
+        i++;
+      }
+    }
+    this.endParagraph(false);
+  }
+
+  // Reads the control word or symbol starting at i and returns where the next token starts
+  private control(i: number): number {
+    const { rtf } = this;
+    const next = rtf[i];
+    const atGroupStart = this.groupStart;
+    this.groupStart = false;
+
+    if (next === undefined) return i;
+    if (next === '\'') {
+      const byte = parseInt(rtf.slice(i + 1, i + 3), 16);
+      if (this.pendingSkip > 0) this.pendingSkip--;
+      else if (!Number.isNaN(byte) && !this.state.skip) this.bytes.push(byte);
+      return i + 3;
+    }
+    if (next === '*') {
+      // Unknown destinations marked ignorable are skipped, known ones too
+      this.state.skip = true;
+      this.groupStart = atGroupStart;
+      return i + 1;
+    }
+    if (!/[a-z]/i.test(next)) {
+      if (next === '\r' || next === '\n') this.word('par', null);
+      else if (next === '~') this.text(' ');
+      else if (next === '_') this.text('-');
+      else if (next === '\\' || next === '{' || next === '}') this.text(next);
+      return i + 1;
+    }
+
+    const match = /^([a-z]+)(-?\d+)? ?/i.exec(rtf.slice(i, i + 40))!;
+    const [whole, word, param] = match;
+    const value = param === undefined ? null : Number(param);
+
+    if (word === 'bin' && value) return i + whole.length + value;
+    if (atGroupStart) {
+      // Word writes each picture twice, the second copy for older readers
+      if ((word === 'pict' && this.state.destination !== 'nonshppict') || word === 'NeXTGraphic') this.images++;
+      if (word === 'footnote' && !this.state.skip) this.footnotes++;
+      if (word === 'NeXTGraphic') this.attachment = true;
+      this.state.destination = word;
+    }
+    if (atGroupStart && SKIPPED_DESTINATIONS.has(word)) {
+      this.state.skip = true;
+    } else if (atGroupStart && word === 'listtext') {
+      this.state.listText = true;
+      this.listMarker = '';
+    } else {
+      this.word(word, value);
+    }
+    return i + whole.length;
+  }
+
+  private word(word: string, value: number | null): void {
+    const on = value !== 0;
+    const { style } = this.state;
+    switch (word) {
+      case 'ansicpg':
+        this.decoder = decoderFor(value ?? 1252);
+        break;
+      case 'uc':
+        this.state.uc = value ?? 1;
+        break;
+      case 'u':
+        if (value !== null) {
+          this.flushBytes();
+          this.pendingSkip = 0;
+          this.text(String.fromCharCode(value < 0 ? value + 65536 : value));
+          this.pendingSkip = this.state.uc;
+        }
+        break;
+      case 'par':
+        this.endParagraph(true);
+        break;
+      case 'sect':
+      case 'cell':
+        this.endParagraph(false);
+        break;
+      case 'pard':
+        this.paragraph = { align: '', level: 0 };
+        break;
+      case 'plain':
+        this.state.style = {};
+        break;
+      case 'b':
+        style.bold = on;
+        break;
+      case 'i':
+        style.italic = on;
+        break;
+      case 'ul':
+      case 'uld':
+      case 'uldb':
+      case 'uldash':
+      case 'ulth':
+      case 'ulw':
+      case 'ulwave':
+        style.underline = on;
+        break;
+      case 'ulnone':
+        style.underline = false;
+        break;
+      case 'strike':
+      case 'striked':
+        style.strike = on;
+        break;
+      case 'ql':
+        this.paragraph.align = '';
+        break;
+      case 'qc':
+        this.paragraph.align = 'center';
+        break;
+      case 'qr':
+        this.paragraph.align = 'right';
+        break;
+      case 'qj':
+        this.paragraph.align = 'justify';
+        break;
+      case 'outlinelevel':
+        this.paragraph.outline = value ?? undefined;
+        break;
+      case 'ls':
+        this.paragraph.list = value ?? undefined;
+        break;
+      case 'ilvl':
+        this.paragraph.level = value ?? 0;
+        break;
+      default:
+        if (SYMBOLS[word]) this.text(SYMBOLS[word]);
+    }
+  }
+
+  private text(text: string): void {
+    if (this.pendingSkip > 0) {
+      this.pendingSkip--;
+      return;
+    }
+    this.flushBytes();
+    this.emit(text);
+  }
+
+  private emit(text: string): void {
+    if (this.state.skip) return;
+    if (this.attachment) {
+      this.attachment = false;
+      if (text === '\u00ac') return;
+    }
+    if (this.state.listText) this.listMarker += text;
+    else this.segments.push({ text, style: { ...this.state.style } });
+  }
+
+  private flushBytes(): void {
+    if (!this.bytes.length) return;
+    const text = this.decoder.decode(new Uint8Array(this.bytes));
+    this.bytes = [];
+    this.emit(text);
+  }
+
+  private endParagraph(explicit: boolean): void {
+    this.flushBytes();
+    const { content, text } = renderSegments(this.segments);
+    this.segments = [];
+    const marker = this.listMarker.trim();
+    this.listMarker = '';
+    if (!explicit && !text) return;
+
+    const { align, outline, list, level } = this.paragraph;
+    const className = align ? ` class="ql-align-${align}"` : '';
+    if (list !== undefined && text) {
+      this.blocks.push({
+        html: content,
+        text,
+        heading: 0,
+        sceneBreak: false,
+        list: { ordered: /^[(]?[0-9a-z]+[.)]/i.test(marker), level: Math.min(level, 8) },
+      });
+    } else if (outline !== undefined && outline < 9 && text) {
+      const tag = `h${Math.min(outline + 1, 3)}`;
+      this.blocks.push({ html: `<${tag}${className}>${content}</${tag}>`, text, heading: outline + 1, sceneBreak: false });
+    } else {
+      this.blocks.push({ html: `<p${className}>${content || '<br>'}</p>`, text, heading: 0, sceneBreak: SCENE_BREAK_TEXT.test(text) });
+    }
+  }
+}
+
+/**
+ * Reads an RTF document as blocks in document order
+ */
+export function parseRtf(rtf: string): RtfDocument {
+  if (!/^\s*\{\\rtf/.test(rtf)) throw new Error('This file is not an RTF document');
+  const reader = new RtfReader(rtf);
+  reader.read();
+  return { blocks: reader.blocks, images: reader.images, footnotes: reader.footnotes };
+}
+
+export const rtfToHtml = (rtf: string) => blocksToHtml(parseRtf(rtf).blocks);
@@ -0,0 +1,369 @@
+import { unzipSync, strFromU8 } from 'fflate';
+import { ImportedBinderItem, MAX_POV_LENGTH, MAX_SYNOPSIS_LENGTH, RevisionStatus, importBinderItems } from '../binder';
+import { StoryBibleEntry, createStoryBibleEntry } from '../storyBibleDb';
+import { TextBlock, blockWordCount, blocksToHtml, escapeHtml, validatedContent } from './blocks';
+import { parseRtf } from './rtf';
+import { EnhancedOutlineService } from '@/utils/outlineDb';
+import { OutlineValidation } from '@/utils/outline/outlineValidation';
+import { OutlineChapter, OutlinePart, OutlineScene } from '@/types/outline';
+import { VALIDATION_PATTERNS, validateInput } from '@/utils/security';
+
+/*
+ * Reads a zipped Scrivener project (.scriv folder) into drafts, an outline
+ * and story bible entries. The manuscript folder becomes the binder, with
+ * folders as chapters and their documents as scenes; synopses, notes,
+ * status and a POV custom field carry over. Research and the other top
+ * level folders become story bible entries typed by their folder's name.
+ * Anything that can't be brought across is listed in the plan.
+ */
+
+export const SCRIVENER_FILE_TYPES = ['.zip'];
+
+export type ImportedStoryBibleEntry = Omit<StoryBibleEntry, 'id' | 'created_at' | 'updated_at' | 'project_id'>;
+
+export interface ScrivenerSkippedItem {
+  title: string;
+  reason: string;
+}
+
+export interface ScrivenerImportPlan {
+  title: string;
+  drafts: ImportedBinderItem[];
+  outline: OutlinePart[];
+  // Scenes past the outline limit, in the binder but not the outline
+  omittedScenes: number;
+  entries: ImportedStoryBibleEntry[];
+  skipped: ScrivenerSkippedItem[];
+}
+
+export interface ScrivenerImportSummary {
+  drafts: number;
+  outlineScenes: number;
+  omittedScenes: number;
+  entries: number;
+  skipped: ScrivenerSkippedItem[];
+}
+
+interface ScrivenerItem {
+  type: string;
+  title: string;
+  blocks: TextBlock[];
+  synopsis: string;
+  notes: string;
+  status?: RevisionStatus;
+  pov?: string;
+  children: ScrivenerItem[];
+}
+
+// Scrivener 3 keeps each document in a folder, Scrivener 2 in numbered files
+const FILES = {
+  content: ['content.rtf', '.rtf'],
+  synopsis: ['synopsis.txt', '_synopsis.txt'],
+  notes: ['notes.rtf', '_notes.rtf'],
+};
+
+const UNSUPPORTED_TYPES: Record<string, string> = {
+  PDF: 'PDF documents are not imported',
+  Image: 'Images are not imported',
+  WebArchive: 'Web pages are not imported',
+  Media: 'Media files are not imported',
+};
+
+const ENTRY_TYPES: [RegExp, StoryBibleEntry['type']][] = [
+  [/character|people|cast/i, 'Character'],
+  [/place|location|setting/i, 'Location'],
+  [/item|object|prop|artifact/i, 'Item'],
+];
+
+const TEMPLATE_FOLDER = /^templates?( sheets)?$/i;
+
+const children = (element: Element | undefined, name: string) =>
+  element ? Array.from(element.children).filter(child => child.localName === name) : [];
+const child = (element: Element | undefined, name: string) => children(element, name)[0];
+const text = (element: Element | undefined) => element?.textContent?.trim() ?? '';
+
+const isFolder = (item: ScrivenerItem) => item.type === 'Folder' || item.type === 'DraftFolder';
+const hasText = (item: ScrivenerItem) => item.blocks.some(block => block.text);
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+function revisionStatus(name: string): RevisionStatus {
+  if (/final|done|complete/i.test(name)) return 'final';
+  if (/revis|second/i.test(name)) return 'revised';
+  return 'draft';
+}
+
+// The story bible's HTML uses <b> and <i>, and its names a plain character set
+const bibleHtml = (html: string) => html.replace(/<(\/?)strong>/g, '<$1b>').replace(/<(\/?)em>/g, '<$1i>');
+
+function entryName(title: string): string {
+  return title.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-zA-Z0-9\s\-_.,!?'"()[\]{}]+/g, ' ')
+    .replace(/\s+/g, ' ').trim().slice(0, 200);
+}
+
+class ScrivenerReader {
+  readonly skipped: ScrivenerSkippedItem[] = [];
+  private statuses = new Map<string, string>();
+  private povField: string | null = null;
+
+  constructor(private files: Record<string, Uint8Array>, private base: string, project: Document) {
+    const root = project.documentElement;
+    children(child(child(root, 'StatusSettings'), 'StatusItems'), 'Status').forEach(status => {
+      this.statuses.set(status.getAttribute('ID') ?? '', text(status));
+    });
+    const fields = children(child(root, 'CustomMetaDataSettings'), 'MetaDataField');
+    const pov = fields.find(field => /^(pov|point of view)$/i.test(text(child(field, 'Title'))));
+    this.povField = pov?.getAttribute('ID') ?? null;
+  }
+
+  private file(id: string, part: keyof typeof FILES): Uint8Array | undefined {
+    const [folder, numbered] = FILES[part];
+    return this.files[`${this.base}Files/Data/${id}/${folder}`] ?? this.files[`${this.base}Files/Docs/${id}${numbered}`];
+  }
+
+  private rtf(id: string, part: 'content' | 'notes', title: string) {
+    const data = this.file(id, part);
+    if (!data) return { blocks: [], images: 0, footnotes: 0 };
+    try {
+      return parseRtf(strFromU8(data, true));
+    } catch {
+      this.skipped.push({ title, reason: `The ${part === 'notes' ? 'notes' : 'text'} could not be read` });
+      return { blocks: [], images: 0, footnotes: 0 };
+    }
+  }
+
+  items(container: Element | undefined): ScrivenerItem[] {
+    return children(container, 'BinderItem').flatMap(element => {
+      const type = element.getAttribute('Type') ?? '';
+      const title = text(child(element, 'Title')) || 'Untitled';
+      if (type === 'TrashFolder') return [];
+      if (UNSUPPORTED_TYPES[type]) {
+        this.skipped.push({ title, reason: UNSUPPORTED_TYPES[type] });
+        return [];
+      }
+      if (type === 'Folder' && TEMPLATE_FOLDER.test(title)) {
+        this.skipped.push({ title, reason: 'Template sheets are not imported' });
+        return [];
+      }
+
+      const id = element.getAttribute('UUID') ?? element.getAttribute('ID') ?? '';
+      const content = this.rtf(id, 'content', title);
+      const lost = [
+        content.images ? plural(content.images, 'image') : '',
+        content.footnotes ? plural(content.footnotes, 'footnote') : '',
+      ].filter(Boolean);
+      if (lost.length) this.skipped.push({ title, reason: `${lost.join(' and ')} left out of the text` });
+
+      const metadata = child(element, 'MetaData');
+      const synopsisFile = this.file(id, 'synopsis');
+      const status = this.statuses.get(text(child(metadata, 'StatusID')));
+      const pov = children(child(metadata, 'CustomMetaData'), 'MetaDataItem')
+        .find(item => this.povField && text(child(item, 'FieldID')) === this.povField);
+
+      return [{
+        type,
+        title: title.slice(0, 200),
+        blocks: content.blocks,
+        synopsis: (synopsisFile ? strFromU8(synopsisFile).trim() : text(child(element, 'Synopsis'))).slice(0, MAX_SYNOPSIS_LENGTH),
+        notes: blocksToHtml(this.rtf(id, 'notes', title).blocks),
+        status: status && !/no status/i.test(status) ? revisionStatus(status) : undefined,
+        pov: text(child(pov, 'Value')).slice(0, MAX_POV_LENGTH) || undefined,
+        children: this.items(child(element, 'Children')),
+      }];
+    });
+  }
+}
+
+function binderItem(item: ScrivenerItem, kind: ImportedBinderItem['kind']): ImportedBinderItem {
+  return {
+    title: item.title,
+    content: validatedContent(item.title, blocksToHtml(item.blocks)),
+    kind,
+    revisionStatus: item.status,
+    synopsis: item.synopsis || undefined,
+    pov: item.pov,
+  };
+}
+
+// Documents nested at any depth under a chapter, in binder order
+const descendants = (item: ScrivenerItem): ScrivenerItem[] =>
+  item.children.flatMap(nested => [nested, ...descendants(nested)]);
+
+// A folder holding folders is a part; binder chapters don't nest, so its chapters move up
+const isPart = (item: ScrivenerItem) => isFolder(item) && item.children.some(isFolder);
+
+function manuscriptChapters(draft: ScrivenerItem): ScrivenerItem[] {
+  return draft.children.flatMap(item => isPart(item) ? [...(hasText(item) ? [{ ...item, children: [] }] : []), ...item.children] : [item]);
+}
+
+function outlineScene(item: ScrivenerItem, order: number): OutlineScene {
+  const words = blockWordCount(item.blocks);
+  return {
+    id: crypto.randomUUID(),
+    title: item.title,
+    summary: item.synopsis ? escapeHtml(item.synopsis) : undefined,
+    notes: item.notes ? bibleHtml(item.notes) : undefined,
+    order,
+    wordCount: words,
+    status: item.status === 'final' ? 'complete' : words ? 'draft' : 'planned',
+    pov: item.pov,
+  };
+}
+
+function outlineChapter(item: ScrivenerItem, order: number): OutlineChapter {
+  return {
+    id: crypto.randomUUID(),
+    title: item.title,
+    summary: item.synopsis ? escapeHtml(item.synopsis) : undefined,
+    notes: item.notes ? bibleHtml(item.notes) : undefined,
+    order,
+    scenes: descendants(item).map(outlineScene),
+  };
+}
+
+function buildOutline(draft: ScrivenerItem): OutlinePart[] {
+  const parts: OutlinePart[] = [];
+  let loose: OutlinePart | null = null;
+  draft.children.forEach(item => {
+    if (isPart(item)) {
+      loose = null;
+      parts.push({
+        id: crypto.randomUUID(),
+        title: item.title,
+        summary: item.synopsis ? escapeHtml(item.synopsis) : undefined,
+        notes: item.notes ? bibleHtml(item.notes) : undefined,
+        order: parts.length,
+        chapters: item.children.map(outlineChapter),
+      });
+      return;
+    }
+    if (!loose) {
+      loose = { id: crypto.randomUUID(), title: draft.title, order: parts.length, chapters: [] };
+      parts.push(loose);
+    }
+    loose.chapters.push(outlineChapter(item, loose.chapters.length));
+  });
+  return parts;
+}
+
+function bibleEntries(items: ScrivenerItem[], type: StoryBibleEntry['type'], folders: string[], skipped: ScrivenerSkippedItem[]): ImportedStoryBibleEntry[] {
+  return items.flatMap(item => {
+    const nestedType = ENTRY_TYPES.find(([pattern]) => pattern.test(item.title))?.[1] ?? type;
+    if (isFolder(item) && !hasText(item)) {
+      return bibleEntries(item.children, nestedType, [...folders, item.title], skipped);
+    }
+
+    const entries = bibleEntries(item.children, type, folders, skipped);
+    const name = entryName(item.title);
+    if (!name || !validateInput(name, VALIDATION_PATTERNS.SAFE_TEXT, 200)) {
+      skipped.push({ title: item.title, reason: 'The name has no characters a story bible entry can use' });
+      return entries;
+    }
+    const description = [
+      item.synopsis ? `<p>${escapeHtml(item.synopsis)}</p>` : '',
+      bibleHtml(blocksToHtml(item.blocks)),
+      item.notes ? bibleHtml(item.notes) : '',
+    ].join('');
+    return [{
+      type,
+      name,
+      description,
+      tags: folders.map(folder => folder.slice(0, 50)).slice(-50),
+      rules: [],
+      relations: [],
+    }, ...entries];
+  });
+}
+
+/**
+ * Reads a zipped .scriv project into everything that will be imported,
+ * for review before anything is written
+ */
+export function readScrivener(data: Uint8Array): ScrivenerImportPlan {
+  let files: Record<string, Uint8Array>;
+  let snapshots = false;
+  try {
+    files = unzipSync(data, {
+      filter: file => {
+        if (file.name.includes('__MACOSX/')) return false;
+        if (/(^|\/)Snapshots\//.test(file.name)) {
+          snapshots = true;
+          return false;
+        }
+        return /\.(scrivx|rtf|txt)$/i.test(file.name);
+      },
+    });
+  } catch {
+    throw new Error('This file is not a zipped Scrivener project');
+  }
+
+  const projectPath = Object.keys(files).filter(path => path.endsWith('.scrivx')).sort((a, b) => a.length - b.length)[0];
+  if (!projectPath) throw new Error('No Scrivener project (.scrivx) was found in the zip file');
+  const project = new DOMParser().parseFromString(strFromU8(files[projectPath]), 'application/xml');
+  if (project.getElementsByTagName('parsererror').length) throw new Error('The Scrivener project is damaged');
+
+  const base = projectPath.slice(0, projectPath.lastIndexOf('/') + 1);
+  const reader = new ScrivenerReader(files, base, project);
+  const top = reader.items(child(project.documentElement, 'Binder'));
+  const skipped = reader.skipped;
+  if (snapshots) skipped.push({ title: 'Snapshots', reason: 'Snapshots are not imported' });
+
+  const draft = top.find(item => item.type === 'DraftFolder');
+  if (!draft) throw new Error('The Scrivener project has no manuscript folder');
+
+  const drafts = manuscriptChapters(draft).map(chapter => ({
+    ...binderItem(chapter, 'chapter'),
+    children: descendants(chapter).map(scene => binderItem(scene, 'scene')),
+  }));
+  const { parts: outline, omitted: omittedScenes } = OutlineValidation.truncateScenes(buildOutline(draft));
+
+  const entries = top.filter(item => item !== draft).flatMap(item => {
+    const type = ENTRY_TYPES.find(([pattern]) => pattern.test(item.title))?.[1] ?? 'Lore';
+    return isFolder(item) || item.type === 'ResearchFolder'
+      ? bibleEntries(item.children, type, [item.title], skipped)
+      : bibleEntries([item], type, [], skipped);
+  });
+
+  return {
+    title: projectPath.slice(base.length).replace(/\.scrivx$/i, '').slice(0, 200) || 'Scrivener project',
+    drafts,
+    outline,
+    omittedScenes,
+    entries,
+    skipped,
+  };
+}
+
+/**
+ * Adds a read Scrivener project to a project: drafts at the end of the
+ * binder, a new outline, and story bible entries. Entries the story bible
+ * refuses are reported rather than stopping the import.
+ */
+export async function importScrivener(projectId: string, plan: ScrivenerImportPlan): Promise<ScrivenerImportSummary> {
+  if (plan.drafts.length === 0 && plan.entries.length === 0) throw new Error('There is nothing to import');
+
+  const ids = plan.drafts.length ? await importBinderItems(projectId, plan.drafts) : [];
+
+  const outlineScenes = OutlineValidation.countTotalScenes(plan.outline);
+  if (plan.outline.some(part => part.chapters.length)) {
+    await EnhancedOutlineService.createOutline({
+      projectId,
+      title: plan.title,
+      parts: plan.outline,
+      maxScenes: OutlineValidation.getMaxScenes(),
+      structure: 'custom',
+    });
+  }
+
+  const skipped = [...plan.skipped];
+  let entries = 0;
+  for (const entry of plan.entries) {
+    try {
+      await createStoryBibleEntry({ ...entry, project_id: projectId });
+      entries++;
+    } catch (error) {
+      skipped.push({ title: entry.name, reason: error instanceof Error ? error.message : 'Failed to create entry' });
+    }
+  }
+
+  return { drafts: ids.length, outlineScenes, omittedScenes: plan.omittedScenes, entries, skipped };
+}
@@ -0,0 +1,134 @@
+import Dexie, { Table } from 'dexie';
+import { encodeKeyframe } from './versioning/encoding';
+import type { DocumentVersion } from './versioning/types';
+import type { StoryBibleEntry } from './storyBibleDb';
+import { buildStoryBibleDocuments } from './search/documents';
+import { inferFieldsFromTags } from './storyBibleFields';
+import type { SearchDocument } from './search/types';
+
+/**
+ * Databases that predate the unified schema. Each one is drained into the
+ * matching table of the main database and then deleted, so the import runs
+ * at most once per browser profile.
+ */
+interface LegacySource {
+  database: string;
+  store: string;
+  target: 'story_bible' | 'versions';
+  /** Converts a legacy row into the shape the target table stores */
+  transform?: (row: Record<string, unknown>) => Record<string, unknown>;
+  /** Search documents for an imported row, written alongside it */
+  searchDocuments?: (row: Record<string, unknown>) => SearchDocument[];
+}
+
+const LEGACY_SOURCES: LegacySource[] = [
+  {
+    database: 'WriterDB',
+    store: 'story_bible',
+    target: 'story_bible',
+    // The v7 upgrade that infers fields ran before these rows arrived
+    transform: row => {
+      const entry = row as unknown as StoryBibleEntry;
+      return entry.fields === undefined
+        ? { ...row, fields: inferFieldsFromTags(entry.type, entry.tags || []) }
+        : row;
+    },
+    searchDocuments: row => buildStoryBibleDocuments(row as unknown as StoryBibleEntry),
+  },
+  {
+    database: 'versioning-db',
+    store: 'versions',
+    target: 'versions',
+    transform: row => encodeKeyframe(row as unknown as DocumentVersion) as unknown as Record<string, unknown>,
+  },
+];
+
+const reviveDates = <T extends Record<string, unknown>>(row: T): T => {
+  const revived: Record<string, unknown> = { ...row };
+  for (const key of ['createdAt', 'updatedAt', 'created_at', 'updated_at']) {
+    const value = revived[key];
+    if (value && !(value instanceof Date)) {
+      revived[key] = new Date(value as string);
+    }
+  }
+  return revived as T;
+};
+
+async function readLegacyStore(databaseName: string, storeName: string): Promise<unknown[] | null> {
+  if (!(await Dexie.exists(databaseName))) return null;
+
+  // Opening without a declared schema lets Dexie adopt whatever version the
+  // old library left behind.
+  const legacy = new Dexie(databaseName);
+  try {
+    await legacy.open();
+    const table = legacy.tables.find(t => t.name === storeName);
+    return table ? await table.toArray() : [];
+  } finally {
+    legacy.close();
+  }
+}
+
+/**
+ * Copies rows from the pre-consolidation databases into the unified one.
+ * Runs from the `ready` hook, so every other query waits until it is done.
+ */
+export async function importLegacyDatabases(db: Dexie): Promise<void> {
+  for (const source of LEGACY_SOURCES) {
+    try {
+      const rows = await readLegacyStore(source.database, source.store);
+      if (rows === null) continue;
+
+      const target = db.table(source.target) as Table<Record<string, unknown>, string>;
+      const searchIndex = db.table('search_index') as Table<SearchDocument, string>;
+      const transform = source.transform ?? (row => row);
+      const revived = rows.map(row => reviveDates(row as Record<string, unknown>));
+      const imported = revived.map(transform);
+      await db.transaction('rw', [target, searchIndex], async () => {
+        // bulkPut keeps the import idempotent if a previous run was interrupted
+        // after copying but before the legacy database was removed.
+        await target.bulkPut(imported);
+        if (source.searchDocuments) {
+          await searchIndex.bulkPut(imported.flatMap(source.searchDocuments));
+        }
+      });
+
+      await Dexie.delete(source.database);
+    } catch (error) {
+      // Leave the legacy database in place so the import is retried next launch.
+      console.error(`Failed to import legacy database ${source.database}:`, error);
+    }
+  }
+}
+
+/**
+ * Moves projects the old ProjectContext kept in localStorage into the
+ * projects table. The key is removed afterwards, so this only does work once
+ * per user and browser.
+ */
+export async function importLegacyProjects(db: Dexie, userId: string): Promise<void> {
+  const storageKey = `projects_${userId}`;
+  const saved = localStorage.getItem(storageKey);
+  if (saved === null) return;
+
+  try {
+    const rows: Record<string, unknown>[] = (JSON.parse(saved) as Record<string, unknown>[]).map(row => {
+      const project = reviveDates(row);
+      if (project.deadline) project.deadline = new Date(project.deadline as string);
+      return { ...project, userId };
+    });
+
+    const projects = db.table('projects') as Table<Record<string, unknown>, string>;
+    await db.transaction('rw', projects, async () => {
+      // Rows already in the table (e.g. restored from a backup) are newer than
+      // the localStorage copy, so only add the missing ones
+      const found = await projects.bulkGet(rows.map(r => r.id as string));
+      await projects.bulkAdd(rows.filter((_, i) => !found[i]));
+    });
+
+    localStorage.removeItem(storageKey);
+  } catch (error) {
+    // Keep the localStorage copy so the import is retried next time
+    console.error('Failed to import legacy projects:', error);
+  }
+}
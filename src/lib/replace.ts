@@ -0,0 +1,172 @@
+import db, { Draft, getDraft, getDrafts, updateDraft } from './db';
+import { buildBinderTree, flattenBinder } from './binder';
+import { StoryBibleEntry, updateStoryBibleEntry } from './storyBibleDb';
+import { createVersion, setMilestone } from './versioning';
+import { openStoryBibleEntry } from './vault/records';
+import { findInHtml, findInText, replaceInHtml, replaceInText } from './replace/matcher';
+import { ReplaceOptions, ReplaceQuery, ReplaceSummary, ReplaceTarget } from './replace/types';
+import { EnhancedOutlineService } from '@/utils/outlineDb';
+import { EnhancedOutline } from '@/types/outline';
+
+export * from './replace/types';
+export { buildPattern, findInHtml, findInText, replaceInHtml, replaceInText } from './replace/matcher';
+
+interface ReplaceSources {
+  drafts: Draft[];
+  outlines: EnhancedOutline[];
+  entries: StoryBibleEntry[];
+}
+
+// An outline part, chapter or scene with the breadcrumb leading to it
+interface OutlineNode {
+  id: string;
+  title: string;
+  notes?: string;
+  context: string;
+}
+
+const draftKey = (id: string) => `draft:${id}`;
+const outlineKey = (outlineId: string, nodeId: string) => `outline:${outlineId}:${nodeId}`;
+const storyBibleKey = (id: string) => `story_bible:${id}`;
+
+function outlineNodes(outline: EnhancedOutline): OutlineNode[] {
+  return outline.parts.flatMap(part => [
+    { ...part, context: outline.title },
+    ...part.chapters.flatMap(chapter => [
+      { ...chapter, context: part.title },
+      ...chapter.scenes.map(scene => ({ ...scene, context: `${part.title} › ${chapter.title}` })),
+    ]),
+  ]);
+}
+
+async function loadSources(projectId: string, options: ReplaceOptions): Promise<ReplaceSources> {
+  const draft = options.draftId ? await getDraft(options.draftId) : undefined;
+  if (options.draftId && draft?.projectId !== projectId) throw new Error('Draft not found');
+
+  const [drafts, outlines, entries] = await Promise.all([
+    draft ? [draft] : getDrafts(projectId).then(all => flattenBinder(buildBinderTree(all))),
+    options.includeOutline ? EnhancedOutlineService.getProjectOutlines(projectId) : [],
+    options.includeStoryBible
+      ? db.story_bible.where('project_id').equals(projectId).toArray()
+        .then(rows => Promise.all(rows.map(row => openStoryBibleEntry(row))))
+      : [],
+  ]);
+  return { drafts, outlines, entries };
+}
+
+/**
+ * Every match of a query in the project: draft text, then outline notes and
+ * story bible descriptions when asked for
+ */
+export async function findInProject(
+  projectId: string,
+  query: ReplaceQuery,
+  options: ReplaceOptions = {}
+): Promise<ReplaceTarget[]> {
+  if (!query.find) return [];
+  const { drafts, outlines, entries } = await loadSources(projectId, options);
+
+  const targets: ReplaceTarget[] = [
+    ...drafts.map(draft => ({
+      key: draftKey(draft.id),
+      sourceType: 'draft' as const,
+      sourceId: draft.id,
+      title: draft.title,
+      matches: findInHtml(draft.content, query),
+    })),
+    ...outlines.flatMap(outline => outlineNodes(outline).map(node => ({
+      key: outlineKey(outline.id, node.id),
+      sourceType: 'outline' as const,
+      sourceId: outline.id,
+      nodeId: node.id,
+      title: node.title,
+      context: node.context,
+      matches: findInText(node.notes || '', query),
+    }))),
+    ...entries.map(entry => ({
+      key: storyBibleKey(entry.id),
+      sourceType: 'story_bible' as const,
+      sourceId: entry.id,
+      title: entry.name,
+      context: entry.type,
+      matches: findInHtml(entry.description, query),
+    })),
+  ];
+  return targets.filter(target => target.matches.length > 0);
+}
+
+/**
+ * Replaces the selected matches, given per target key as positions in the
+ * target's `matches`. Each draft that changes gets a milestone version of its
+ * text from before the replacement, so the change can be undone from the
+ * version history. Positions refer to the current text, so search again
+ * right before replacing.
+ */
+export async function replaceInProject(
+  projectId: string,
+  query: ReplaceQuery,
+  options: ReplaceOptions,
+  selection: Record<string, number[]>
+): Promise<ReplaceSummary> {
+  const summary: ReplaceSummary = { replacements: 0, drafts: 0, outlineNodes: 0, storyBibleEntries: 0 };
+  if (!query.find) return summary;
+  const selected = (key: string) => (selection[key]?.length ? new Set(selection[key]) : null);
+
+  try {
+    const { drafts, outlines, entries } = await loadSources(projectId, options);
+
+    for (const draft of drafts) {
+      const picks = selected(draftKey(draft.id));
+      if (!picks) continue;
+      const { html, count } = replaceInHtml(draft.content, query, picks);
+      if (count === 0) continue;
+
+      const checkpoint = await createVersion(draft.id, draft.content, draft.wordCount, {
+        replace: { find: query.find, with: query.replace, count },
+      });
+      const shown = query.find.length > 40 ? `${query.find.slice(0, 40)}…` : query.find;
+      await setMilestone(checkpoint.id, `Before replacing "${shown}"`);
+      await updateDraft(draft.id, { content: html });
+      summary.replacements += count;
+      summary.drafts++;
+    }
+
+    for (const outline of outlines) {
+      let changed = 0;
+      const replaceNotes = <T extends { id: string; notes?: string }>(node: T): T => {
+        const picks = selected(outlineKey(outline.id, node.id));
+        if (!picks || !node.notes) return node;
+        const { text, count } = replaceInText(node.notes, query, picks);
+        if (count === 0) return node;
+        changed++;
+        summary.replacements += count;
+        return { ...node, notes: text };
+      };
+      const parts = outline.parts.map(part => replaceNotes({
+        ...part,
+        chapters: part.chapters.map(chapter => replaceNotes({
+          ...chapter,
+          scenes: chapter.scenes.map(replaceNotes),
+        })),
+      }));
+      if (changed === 0) continue;
+      await EnhancedOutlineService.updateOutline(outline.id, { parts });
+      summary.outlineNodes += changed;
+    }
+
+    for (const entry of entries) {
+      const picks = selected(storyBibleKey(entry.id));
+      if (!picks) continue;
+      const { html, count } = replaceInHtml(entry.description, query, picks);
+      if (count === 0) continue;
+      await updateStoryBibleEntry(entry.id, { description: html });
+      summary.replacements += count;
+      summary.storyBibleEntries++;
+    }
+
+    return summary;
+  } catch (error) {
+    console.error('Failed to replace text:', error);
+    throw new Error('Failed to replace text');
+  }
+}
@@ -0,0 +1,161 @@
+import { ReplaceMatch, ReplaceQuery } from './types';
+
+// Characters of surrounding text shown on each side of a match
+const CONTEXT_LENGTH = 40;
+
+// Elements whose text is searched separately, so no match spans two paragraphs
+const BLOCK_SELECTOR = 'p, h1, h2, h3, h4, h5, h6, li, blockquote, pre, div';
+
+interface TextMatch extends ReplaceMatch {
+  index: number;
+  length: number;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * The pattern for a query. Whole words are bounded by anything that isn't a
+ * letter, digit or underscore, so names with accents match as words too.
+ * Throws a SyntaxError for an invalid regular expression.
+ */
+export function buildPattern(query: ReplaceQuery): RegExp {
+  const source = query.regex ? query.find : escapeRegExp(query.find);
+  const bounded = query.wholeWord ? `(?<![\\p{L}\\p{N}_])(?:${source})(?![\\p{L}\\p{N}_])` : source;
+  return new RegExp(bounded, query.caseSensitive ? 'gu' : 'giu');
+}
+
+// Fills in $$, $&, $1 and $<name> the way String.prototype.replace does
+function expandReplacement(template: string, match: RegExpExecArray): string {
+  return template.replace(/\$(\$|&|\d{1,2}|<([^>]*)>)/g, (token, ref: string, name?: string) => {
+    if (ref === '$') return '$';
+    if (ref === '&') return match[0];
+    if (name !== undefined) return match.groups?.[name] ?? '';
+    const group = Number(ref);
+    return group > 0 && group < match.length ? match[group] ?? '' : token;
+  });
+}
+
+function findTextMatches(text: string, query: ReplaceQuery, pattern: RegExp): TextMatch[] {
+  const matches: TextMatch[] = [];
+  pattern.lastIndex = 0;
+  for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+    // Empty matches (e.g. /x*/) have nothing to replace
+    if (match[0].length === 0) {
+      pattern.lastIndex++;
+      continue;
+    }
+    const start = Math.max(0, match.index - CONTEXT_LENGTH);
+    const end = match.index + match[0].length;
+    matches.push({
+      index: match.index,
+      length: match[0].length,
+      before: (start > 0 ? '…' : '') + text.slice(start, match.index),
+      text: match[0],
+      after: text.slice(end, end + CONTEXT_LENGTH) + (end + CONTEXT_LENGTH < text.length ? '…' : ''),
+      replacement: query.regex ? expandReplacement(query.replace, match) : query.replace,
+    });
+  }
+  return matches;
+}
+
+// The text nodes of one block, in order, and their joined text
+interface Segment {
+  nodes: Text[];
+  text: string;
+}
+
+function htmlSegments(body: HTMLElement): Segment[] {
+  const segments: Segment[] = [];
+  const walker = body.ownerDocument.createTreeWalker(body, NodeFilter.SHOW_TEXT);
+  let block: Element | null = null;
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    const text = node as Text;
+    const parent = text.parentElement?.closest(BLOCK_SELECTOR) ?? null;
+    if (segments.length === 0 || parent !== block) {
+      segments.push({ nodes: [], text: '' });
+      block = parent;
+    }
+    const segment = segments[segments.length - 1];
+    segment.nodes.push(text);
+    segment.text += text.data;
+  }
+  return segments;
+}
+
+/**
+ * Puts the replacement in the first text node the match touches and removes
+ * the rest of the match from the following ones, so formatting that starts
+ * inside a match is dropped but everything around it is kept
+ */
+function replaceInSegment(segment: Segment, match: TextMatch) {
+  const matchEnd = match.index + match.length;
+  let offset = 0;
+  let replaced = false;
+  for (const node of segment.nodes) {
+    const start = offset;
+    offset += node.data.length;
+    if (offset <= match.index || start >= matchEnd) continue;
+    const from = Math.max(match.index, start) - start;
+    const to = Math.min(matchEnd, offset) - start;
+    node.data = node.data.slice(0, from) + (replaced ? '' : match.replacement) + node.data.slice(to);
+    replaced = true;
+  }
+}
+
+const parseHtml = (html: string) => new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html').body;
+
+// Positions are only meaningful inside one block, so they stay internal
+const toPreview = ({ before, text, after, replacement }: TextMatch): ReplaceMatch => ({ before, text, after, replacement });
+
+export function findInText(text: string, query: ReplaceQuery): ReplaceMatch[] {
+  return findTextMatches(text, query, buildPattern(query)).map(toPreview);
+}
+
+export function findInHtml(html: string, query: ReplaceQuery): ReplaceMatch[] {
+  const pattern = buildPattern(query);
+  return htmlSegments(parseHtml(html)).flatMap(segment => findTextMatches(segment.text, query, pattern).map(toPreview));
+}
+
+/**
+ * Replaces the matches at the given positions of `findInText`'s result, or
+ * all of them
+ */
+export function replaceInText(
+  text: string,
+  query: ReplaceQuery,
+  selected?: Set<number>
+): { text: string; count: number } {
+  const matches = findTextMatches(text, query, buildPattern(query))
+    .filter((_, i) => !selected || selected.has(i));
+  const result = matches.reduceRight(
+    (current, match) => current.slice(0, match.index) + match.replacement + current.slice(match.index + match.length),
+    text
+  );
+  return { text: result, count: matches.length };
+}
+
+/**
+ * Replaces the matches at the given positions of `findInHtml`'s result, or
+ * all of them, leaving the markup around them as it was
+ */
+export function replaceInHtml(
+  html: string,
+  query: ReplaceQuery,
+  selected?: Set<number>
+): { html: string; count: number } {
+  const pattern = buildPattern(query);
+  const body = parseHtml(html);
+  let ordinal = 0;
+  let count = 0;
+  htmlSegments(body).forEach(segment => {
+    const matches = findTextMatches(segment.text, query, pattern).filter(() => {
+      const keep = !selected || selected.has(ordinal);
+      ordinal++;
+      return keep;
+    });
+    // Later matches first, so earlier positions stay valid
+    matches.reverse().forEach(match => replaceInSegment(segment, match));
+    count += matches.length;
+  });
+  return { html: count > 0 ? body.innerHTML : html, count };
+}
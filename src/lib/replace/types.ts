@@ -0,0 +1,51 @@
+export interface ReplaceQuery {
+  find: string;
+  replace: string;
+  caseSensitive: boolean;
+  wholeWord: boolean;
+  // Treat `find` as a regular expression; `replace` may then use $1, $<name> and $&
+  regex: boolean;
+}
+
+export type ReplaceSourceType = 'draft' | 'outline' | 'story_bible';
+
+export interface ReplaceOptions {
+  // Only the given draft, or every draft of the project
+  draftId?: string;
+  includeOutline?: boolean;
+  includeStoryBible?: boolean;
+}
+
+/**
+ * One match shown in the preview, with the text around it in the same
+ * paragraph
+ */
+export interface ReplaceMatch {
+  before: string;
+  text: string;
+  after: string;
+  replacement: string;
+}
+
+/**
+ * A draft, outline node or story bible entry with matches. Matches are
+ * picked for replacement by their position in `matches`.
+ */
+export interface ReplaceTarget {
+  key: string;
+  sourceType: ReplaceSourceType;
+  sourceId: string;
+  // Outline node whose notes matched
+  nodeId?: string;
+  title: string;
+  // Breadcrumb such as "Part One › Chapter 3"
+  context?: string;
+  matches: ReplaceMatch[];
+}
+
+export interface ReplaceSummary {
+  replacements: number;
+  drafts: number;
+  outlineNodes: number;
+  storyBibleEntries: number;
+}
@@ -0,0 +1,32 @@
+
+import db, { getDrafts, getOutlines } from './db';
+import { buildDraftDocuments, buildOutlineDocuments, buildStoryBibleDocuments } from './search/documents';
+import { openStoryBibleEntry, sealSearchDocuments } from './vault/records';
+
+export * from './search/types';
+export { searchProject } from './search/query';
+
+/**
+ * Rebuilds every search document of a project from its source rows. The index
+ * is normally kept current on write; this is for recovering from drift.
+ */
+export async function rebuildSearchIndex(projectId: string): Promise<number> {
+  const [drafts, outlines, entries] = await Promise.all([
+    getDrafts(projectId),
+    getOutlines(projectId),
+    db.story_bible.where('project_id').equals(projectId).toArray()
+      .then(rows => Promise.all(rows.map(row => openStoryBibleEntry(row)))),
+  ]);
+
+  const documents = await sealSearchDocuments([
+    ...drafts.flatMap(buildDraftDocuments),
+    ...outlines.flatMap(buildOutlineDocuments),
+    ...entries.flatMap(buildStoryBibleDocuments),
+  ]);
+
+  return db.transaction('rw', db.search_index, async () => {
+    await db.search_index.where('projectId').equals(projectId).delete();
+    await db.search_index.bulkPut(documents);
+    return documents.length;
+  });
+}
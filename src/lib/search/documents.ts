@@ -0,0 +1,159 @@
+import type { Table } from 'dexie';
+import type { Draft, Outline } from '../db';
+import type { StoryBibleEntry } from '../storyBibleDb';
+import type { OutlinePart } from '@/types/outline';
+import { SearchDocument, SearchSourceType } from './types';
+import { tokenize, htmlToText } from './tokenize';
+
+// Matches in titles and names count for more than matches in body text
+const TITLE_WEIGHT = 3;
+const TAG_WEIGHT = 2;
+const BODY_WEIGHT = 1;
+
+interface WeightedField {
+  text: string;
+  weight: number;
+}
+
+type DocumentFields = Omit<SearchDocument, 'terms' | 'termFreqs' | 'length'>;
+
+function buildDocument(fields: DocumentFields, weighted: WeightedField[]): SearchDocument {
+  const termFreqs: Record<string, number> = {};
+  let length = 0;
+
+  weighted.forEach(({ text, weight }) => {
+    tokenize(text).forEach(term => {
+      termFreqs[term] = (termFreqs[term] || 0) + weight;
+      length += weight;
+    });
+  });
+
+  return { ...fields, terms: Object.keys(termFreqs), termFreqs, length };
+}
+
+export function buildDraftDocuments(draft: Draft): SearchDocument[] {
+  const text = htmlToText(draft.content);
+  return [buildDocument(
+    {
+      id: `draft:${draft.id}`,
+      projectId: draft.projectId,
+      sourceType: 'draft',
+      sourceId: draft.id,
+      kind: 'draft',
+      title: draft.title,
+      text,
+      updatedAt: draft.updatedAt,
+    },
+    [
+      { text: draft.title, weight: TITLE_WEIGHT },
+      { text: draft.synopsis || '', weight: BODY_WEIGHT },
+      { text, weight: BODY_WEIGHT },
+    ]
+  )];
+}
+
+/**
+ * Builds one document for the outline itself and one per part, chapter and
+ * scene, each with its summary and notes
+ */
+export function buildOutlineDocuments(outline: Outline): SearchDocument[] {
+  let parts: OutlinePart[];
+  try {
+    parts = JSON.parse(outline.structure || '[]');
+  } catch {
+    parts = [];
+  }
+
+  const base = {
+    projectId: outline.projectId,
+    sourceType: 'outline' as const,
+    sourceId: outline.id,
+    updatedAt: outline.updatedAt,
+  };
+
+  const node = (
+    kind: 'part' | 'chapter' | 'scene',
+    item: { id: string; title: string; summary?: string; notes?: string },
+    context: string
+  ): SearchDocument => {
+    const text = [item.summary, item.notes].filter(Boolean).join('\n');
+    return buildDocument(
+      { ...base, id: `outline:${outline.id}:${item.id}`, nodeId: item.id, kind, title: item.title, context, text },
+      [
+        { text: item.title, weight: TITLE_WEIGHT },
+        { text, weight: BODY_WEIGHT },
+      ]
+    );
+  };
+
+  const documents = [buildDocument(
+    { ...base, id: `outline:${outline.id}`, kind: 'outline', title: outline.title, text: '' },
+    [{ text: outline.title, weight: TITLE_WEIGHT }]
+  )];
+
+  parts.forEach(part => {
+    documents.push(node('part', part, outline.title));
+    (part.chapters || []).forEach(chapter => {
+      documents.push(node('chapter', chapter, part.title));
+      (chapter.scenes || []).forEach(scene => {
+        documents.push(node('scene', scene, `${part.title} › ${chapter.title}`));
+      });
+    });
+  });
+
+  return documents;
+}
+
+export function buildStoryBibleDocuments(entry: StoryBibleEntry): SearchDocument[] {
+  const description = htmlToText(entry.description);
+  const rules = (entry.rules || []).join('\n');
+  const tags = (entry.tags || []).join(', ');
+  // Structured fields (role, kind of place, background...) are searchable too
+  const fields = Object.values(entry.fields || {}).filter(v => v !== undefined && v !== '').join('\n');
+
+  return [buildDocument(
+    {
+      id: `story_bible:${entry.id}`,
+      projectId: entry.project_id,
+      sourceType: 'story_bible',
+      sourceId: entry.id,
+      kind: entry.type,
+      title: entry.name,
+      text: [description, fields, rules, tags].filter(Boolean).join('\n'),
+      updatedAt: entry.updated_at,
+    },
+    [
+      { text: entry.name, weight: TITLE_WEIGHT },
+      { text: tags, weight: TAG_WEIGHT },
+      { text: description, weight: BODY_WEIGHT },
+      { text: fields, weight: BODY_WEIGHT },
+      { text: rules, weight: BODY_WEIGHT },
+    ]
+  )];
+}
+
+/**
+ * Swaps the indexed documents of one source for a fresh set. Callers run this
+ * inside the transaction that writes the source row so the index never lags.
+ */
+export async function replaceSearchDocuments(
+  table: Table<SearchDocument, string>,
+  sourceType: SearchSourceType,
+  sourceId: string,
+  documents: SearchDocument[]
+): Promise<void> {
+  await removeSearchDocuments(table, sourceType, [sourceId]);
+  if (documents.length > 0) await table.bulkPut(documents);
+}
+
+export async function removeSearchDocuments(
+  table: Table<SearchDocument, string>,
+  sourceType: SearchSourceType,
+  sourceIds: string[]
+): Promise<void> {
+  if (sourceIds.length === 0) return;
+  await table
+    .where('[sourceType+sourceId]')
+    .anyOf(sourceIds.map(id => [sourceType, id]))
+    .delete();
+}
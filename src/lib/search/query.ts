@@ -0,0 +1,154 @@
+import db from '../db';
+import { SearchDocument, SearchOptions, SearchResult, SnippetSegment } from './types';
+import { tokenize, normalizeTerm, forEachWord } from './tokenize';
+import { getSessionKeys } from '../vault/session';
+import { openSearchDocument } from '../vault/records';
+import { blindTerm } from '../vault/crypto';
+
+// BM25 tuning, the usual defaults
+const K1 = 1.2;
+const B = 0.75;
+
+const SNIPPET_LENGTH = 200;
+const SNIPPET_LEAD = 60;
+
+interface QueryTerm {
+  term: string;
+  /** The last term is matched as a prefix so results update while typing */
+  prefix: boolean;
+}
+
+const matchesTerm = (candidate: string, { term, prefix }: QueryTerm): boolean =>
+  prefix ? candidate.startsWith(term) : candidate === term;
+
+const parseQuery = (query: string, allowPrefix: boolean): QueryTerm[] => {
+  const terms = [...new Set(tokenize(query))];
+  // A trailing space marks the last word as complete
+  const trailingWord = allowPrefix && /[\p{L}\p{N}]$/u.test(query);
+  return terms.map((term, i) => ({ term, prefix: trailingWord && i === terms.length - 1 }));
+};
+
+/**
+ * Splits text into plain and highlighted segments
+ */
+export function highlightSegments(text: string, terms: QueryTerm[]): SnippetSegment[] {
+  const segments: SnippetSegment[] = [];
+  let cursor = 0;
+
+  forEachWord(text, (word, start, end) => {
+    const normalized = normalizeTerm(word);
+    if (!terms.some(t => matchesTerm(normalized, t))) return;
+    if (start > cursor) segments.push({ text: text.slice(cursor, start), highlight: false });
+    segments.push({ text: text.slice(start, end), highlight: true });
+    cursor = end;
+  });
+
+  if (cursor < text.length) segments.push({ text: text.slice(cursor), highlight: false });
+  return segments;
+}
+
+/**
+ * Picks the window of text around the first match
+ */
+function buildSnippet(text: string, terms: QueryTerm[]): SnippetSegment[] {
+  if (!text) return [];
+
+  let firstMatch = -1;
+  forEachWord(text, (word, start) => {
+    if (firstMatch === -1 && terms.some(t => matchesTerm(normalizeTerm(word), t))) {
+      firstMatch = start;
+    }
+  });
+
+  let start = Math.max(0, (firstMatch === -1 ? 0 : firstMatch) - SNIPPET_LEAD);
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    if (space !== -1 && space < (firstMatch === -1 ? start + SNIPPET_LEAD : firstMatch)) start = space + 1;
+  }
+  let end = Math.min(text.length, start + SNIPPET_LENGTH);
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    if (space > start) end = space;
+  }
+
+  const window = text.slice(start, end).replace(/\s+/g, ' ');
+  const segments = highlightSegments(window, terms);
+  if (start > 0) segments.unshift({ text: '…', highlight: false });
+  if (end < text.length) segments.push({ text: '…', highlight: false });
+  return segments;
+}
+
+function termFrequency(document: SearchDocument, term: QueryTerm): number {
+  if (!term.prefix) return document.termFreqs[term.term] || 0;
+  return Object.entries(document.termFreqs)
+    .filter(([candidate]) => candidate.startsWith(term.term))
+    .reduce((sum, [, freq]) => sum + freq, 0);
+}
+
+/**
+ * Searches drafts, outlines and the story bible of one project. Every query
+ * term must match; results are ranked with BM25. While the vault is enabled
+ * the index only holds blinded terms, so words match exactly, not by prefix.
+ */
+export async function searchProject(
+  projectId: string,
+  query: string,
+  options: SearchOptions = {}
+): Promise<SearchResult[]> {
+  const { limit = 50, types } = options;
+  const vaultKeys = getSessionKeys();
+  const terms = parseQuery(query, !vaultKeys);
+  if (!projectId || terms.length === 0) return [];
+
+  try {
+    // The terms as they appear in the index
+    const indexTerms: QueryTerm[] = vaultKeys
+      ? await Promise.all(terms.map(async t => ({ term: await blindTerm(vaultKeys, t.term), prefix: false })))
+      : terms;
+
+    const postings = await Promise.all(indexTerms.map(async t => {
+      const clause = db.search_index.where('terms');
+      const keys = await (t.prefix ? clause.startsWith(t.term) : clause.equals(t.term)).primaryKeys();
+      return new Set(keys);
+    }));
+
+    // Intersect starting from the rarest term
+    const [rarest, ...others] = [...postings].sort((a, b) => a.size - b.size);
+    const candidateIds = [...rarest].filter(id => others.every(set => set.has(id)));
+    if (candidateIds.length === 0) return [];
+
+    const matches = (await db.search_index.bulkGet(candidateIds)).filter(
+      (doc): doc is SearchDocument =>
+        !!doc && doc.projectId === projectId && (!types || types.includes(doc.sourceType))
+    );
+    if (matches.length === 0) return [];
+    const documents = await Promise.all(matches.map(doc => openSearchDocument(doc, vaultKeys)));
+
+    const totalDocuments = await db.search_index.where('projectId').equals(projectId).count();
+    // Average length over the matches stands in for the corpus average, which
+    // would mean loading every document
+    const averageLength = documents.reduce((sum, doc) => sum + doc.length, 0) / documents.length || 1;
+
+    const results = documents.map(doc => {
+      const score = indexTerms.reduce((sum, term, i) => {
+        const df = Math.min(postings[i].size, totalDocuments);
+        const idf = Math.log(1 + (totalDocuments - df + 0.5) / (df + 0.5));
+        const tf = termFrequency(doc, term);
+        return sum + idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * doc.length / averageLength));
+      }, 0);
+
+      const { terms: _terms, termFreqs: _termFreqs, text, ...document } = doc;
+      return {
+        document,
+        score,
+        titleSegments: highlightSegments(doc.title, terms),
+        snippet: buildSnippet(text, terms),
+      };
+    });
+
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+  } catch (error) {
+    console.error('Failed to search project:', error);
+    throw new Error('Failed to search project');
+  }
+}
@@ -0,0 +1,55 @@
+const TOKEN_PATTERN = /[\p{L}\p{N}]+(?:['’][\p{L}]+)*/gu;
+
+const ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#39;': "'",
+  '&nbsp;': ' ',
+};
+
+/**
+ * Lowercases and strips diacritics so "Élan" matches "elan"
+ */
+export const normalizeTerm = (word: string): string =>
+  word
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/’/g, "'")
+    .replace(/'s$/, '');
+
+/**
+ * Splits text into normalized terms
+ */
+export const tokenize = (text: string): string[] => {
+  if (!text) return [];
+  return (text.match(TOKEN_PATTERN) || []).map(normalizeTerm).filter(Boolean);
+};
+
+/**
+ * Visits every word in `text` along with its offset, for highlighting
+ */
+export const forEachWord = (text: string, visit: (word: string, start: number, end: number) => void): void => {
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    visit(match[0], match.index!, match.index! + match[0].length);
+  }
+};
+
+export const decodeHtmlEntities = (text: string): string =>
+  text.replace(/&(amp|lt|gt|quot|#39|nbsp);/g, entity => ENTITIES[entity]);
+
+/**
+ * Converts editor HTML to plain text, keeping block boundaries as line breaks.
+ * Regex based so it also runs inside database upgrades and tests without a DOM.
+ */
+export const htmlToText = (html: string): string => {
+  if (!html) return '';
+  return decodeHtmlEntities(html
+    .replace(/<(br|\/p|\/h[1-6]|\/li|\/blockquote|\/div)\b[^>]*>/gi, '\n')
+    .replace(/<[^>]*>/g, ''))
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n\s*\n+/g, '\n')
+    .trim();
+};
@@ -0,0 +1,46 @@
+export type SearchSourceType = 'draft' | 'outline' | 'story_bible';
+
+/**
+ * One searchable unit. Drafts and story bible entries map to a single
+ * document; outlines get one per part, chapter and scene so results can point
+ * at the exact node.
+ */
+export interface SearchDocument {
+  id: string;
+  projectId: string;
+  sourceType: SearchSourceType;
+  /** Draft, outline or story bible entry the document was built from */
+  sourceId: string;
+  /** Outline node ID for part/chapter/scene documents */
+  nodeId?: string;
+  /** Finer grained kind shown in results, e.g. 'scene' or 'Character' */
+  kind: string;
+  title: string;
+  /** Breadcrumb such as "Part One › Chapter 3" */
+  context?: string;
+  /** Plain text used for snippets */
+  text: string;
+  /** Distinct normalized terms; multi-entry indexed, which makes the table an inverted index */
+  terms: string[];
+  /** Field-weighted term frequencies */
+  termFreqs: Record<string, number>;
+  length: number;
+  updatedAt: Date;
+}
+
+export interface SnippetSegment {
+  text: string;
+  highlight: boolean;
+}
+
+export interface SearchResult {
+  document: Omit<SearchDocument, 'terms' | 'termFreqs' | 'text'>;
+  score: number;
+  titleSegments: SnippetSegment[];
+  snippet: SnippetSegment[];
+}
+
+export interface SearchOptions {
+  limit?: number;
+  types?: SearchSourceType[];
+}
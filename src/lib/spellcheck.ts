@@ -0,0 +1,81 @@
+import db, { updateProject } from './db';
+import { openStoryBibleEntry } from './vault/records';
+import { dictionaryEntry, dictionaryWords } from './spellcheck/words';
+import { DEFAULT_SPELLCHECK_SETTINGS, ProjectSpellcheckSettings } from './spellcheck/types';
+
+export * from './spellcheck/types';
+export { createWordChecker, dictionaryEntry, dictionaryWords, findMisspellings, findWords, normalizeWord } from './spellcheck/words';
+export { loadSpellchecker } from './spellcheck/dictionaries';
+
+// Keeps a runaway dictionary from bloating the project row
+const MAX_DICTIONARY_WORDS = 5000;
+
+export const getProjectSpellcheck = async (projectId: string): Promise<ProjectSpellcheckSettings> => ({
+  ...DEFAULT_SPELLCHECK_SETTINGS,
+  ...(await db.projects.get(projectId))?.spellcheck,
+});
+
+export async function updateProjectSpellcheck(
+  projectId: string,
+  updates: Partial<Omit<ProjectSpellcheckSettings, 'words'>>
+): Promise<ProjectSpellcheckSettings> {
+  const settings = { ...(await getProjectSpellcheck(projectId)), ...updates };
+  try {
+    await updateProject(projectId, { spellcheck: settings });
+    return settings;
+  } catch (error) {
+    console.error('Failed to update spellcheck settings:', error);
+    throw new Error('Failed to update spellcheck settings');
+  }
+}
+
+/**
+ * Adds a word to the project dictionary. Possessives are stored without the
+ * "'s", which the checker accepts on any dictionary word.
+ */
+export async function addToProjectDictionary(projectId: string, word: string): Promise<ProjectSpellcheckSettings> {
+  const entry = dictionaryEntry(word);
+  if (!entry) throw new Error('Only single words can be added to the dictionary');
+
+  const settings = await getProjectSpellcheck(projectId);
+  if (settings.words.some(existing => existing.toLowerCase() === entry.toLowerCase())) return settings;
+  if (settings.words.length >= MAX_DICTIONARY_WORDS) {
+    throw new Error(`The project dictionary is limited to ${MAX_DICTIONARY_WORDS} words`);
+  }
+
+  const updated = { ...settings, words: [...settings.words, entry].sort((a, b) => a.localeCompare(b)) };
+  try {
+    await updateProject(projectId, { spellcheck: updated });
+    return updated;
+  } catch (error) {
+    console.error('Failed to add word to dictionary:', error);
+    throw new Error('Failed to add word to dictionary');
+  }
+}
+
+export async function removeFromProjectDictionary(projectId: string, word: string): Promise<ProjectSpellcheckSettings> {
+  const settings = await getProjectSpellcheck(projectId);
+  const updated = { ...settings, words: settings.words.filter(existing => existing !== word) };
+  try {
+    await updateProject(projectId, { spellcheck: updated });
+    return updated;
+  } catch (error) {
+    console.error('Failed to remove word from dictionary:', error);
+    throw new Error('Failed to remove word from dictionary');
+  }
+}
+
+/**
+ * Words from the names and tags of the project's story bible. They are
+ * read fresh rather than stored, so renaming an entry updates the dictionary.
+ */
+export async function getStoryBibleWords(projectId: string): Promise<string[]> {
+  try {
+    const rows = await db.story_bible.where('project_id').equals(projectId).toArray();
+    const entries = await Promise.all(rows.map(row => openStoryBibleEntry(row)));
+    return dictionaryWords(entries);
+  } catch (error) {
+    console.error('Failed to load story bible words:', error);
+    throw new Error('Failed to load story bible words');
+  }
+}
@@ -0,0 +1,52 @@
+import enAff from '@dictionaries/dictionary-en/index.aff?url';
+import enDic from '@dictionaries/dictionary-en/index.dic?url';
+import esAff from '@dictionaries/dictionary-es/index.aff?url';
+import esDic from '@dictionaries/dictionary-es/index.dic?url';
+import frAff from '@dictionaries/dictionary-fr/index.aff?url';
+import frDic from '@dictionaries/dictionary-fr/index.dic?url';
+import deAff from '@dictionaries/dictionary-de/index.aff?url';
+import deDic from '@dictionaries/dictionary-de/index.dic?url';
+import { SpellcheckLanguage, Spellchecker } from './types';
+
+// Hunspell files bundled as assets; the service worker keeps them for offline use
+const DICTIONARY_FILES: Record<SpellcheckLanguage, { aff: string; dic: string }> = {
+  en: { aff: enAff, dic: enDic },
+  es: { aff: esAff, dic: esDic },
+  fr: { aff: frAff, dic: frDic },
+  de: { aff: deAff, dic: deDic },
+};
+
+const loaded = new Map<SpellcheckLanguage, Promise<Spellchecker>>();
+
+async function fetchText(url: string): Promise<string> {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Dictionary request failed with ${response.status}`);
+  return response.text();
+}
+
+/**
+ * The spellchecker for a language. Dictionaries are large, so each is loaded
+ * on first use and then shared.
+ */
+export function loadSpellchecker(language: SpellcheckLanguage): Promise<Spellchecker> {
+  const existing = loaded.get(language);
+  if (existing) return existing;
+
+  const spellchecker = (async () => {
+    try {
+      const files = DICTIONARY_FILES[language];
+      const [{ default: nspell }, aff, dic] = await Promise.all([
+        import('nspell'),
+        fetchText(files.aff),
+        fetchText(files.dic),
+      ]);
+      return nspell(aff, dic);
+    } catch (error) {
+      loaded.delete(language);
+      console.error('Failed to load dictionary:', error);
+      throw new Error('Failed to load dictionary');
+    }
+  })();
+  loaded.set(language, spellchecker);
+  return spellchecker;
+}
@@ -0,0 +1,33 @@
+export type SpellcheckLanguage = 'en' | 'es' | 'fr' | 'de';
+
+export const SPELLCHECK_LANGUAGES: Record<SpellcheckLanguage, string> = {
+  en: 'English',
+  es: 'Español',
+  fr: 'Français',
+  de: 'Deutsch',
+};
+
+export interface ProjectSpellcheckSettings {
+  enabled: boolean;
+  language: SpellcheckLanguage;
+  // Words the writer added; story bible names and tags are added on top
+  words: string[];
+}
+
+export const DEFAULT_SPELLCHECK_SETTINGS: ProjectSpellcheckSettings = {
+  enabled: true,
+  language: 'en',
+  words: [],
+};
+
+// A word and where it is in the text it was found in
+export interface WordRange {
+  word: string;
+  index: number;
+  length: number;
+}
+
+export interface Spellchecker {
+  correct(word: string): boolean;
+  suggest(word: string): string[];
+}
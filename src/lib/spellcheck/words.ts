@@ -0,0 +1,79 @@
+import { WordRange } from './types';
+
+// Letters with inner apostrophes or hyphens: "don't", "half-elf", "O'Neill"
+const WORD_PATTERN = /[\p{L}\p{M}]+(?:['’-][\p{L}\p{M}]+)*/gu;
+
+// Dictionaries spell apostrophes straight
+export const normalizeWord = (word: string): string => word.normalize('NFC').replace(/’/g, "'");
+
+// "Aelric's" is spelled right if "Aelric" is
+const withoutPossessive = (word: string) => word.replace(/'s$/i, '');
+
+export function findWords(text: string): WordRange[] {
+  const words: WordRange[] = [];
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    words.push({ word: match[0], index: match.index ?? 0, length: match[0].length });
+  }
+  return words;
+}
+
+/**
+ * The words a dictionary needs to accept every name and tag given, split the
+ * same way the text is so "Lady Vess" adds "Lady" and "Vess"
+ */
+export function dictionaryWords(entries: { name: string; tags?: string[] }[]): string[] {
+  const words = new Set<string>();
+  entries.forEach(entry => {
+    [entry.name, ...(entry.tags ?? [])].forEach(text => {
+      findWords(text).forEach(({ word }) => words.add(normalizeWord(word)));
+    });
+  });
+  return [...words];
+}
+
+/**
+ * A word as it should be stored in a project dictionary, or null if it isn't
+ * a single word
+ */
+export function dictionaryEntry(word: string): string | null {
+  const [found, ...rest] = findWords(word.trim());
+  if (!found || rest.length > 0 || found.length !== word.trim().length) return null;
+  return withoutPossessive(normalizeWord(found.word));
+}
+
+/**
+ * Checks words against a dictionary and a project's own words. Project words
+ * match whatever their case, so a name is also accepted at the start of a
+ * sentence or in capitals.
+ */
+export function createWordChecker(
+  correct: (word: string) => boolean,
+  projectWords: Iterable<string>
+): (word: string) => boolean {
+  const known = new Set([...projectWords].map(word => word.toLowerCase()));
+  const cache = new Map<string, boolean>();
+  return (word: string) => {
+    const cached = cache.get(word);
+    if (cached !== undefined) return cached;
+    const normalized = normalizeWord(word);
+    const result = known.has(normalized.toLowerCase()) ||
+      known.has(withoutPossessive(normalized).toLowerCase()) ||
+      correct(normalized) ||
+      // Sentence case of a dictionary word, e.g. "Therefore"
+      (normalized !== normalized.toLowerCase() && correct(normalized.toLowerCase()));
+    cache.set(word, result);
+    return result;
+  };
+}
+
+/**
+ * The misspelled words of a text. Single letters are never flagged, and
+ * neither is a word that ends at `skipAt`, the word still being typed.
+ */
+export function findMisspellings(text: string, isCorrect: (word: string) => boolean, skipAt?: number): WordRange[] {
+  return findWords(text).filter(range =>
+    range.length > 1 &&
+    range.index + range.length !== skipAt &&
+    !isCorrect(range.word)
+  );
+}
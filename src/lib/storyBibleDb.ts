@@ -1,6 +1,17 @@
-import Dexie, { Table } from 'dexie';
 import { v4 as uuidv4 } from 'uuid';
+import db, { addTrashEntry } from './db';
+import { buildStoryBibleDocuments, replaceSearchDocuments, removeSearchDocuments } from './search/documents';
+import { searchProject } from './search/query';
+import { sealStoryBibleEntry, openStoryBibleEntry, sealSearchDocuments } from './vault/records';
 import { sanitizeHtml, sanitizeText, validateInput, VALIDATION_PATTERNS } from '@/utils/security';
+import {
+  StoryBibleFields,
+  StoryBibleFieldFilters,
+  validateStoryBibleFields,
+  pickStoryBibleFields,
+  matchesFieldFilters,
+  getFieldDefinition,
+} from './storyBibleFields';
 
 // Story Bible entry interface
 export interface StoryBibleEntry {
@@ -11,26 +22,13 @@ export interface StoryBibleEntry {
   tags: string[];
   rules: string[];
   relations: string[]; // Array of entry IDs
+  // Type-specific fields, see STORY_BIBLE_FIELDS
+  fields?: StoryBibleFields;
   project_id: string;
   created_at: Date;
   updated_at: Date;
 }
 
-// Extend the existing database
-class StoryBibleDB extends Dexie {
-  story_bible!: Table<StoryBibleEntry, string>;
-
-  constructor() {
-    super('WriterDB');
-    
-    this.version(2).stores({
-      story_bible: 'id, project_id, type, name, updated_at, created_at',
-    });
-  }
-}
-
-const storyBibleDb = new StoryBibleDB();
-
 // Input validation
 const validateStoryBibleEntry = (entry: Partial<StoryBibleEntry>): void => {
   if (entry.name !== undefined) {
@@ -63,6 +61,24 @@ const validateStoryBibleEntry = (entry: Partial<StoryBibleEntry>): void => {
   if (entry.type && !['Character', 'Location', 'Lore', 'Item', 'Custom'].includes(entry.type)) {
     throw new Error('Invalid entry type');
   }
+
+  if (entry.fields !== undefined) {
+    if (!entry.type) {
+      throw new Error('Entry type is required to validate fields');
+    }
+    validateStoryBibleFields(entry.type, entry.fields);
+  }
+};
+
+const sanitizeFields = (type: StoryBibleEntry['type'], fields: StoryBibleFields | undefined): StoryBibleFields => {
+  const picked: Record<string, unknown> = { ...pickStoryBibleFields(type, fields) };
+  Object.entries(picked).forEach(([key, value]) => {
+    const definition = getFieldDefinition(type, key);
+    if (typeof value === 'string' && definition?.kind !== 'select') {
+      picked[key] = sanitizeText(value, definition?.maxLength);
+    }
+  });
+  return picked as StoryBibleFields;
 };
 
 // CRUD Operations
@@ -77,13 +93,20 @@ export const createStoryBibleEntry = async (entry: Omit<StoryBibleEntry, 'id' |
     tags: entry.tags.map(tag => sanitizeText(tag, 50)),
     rules: entry.rules.map(rule => sanitizeText(rule, 500)),
     relations: entry.relations.filter(id => validateInput(id, VALIDATION_PATTERNS.UUID)),
+    fields: sanitizeFields(entry.type, entry.fields),
     project_id: entry.project_id,
     created_at: new Date(),
     updated_at: new Date(),
   };
 
   try {
-    const id = await storyBibleDb.story_bible.add(sanitizedEntry);
+    const row = await sealStoryBibleEntry(sanitizedEntry);
+    const documents = await sealSearchDocuments(buildStoryBibleDocuments(sanitizedEntry));
+    const id = await db.transaction('rw', [db.story_bible, db.search_index], async () => {
+      const key = await db.story_bible.add(row);
+      await replaceSearchDocuments(db.search_index, 'story_bible', sanitizedEntry.id, documents);
+      return key;
+    });
     return typeof id === 'string' ? id : sanitizedEntry.id;
   } catch (error) {
     console.error('Failed to create story bible entry:', error);
@@ -96,7 +119,11 @@ export const updateStoryBibleEntry = async (id: string, updates: Partial<StoryBi
     throw new Error('Invalid entry ID');
   }
 
-  validateStoryBibleEntry(updates);
+  const existing = await db.story_bible.get(id);
+  if (!existing) return;
+
+  // Fields are checked against the type the entry will have after the update
+  validateStoryBibleEntry({ ...updates, type: updates.type ?? existing.type });
 
   const sanitizedUpdates: Partial<StoryBibleEntry> = {
     ...updates,
@@ -124,7 +151,14 @@ export const updateStoryBibleEntry = async (id: string, updates: Partial<StoryBi
   }
 
   try {
-    await storyBibleDb.story_bible.update(id, sanitizedUpdates);
+    const merged = { ...(await openStoryBibleEntry(existing)), ...sanitizedUpdates };
+    const updated = { ...merged, fields: sanitizeFields(merged.type, merged.fields) };
+    const row = await sealStoryBibleEntry(updated);
+    const documents = await sealSearchDocuments(buildStoryBibleDocuments(updated));
+    await db.transaction('rw', [db.story_bible, db.search_index], async () => {
+      await db.story_bible.put(row);
+      await replaceSearchDocuments(db.search_index, 'story_bible', id, documents);
+    });
   } catch (error) {
     console.error('Failed to update story bible entry:', error);
     throw new Error('Failed to update entry');
@@ -137,7 +171,20 @@ export const deleteStoryBibleEntry = async (id: string): Promise<void> => {
   }
 
   try {
-    await storyBibleDb.story_bible.delete(id);
+    await db.transaction('rw', [db.story_bible, db.search_index, db.trash], async () => {
+      const entry = await db.story_bible.get(id);
+      if (!entry) throw new Error('Entry not found');
+
+      await removeSearchDocuments(db.search_index, 'story_bible', [id]);
+      await db.story_bible.delete(id);
+      await addTrashEntry({
+        itemType: 'story_bible',
+        itemId: id,
+        projectId: entry.project_id,
+        title: entry.name,
+        snapshot: { story_bible: [entry] },
+      });
+    });
   } catch (error) {
     console.error('Failed to delete story bible entry:', error);
     throw new Error('Failed to delete entry');
@@ -149,32 +196,48 @@ export const getStoryBibleEntriesByProject = async (
   offset: number = 0,
   limit: number = 10,
   searchTerm?: string,
-  typeFilter?: StoryBibleEntry['type']
+  typeFilter?: StoryBibleEntry['type'],
+  fieldFilters: StoryBibleFieldFilters = {}
 ): Promise<StoryBibleEntry[]> => {
   if (!validateInput(projectId, VALIDATION_PATTERNS.UUID)) {
     throw new Error('Invalid project ID');
   }
 
   try {
-    let query = storyBibleDb.story_bible.where('project_id').equals(projectId);
+    if (searchTerm?.trim()) {
+      // Ranked full-text matches across name, tags, description and rules
+      const results = await searchProject(projectId, sanitizeText(searchTerm, 100), {
+        types: ['story_bible'],
+        limit: Number.MAX_SAFE_INTEGER,
+      });
+      const matches = await db.story_bible.bulkGet(results.map(r => r.document.sourceId));
+      const opened = await Promise.all(matches
+        .filter((entry): entry is StoryBibleEntry => !!entry && (!typeFilter || entry.type === typeFilter))
+        .map(entry => openStoryBibleEntry(entry)));
+      return opened
+        .filter(entry => matchesFieldFilters(entry, fieldFilters))
+        .slice(offset, offset + limit);
+    }
+
+    let query = db.story_bible.where('project_id').equals(projectId);
 
     if (typeFilter) {
       query = query.and(entry => entry.type === typeFilter);
     }
 
-    if (searchTerm) {
-      const sanitizedSearch = sanitizeText(searchTerm, 100).toLowerCase();
-      query = query.and(entry => 
-        entry.name.toLowerCase().includes(sanitizedSearch) ||
-        entry.tags.some(tag => tag.toLowerCase().includes(sanitizedSearch))
-      );
-    }
-
     const entries = await query
       .reverse()
       .sortBy('updated_at');
 
-    return entries.slice(offset, offset + limit);
+    // Fields may be encrypted, so field filters run on opened entries
+    if (Object.values(fieldFilters).some(value => value !== undefined)) {
+      const opened = await Promise.all(entries.map(entry => openStoryBibleEntry(entry)));
+      return opened
+        .filter(entry => matchesFieldFilters(entry, fieldFilters))
+        .slice(offset, offset + limit);
+    }
+
+    return await Promise.all(entries.slice(offset, offset + limit).map(entry => openStoryBibleEntry(entry)));
   } catch (error) {
     console.error('Failed to get story bible entries:', error);
     throw new Error('Failed to retrieve entries');
@@ -187,11 +250,11 @@ export const getStoryBibleEntryById = async (id: string): Promise<StoryBibleEntr
   }
 
   try {
-    return await storyBibleDb.story_bible.get(id);
+    const entry = await db.story_bible.get(id);
+    return entry && await openStoryBibleEntry(entry);
   } catch (error) {
     console.error('Failed to get story bible entry:', error);
     throw new Error('Failed to retrieve entry');
   }
 };
 
-export default storyBibleDb;
@@ -0,0 +1,148 @@
+import type { Character, Location, Lore } from '@/types';
+import type { StoryBibleEntry } from './storyBibleDb';
+
+type EntryType = StoryBibleEntry['type'];
+
+// Per-type fields, reusing the shapes in src/types so the two stay in step
+export type CharacterFields = Pick<Character, 'role' | 'age' | 'gender' | 'appearance' | 'background' | 'motivation'>;
+export type LocationFields = Pick<Location, 'type' | 'climate' | 'culture' | 'map'>;
+export type LoreFields = Pick<Lore, 'category'>;
+export interface ItemFields {
+  owner?: string;
+  origin?: string;
+  properties?: string;
+}
+
+/**
+ * Structured fields of an entry. Only the keys defined for the entry's type
+ * are allowed; validateStoryBibleEntry enforces that.
+ */
+export type StoryBibleFields = Partial<CharacterFields & LocationFields & LoreFields & ItemFields>;
+export type StoryBibleFieldKey = keyof StoryBibleFields;
+
+export interface StoryBibleFieldDefinition {
+  key: StoryBibleFieldKey;
+  label: string;
+  kind: 'text' | 'longtext' | 'number' | 'select' | 'url';
+  options?: readonly string[];
+  maxLength?: number;
+  min?: number;
+  max?: number;
+  // Offered as a filter on the story bible page
+  filterable?: boolean;
+}
+
+export const CHARACTER_ROLES = ['protagonist', 'antagonist', 'supporting', 'minor'] as const;
+export const LOCATION_TYPES = ['city', 'building', 'country', 'planet', 'other'] as const;
+export const LORE_CATEGORIES = ['history', 'culture', 'technology', 'magic', 'politics', 'other'] as const;
+
+const SHORT_TEXT = 200;
+const LONG_TEXT = 5000;
+
+export const STORY_BIBLE_FIELDS: Record<EntryType, StoryBibleFieldDefinition[]> = {
+  Character: [
+    { key: 'role', label: 'Role', kind: 'select', options: CHARACTER_ROLES, filterable: true },
+    { key: 'age', label: 'Age', kind: 'number', min: 0, max: 100000 },
+    { key: 'gender', label: 'Gender', kind: 'text', maxLength: SHORT_TEXT },
+    { key: 'appearance', label: 'Appearance', kind: 'longtext', maxLength: LONG_TEXT },
+    { key: 'background', label: 'Background', kind: 'longtext', maxLength: LONG_TEXT },
+    { key: 'motivation', label: 'Motivation', kind: 'longtext', maxLength: LONG_TEXT },
+  ],
+  Location: [
+    { key: 'type', label: 'Kind of place', kind: 'select', options: LOCATION_TYPES, filterable: true },
+    { key: 'climate', label: 'Climate', kind: 'text', maxLength: SHORT_TEXT },
+    { key: 'culture', label: 'Culture', kind: 'longtext', maxLength: LONG_TEXT },
+    { key: 'map', label: 'Map URL', kind: 'url', maxLength: 2000 },
+  ],
+  Lore: [
+    { key: 'category', label: 'Category', kind: 'select', options: LORE_CATEGORIES, filterable: true },
+  ],
+  Item: [
+    { key: 'owner', label: 'Owner', kind: 'text', maxLength: SHORT_TEXT },
+    { key: 'origin', label: 'Origin', kind: 'text', maxLength: SHORT_TEXT },
+    { key: 'properties', label: 'Properties', kind: 'longtext', maxLength: LONG_TEXT },
+  ],
+  Custom: [],
+};
+
+export const formatFieldOption = (option: string): string => option.charAt(0).toUpperCase() + option.slice(1);
+
+export const getFieldDefinition = (type: EntryType, key: string): StoryBibleFieldDefinition | undefined =>
+  STORY_BIBLE_FIELDS[type].find(definition => definition.key === key);
+
+/**
+ * Throws if a field does not belong to the type or has an invalid value
+ */
+export function validateStoryBibleFields(type: EntryType, fields: StoryBibleFields): void {
+  for (const [key, value] of Object.entries(fields)) {
+    const definition = getFieldDefinition(type, key);
+    if (!definition) {
+      throw new Error(`"${key}" is not a ${type} field`);
+    }
+    if (value === undefined || value === '') continue;
+
+    switch (definition.kind) {
+      case 'number':
+        if (typeof value !== 'number' || !Number.isInteger(value) ||
+            value < (definition.min ?? -Infinity) || value > (definition.max ?? Infinity)) {
+          throw new Error(`${definition.label} must be a whole number between ${definition.min} and ${definition.max}`);
+        }
+        break;
+      case 'select':
+        if (!definition.options?.includes(value as string)) {
+          throw new Error(`Invalid ${definition.label.toLowerCase()}`);
+        }
+        break;
+      default:
+        if (typeof value !== 'string') {
+          throw new Error(`${definition.label} must be text`);
+        }
+        if (definition.maxLength && value.length > definition.maxLength) {
+          throw new Error(`${definition.label} must be less than ${definition.maxLength} characters`);
+        }
+        if (definition.kind === 'url' && !/^https?:\/\//i.test(value)) {
+          throw new Error(`${definition.label} must be an http or https link`);
+        }
+    }
+  }
+}
+
+/**
+ * Keeps only the fields defined for a type, dropping empty values. Used when
+ * an entry changes type so stale fields do not linger.
+ */
+export function pickStoryBibleFields(type: EntryType, fields: StoryBibleFields = {}): StoryBibleFields {
+  const picked: Record<string, unknown> = {};
+  STORY_BIBLE_FIELDS[type].forEach(({ key }) => {
+    const value = fields[key];
+    if (value !== undefined && value !== '') picked[key] = value;
+  });
+  return picked as StoryBibleFields;
+}
+
+export type StoryBibleFieldFilters = Partial<Record<StoryBibleFieldKey, string>>;
+
+export const matchesFieldFilters = (entry: StoryBibleEntry, filters: StoryBibleFieldFilters): boolean =>
+  Object.entries(filters).every(([key, value]) =>
+    value === undefined || String(entry.fields?.[key as StoryBibleFieldKey] ?? '') === value
+  );
+
+/**
+ * Fills select fields from tags that name one of their options, so entries
+ * written before structured fields existed (tagged "antagonist", "city"...)
+ * show up under the new filters. Tags are left in place.
+ */
+export function inferFieldsFromTags(type: EntryType, tags: string[]): StoryBibleFields {
+  const normalized = tags.map(tag => tag.trim().toLowerCase());
+  const inferred: Record<string, string> = {};
+
+  // Old rows may have no type, or one that has no fields
+  (STORY_BIBLE_FIELDS[type] ?? [])
+    .filter(definition => definition.kind === 'select')
+    .forEach(({ key, options = [] }) => {
+      const match = options.find(option => option !== 'other' && normalized.includes(option));
+      if (match) inferred[key] = match;
+    });
+
+  return inferred as StoryBibleFields;
+}
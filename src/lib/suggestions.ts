@@ -0,0 +1,144 @@
+/*
+ * Suggestion mode. Suggested edits are kept in the draft as marks: an
+ * insertion is the new text marked as suggested, a deletion is the old
+ * text left in place and marked for removal. The base text, what the
+ * draft says until a suggestion is accepted, is the draft without its
+ * suggested insertions.
+ */
+
+export type SuggestionType = 'insert' | 'delete';
+
+export const SUGGESTION_FORMATS: Record<SuggestionType, string> = {
+  insert: 'suggestion-insert',
+  delete: 'suggestion-delete',
+};
+
+// Stored on each mark; time is an ISO timestamp
+export interface SuggestionMark {
+  author: string;
+  time: string;
+}
+
+export interface Suggestion extends SuggestionMark {
+  type: SuggestionType;
+  // Position in the editor's text
+  index: number;
+  length: number;
+  text: string;
+}
+
+// The parts of a Quill delta operation used here
+export interface DeltaOp {
+  insert?: string | Record<string, unknown>;
+  retain?: number;
+  delete?: number;
+  attributes?: Record<string, unknown>;
+}
+
+const opLength = (op: DeltaOp) =>
+  op.delete ?? op.retain ?? (typeof op.insert === 'string' ? op.insert.length : 1);
+
+const markOf = (op: DeltaOp, type: SuggestionType) => op.attributes?.[SUGGESTION_FORMATS[type]] as SuggestionMark | undefined;
+
+// The part of a document between two positions
+function sliceDocument(ops: DeltaOp[], start: number, end: number): DeltaOp[] {
+  const slice: DeltaOp[] = [];
+  let position = 0;
+  for (const op of ops) {
+    const length = opLength(op);
+    const from = Math.max(start, position);
+    const to = Math.min(end, position + length);
+    if (from < to) {
+      slice.push(typeof op.insert === 'string' ? { ...op, insert: op.insert.slice(from - position, to - position) } : op);
+    }
+    position += length;
+    if (position >= end) break;
+  }
+  return slice;
+}
+
+/**
+ * The follow-up change that turns a user's edit into suggestions, or null
+ * if the edit only changed formatting. Typed text gets an insertion mark;
+ * deleted text is put back with a deletion mark, except text that was
+ * itself a suggested insertion, which is simply withdrawn. `cursor` is
+ * where the caret belongs afterwards: after typed text, and before
+ * restored text unless the user deleted forwards.
+ */
+export function suggestionDelta(
+  change: DeltaOp[],
+  before: DeltaOp[],
+  mark: SuggestionMark,
+  forward = false
+): { ops: DeltaOp[]; cursor: number } | null {
+  const ops: DeltaOp[] = [];
+  let tracked = false;
+  let oldIndex = 0;
+  let position = 0;
+  let cursor = 0;
+
+  for (const op of change) {
+    const length = opLength(op);
+    if (op.retain !== undefined) {
+      ops.push({ retain: length });
+      oldIndex += length;
+      position += length;
+    } else if (op.insert !== undefined) {
+      ops.push({ retain: length, attributes: { [SUGGESTION_FORMATS.insert]: mark, [SUGGESTION_FORMATS.delete]: null } });
+      position += length;
+      cursor = position;
+      tracked = true;
+    } else if (op.delete !== undefined) {
+      const restored = sliceDocument(before, oldIndex, oldIndex + length).filter(removed => !markOf(removed, 'insert'));
+      const restoredLength = restored.reduce((sum, removed) => sum + opLength(removed), 0);
+      restored.forEach(removed => ops.push({
+        insert: removed.insert,
+        attributes: { ...removed.attributes, [SUGGESTION_FORMATS.delete]: markOf(removed, 'delete') ?? mark },
+      }));
+      cursor = forward ? position + restoredLength : position;
+      oldIndex += length;
+      position += restoredLength;
+      tracked = true;
+    }
+  }
+  return tracked ? { ops, cursor } : null;
+}
+
+/**
+ * The suggestions in a document, in order. Neighbouring marks of the same
+ * kind by the same author read as one suggestion.
+ */
+export function listSuggestions(document: DeltaOp[]): Suggestion[] {
+  const suggestions: Suggestion[] = [];
+  let position = 0;
+  for (const op of document) {
+    const length = opLength(op);
+    (['insert', 'delete'] as const).forEach(type => {
+      const mark = markOf(op, type);
+      if (!mark) return;
+      const text = typeof op.insert === 'string' ? op.insert : '';
+      const last = suggestions[suggestions.length - 1];
+      if (last && last.type === type && last.author === mark.author && last.index + last.length === position) {
+        last.length += length;
+        last.text += text;
+        if (mark.time > last.time) last.time = mark.time;
+      } else {
+        suggestions.push({ type, author: mark.author, time: mark.time, index: position, length, text });
+      }
+    });
+    position += length;
+  }
+  return suggestions;
+}
+
+/**
+ * A draft's HTML as it reads before any suggestion is accepted: suggested
+ * insertions dropped, text marked for deletion kept as plain text
+ */
+export function baseHtml(html: string): string {
+  if (!html.includes(SUGGESTION_FORMATS.insert) && !html.includes(SUGGESTION_FORMATS.delete)) return html;
+  const doc = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+  doc.body.querySelectorAll(`.${SUGGESTION_FORMATS.insert}`).forEach(element => element.remove());
+  doc.body.querySelectorAll(`.${SUGGESTION_FORMATS.delete}`).forEach(element => element.replaceWith(...Array.from(element.childNodes)));
+  return doc.body.innerHTML;
+}
@@ -0,0 +1,148 @@
+import db, { TrashEntry } from './db';
+import { buildDraftDocuments, buildOutlineDocuments, buildStoryBibleDocuments } from './search/documents';
+import { openDraft, openOutline, openStoryBibleEntry, sealSearchDocuments } from './vault/records';
+
+const RETENTION_STORAGE_KEY = 'storyforge_trash_retention_days';
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Days items stay in the trash before being purged; 0 keeps them forever
+ */
+export const getTrashRetentionDays = (): number => {
+  const stored = localStorage.getItem(RETENTION_STORAGE_KEY);
+  const days = stored === null ? NaN : Number(stored);
+  return Number.isInteger(days) && days >= 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+};
+
+export const setTrashRetentionDays = (days: number): void => {
+  if (!Number.isInteger(days) || days < 0) {
+    throw new Error('Retention must be a whole number of days');
+  }
+  localStorage.setItem(RETENTION_STORAGE_KEY, String(days));
+};
+
+/**
+ * When an entry will be purged, or null if retention is disabled
+ */
+export const getTrashExpiry = (entry: TrashEntry, retentionDays = getTrashRetentionDays()): Date | null =>
+  retentionDays > 0 ? new Date(entry.deletedAt.getTime() + retentionDays * DAY_MS) : null;
+
+/**
+ * Items deleted from a project, newest first. The project itself is listed
+ * through getTrashedProjects.
+ */
+export const getProjectTrash = async (projectId: string): Promise<TrashEntry[]> => {
+  try {
+    const entries = await db.trash.where('projectId').equals(projectId).toArray();
+    return entries
+      .filter(entry => entry.itemType !== 'project')
+      .sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+  } catch (error) {
+    console.error('Failed to get trash:', error);
+    throw new Error('Failed to retrieve trash');
+  }
+};
+
+export const getTrashedProjects = async (userId: string): Promise<TrashEntry[]> => {
+  try {
+    const entries = await db.trash.where('userId').equals(userId).toArray();
+    return entries
+      .filter(entry => entry.itemType === 'project')
+      .sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+  } catch (error) {
+    console.error('Failed to get trashed projects:', error);
+    throw new Error('Failed to retrieve trashed projects');
+  }
+};
+
+/**
+ * Puts every row of a trash entry back with its original IDs and rebuilds
+ * their search documents
+ */
+export const restoreTrashEntry = async (id: string): Promise<TrashEntry> => {
+  const entry = await db.trash.get(id);
+  if (!entry) throw new Error('Item is no longer in the trash');
+
+  if (entry.itemType !== 'project') {
+    const projectInTrash = await db.trash
+      .where('itemId').equals(entry.projectId)
+      .and(e => e.itemType === 'project')
+      .count();
+    if (projectInTrash > 0) {
+      throw new Error('Restore the project this item belongs to first');
+    }
+  }
+
+  try {
+    const { projects = [], drafts = [], outlines = [], story_bible = [], versions = [], comments = [] } = entry.snapshot;
+    // Snapshot rows are restored exactly as stored; only the search documents
+    // are rebuilt, which needs the readable content
+    const documents = await sealSearchDocuments([
+      ...(await Promise.all(drafts.map(d => openDraft(d)))).flatMap(buildDraftDocuments),
+      ...(await Promise.all(outlines.map(o => openOutline(o)))).flatMap(buildOutlineDocuments),
+      ...(await Promise.all(story_bible.map(e => openStoryBibleEntry(e)))).flatMap(buildStoryBibleDocuments),
+    ]);
+
+    await db.transaction(
+      'rw',
+      [db.projects, db.drafts, db.outlines, db.story_bible, db.versions, db.comments, db.search_index, db.trash],
+      async () => {
+        await db.projects.bulkPut(projects);
+        await db.drafts.bulkPut(drafts);
+        await db.outlines.bulkPut(outlines);
+        await db.story_bible.bulkPut(story_bible);
+        await db.versions.bulkPut(versions);
+        await db.comments.bulkPut(comments);
+        await db.search_index.bulkPut(documents);
+        await db.trash.delete(id);
+      }
+    );
+
+    return entry;
+  } catch (error) {
+    console.error('Failed to restore from trash:', error);
+    throw new Error('Failed to restore item');
+  }
+};
+
+/**
+ * Permanently deletes trash entries. Purging a project also purges items
+ * that were trashed from it separately, since they can no longer be restored.
+ */
+export const purgeTrashEntries = async (ids: string[]): Promise<void> => {
+  if (ids.length === 0) return;
+
+  try {
+    await db.transaction('rw', db.trash, async () => {
+      const entries = (await db.trash.bulkGet(ids)).filter((e): e is TrashEntry => !!e);
+      const projectIds = entries.filter(e => e.itemType === 'project').map(e => e.itemId);
+
+      await db.trash.bulkDelete(ids);
+      if (projectIds.length > 0) {
+        await db.trash.where('projectId').anyOf(projectIds).delete();
+      }
+    });
+  } catch (error) {
+    console.error('Failed to purge trash:', error);
+    throw new Error('Failed to permanently delete items');
+  }
+};
+
+export const emptyProjectTrash = async (projectId: string): Promise<void> => {
+  const entries = await getProjectTrash(projectId);
+  await purgeTrashEntries(entries.map(e => e.id));
+};
+
+/**
+ * Purges entries older than the retention period
+ * @returns Number of entries removed
+ */
+export const purgeExpiredTrash = async (retentionDays = getTrashRetentionDays()): Promise<number> => {
+  if (retentionDays <= 0) return 0;
+
+  const cutoff = new Date(Date.now() - retentionDays * DAY_MS);
+  const expired = await db.trash.where('deletedAt').below(cutoff).primaryKeys();
+  await purgeTrashEntries(expired);
+  return expired.length;
+};
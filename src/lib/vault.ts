@@ -0,0 +1,253 @@
+import db, { VaultRecord, TrashEntry, TrashSnapshot } from './db';
+import { buildDraftDocuments, buildOutlineDocuments, buildStoryBibleDocuments } from './search/documents';
+import {
+  VaultKeys,
+  DEFAULT_ITERATIONS,
+  deriveVaultKeys,
+  generateSalt,
+  encryptText,
+  decryptText,
+} from './vault/crypto';
+import {
+  sealDraft,
+  openDraft,
+  sealOutline,
+  openOutline,
+  sealStoryBibleEntry,
+  openStoryBibleEntry,
+  sealStoredVersion,
+  openStoredVersion,
+  sealComment,
+  openComment,
+  sealSearchDocuments,
+} from './vault/records';
+import { getVaultStatus, setVaultSession } from './vault/session';
+
+export type { VaultStatus } from './vault/session';
+export { getVaultStatus, subscribeVaultStatus } from './vault/session';
+
+export const MIN_PASSPHRASE_LENGTH = 12;
+const VERIFIER_TEXT = 'storyforge-vault';
+
+const validatePassphrase = (passphrase: string): void => {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+};
+
+async function createVaultRecord(userId: string, passphrase: string, createdAt = new Date()) {
+  const salt = generateSalt();
+  const keys = await deriveVaultKeys(passphrase, salt, DEFAULT_ITERATIONS);
+  const record: VaultRecord = {
+    userId,
+    salt,
+    iterations: DEFAULT_ITERATIONS,
+    verifier: await encryptText(keys, VERIFIER_TEXT),
+    createdAt,
+    updatedAt: new Date(),
+  };
+  return { record, keys };
+}
+
+/**
+ * Derives the keys for a stored vault, failing if the passphrase is wrong
+ */
+async function openVaultRecord(record: VaultRecord, passphrase: string): Promise<VaultKeys> {
+  const keys = await deriveVaultKeys(passphrase, record.salt, record.iterations);
+  try {
+    if (await decryptText(keys, record.verifier) === VERIFIER_TEXT) return keys;
+  } catch {
+    // AES-GCM rejects a wrong key outright
+  }
+  throw new Error('Incorrect passphrase');
+}
+
+async function requireVaultRecord(userId: string): Promise<VaultRecord> {
+  const record = await db.vaults.get(userId);
+  if (!record) throw new Error('No vault is set up for this account');
+  return record;
+}
+
+/**
+ * Rewrites every protected field of a user's projects, including their trash,
+ * from one key to another. `null` on either side means plaintext. Everything
+ * is decrypted and re-encrypted in memory first and then written in a single
+ * transaction, together with the vault record change, so an interruption
+ * leaves the old key and data in place.
+ */
+async function reencryptUserData(
+  userId: string,
+  from: VaultKeys | null,
+  to: VaultKeys | null,
+  writeRecord: () => Promise<unknown>
+): Promise<void> {
+  const projectIds = await db.projects.where('userId').equals(userId).primaryKeys();
+  const trashedProjectIds = (await db.trash.where('userId').equals(userId).toArray())
+    .filter(entry => entry.itemType === 'project')
+    .map(entry => entry.itemId);
+
+  const storedDrafts = await db.drafts.where('projectId').anyOf(projectIds).toArray();
+  const storedOutlines = await db.outlines.where('projectId').anyOf(projectIds).toArray();
+  const storedEntries = await db.story_bible.where('project_id').anyOf(projectIds).toArray();
+  const storedVersions = await db.versions.where('draftId').anyOf(storedDrafts.map(d => d.id)).toArray();
+  const storedComments = await db.comments.where('projectId').anyOf(projectIds).toArray();
+  const storedTrash = await db.trash.where('projectId').anyOf([...projectIds, ...trashedProjectIds]).toArray();
+
+  const drafts = await Promise.all(storedDrafts.map(d => openDraft(d, from)));
+  const outlines = await Promise.all(storedOutlines.map(o => openOutline(o, from)));
+  const entries = await Promise.all(storedEntries.map(e => openStoryBibleEntry(e, from)));
+
+  const reseal = async (snapshot: TrashSnapshot): Promise<TrashSnapshot> => ({
+    ...snapshot,
+    drafts: snapshot.drafts && await Promise.all(
+      snapshot.drafts.map(async d => sealDraft(await openDraft(d, from), to))
+    ),
+    outlines: snapshot.outlines && await Promise.all(
+      snapshot.outlines.map(async o => sealOutline(await openOutline(o, from), to))
+    ),
+    story_bible: snapshot.story_bible && await Promise.all(
+      snapshot.story_bible.map(async e => sealStoryBibleEntry(await openStoryBibleEntry(e, from), to))
+    ),
+    versions: snapshot.versions && await Promise.all(
+      snapshot.versions.map(async v => sealStoredVersion(await openStoredVersion(v, from), to))
+    ),
+    comments: snapshot.comments && await Promise.all(
+      snapshot.comments.map(async c => sealComment(await openComment(c, from), to))
+    ),
+  });
+
+  const draftRows = await Promise.all(drafts.map(d => sealDraft(d, to)));
+  const outlineRows = await Promise.all(outlines.map(o => sealOutline(o, to)));
+  const entryRows = await Promise.all(entries.map(e => sealStoryBibleEntry(e, to)));
+  const versionRows = await Promise.all(
+    storedVersions.map(async v => sealStoredVersion(await openStoredVersion(v, from), to))
+  );
+  const commentRows = await Promise.all(
+    storedComments.map(async c => sealComment(await openComment(c, from), to))
+  );
+  const trashRows: TrashEntry[] = await Promise.all(
+    storedTrash.map(async entry => ({ ...entry, snapshot: await reseal(entry.snapshot) }))
+  );
+  // Blinded terms depend on the key, so the index is rebuilt rather than re-encrypted
+  const documents = await sealSearchDocuments([
+    ...drafts.flatMap(buildDraftDocuments),
+    ...outlines.flatMap(buildOutlineDocuments),
+    ...entries.flatMap(buildStoryBibleDocuments),
+  ], to);
+
+  await db.transaction(
+    'rw',
+    [db.drafts, db.outlines, db.story_bible, db.versions, db.comments, db.search_index, db.trash, db.vaults],
+    async () => {
+      await db.drafts.bulkPut(draftRows);
+      await db.outlines.bulkPut(outlineRows);
+      await db.story_bible.bulkPut(entryRows);
+      await db.versions.bulkPut(versionRows);
+      await db.comments.bulkPut(commentRows);
+      await db.trash.bulkPut(trashRows);
+      await db.search_index.where('projectId').anyOf(projectIds).delete();
+      await db.search_index.bulkPut(documents);
+      await writeRecord();
+    }
+  );
+}
+
+// Whose key the session holds, so it is never used for another account
+let sessionUserId: string | null = null;
+
+const startSession = (userId: string, keys: VaultKeys): void => {
+  sessionUserId = userId;
+  setVaultSession('unlocked', keys);
+};
+
+/**
+ * Sets the session state for a signed-in user: locked if they have a vault,
+ * disabled otherwise. An unlocked session is kept only for the same user.
+ */
+export async function loadVault(userId: string | null): Promise<void> {
+  if (userId !== sessionUserId) {
+    sessionUserId = userId;
+    // Forget the previous user's key before anything else can use it
+    if (getVaultStatus() === 'unlocked') setVaultSession('locked');
+  }
+
+  if (!userId) {
+    setVaultSession('disabled');
+    return;
+  }
+
+  const record = await db.vaults.get(userId);
+  if (!record) {
+    setVaultSession('disabled');
+  } else if (getVaultStatus() !== 'unlocked') {
+    setVaultSession('locked');
+  }
+}
+
+export const hasVault = async (userId: string): Promise<boolean> => !!(await db.vaults.get(userId));
+
+export async function unlockVault(userId: string, passphrase: string): Promise<void> {
+  const record = await requireVaultRecord(userId);
+  const keys = await openVaultRecord(record, passphrase);
+  startSession(userId, keys);
+}
+
+/**
+ * Forgets the key. Protected content stays unreadable until the next unlock.
+ */
+export function lockVault(): void {
+  if (getVaultStatus() === 'unlocked') {
+    setVaultSession('locked');
+  }
+}
+
+/**
+ * Creates a vault and encrypts the user's existing projects with it
+ */
+export async function enableVault(userId: string, passphrase: string): Promise<void> {
+  validatePassphrase(passphrase);
+  if (await db.vaults.get(userId)) throw new Error('A vault is already set up for this account');
+
+  try {
+    const { record, keys } = await createVaultRecord(userId, passphrase);
+    await reencryptUserData(userId, null, keys, () => db.vaults.put(record));
+    startSession(userId, keys);
+  } catch (error) {
+    console.error('Failed to enable vault:', error);
+    throw new Error('Failed to enable vault');
+  }
+}
+
+/**
+ * Re-encrypts everything under a key derived from a new passphrase
+ */
+export async function changeVaultPassphrase(userId: string, currentPassphrase: string, newPassphrase: string): Promise<void> {
+  validatePassphrase(newPassphrase);
+  const existing = await requireVaultRecord(userId);
+  const currentKeys = await openVaultRecord(existing, currentPassphrase);
+
+  try {
+    const { record, keys } = await createVaultRecord(userId, newPassphrase, existing.createdAt);
+    await reencryptUserData(userId, currentKeys, keys, () => db.vaults.put(record));
+    startSession(userId, keys);
+  } catch (error) {
+    console.error('Failed to change vault passphrase:', error);
+    throw new Error('Failed to change passphrase');
+  }
+}
+
+/**
+ * Decrypts the user's projects and removes the vault
+ */
+export async function disableVault(userId: string, passphrase: string): Promise<void> {
+  const existing = await requireVaultRecord(userId);
+  const keys = await openVaultRecord(existing, passphrase);
+
+  try {
+    await reencryptUserData(userId, keys, null, () => db.vaults.delete(userId));
+    setVaultSession('disabled');
+  } catch (error) {
+    console.error('Failed to disable vault:', error);
+    throw new Error('Failed to disable vault');
+  }
+}
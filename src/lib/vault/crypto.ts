@@ -0,0 +1,98 @@
+const ALGORITHM = 'AES-GCM';
+const IV_LENGTH = 12;
+export const SALT_LENGTH = 16;
+export const DEFAULT_ITERATIONS = 310000;
+
+// Marks a string field as ciphertext; anything without it is read as plaintext
+const TEXT_PREFIX = 'vault:v1:';
+
+/**
+ * Keys derived from the passphrase. Both are non-extractable, so they only
+ * ever exist inside WebCrypto for the lifetime of the page.
+ */
+export interface VaultKeys {
+  // Encrypts field values
+  cipher: CryptoKey;
+  // Blinds search terms so the index can be queried without storing words
+  index: CryptoKey;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export const generateSalt = (): Uint8Array => crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+
+/**
+ * Stretches a passphrase with PBKDF2 and splits the result into an AES-GCM
+ * key and an HMAC key
+ */
+export async function deriveVaultKeys(passphrase: string, salt: Uint8Array, iterations: number): Promise<VaultKeys> {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveBits']);
+  const bits = new Uint8Array(await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    512
+  ));
+
+  const [cipher, index] = await Promise.all([
+    crypto.subtle.importKey('raw', bits.slice(0, 32), { name: ALGORITHM }, false, ['encrypt', 'decrypt']),
+    crypto.subtle.importKey('raw', bits.slice(32), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']),
+  ]);
+  bits.fill(0);
+  return { cipher, index };
+}
+
+/**
+ * Encrypts bytes, returning the IV followed by the ciphertext
+ */
+export async function encryptBytes(keys: VaultKeys, plain: Uint8Array): Promise<Uint8Array> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const sealed = new Uint8Array(await crypto.subtle.encrypt({ name: ALGORITHM, iv }, keys.cipher, plain));
+  const out = new Uint8Array(IV_LENGTH + sealed.length);
+  out.set(iv);
+  out.set(sealed, IV_LENGTH);
+  return out;
+}
+
+export async function decryptBytes(keys: VaultKeys, sealed: Uint8Array): Promise<Uint8Array> {
+  const iv = sealed.slice(0, IV_LENGTH);
+  const data = sealed.slice(IV_LENGTH);
+  return new Uint8Array(await crypto.subtle.decrypt({ name: ALGORITHM, iv }, keys.cipher, data));
+}
+
+export const isEncryptedText = (value: unknown): value is string =>
+  typeof value === 'string' && value.startsWith(TEXT_PREFIX);
+
+export async function encryptText(keys: VaultKeys, text: string): Promise<string> {
+  return TEXT_PREFIX + bytesToBase64(await encryptBytes(keys, encoder.encode(text)));
+}
+
+export async function decryptText(keys: VaultKeys, value: string): Promise<string> {
+  return decoder.decode(await decryptBytes(keys, base64ToBytes(value.slice(TEXT_PREFIX.length))));
+}
+
+/**
+ * Replaces a search term with a keyed hash. Equal terms give equal tokens,
+ * so exact lookups still work, but the words themselves are not stored.
+ */
+export async function blindTerm(keys: VaultKeys, term: string): Promise<string> {
+  const mac = new Uint8Array(await crypto.subtle.sign('HMAC', keys.index, encoder.encode(term)));
+  return '#' + bytesToBase64(mac.slice(0, 16));
+}
@@ -0,0 +1,147 @@
+import type { Draft, Outline } from '../db';
+import type { StoryBibleEntry } from '../storyBibleDb';
+import type { StoredVersion } from '../versioning/types';
+import type { SearchDocument } from '../search/types';
+import type { DraftComment } from '../comments/types';
+import { VaultKeys, encryptText, decryptText, isEncryptedText, encryptBytes, decryptBytes, blindTerm } from './crypto';
+import { getSessionKeys, VAULT_LOCKED_MESSAGE } from './session';
+
+/*
+ * Row codecs for the fields the vault protects. Each one takes the keys to
+ * use, defaulting to the current session, so re-encryption can pass old and
+ * new keys explicitly. With no keys (vault off) rows pass through unchanged.
+ *
+ * WebCrypto is asynchronous and would let an IndexedDB transaction commit
+ * underneath it, so callers seal before opening a transaction and open after
+ * reading.
+ */
+
+const DRAFT_FIELDS = ['content', 'synopsis'] as const;
+const OUTLINE_FIELDS = ['structure'] as const;
+const STORY_BIBLE_FIELDS = ['description'] as const;
+const SEARCH_FIELDS = ['title', 'context', 'text'] as const;
+const COMMENT_FIELDS = ['messages', 'anchor'] as const;
+
+async function sealFields<T extends object>(row: T, fields: readonly string[], keys: VaultKeys | null): Promise<T> {
+  if (!keys) return row;
+  const sealed = { ...row } as Record<string, unknown>;
+  for (const field of fields) {
+    const value = sealed[field];
+    if (typeof value === 'string' && !isEncryptedText(value)) {
+      sealed[field] = await encryptText(keys, value);
+    }
+  }
+  return sealed as T;
+}
+
+async function openFields<T extends object>(row: T, fields: readonly string[], keys: VaultKeys | null): Promise<T> {
+  const opened = { ...row } as Record<string, unknown>;
+  for (const field of fields) {
+    const value = opened[field];
+    if (!isEncryptedText(value)) continue;
+    if (!keys) throw new Error(VAULT_LOCKED_MESSAGE);
+    opened[field] = await decryptText(keys, value);
+  }
+  return opened as T;
+}
+
+export const sealDraft = <T extends Partial<Draft>>(draft: T, keys = getSessionKeys()) =>
+  sealFields(draft, DRAFT_FIELDS, keys);
+
+export const openDraft = <T extends Partial<Draft>>(draft: T, keys = getSessionKeys()) =>
+  openFields(draft, DRAFT_FIELDS, keys);
+
+export const sealOutline = <T extends Partial<Outline>>(outline: T, keys = getSessionKeys()) =>
+  sealFields(outline, OUTLINE_FIELDS, keys);
+
+export const openOutline = <T extends Partial<Outline>>(outline: T, keys = getSessionKeys()) =>
+  openFields(outline, OUTLINE_FIELDS, keys);
+
+/**
+ * Seals the description and the structured fields, which are stored as one
+ * encrypted JSON string
+ */
+export async function sealStoryBibleEntry<T extends Partial<StoryBibleEntry>>(entry: T, keys = getSessionKeys()): Promise<T> {
+  const sealed = await sealFields(entry, STORY_BIBLE_FIELDS, keys);
+  if (!keys || !entry.fields || typeof entry.fields !== 'object') return sealed;
+  return { ...sealed, fields: await encryptText(keys, JSON.stringify(entry.fields)) };
+}
+
+export async function openStoryBibleEntry<T extends Partial<StoryBibleEntry>>(entry: T, keys = getSessionKeys()): Promise<T> {
+  const opened = await openFields(entry, STORY_BIBLE_FIELDS, keys);
+  if (!isEncryptedText(entry.fields)) return opened;
+  if (!keys) throw new Error(VAULT_LOCKED_MESSAGE);
+  return { ...opened, fields: JSON.parse(await decryptText(keys, entry.fields)) };
+}
+
+/**
+ * Seals a comment's thread and anchor, each stored as one encrypted JSON
+ * string
+ */
+export async function sealComment<T extends Partial<DraftComment>>(comment: T, keys = getSessionKeys()): Promise<T> {
+  if (!keys) return comment;
+  const sealed = { ...comment } as Record<string, unknown>;
+  for (const field of COMMENT_FIELDS) {
+    const value = comment[field];
+    if (value !== undefined && !isEncryptedText(value)) {
+      sealed[field] = await encryptText(keys, JSON.stringify(value));
+    }
+  }
+  return sealed as T;
+}
+
+export async function openComment<T extends Partial<DraftComment>>(comment: T, keys = getSessionKeys()): Promise<T> {
+  const opened = { ...comment } as Record<string, unknown>;
+  for (const field of COMMENT_FIELDS) {
+    const value = comment[field];
+    if (!isEncryptedText(value)) continue;
+    if (!keys) throw new Error(VAULT_LOCKED_MESSAGE);
+    opened[field] = JSON.parse(await decryptText(keys, value));
+  }
+  if (Array.isArray(opened.messages)) {
+    // Dates come back from JSON as strings
+    opened.messages = (opened.messages as DraftComment['messages']).map(message => ({
+      ...message,
+      createdAt: new Date(message.createdAt),
+    }));
+  }
+  return opened as T;
+}
+
+/**
+ * Encrypts a version's payload after it has been delta-encoded and
+ * compressed, so storage savings are unaffected
+ */
+export async function sealStoredVersion(row: StoredVersion, keys = getSessionKeys()): Promise<StoredVersion> {
+  if (!keys || row.encrypted) return row;
+  return { ...row, payload: await encryptBytes(keys, row.payload), encrypted: true };
+}
+
+export async function openStoredVersion(row: StoredVersion, keys = getSessionKeys()): Promise<StoredVersion> {
+  if (!row.encrypted) return row;
+  if (!keys) throw new Error(VAULT_LOCKED_MESSAGE);
+  return { ...row, payload: await decryptBytes(keys, row.payload), encrypted: false };
+}
+
+/**
+ * Encrypts the readable fields of search documents and replaces their terms
+ * with blinded tokens, keeping term weights
+ */
+export async function sealSearchDocuments(documents: SearchDocument[], keys = getSessionKeys()): Promise<SearchDocument[]> {
+  if (!keys) return documents;
+
+  return Promise.all(documents.map(async doc => {
+    const termFreqs: Record<string, number> = {};
+    for (const [term, freq] of Object.entries(doc.termFreqs)) {
+      termFreqs[await blindTerm(keys, term)] = freq;
+    }
+    const sealed = await sealFields(doc, SEARCH_FIELDS, keys);
+    return { ...sealed, terms: Object.keys(termFreqs), termFreqs };
+  }));
+}
+
+/**
+ * Decrypts the readable fields of a search document. Terms stay blinded.
+ */
+export const openSearchDocument = (doc: SearchDocument, keys = getSessionKeys()) =>
+  openFields(doc, SEARCH_FIELDS, keys);
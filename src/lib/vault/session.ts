@@ -0,0 +1,42 @@
+import type { VaultKeys } from './crypto';
+
+/**
+ * disabled: no vault, data is stored as plaintext
+ * locked:   a vault exists but its key is not in memory, so protected
+ *           fields can be neither read nor written
+ * unlocked: the key is in memory and fields are encrypted transparently
+ */
+export type VaultStatus = 'disabled' | 'locked' | 'unlocked';
+
+export const VAULT_LOCKED_MESSAGE = 'The vault is locked';
+
+type Listener = (status: VaultStatus) => void;
+
+let status: VaultStatus = 'disabled';
+let sessionKeys: VaultKeys | null = null;
+const listeners = new Set<Listener>();
+
+export const getVaultStatus = (): VaultStatus => status;
+
+export function setVaultSession(next: VaultStatus, keys: VaultKeys | null = null): void {
+  status = next;
+  sessionKeys = next === 'unlocked' ? keys : null;
+  listeners.forEach(listener => listener(status));
+}
+
+export function subscribeVaultStatus(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Keys for the data layer to encrypt with, or null when the vault is off.
+ * Throws while locked so nothing is ever written or read in the clear by
+ * accident.
+ */
+export function getSessionKeys(): VaultKeys | null {
+  if (status === 'locked') throw new Error(VAULT_LOCKED_MESSAGE);
+  return sessionKeys;
+}
@@ -1,9 +1,40 @@
 
-import { DocumentVersion, DEFAULT_VERSIONING_CONFIG } from './versioning/types';
-import { saveVersion, getVersionsByDraft, deleteOldVersions } from './versioning/storage';
-import { compressContent } from './versioning/compression';
+import { DocumentVersion } from './versioning/types';
+import { saveVersion, getVersionsByDraft, deleteVersions } from './versioning/storage';
+import { applyRetentionPolicy, getDraftVersioningConfig } from './versioning/retention';
+import { getVersionLineage } from './versioning/branches';
+import { migrateLegacyVersions } from './versioning/legacy';
+import db, { updateDraft } from './db';
 
 export * from './versioning/types';
+export {
+  getBranches,
+  forkBranch,
+  switchBranch,
+  getBranchDiff,
+  mergeParagraphs,
+  setMilestone,
+} from './versioning/branches';
+export type { VersionBranch } from './versioning/branches';
+export {
+  getParagraphHistory,
+  getDraftDiff,
+  cherryPickParagraphs,
+  replaceParagraph,
+  findParagraphIndex,
+} from './versioning/paragraphHistory';
+export type { ParagraphRevision } from './versioning/paragraphHistory';
+export {
+  applyRetentionPolicy,
+  applyProjectRetentionPolicy,
+  getDraftVersioningConfig,
+  getStorageReport,
+  resolveVersioningConfig,
+  findRetentionPreset,
+  AUTO_SAVE_RETENTION_PRESETS,
+  MANUAL_RETENTION_PRESETS,
+} from './versioning/retention';
+export type { VersionStorageReport, RetentionPreset } from './versioning/retention';
 
 export async function createVersion(
   draftId: string,
@@ -15,25 +46,48 @@ export async function createVersion(
   const version: DocumentVersion = {
     id: crypto.randomUUID(),
     draftId,
-    content: DEFAULT_VERSIONING_CONFIG.compressionEnabled ? compressContent(content) : content,
+    content,
     wordCount,
     metadata,
     createdAt: new Date(),
     isAutoSave,
+    // Saved on top of the newest version of the draft's active branch
+    ...(await getVersionLineage(draftId)),
   };
 
-  await saveVersion(version);
+  const config = await getDraftVersioningConfig(draftId);
+
+  // Storage decides whether this becomes a keyframe or a delta
+  await saveVersion(version, config);
   
-  // Clean up old versions
-  await deleteOldVersions(draftId, DEFAULT_VERSIONING_CONFIG.maxVersions);
+  // Thin out old versions by the project's retention policy
+  await applyRetentionPolicy(draftId, config);
   
   return version;
 }
 
+/**
+ * Versions of a draft, newest first. Histories still in localStorage from
+ * older releases are migrated on the way.
+ */
 export async function getVersionHistory(draftId: string): Promise<DocumentVersion[]> {
+  await migrateLegacyVersions(draftId);
   return getVersionsByDraft(draftId);
 }
 
+export async function deleteVersion(id: string): Promise<void> {
+  await deleteVersions([id]);
+}
+
+/**
+ * Deletes every version of a draft, branches and milestones included. The
+ * draft's content stays and continues on the main line.
+ */
+export async function clearVersionHistory(draftId: string): Promise<void> {
+  await deleteVersions(await db.versions.where('draftId').equals(draftId).primaryKeys());
+  await updateDraft(draftId, { activeBranchId: undefined });
+}
+
 export async function restoreVersion(version: DocumentVersion): Promise<string> {
   return version.content;
 }
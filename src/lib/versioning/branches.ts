@@ -0,0 +1,268 @@
+import db, { Draft, getDraft, updateDraft } from '../db';
+import { DocumentVersion, MAIN_BRANCH_ID } from './types';
+import { saveVersion, getVersion, getBranchHead, getBranchId } from './storage';
+import { diffHtml, applyParagraphChanges, DocumentDiff } from './htmlDiff';
+import { htmlToText } from '../search/tokenize';
+import { sanitizeText } from '@/utils/security';
+import { countWords } from '@/utils/textUtils';
+import { baseHtml } from '../suggestions';
+
+/*
+ * Alternate takes of a draft. A branch is the set of versions sharing a
+ * branchId; it starts with a copy of the version it was forked from. The
+ * draft's own content always belongs to its active branch.
+ */
+
+const MAX_LABEL_LENGTH = 100;
+
+export interface VersionBranch {
+  id: string;
+  name: string;
+  // Version the branch was forked from; unset for the main line
+  forkedFromId?: string;
+  headId: string;
+  versionCount: number;
+  updatedAt: Date;
+  // The draft's content belongs to this branch
+  active: boolean;
+}
+
+const validateLabel = (label: string, what: string): string => {
+  const trimmed = label.trim();
+  if (!trimmed) throw new Error(`${what} is required`);
+  if (trimmed.length > MAX_LABEL_LENGTH) {
+    throw new Error(`${what} must be less than ${MAX_LABEL_LENGTH} characters`);
+  }
+  return sanitizeText(trimmed, MAX_LABEL_LENGTH);
+};
+
+async function requireDraft(draftId: string): Promise<Draft> {
+  const draft = await getDraft(draftId);
+  if (!draft) throw new Error('Draft not found');
+  return draft;
+}
+
+export const getActiveBranchId = (draft: Pick<Draft, 'activeBranchId'>): string =>
+  draft.activeBranchId ?? MAIN_BRANCH_ID;
+
+/**
+ * Content of a branch. The active branch's content is the draft itself,
+ * which may be ahead of its newest version.
+ */
+async function getBranchContent(draft: Draft, branchId: string): Promise<{ content: string; head?: DocumentVersion }> {
+  const head = await getBranchHead(draft.id, branchId);
+  if (branchId === getActiveBranchId(draft)) return { content: draft.content, head };
+  if (!head) throw new Error('Branch not found');
+  return { content: head.content, head };
+}
+
+/**
+ * Branch, name and parent for a new version saved from the draft's content
+ */
+export async function getVersionLineage(draftId: string): Promise<Pick<DocumentVersion, 'branchId' | 'branchName' | 'parentId'>> {
+  const draft = await db.drafts.get(draftId);
+  const branchId = draft ? getActiveBranchId(draft) : MAIN_BRANCH_ID;
+  const rows = await db.versions.where('draftId').equals(draftId).toArray();
+  const head = rows
+    .filter(row => getBranchId(row) === branchId)
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+    .pop();
+
+  return {
+    branchId: branchId === MAIN_BRANCH_ID ? undefined : branchId,
+    branchName: head?.branchName,
+    parentId: head?.id,
+  };
+}
+
+/**
+ * Lists a draft's branches, the main line first
+ */
+export async function getBranches(draftId: string): Promise<VersionBranch[]> {
+  try {
+    const draft = await db.drafts.get(draftId);
+    const activeId = draft ? getActiveBranchId(draft) : MAIN_BRANCH_ID;
+    const rows = (await db.versions.where('draftId').equals(draftId).toArray())
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    const branches = new Map<string, VersionBranch>();
+
+    rows.forEach(row => {
+      const id = getBranchId(row);
+      const branch = branches.get(id);
+      if (branch) {
+        branch.headId = row.id;
+        branch.versionCount++;
+        branch.updatedAt = row.createdAt;
+        if (row.branchName) branch.name = row.branchName;
+      } else {
+        branches.set(id, {
+          id,
+          name: id === MAIN_BRANCH_ID ? 'Main' : row.branchName || 'Untitled branch',
+          forkedFromId: id === MAIN_BRANCH_ID ? undefined : row.parentId,
+          headId: row.id,
+          versionCount: 1,
+          updatedAt: row.createdAt,
+          active: id === activeId,
+        });
+      }
+    });
+
+    return [...branches.values()].sort((a, b) =>
+      a.id === MAIN_BRANCH_ID ? -1 : b.id === MAIN_BRANCH_ID ? 1 : a.updatedAt.getTime() - b.updatedAt.getTime()
+    );
+  } catch (error) {
+    console.error('Failed to get branches:', error);
+    throw new Error('Failed to retrieve branches');
+  }
+}
+
+/**
+ * Starts a new branch from any version of a draft. The draft stays on its
+ * current branch until switchBranch is called.
+ */
+export async function forkBranch(draftId: string, fromVersionId: string, name: string): Promise<VersionBranch> {
+  const branchName = validateLabel(name, 'Branch name');
+  const from = await getVersion(fromVersionId);
+  if (!from || from.draftId !== draftId) throw new Error('Version not found');
+
+  const version: DocumentVersion = {
+    id: crypto.randomUUID(),
+    draftId,
+    content: from.content,
+    wordCount: from.wordCount,
+    metadata: { ...from.metadata },
+    createdAt: new Date(),
+    isAutoSave: false,
+    branchId: crypto.randomUUID(),
+    branchName,
+    parentId: from.id,
+  };
+
+  try {
+    await saveVersion(version);
+  } catch (error) {
+    console.error('Failed to fork branch:', error);
+    throw new Error('Failed to create branch');
+  }
+
+  return {
+    id: version.branchId!,
+    name: branchName,
+    forkedFromId: from.id,
+    headId: version.id,
+    versionCount: 1,
+    updatedAt: version.createdAt,
+    active: false,
+  };
+}
+
+/**
+ * Makes another branch the draft's active one. Unsaved work on the current
+ * branch is kept as a version first. Returns the content now in the draft.
+ */
+export async function switchBranch(draftId: string, branchId: string): Promise<string> {
+  const draft = await requireDraft(draftId);
+  const currentId = getActiveBranchId(draft);
+  if (branchId === currentId) return draft.content;
+
+  const target = await getBranchHead(draftId, branchId);
+  if (!target) throw new Error('Branch not found');
+
+  try {
+    const { head } = await getBranchContent(draft, currentId);
+    if (!head || head.content !== draft.content) {
+      await saveVersion({
+        id: crypto.randomUUID(),
+        draftId,
+        content: draft.content,
+        wordCount: draft.wordCount,
+        metadata: head ? { ...head.metadata } : {},
+        createdAt: new Date(),
+        isAutoSave: false,
+        ...(await getVersionLineage(draftId)),
+      });
+    }
+
+    await updateDraft(draftId, {
+      content: target.content,
+      activeBranchId: branchId === MAIN_BRANCH_ID ? undefined : branchId,
+    });
+    return target.content;
+  } catch (error) {
+    console.error('Failed to switch branch:', error);
+    throw new Error('Failed to switch branch');
+  }
+}
+
+/**
+ * Paragraph differences a merge from one branch into another would apply
+ */
+export async function getBranchDiff(draftId: string, fromBranchId: string, intoBranchId = MAIN_BRANCH_ID): Promise<DocumentDiff> {
+  const draft = await requireDraft(draftId);
+  const [from, into] = await Promise.all([
+    getBranchContent(draft, fromBranchId),
+    getBranchContent(draft, intoBranchId),
+  ]);
+  return diffHtml(into.content, from.content);
+}
+
+/**
+ * Applies chosen paragraph changes from one branch onto another and saves
+ * the result as a new version there. `accepted` indexes the paragraphs of
+ * getBranchDiff. Returns the merged content.
+ */
+export async function mergeParagraphs(
+  draftId: string,
+  fromBranchId: string,
+  accepted: number[],
+  intoBranchId = MAIN_BRANCH_ID
+): Promise<string> {
+  if (fromBranchId === intoBranchId) throw new Error('Cannot merge a branch into itself');
+  const draft = await requireDraft(draftId);
+  const [from, into] = await Promise.all([
+    getBranchContent(draft, fromBranchId),
+    getBranchContent(draft, intoBranchId),
+  ]);
+
+  const content = applyParagraphChanges(diffHtml(into.content, from.content), accepted);
+
+  try {
+    await saveVersion({
+      id: crypto.randomUUID(),
+      draftId,
+      content,
+      wordCount: countWords(htmlToText(baseHtml(content))),
+      metadata: { ...into.head?.metadata, mergedFrom: from.head?.id },
+      createdAt: new Date(),
+      isAutoSave: false,
+      branchId: intoBranchId === MAIN_BRANCH_ID ? undefined : intoBranchId,
+      branchName: into.head?.branchName,
+      parentId: into.head?.id,
+    });
+
+    if (intoBranchId === getActiveBranchId(draft)) {
+      await updateDraft(draftId, { content });
+    }
+    return content;
+  } catch (error) {
+    console.error('Failed to merge paragraphs:', error);
+    throw new Error('Failed to merge changes');
+  }
+}
+
+/**
+ * Labels a version as a milestone, or clears the label with null
+ */
+export async function setMilestone(versionId: string, label: string | null): Promise<void> {
+  const milestone = label === null ? undefined : validateLabel(label, 'Milestone name');
+  const row = await db.versions.get(versionId);
+  if (!row) throw new Error('Version not found');
+
+  try {
+    // Written back whole so the binary payload is stored untouched
+    await db.versions.put({ ...row, milestone });
+  } catch (error) {
+    console.error('Failed to set milestone:', error);
+    throw new Error('Failed to update milestone');
+  }
+}
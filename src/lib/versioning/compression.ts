@@ -1,17 +1,13 @@
+import { deflateSync, inflateSync, strToU8, strFromU8 } from 'fflate';
 
-export function compressContent(content: string): string {
-  // Simple compression - could be enhanced with actual compression library
-  return content;
+/**
+ * Deflates UTF-8 text. Manuscript HTML is highly repetitive, so this
+ * typically shrinks keyframes to a quarter of their size or less.
+ */
+export function compressContent(content: string): Uint8Array {
+  return deflateSync(strToU8(content), { level: 6 });
 }
 
-export function decompressContent(compressed: string): string {
-  return compressed;
-}
-
-export function calculateContentDiff(oldContent: string, newContent: string): any {
-  // Simplified diff calculation
-  return {
-    added: newContent.length - oldContent.length,
-    removed: oldContent.length > newContent.length ? oldContent.length - newContent.length : 0,
-  };
+export function decompressContent(compressed: Uint8Array): string {
+  return strFromU8(inflateSync(compressed));
 }
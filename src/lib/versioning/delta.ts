@@ -0,0 +1,59 @@
+import { diffSequences, tokenizeHtml } from '@/utils/diff';
+
+/**
+ * A delta rebuilds a target string from a base string. Number pairs copy
+ * `[start, length]` characters from the base; strings are inserted verbatim.
+ */
+export type DeltaOp = [number, number] | string;
+
+// Beyond this many token edits a fresh keyframe is cheaper than a delta
+const MAX_DELTA_EDITS = 2000;
+
+/**
+ * Computes a delta that turns `base` into `target`
+ * @returns The delta, or null when the two texts are too different for a
+ * delta to be worthwhile
+ */
+export function createDelta(base: string, target: string, maxEdits: number = MAX_DELTA_EDITS): DeltaOp[] | null {
+  const baseTokens = tokenizeHtml(base);
+  const targetTokens = tokenizeHtml(target);
+  const ranges = diffSequences(baseTokens, targetTokens, { maxEditDistance: maxEdits });
+  if (!ranges) return null;
+
+  // Character offset of every base token, so copies can address the raw string
+  const offsets = new Array<number>(baseTokens.length + 1);
+  offsets[0] = 0;
+  for (let i = 0; i < baseTokens.length; i++) {
+    offsets[i + 1] = offsets[i] + baseTokens[i].length;
+  }
+
+  const ops: DeltaOp[] = [];
+  ranges.forEach(range => {
+    if (range.op === 'equal') {
+      const start = offsets[range.aStart];
+      const length = offsets[range.aEnd] - start;
+      const last = ops[ops.length - 1];
+      if (Array.isArray(last) && last[0] + last[1] === start) {
+        last[1] += length;
+      } else {
+        ops.push([start, length]);
+      }
+    } else if (range.op === 'insert') {
+      const text = targetTokens.slice(range.bStart, range.bEnd).join('');
+      const last = ops[ops.length - 1];
+      if (typeof last === 'string') {
+        ops[ops.length - 1] = last + text;
+      } else {
+        ops.push(text);
+      }
+    }
+  });
+
+  return ops;
+}
+
+export function applyDelta(base: string, delta: DeltaOp[]): string {
+  return delta
+    .map(op => (typeof op === 'string' ? op : base.slice(op[0], op[0] + op[1])))
+    .join('');
+}
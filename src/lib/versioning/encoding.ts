@@ -0,0 +1,97 @@
+import { strToU8, strFromU8 } from 'fflate';
+import { DocumentVersion, StoredVersion } from './types';
+import { compressContent, decompressContent } from './compression';
+import { createDelta, applyDelta, DeltaOp } from './delta';
+
+// A delta larger than this share of the full content is not worth keeping
+const MAX_DELTA_RATIO = 0.5;
+
+const pack = (text: string, compress: boolean): Uint8Array =>
+  compress ? compressContent(text) : strToU8(text);
+
+const unpack = (row: StoredVersion): string =>
+  row.compressed ? decompressContent(row.payload) : strFromU8(row.payload);
+
+const withoutContent = ({ content, ...rest }: DocumentVersion) => rest;
+
+export function encodeKeyframe(version: DocumentVersion, compress: boolean = true): StoredVersion {
+  return {
+    ...withoutContent(version),
+    encoding: 'keyframe',
+    keyframeId: undefined,
+    payload: pack(version.content, compress),
+    compressed: compress,
+    contentLength: version.content.length,
+  };
+}
+
+/**
+ * Encodes a version relative to a keyframe, falling back to a new keyframe
+ * when the edits are too large for a delta to pay off
+ */
+export function encodeAgainst(
+  version: DocumentVersion,
+  keyframe: { id: string; content: string } | null,
+  compress: boolean = true
+): StoredVersion {
+  if (!keyframe) return encodeKeyframe(version, compress);
+
+  const delta = createDelta(keyframe.content, version.content);
+  if (!delta) return encodeKeyframe(version, compress);
+
+  const serialized = JSON.stringify(delta);
+  if (serialized.length > version.content.length * MAX_DELTA_RATIO) {
+    return encodeKeyframe(version, compress);
+  }
+
+  return {
+    ...withoutContent(version),
+    encoding: 'delta',
+    keyframeId: keyframe.id,
+    payload: pack(serialized, compress),
+    compressed: compress,
+    contentLength: version.content.length,
+  };
+}
+
+/**
+ * Rebuilds a version's content. Deltas need their keyframe's content.
+ */
+export function decodeVersion(row: StoredVersion, keyframeContent?: string): DocumentVersion {
+  const { encoding, keyframeId, payload, compressed, contentLength, encrypted, ...rest } = row;
+
+  if (encoding === 'keyframe') {
+    return { ...rest, content: unpack(row) };
+  }
+
+  if (keyframeContent === undefined) {
+    throw new Error(`Keyframe ${keyframeId} is required to decode version ${row.id}`);
+  }
+  const delta = JSON.parse(unpack(row)) as DeltaOp[];
+  return { ...rest, content: applyDelta(keyframeContent, delta) };
+}
+
+/**
+ * Encodes a chronological run of versions for one draft in bulk, starting a
+ * new keyframe every `keyframeInterval` versions
+ */
+export function encodeHistory(
+  versions: DocumentVersion[],
+  keyframeInterval: number,
+  compress: boolean = true
+): StoredVersion[] {
+  const ordered = [...versions].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  let keyframe: { id: string; content: string } | null = null;
+  let sinceKeyframe = 0;
+
+  return ordered.map(version => {
+    const row = encodeAgainst(version, sinceKeyframe < keyframeInterval ? keyframe : null, compress);
+    if (row.encoding === 'keyframe') {
+      keyframe = { id: version.id, content: version.content };
+      sinceKeyframe = 0;
+    } else {
+      sinceKeyframe++;
+    }
+    return row;
+  });
+}
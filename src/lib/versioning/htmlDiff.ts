@@ -0,0 +1,313 @@
+import { diffSequences, tokenizeHtml, DiffOperation, DiffRange } from '@/utils/diff';
+import { decodeHtmlEntities } from '../search/tokenize';
+
+/*
+ * Paragraph- and word-level comparison of two editor documents. Paragraphs
+ * are matched first; paragraphs that were edited rather than replaced are
+ * then diffed word by word. Inline formatting travels with each word as a set
+ * of marks, so bolding a word shows up as a change.
+ */
+
+export type InlineMark = 'bold' | 'italic' | 'underline' | 'strike' | 'code' | 'link';
+
+export interface DiffSegment {
+  op: DiffOperation;
+  text: string;
+  marks: InlineMark[];
+}
+
+export type ParagraphChange = 'unchanged' | 'added' | 'removed' | 'changed';
+
+export interface ParagraphDiff {
+  change: ParagraphChange;
+  // Block element of the paragraph, e.g. "p", "h2" or "li"
+  block: string;
+  // The old paragraph with deletions marked, empty when added
+  before: DiffSegment[];
+  // The new paragraph with insertions marked, empty when removed
+  after: DiffSegment[];
+  // Both sides merged, deletions before insertions
+  inline: DiffSegment[];
+  // Source HTML of each side, used to merge chosen changes
+  beforeHtml: string;
+  afterHtml: string;
+}
+
+export interface DiffSummary {
+  added: number;
+  removed: number;
+  changed: number;
+  unchanged: number;
+  wordsAdded: number;
+  wordsRemoved: number;
+}
+
+export interface DocumentDiff {
+  paragraphs: ParagraphDiff[];
+  summary: DiffSummary;
+}
+
+interface Token {
+  text: string;
+  marks: InlineMark[];
+}
+
+export interface Paragraph {
+  block: string;
+  tokens: Token[];
+  // Source HTML, including any wrapper markup since the previous paragraph.
+  // Joining every paragraph's html gives back the whole document.
+  html: string;
+  // Source HTML of the paragraph's own block element
+  blockHtml: string;
+}
+
+const BLOCK_TAGS = new Set(['p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'li', 'blockquote', 'pre', 'div']);
+
+const MARK_TAGS: Record<string, InlineMark> = {
+  strong: 'bold',
+  b: 'bold',
+  em: 'italic',
+  i: 'italic',
+  u: 'underline',
+  s: 'strike',
+  strike: 'strike',
+  del: 'strike',
+  code: 'code',
+  a: 'link',
+};
+
+// Edited paragraphs share at least this fraction of their words; below it
+// the pair is shown as one paragraph removed and another added
+const CHANGED_PARAGRAPH_SIMILARITY = 0.4;
+
+const isWord = (token: Token) => token.text.trim().length > 0;
+
+const tokenKey = (token: Token) => (token.marks.length ? `${token.text}\u0000${token.marks.join()}` : token.text);
+
+const tokensEqual = (a: Token, b: Token) => tokenKey(a) === tokenKey(b);
+
+const paragraphsEqual = (a: Paragraph, b: Paragraph) =>
+  a.block === b.block && a.tokens.length === b.tokens.length && a.tokens.every((t, i) => tokensEqual(t, b.tokens[i]));
+
+/**
+ * Splits editor HTML into paragraphs of word and whitespace tokens, each
+ * carrying the inline formatting it appears in. Empty paragraphs are dropped.
+ */
+export function parseParagraphs(html: string): Paragraph[] {
+  const paragraphs: Paragraph[] = [];
+  const open = new Map<InlineMark, number>();
+  const tokens = tokenizeHtml(html || '');
+  let current: Paragraph | null = null;
+  let sliceStart = 0;
+  let blockStart = 0;
+
+  // Ends the current paragraph just before token `end`
+  const finish = (end: number) => {
+    if (current) {
+      while (current.tokens.length && !isWord(current.tokens[current.tokens.length - 1])) current.tokens.pop();
+      if (current.tokens.length) {
+        current.html = tokens.slice(sliceStart, end).join('');
+        current.blockHtml = tokens.slice(blockStart, end).join('');
+        sliceStart = end;
+        paragraphs.push(current);
+      }
+    }
+    current = null;
+  };
+
+  const push = (text: string, index: number) => {
+    const whitespace = !text.trim();
+    if (!current) {
+      if (whitespace) return;
+      current = { block: 'p', tokens: [], html: '', blockHtml: '' };
+      blockStart = index;
+    }
+    const words = current.tokens;
+    if (whitespace) {
+      // Runs of whitespace collapse to one space, and never lead a paragraph
+      if (words.length && isWord(words[words.length - 1])) words.push({ text: ' ', marks: [] });
+      return;
+    }
+    const marks = [...open.keys()].filter(mark => (open.get(mark) || 0) > 0).sort();
+    words.push({ text: decodeHtmlEntities(text), marks });
+  };
+
+  tokens.forEach((token, index) => {
+    const tag = token.match(/^<(\/?)([a-z][a-z0-9]*)\b/i);
+    if (!tag) {
+      push(token, index);
+      return;
+    }
+
+    const closing = tag[1] === '/';
+    const name = tag[2].toLowerCase();
+    if (BLOCK_TAGS.has(name)) {
+      finish(closing ? index + 1 : index);
+      if (!closing) {
+        current = { block: name, tokens: [], html: '', blockHtml: '' };
+        blockStart = index;
+      }
+    } else if (name === 'br') {
+      push(' ', index);
+    } else if (MARK_TAGS[name]) {
+      const mark = MARK_TAGS[name];
+      open.set(mark, Math.max(0, (open.get(mark) || 0) + (closing ? -1 : 1)));
+    }
+  });
+  finish(tokens.length);
+
+  // Trailing markup, such as a closing list tag, stays with the last paragraph
+  if (paragraphs.length && sliceStart < tokens.length) {
+    paragraphs[paragraphs.length - 1].html += tokens.slice(sliceStart).join('');
+  }
+
+  return paragraphs;
+}
+
+/**
+ * Plain text of a parsed paragraph
+ */
+export const paragraphText = (paragraph: Paragraph) => paragraph.tokens.map(token => token.text).join('');
+
+function toSegments(tokens: Token[], op: DiffOperation, segments: DiffSegment[] = []): DiffSegment[] {
+  tokens.forEach(token => {
+    const last = segments[segments.length - 1];
+    // Whitespace joins its neighbour so a run of changed words reads as one
+    const marks = isWord(token) || !last ? token.marks : last.marks;
+    if (last && last.op === op && last.marks.join() === marks.join()) {
+      last.text += token.text;
+    } else {
+      segments.push({ op, text: token.text, marks });
+    }
+  });
+  return segments;
+}
+
+const countWords = (tokens: Token[]) => tokens.filter(isWord).length;
+
+function wholeParagraph(paragraph: Paragraph, change: 'unchanged' | 'added' | 'removed'): ParagraphDiff {
+  const op: DiffOperation = change === 'added' ? 'insert' : change === 'removed' ? 'delete' : 'equal';
+  const segments = toSegments(paragraph.tokens, op);
+  return {
+    change,
+    block: paragraph.block,
+    before: change === 'added' ? [] : segments,
+    after: change === 'removed' ? [] : segments,
+    inline: segments,
+    beforeHtml: change === 'added' ? '' : paragraph.html,
+    afterHtml: change === 'removed' ? '' : paragraph.html,
+  };
+}
+
+function editedParagraph(before: Paragraph, after: Paragraph, ranges: DiffRange[]): ParagraphDiff {
+  const diff: ParagraphDiff = {
+    change: 'changed',
+    block: after.block,
+    before: [],
+    after: [],
+    inline: [],
+    beforeHtml: before.html,
+    afterHtml: after.html,
+  };
+
+  ranges.forEach(range => {
+    const removed = before.tokens.slice(range.aStart, range.aEnd);
+    const added = after.tokens.slice(range.bStart, range.bEnd);
+    if (range.op === 'equal') {
+      toSegments(added, 'equal', diff.before);
+      toSegments(added, 'equal', diff.after);
+      toSegments(added, 'equal', diff.inline);
+    } else if (range.op === 'delete') {
+      toSegments(removed, 'delete', diff.before);
+      toSegments(removed, 'delete', diff.inline);
+    } else {
+      toSegments(added, 'insert', diff.after);
+      toSegments(added, 'insert', diff.inline);
+    }
+  });
+
+  return diff;
+}
+
+/**
+ * Compares two HTML documents paragraph by paragraph, then word by word
+ * within paragraphs that were edited
+ */
+export function diffHtml(oldHtml: string, newHtml: string): DocumentDiff {
+  const oldParagraphs = parseParagraphs(oldHtml);
+  const newParagraphs = parseParagraphs(newHtml);
+  const paragraphs: ParagraphDiff[] = [];
+  const summary: DiffSummary = { added: 0, removed: 0, changed: 0, unchanged: 0, wordsAdded: 0, wordsRemoved: 0 };
+
+  const addWhole = (paragraph: Paragraph, change: 'added' | 'removed') => {
+    paragraphs.push(wholeParagraph(paragraph, change));
+    summary[change]++;
+    summary[change === 'added' ? 'wordsAdded' : 'wordsRemoved'] += countWords(paragraph.tokens);
+  };
+
+  // Removed paragraphs wait here in case the next range inserts their edited form
+  let pending: Paragraph[] = [];
+  const flushPending = () => {
+    pending.forEach(paragraph => addWhole(paragraph, 'removed'));
+    pending = [];
+  };
+
+  (diffSequences(oldParagraphs, newParagraphs, { equals: paragraphsEqual }) || []).forEach(range => {
+    if (range.op === 'equal') {
+      flushPending();
+      newParagraphs.slice(range.bStart, range.bEnd).forEach(paragraph => {
+        paragraphs.push(wholeParagraph(paragraph, 'unchanged'));
+        summary.unchanged++;
+      });
+    } else if (range.op === 'delete') {
+      flushPending();
+      pending = oldParagraphs.slice(range.aStart, range.aEnd);
+    } else {
+      newParagraphs.slice(range.bStart, range.bEnd).forEach(paragraph => {
+        const candidate = pending[0];
+        const ranges = candidate && diffSequences(candidate.tokens, paragraph.tokens, { equals: tokensEqual });
+        const shared = ranges
+          ? ranges.filter(r => r.op === 'equal').reduce((n, r) => n + countWords(paragraph.tokens.slice(r.bStart, r.bEnd)), 0)
+          : 0;
+        const similarity = candidate ? shared / Math.max(countWords(candidate.tokens), countWords(paragraph.tokens), 1) : 0;
+
+        if (!ranges || similarity < CHANGED_PARAGRAPH_SIMILARITY) {
+          addWhole(paragraph, 'added');
+          return;
+        }
+
+        pending.shift();
+        const diff = editedParagraph(candidate, paragraph, ranges);
+        paragraphs.push(diff);
+        summary.changed++;
+        ranges.forEach(r => {
+          if (r.op === 'insert') summary.wordsAdded += countWords(paragraph.tokens.slice(r.bStart, r.bEnd));
+          if (r.op === 'delete') summary.wordsRemoved += countWords(candidate.tokens.slice(r.aStart, r.aEnd));
+        });
+      });
+    }
+  });
+  flushPending();
+
+  return { paragraphs, summary };
+}
+
+/**
+ * Indexes of the paragraphs a diff changes
+ */
+export const getChangedParagraphs = (diff: DocumentDiff | null): number[] =>
+  diff
+    ? diff.paragraphs.flatMap((paragraph, index) => (paragraph.change === 'unchanged' ? [] : [index]))
+    : [];
+
+/**
+ * Rebuilds the "before" document with the chosen paragraph changes taken
+ * from the "after" side. Indexes refer to `diff.paragraphs`.
+ */
+export function applyParagraphChanges(diff: DocumentDiff, accepted: Iterable<number>): string {
+  const chosen = new Set(accepted);
+  return diff.paragraphs
+    .map((paragraph, index) => (chosen.has(index) ? paragraph.afterHtml : paragraph.beforeHtml))
+    .join('');
+}
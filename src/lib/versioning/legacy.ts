@@ -0,0 +1,83 @@
+import db from '../db';
+import { DocumentVersion, DEFAULT_VERSIONING_CONFIG } from './types';
+import { encodeHistory } from './encoding';
+import { sealStoredVersion } from '../vault/records';
+
+/*
+ * Version histories the editor used to keep in localStorage, one key per
+ * draft. They move into the versions table the first time the draft's
+ * history is read, and the key is removed once they are stored.
+ */
+
+interface LegacyVersion {
+  id: string;
+  content: string;
+  timestamp: string;
+  wordCount: number;
+  title?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export const legacyVersionsKey = (draftId: string) => `versions_${draftId}`;
+
+function toDocumentVersion(draftId: string, legacy: LegacyVersion): DocumentVersion | null {
+  const createdAt = new Date(legacy.timestamp);
+  if (typeof legacy.content !== 'string' || isNaN(createdAt.getTime())) return null;
+
+  return {
+    id: typeof legacy.id === 'string' && legacy.id ? legacy.id : crypto.randomUUID(),
+    draftId,
+    content: legacy.content,
+    wordCount: Number(legacy.wordCount) || 0,
+    metadata: { ...legacy.metadata, ...(legacy.title ? { title: legacy.title } : {}) },
+    createdAt,
+    // The old history didn't record how a version was made
+    isAutoSave: false,
+  };
+}
+
+/**
+ * Moves a draft's localStorage version history into the versions table
+ * @returns Number of versions migrated
+ */
+export async function migrateLegacyVersions(draftId: string): Promise<number> {
+  if (typeof localStorage === 'undefined') return 0;
+  const key = legacyVersionsKey(draftId);
+  const saved = localStorage.getItem(key);
+  if (!saved) return 0;
+
+  let legacy: LegacyVersion[];
+  try {
+    legacy = JSON.parse(saved);
+    if (!Array.isArray(legacy)) throw new Error('Expected a list of versions');
+  } catch (error) {
+    // Left in place rather than thrown away; it can still be recovered by hand
+    console.error('Failed to read legacy version history:', error);
+    return 0;
+  }
+
+  // Histories of drafts that no longer exist stay where they are
+  if (!(await db.drafts.get(draftId))) return 0;
+
+  try {
+    const existing = new Set(await db.versions.where('draftId').equals(draftId).primaryKeys());
+    const versions = legacy
+      .map(version => toDocumentVersion(draftId, version))
+      .filter((version): version is DocumentVersion => !!version && !existing.has(version.id));
+
+    if (versions.length > 0) {
+      const rows = await Promise.all(encodeHistory(
+        versions,
+        DEFAULT_VERSIONING_CONFIG.keyframeInterval,
+        DEFAULT_VERSIONING_CONFIG.compressionEnabled
+      ).map(row => sealStoredVersion(row)));
+      await db.versions.bulkPut(rows);
+    }
+
+    localStorage.removeItem(key);
+    return versions.length;
+  } catch (error) {
+    console.error('Failed to migrate legacy version history:', error);
+    throw new Error('Failed to migrate version history');
+  }
+}
@@ -0,0 +1,235 @@
+import { getDraft, updateDraft } from '../db';
+import { DocumentVersion } from './types';
+import { saveVersion, getVersion, getVersionsByDraft, getBranchId } from './storage';
+import { getActiveBranchId, getVersionLineage } from './branches';
+import { diffHtml, applyParagraphChanges, parseParagraphs, paragraphText, DocumentDiff, Paragraph } from './htmlDiff';
+import { htmlToText } from '../search/tokenize';
+import { countWords } from '@/utils/textUtils';
+import { baseHtml } from '../suggestions';
+
+/*
+ * History of a single paragraph, followed back through a draft's versions
+ * by matching each version's most similar paragraph to the one found in
+ * the version after it, so the trail survives gradual rewording.
+ */
+
+export interface ParagraphRevision {
+  text: string;
+  // Source HTML of the paragraph's block element
+  html: string;
+  // Oldest and newest version the paragraph read this way in
+  firstSeen: Date;
+  lastSeen: Date;
+  versionIds: string[];
+  // Writing session the revision was first seen in, 1 being the oldest
+  session: number;
+  sessionStart: Date;
+  // Word overlap with the paragraph the history was asked for, 0 to 1
+  similarity: number;
+}
+
+// Versions further apart than this belong to different writing sessions
+export const SESSION_GAP = 30 * 60 * 1000;
+
+// Below this overlap a paragraph is taken to be a different one
+const MATCH_THRESHOLD = 0.4;
+
+const normalize = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+const words = (text: string) => text.toLowerCase().match(/[\p{L}\p{N}']+/gu) ?? [];
+
+/**
+ * Dice coefficient of two paragraphs' words
+ */
+export function paragraphSimilarity(a: string, b: string): number {
+  const left = words(a);
+  const right = words(b);
+  if (left.length === 0 && right.length === 0) return 1;
+  if (left.length === 0 || right.length === 0) return 0;
+
+  const counts = new Map<string, number>();
+  left.forEach(word => counts.set(word, (counts.get(word) ?? 0) + 1));
+  let shared = 0;
+  right.forEach(word => {
+    const count = counts.get(word) ?? 0;
+    if (count > 0) {
+      shared++;
+      counts.set(word, count - 1);
+    }
+  });
+  return (2 * shared) / (left.length + right.length);
+}
+
+/**
+ * Index of the paragraph of `html` whose text is `text`. `occurrence`
+ * picks among paragraphs that read the same.
+ */
+export function findParagraphIndex(html: string, text: string, occurrence = 0): number {
+  const target = normalize(text);
+  let seen = 0;
+  return parseParagraphs(html).findIndex(paragraph => {
+    if (normalize(paragraphText(paragraph)) !== target) return false;
+    return seen++ === occurrence;
+  });
+}
+
+/**
+ * Replaces one paragraph of a document, keeping the markup around it
+ */
+export function replaceParagraph(html: string, index: number, replacementHtml: string): string {
+  const paragraphs = parseParagraphs(html);
+  if (!paragraphs[index]) throw new Error('Paragraph not found');
+  return paragraphs
+    .map((paragraph, i) => (i === index ? paragraph.html.replace(paragraph.blockHtml, replacementHtml) : paragraph.html))
+    .join('');
+}
+
+/**
+ * Session number and start of each version, from oldest to newest
+ */
+export function groupSessions(versions: Pick<DocumentVersion, 'id' | 'createdAt'>[], gap = SESSION_GAP) {
+  const sessions = new Map<string, { session: number; sessionStart: Date }>();
+  let session = 0;
+  let sessionStart = new Date(0);
+  let previous: number | undefined;
+  [...versions]
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+    .forEach(version => {
+      const time = version.createdAt.getTime();
+      if (previous === undefined || time - previous > gap) {
+        session++;
+        sessionStart = version.createdAt;
+      }
+      previous = time;
+      sessions.set(version.id, { session, sessionStart });
+    });
+  return sessions;
+}
+
+/**
+ * Versions whose content led up to the active branch: its own versions
+ * and, through fork points, the versions it grew from
+ */
+function lineageVersions(versions: DocumentVersion[], branchId: string): DocumentVersion[] {
+  const byId = new Map(versions.map(version => [version.id, version]));
+  const byAge = [...versions].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  const lineage: DocumentVersion[] = [];
+  const visited = new Set<string>();
+
+  let branch: string | undefined = branchId;
+  let until = Infinity;
+  while (branch !== undefined && !visited.has(branch)) {
+    visited.add(branch);
+    const current: string = branch;
+    const own = byAge.filter(version => getBranchId(version) === current && version.createdAt.getTime() <= until);
+    lineage.push(...own);
+
+    const forkPoint = own[0]?.parentId ? byId.get(own[0].parentId) : undefined;
+    branch = forkPoint ? getBranchId(forkPoint) : undefined;
+    until = forkPoint ? forkPoint.createdAt.getTime() : until;
+  }
+
+  return lineage.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+}
+
+/**
+ * Tracks a paragraph back from newest to oldest version
+ * @param versions Versions of one line of history, in any order
+ * @returns Revisions newest first, consecutive identical versions merged
+ */
+export function traceParagraph(versions: DocumentVersion[], text: string): ParagraphRevision[] {
+  const target = normalize(text);
+  const sessions = groupSessions(versions);
+  const revisions: ParagraphRevision[] = [];
+  let anchor = target;
+
+  [...versions]
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+    .forEach(version => {
+      let best: { paragraph: Paragraph; text: string; score: number } | undefined;
+      parseParagraphs(version.content).forEach(paragraph => {
+        const candidate = normalize(paragraphText(paragraph));
+        const score = candidate === anchor ? 1 : paragraphSimilarity(anchor, candidate);
+        if (!best || score > best.score) best = { paragraph, text: candidate, score };
+      });
+      // The paragraph didn't exist in this version; older ones may still have it
+      if (!best || best.score < MATCH_THRESHOLD) return;
+
+      const session = sessions.get(version.id)!;
+      const latest = revisions[revisions.length - 1];
+      if (latest?.text === best.text) {
+        latest.firstSeen = version.createdAt;
+        latest.versionIds.push(version.id);
+        latest.session = session.session;
+        latest.sessionStart = session.sessionStart;
+      } else {
+        revisions.push({
+          text: best.text,
+          html: best.paragraph.blockHtml,
+          firstSeen: version.createdAt,
+          lastSeen: version.createdAt,
+          versionIds: [version.id],
+          ...session,
+          similarity: best.text === target ? 1 : paragraphSimilarity(target, best.text),
+        });
+      }
+      anchor = best.text;
+    });
+
+  return revisions;
+}
+
+/**
+ * Every earlier wording of a paragraph on the draft's active branch
+ */
+export async function getParagraphHistory(draftId: string, text: string): Promise<ParagraphRevision[]> {
+  try {
+    const draft = await getDraft(draftId);
+    if (!draft) throw new Error('Draft not found');
+    const versions = await getVersionsByDraft(draftId);
+    return traceParagraph(lineageVersions(versions, getActiveBranchId(draft)), text);
+  } catch (error) {
+    console.error('Failed to get paragraph history:', error);
+    throw new Error('Failed to retrieve paragraph history');
+  }
+}
+
+/**
+ * Paragraph differences between the draft and one of its versions. Applying
+ * a change brings that paragraph back as the version had it.
+ */
+export async function getDraftDiff(draftId: string, versionId: string): Promise<DocumentDiff> {
+  const [draft, version] = await Promise.all([getDraft(draftId), getVersion(versionId)]);
+  if (!draft) throw new Error('Draft not found');
+  if (!version || version.draftId !== draftId) throw new Error('Version not found');
+  return diffHtml(draft.content, version.content);
+}
+
+/**
+ * Brings chosen paragraphs of an old version into the draft and saves the
+ * result as a new version. `accepted` indexes the paragraphs of
+ * getDraftDiff. Returns the new content.
+ */
+export async function cherryPickParagraphs(draftId: string, versionId: string, accepted: number[]): Promise<string> {
+  const diff = await getDraftDiff(draftId, versionId);
+  const content = applyParagraphChanges(diff, accepted);
+
+  try {
+    const lineage = await getVersionLineage(draftId);
+    await saveVersion({
+      id: crypto.randomUUID(),
+      draftId,
+      content,
+      wordCount: countWords(htmlToText(baseHtml(content))),
+      metadata: { restoredFrom: versionId },
+      createdAt: new Date(),
+      isAutoSave: false,
+      ...lineage,
+    });
+    await updateDraft(draftId, { content });
+    return content;
+  } catch (error) {
+    console.error('Failed to restore paragraphs:', error);
+    throw new Error('Failed to restore paragraphs');
+  }
+}
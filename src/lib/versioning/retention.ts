@@ -0,0 +1,246 @@
+import db from '../db';
+import {
+  StoredVersion,
+  RetentionPolicy,
+  RetentionTier,
+  VersioningConfig,
+  ProjectVersioningSettings,
+  DEFAULT_VERSIONING_CONFIG,
+  DEFAULT_RETENTION_POLICY,
+  MINUTE,
+  HOUR,
+  DAY,
+  WEEK,
+} from './types';
+import { deleteVersions, getProtectedVersionIds } from './storage';
+
+/*
+ * Time-decay thinning of version histories. Recent versions are all kept;
+ * older ones are reduced to one per hour, day or week as the policy says.
+ * Automatic and manual saves are thinned separately.
+ */
+
+type RetentionRow = Pick<StoredVersion, 'id' | 'createdAt' | 'isAutoSave'>;
+
+export interface VersionStorageReport {
+  versionCount: number;
+  autoSaveCount: number;
+  manualCount: number;
+  milestoneCount: number;
+  branchCount: number;
+  keyframeCount: number;
+  deltaCount: number;
+  // Bytes held in the database, after compression and encryption
+  storedBytes: number;
+  // Bytes the versions would take as plain content
+  contentBytes: number;
+  oldest?: Date;
+  newest?: Date;
+}
+
+export interface RetentionPreset {
+  id: string;
+  label: string;
+  description: string;
+  tiers: RetentionTier[];
+}
+
+export const AUTO_SAVE_RETENTION_PRESETS: RetentionPreset[] = [
+  {
+    id: 'balanced',
+    label: 'Balanced',
+    description: 'Everything from the last hour, hourly for a day, daily for a month, then weekly',
+    tiers: DEFAULT_RETENTION_POLICY.autoSave,
+  },
+  {
+    id: 'compact',
+    label: 'Compact',
+    description: 'Everything from the last 10 minutes, hourly for a day, daily for a week, then none',
+    tiers: [
+      { maxAge: 10 * MINUTE, every: 0 },
+      { maxAge: DAY, every: HOUR },
+      { maxAge: WEEK, every: DAY },
+    ],
+  },
+  {
+    id: 'everything',
+    label: 'Keep everything',
+    description: 'Automatic versions are never thinned',
+    tiers: [{ every: 0 }],
+  },
+];
+
+export const MANUAL_RETENTION_PRESETS: RetentionPreset[] = [
+  {
+    id: 'balanced',
+    label: 'Balanced',
+    description: 'Everything from the last 90 days, then daily',
+    tiers: DEFAULT_RETENTION_POLICY.manual,
+  },
+  {
+    id: 'long-term',
+    label: 'Long term',
+    description: 'Everything from the last 30 days, weekly for a year, then monthly',
+    tiers: [
+      { maxAge: 30 * DAY, every: 0 },
+      { maxAge: 365 * DAY, every: WEEK },
+      { every: 30 * DAY },
+    ],
+  },
+  {
+    id: 'everything',
+    label: 'Keep everything',
+    description: 'Manual saves are never thinned',
+    tiers: [{ every: 0 }],
+  },
+];
+
+/**
+ * The preset a schedule was made from, if any
+ */
+export const findRetentionPreset = (presets: RetentionPreset[], tiers: RetentionTier[]) =>
+  presets.find(preset => JSON.stringify(preset.tiers) === JSON.stringify(tiers));
+
+const isTier = (tier: RetentionTier) =>
+  Number.isFinite(tier.every) && tier.every >= 0 && (tier.maxAge === undefined || tier.maxAge > 0);
+
+/**
+ * Fills in the defaults for anything a project doesn't override
+ */
+export function resolveVersioningConfig(settings?: ProjectVersioningSettings): VersioningConfig {
+  const retention = settings?.retention;
+  return {
+    ...DEFAULT_VERSIONING_CONFIG,
+    maxVersions: settings?.maxVersions && settings.maxVersions > 0
+      ? settings.maxVersions
+      : DEFAULT_VERSIONING_CONFIG.maxVersions,
+    retention: {
+      autoSave: retention?.autoSave?.every(isTier) ? retention.autoSave : DEFAULT_VERSIONING_CONFIG.retention.autoSave,
+      manual: retention?.manual?.every(isTier) ? retention.manual : DEFAULT_VERSIONING_CONFIG.retention.manual,
+    },
+  };
+}
+
+/**
+ * Versioning config of the project a draft belongs to
+ */
+export async function getDraftVersioningConfig(draftId: string): Promise<VersioningConfig> {
+  const draft = await db.drafts.get(draftId);
+  const project = draft ? await db.projects.get(draft.projectId) : undefined;
+  return resolveVersioningConfig(project?.versioning);
+}
+
+function thin(rows: RetentionRow[], tiers: RetentionTier[], now: number, expired: string[]) {
+  const taken = new Set<string>();
+  [...rows]
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+    .forEach(row => {
+      const time = row.createdAt.getTime();
+      const age = now - time;
+      const tierIndex = tiers.findIndex(tier => tier.maxAge === undefined || age < tier.maxAge);
+      if (tierIndex < 0) {
+        expired.push(row.id);
+        return;
+      }
+
+      const { every } = tiers[tierIndex];
+      if (every === 0) return;
+
+      // Slots are aligned to fixed points in time so repeated runs agree
+      // on which version a slot keeps
+      const slot = `${tierIndex}:${Math.floor(time / every)}`;
+      if (taken.has(slot)) expired.push(row.id);
+      else taken.add(slot);
+    });
+}
+
+/**
+ * Picks the versions a policy no longer keeps. Protected versions are
+ * neither deleted nor counted towards a slot.
+ */
+export function selectExpiredVersions(
+  rows: RetentionRow[],
+  policy: RetentionPolicy,
+  protectedIds: Set<string> = new Set(),
+  now: Date = new Date()
+): string[] {
+  const candidates = rows.filter(row => !protectedIds.has(row.id));
+  const expired: string[] = [];
+  thin(candidates.filter(row => row.isAutoSave), policy.autoSave, now.getTime(), expired);
+  thin(candidates.filter(row => !row.isAutoSave), policy.manual, now.getTime(), expired);
+  return expired;
+}
+
+/**
+ * Thins a draft's history by the retention policy, then trims the oldest
+ * versions beyond `maxVersions`
+ * @returns Number of versions deleted
+ */
+export async function applyRetentionPolicy(
+  draftId: string,
+  config: VersioningConfig = DEFAULT_VERSIONING_CONFIG,
+  now: Date = new Date()
+): Promise<number> {
+  try {
+    const rows = await db.versions.where('draftId').equals(draftId).toArray();
+    const protectedIds = getProtectedVersionIds(rows);
+    const expired = new Set(selectExpiredVersions(rows, config.retention, protectedIds, now));
+
+    const remaining = rows
+      .filter(row => !expired.has(row.id) && !protectedIds.has(row.id))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    remaining
+      .slice(Math.max(0, config.maxVersions - protectedIds.size))
+      .forEach(row => expired.add(row.id));
+
+    await deleteVersions([...expired]);
+    return expired.size;
+  } catch (error) {
+    console.error('Failed to apply retention policy:', error);
+    throw new Error('Failed to clean up version history');
+  }
+}
+
+/**
+ * Applies the project's retention policy to each of its drafts
+ * @returns Number of versions deleted
+ */
+export async function applyProjectRetentionPolicy(projectId: string): Promise<number> {
+  const project = await db.projects.get(projectId);
+  if (!project) throw new Error('Project not found');
+
+  const config = resolveVersioningConfig(project.versioning);
+  const draftIds = await db.drafts.where('projectId').equals(projectId).primaryKeys();
+  let deleted = 0;
+  for (const draftId of draftIds) {
+    deleted += await applyRetentionPolicy(draftId, config);
+  }
+  return deleted;
+}
+
+/**
+ * How much space a draft's history takes and what it is made of
+ */
+export async function getStorageReport(draftId: string): Promise<VersionStorageReport> {
+  try {
+    const rows = await db.versions.where('draftId').equals(draftId).toArray();
+    const times = rows.map(row => row.createdAt.getTime());
+
+    return {
+      versionCount: rows.length,
+      autoSaveCount: rows.filter(row => row.isAutoSave).length,
+      manualCount: rows.filter(row => !row.isAutoSave).length,
+      milestoneCount: rows.filter(row => row.milestone).length,
+      branchCount: new Set(rows.map(row => row.branchId ?? '')).size,
+      keyframeCount: rows.filter(row => row.encoding === 'keyframe').length,
+      deltaCount: rows.filter(row => row.encoding === 'delta').length,
+      storedBytes: rows.reduce((sum, row) => sum + row.payload.byteLength, 0),
+      contentBytes: rows.reduce((sum, row) => sum + row.contentLength, 0),
+      oldest: rows.length ? new Date(Math.min(...times)) : undefined,
+      newest: rows.length ? new Date(Math.max(...times)) : undefined,
+    };
+  } catch (error) {
+    console.error('Failed to get storage report:', error);
+    throw new Error('Failed to retrieve storage report');
+  }
+}
@@ -1,53 +1,181 @@
+import Dexie from 'dexie';
+import db from '../db';
+import { DocumentVersion, StoredVersion, DEFAULT_VERSIONING_CONFIG, MAIN_BRANCH_ID } from './types';
+import { decodeVersion, encodeAgainst, encodeKeyframe } from './encoding';
+import { openStoredVersion, sealStoredVersion } from '../vault/records';
 
-import { openDB, DBSchema, IDBPDatabase } from 'idb';
-import { DocumentVersion } from './types';
+const byCreatedAt = (a: { createdAt: Date }, b: { createdAt: Date }) =>
+  a.createdAt.getTime() - b.createdAt.getTime();
 
-interface VersioningDB extends DBSchema {
-  versions: {
-    key: string;
-    value: DocumentVersion;
-    indexes: { 'by-draft': string; 'by-date': Date };
-  };
-}
+export const getBranchId = (version: { branchId?: string }): string => version.branchId ?? MAIN_BRANCH_ID;
 
-let db: IDBPDatabase<VersioningDB> | null = null;
+/**
+ * Decodes a set of rows, resolving each delta against its keyframe. Keyframes
+ * missing from `rows` are loaded on demand.
+ */
+async function decodeRows(storedRows: StoredVersion[]): Promise<DocumentVersion[]> {
+  const rows = await Promise.all(storedRows.map(row => openStoredVersion(row)));
+  const keyframes = new Map<string, string>();
+  const decoded = new Map<string, DocumentVersion>();
 
-export async function initVersioningDB(): Promise<IDBPDatabase<VersioningDB>> {
-  if (db) return db;
+  rows.filter(r => r.encoding === 'keyframe').forEach(row => {
+    const version = decodeVersion(row);
+    keyframes.set(row.id, version.content);
+    decoded.set(row.id, version);
+  });
+
+  const missing = [...new Set(
+    rows.filter(r => r.encoding === 'delta' && !keyframes.has(r.keyframeId!)).map(r => r.keyframeId!)
+  )];
+  if (missing.length > 0) {
+    const extra = await db.versions.bulkGet(missing);
+    for (const row of extra) {
+      if (row) keyframes.set(row.id, decodeVersion(await openStoredVersion(row)).content);
+    }
+  }
 
-  db = await openDB<VersioningDB>('versioning-db', 1, {
-    upgrade(db) {
-      const store = db.createObjectStore('versions', { keyPath: 'id' });
-      store.createIndex('by-draft', 'draftId');
-      store.createIndex('by-date', 'createdAt');
-    },
+  rows.filter(r => r.encoding === 'delta').forEach(row => {
+    decoded.set(row.id, decodeVersion(row, keyframes.get(row.keyframeId!)));
   });
 
-  return db;
+  return rows.map(r => decoded.get(r.id)!);
 }
 
-export async function saveVersion(version: DocumentVersion): Promise<void> {
-  const database = await initVersioningDB();
-  await database.put('versions', version);
+async function getLatestKeyframe(draftId: string): Promise<{ id: string; content: string; deltas: number } | null> {
+  const latest = await db.versions
+    .where('[draftId+createdAt]')
+    .between([draftId, Dexie.minKey], [draftId, Dexie.maxKey])
+    .last();
+  if (!latest) return null;
+
+  const keyframeRow = latest.encoding === 'keyframe' ? latest : await db.versions.get(latest.keyframeId!);
+  if (!keyframeRow) return null;
+
+  return {
+    id: keyframeRow.id,
+    content: decodeVersion(await openStoredVersion(keyframeRow)).content,
+    deltas: await db.versions.where('keyframeId').equals(keyframeRow.id).count(),
+  };
 }
 
-export async function getVersionsByDraft(draftId: string): Promise<DocumentVersion[]> {
-  const database = await initVersioningDB();
-  const versions = await database.getAllFromIndex('versions', 'by-draft', draftId);
+export async function saveVersion(
+  version: DocumentVersion,
+  config = DEFAULT_VERSIONING_CONFIG
+): Promise<void> {
+  // Decrypting the keyframe and encrypting the new row are asynchronous, so
+  // this can't share one transaction. Concurrent saves at worst put one extra
+  // delta on a keyframe, which decodes the same.
+  const keyframe = await getLatestKeyframe(version.draftId);
+  const base = keyframe && keyframe.deltas < config.keyframeInterval ? keyframe : null;
+  const row = await sealStoredVersion(encodeAgainst(version, base, config.compressionEnabled));
+  await db.versions.put(row);
+}
+
+export async function getVersion(id: string): Promise<DocumentVersion | undefined> {
+  const row = await db.versions.get(id);
+  if (!row) return undefined;
+  const [version] = await decodeRows([row]);
+  return version;
+}
+
+/**
+ * The newest version on a branch, or undefined if the branch has none
+ */
+export async function getBranchHead(draftId: string, branchId: string): Promise<DocumentVersion | undefined> {
+  const rows = await db.versions.where('draftId').equals(draftId).toArray();
+  const head = rows.filter(r => getBranchId(r) === branchId).sort(byCreatedAt).pop();
+  if (!head) return undefined;
+  const [version] = await decodeRows([head]);
+  return version;
+}
+
+/**
+ * A draft's version rows as stored, still sealed and encoded. Reading them
+ * is plain Dexie, so unlike decoding it can run inside a live query.
+ */
+export const getVersionRows = (draftId: string): Promise<StoredVersion[]> =>
+  db.versions.where('draftId').equals(draftId).toArray();
+
+/**
+ * Versions from stored rows, newest first
+ */
+export async function decodeVersions(rows: StoredVersion[]): Promise<DocumentVersion[]> {
+  const versions = await decodeRows(rows);
   return versions.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
 }
 
-export async function deleteOldVersions(draftId: string, keepCount: number): Promise<void> {
-  const database = await initVersioningDB();
-  const versions = await getVersionsByDraft(draftId);
-  
-  if (versions.length > keepCount) {
-    const versionsToDelete = versions.slice(keepCount);
-    const tx = database.transaction('versions', 'readwrite');
-    
-    await Promise.all([
-      ...versionsToDelete.map(v => tx.store.delete(v.id)),
-      tx.done,
-    ]);
+export async function getVersionsByDraft(draftId: string): Promise<DocumentVersion[]> {
+  return decodeVersions(await getVersionRows(draftId));
+}
+
+/**
+ * Deletes versions, re-basing any surviving deltas whose keyframe is removed
+ * onto a new keyframe so every remaining version stays reconstructable
+ */
+export async function deleteVersions(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+
+  const doomed = new Set(ids);
+  const rows = (await db.versions.bulkGet(ids)).filter((r): r is StoredVersion => !!r);
+  const rewritten: StoredVersion[] = [];
+
+  // Rows are re-encoded before the transaction because decrypting and
+  // encrypting them can't happen inside one
+  for (const row of rows.filter(r => r.encoding === 'keyframe')) {
+    const survivors = (await db.versions.where('keyframeId').equals(row.id).toArray())
+      .filter(r => !doomed.has(r.id))
+      .sort(byCreatedAt);
+    if (survivors.length === 0) continue;
+
+    const keyframeContent = decodeVersion(await openStoredVersion(row)).content;
+    const opened = await Promise.all(survivors.map(r => openStoredVersion(r)));
+    const [first, ...rest] = opened.map(r => decodeVersion(r, keyframeContent));
+    const compress = row.compressed;
+    const next = { id: first.id, content: first.content };
+
+    rewritten.push(await sealStoredVersion(encodeKeyframe(first, compress)));
+    for (const version of rest) {
+      rewritten.push(await sealStoredVersion(encodeAgainst(version, next, compress)));
+    }
   }
+
+  await db.transaction('rw', db.versions, async () => {
+    if (rewritten.length > 0) await db.versions.bulkPut(rewritten);
+    await db.versions.bulkDelete(ids);
+  });
+}
+
+/**
+ * Prunes the oldest versions of a draft down to `keepCount`. Milestones,
+ * the head of every branch and the versions branches were forked from are
+ * always kept.
+ */
+export async function deleteOldVersions(draftId: string, keepCount: number): Promise<void> {
+  const rows = await db.versions.where('draftId').equals(draftId).toArray();
+  if (rows.length <= keepCount) return;
+
+  const kept = getProtectedVersionIds(rows);
+  const prunable = rows.filter(r => !kept.has(r.id)).sort((a, b) => byCreatedAt(b, a));
+  await deleteVersions(prunable.slice(Math.max(0, keepCount - kept.size)).map(v => v.id));
+}
+
+/**
+ * Versions no pruning may remove: milestones, the head of every branch and
+ * the versions branches were forked from
+ */
+export function getProtectedVersionIds(
+  rows: Pick<StoredVersion, 'id' | 'createdAt' | 'branchId' | 'parentId' | 'milestone'>[]
+): Set<string> {
+  const byId = new Map(rows.map(r => [r.id, r]));
+  const kept = new Set<string>();
+  const heads = new Map<string, (typeof rows)[number]>();
+  rows.forEach(row => {
+    if (row.milestone) kept.add(row.id);
+    const parent = row.parentId ? byId.get(row.parentId) : undefined;
+    if (parent && getBranchId(parent) !== getBranchId(row)) kept.add(parent.id);
+    const head = heads.get(getBranchId(row));
+    if (!head || byCreatedAt(head, row) < 0) heads.set(getBranchId(row), row);
+  });
+  heads.forEach(head => kept.add(head.id));
+  return kept;
 }
@@ -7,16 +7,88 @@ export interface DocumentVersion {
   metadata: Record<string, any>;
   createdAt: Date;
   isAutoSave: boolean;
+  // Lineage. Versions without a branch belong to the main line.
+  branchId?: string;
+  branchName?: string;
+  // The version this one was saved on top of
+  parentId?: string;
+  // Label of a milestone. Milestones are never pruned.
+  milestone?: string;
 }
 
+export const MAIN_BRANCH_ID = 'main';
+
+/**
+ * How a version is persisted. Keyframes hold the full (compressed) content;
+ * deltas hold only the edits relative to their keyframe, so any version can
+ * be rebuilt from at most two rows.
+ */
+export interface StoredVersion extends Omit<DocumentVersion, 'content'> {
+  encoding: 'keyframe' | 'delta';
+  keyframeId?: string;
+  payload: Uint8Array;
+  compressed: boolean;
+  // Length of the reconstructed content, for storage reporting
+  contentLength: number;
+  // Payload is additionally encrypted with the vault key
+  encrypted?: boolean;
+}
+
+/**
+ * One step of a thinning schedule. Versions younger than `maxAge` keep one
+ * version per `every` milliseconds, the newest in each slot.
+ */
+export interface RetentionTier {
+  // Upper age bound of the tier; unset for a tier that never ends
+  maxAge?: number;
+  // Length of a slot; 0 keeps every version
+  every: number;
+}
+
+/**
+ * Thinning schedules for automatic and manual saves. Tiers are ordered from
+ * youngest to oldest; versions older than the last tier are deleted.
+ * Milestones and branch heads are always kept.
+ */
+export interface RetentionPolicy {
+  autoSave: RetentionTier[];
+  manual: RetentionTier[];
+}
+
+export const MINUTE = 60 * 1000;
+export const HOUR = 60 * MINUTE;
+export const DAY = 24 * HOUR;
+export const WEEK = 7 * DAY;
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  autoSave: [
+    { maxAge: HOUR, every: 0 },
+    { maxAge: DAY, every: HOUR },
+    { maxAge: 30 * DAY, every: DAY },
+    { every: WEEK },
+  ],
+  manual: [
+    { maxAge: 90 * DAY, every: 0 },
+    { every: DAY },
+  ],
+};
+
 export interface VersioningConfig {
   maxVersions: number;
   autoSaveInterval: number;
   compressionEnabled: boolean;
+  // Deltas stored against one keyframe before a new keyframe is written
+  keyframeInterval: number;
+  retention: RetentionPolicy;
 }
 
+// Settings a project can override; the rest come from the defaults
+export type ProjectVersioningSettings = Partial<Pick<VersioningConfig, 'maxVersions' | 'retention'>>;
+
 export const DEFAULT_VERSIONING_CONFIG: VersioningConfig = {
-  maxVersions: 50,
+  maxVersions: 5000,
   autoSaveInterval: 30000,
   compressionEnabled: true,
+  keyframeInterval: 50,
+  retention: DEFAULT_RETENTION_POLICY,
 };
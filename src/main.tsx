@@ -3,6 +3,7 @@ import React from 'react';
 import { createRoot } from 'react-dom/client';
 import { AuthProvider } from './contexts/AuthContext';
 import { ProjectProvider } from './contexts/ProjectContext';
+import { VaultProvider } from './contexts/VaultContext';
 import App from './App';
 import './index.css';
 import './i18n';
@@ -32,9 +33,11 @@ root.render(
   <React.StrictMode>
     <ErrorBoundary>
       <AuthProvider>
-        <ProjectProvider>
-          <App />
-        </ProjectProvider>
+        <VaultProvider>
+          <ProjectProvider>
+            <App />
+          </ProjectProvider>
+        </VaultProvider>
       </AuthProvider>
     </ErrorBoundary>
   </React.StrictMode>
@@ -9,6 +9,7 @@ import { Badge } from '@/components/ui/badge';
 import { PenTool, BookOpen, Settings, Plus, FileText, Clock, TrendingUp } from 'lucide-react';
 import { useProjects } from '@/contexts/ProjectContext';
 import { EnhancedDraftManager } from '@/components/drafts/EnhancedDraftManager';
+import { ManuscriptBinder } from '@/components/binder/ManuscriptBinder';
 import { AnalyticsDashboard } from '@/components/dashboard/AnalyticsDashboard';
 import { DraftService } from '@/services/draftService';
 import { formatDate } from '@/utils/dateUtils';
@@ -108,8 +109,9 @@ export default function Dashboard() {
 
         {/* Main Content */}
         <Tabs defaultValue="overview" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-4">
+          <TabsList className="grid w-full grid-cols-5">
             <TabsTrigger value="overview">Overview</TabsTrigger>
+            <TabsTrigger value="manuscript">Manuscript</TabsTrigger>
             <TabsTrigger value="drafts">Drafts</TabsTrigger>
             <TabsTrigger value="analytics">Analytics</TabsTrigger>
             <TabsTrigger value="settings">Settings</TabsTrigger>
@@ -275,6 +277,10 @@ export default function Dashboard() {
             </div>
           </TabsContent>
 
+          <TabsContent value="manuscript">
+            <ManuscriptBinder />
+          </TabsContent>
+
           <TabsContent value="drafts">
             <EnhancedDraftManager onDraftChange={handleRefreshDrafts} />
           </TabsContent>
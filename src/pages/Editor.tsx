@@ -1,4 +1,4 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
 import { Layout } from '@/components/layout/Layout';
 import RichTextEditor from '@/components/editor/RichTextEditor';
@@ -13,6 +13,11 @@ import { ConnectivityIndicator } from '@/components/ConnectivityIndicator';
 import { EnhancedOutline, OutlineScene } from '@/types/outline';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { EditorLayout } from '@/components/editor/EditorLayout';
+import { VersionHistory } from '@/components/editor/VersionHistory';
+import { useVersionHistory } from '@/hooks/useVersionHistory';
+import { DocumentVersion } from '@/lib/versioning';
+import { FindReplaceDialog } from '@/components/search/FindReplaceDialog';
+import { baseHtml } from '@/lib/suggestions';
 
 export default function Editor() {
   const navigate = useNavigate();
@@ -51,6 +56,23 @@ export default function Editor() {
     enableAutoSave: true,
   });
 
+  // Versions are kept for autosaves and restores alike
+  const { versions, restoreVersion, autoSaveVersion } = useVersionHistory({
+    draftId: currentDraft?.id,
+    onVersionRestore: (version) => handleSave(version.content),
+  });
+
+  // What the editor holds now, for comparing against saved versions
+  const currentVersion = useMemo<DocumentVersion | null>(() => currentDraft && {
+    id: 'current',
+    draftId: currentDraft.id,
+    content: currentDraft.content,
+    wordCount: currentDraft.wordCount,
+    metadata: {},
+    createdAt: new Date(currentDraft.updatedAt),
+    isAutoSave: false,
+  }, [currentDraft]);
+
   // Focus mode management
   const { 
     isFocusMode, 
@@ -121,11 +143,13 @@ export default function Editor() {
     
     try {
       updateContent(content);
-      await saveContent(content);
+      if (await saveContent(content)) {
+        await autoSaveVersion(content);
+      }
 
       // Update scene status if a scene is selected
       if (selectedScene && outline) {
-        const wordCount = content.trim().split(/\s+/).filter(w => w.length > 0).length;
+        const wordCount = baseHtml(content).trim().split(/\s+/).filter(w => w.length > 0).length;
         const updatedStatus: 'planned' | 'draft' | 'complete' = wordCount > 100 ? 'draft' : 'planned';
         
         const updatedParts = outline.parts.map(part => ({
@@ -234,6 +258,24 @@ export default function Editor() {
           }
         }}
         onEditorReady={() => {}}
+        findReplace={
+          <FindReplaceDialog
+            projectId={currentProject.id}
+            draftId={currentDraft?.id}
+            hasUnsavedChanges={hasUnsavedChanges}
+            onReplaced={(summary) => {
+              if (summary.drafts > 0 && currentDraft) loadDraft(currentDraft.id);
+            }}
+          />
+        }
+        versionHistory={currentDraft && currentVersion && (
+          <VersionHistory
+            versions={versions}
+            currentVersion={currentVersion}
+            onVersionSelect={(version) => restoreVersion(version.id)}
+            onContentChange={() => loadDraft(currentDraft.id)}
+          />
+        )}
       />
     </Layout>
   );
@@ -0,0 +1,93 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Input } from '@/components/ui/input';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Card } from '@/components/ui/card';
+import { Search as SearchIcon } from 'lucide-react';
+import { Layout } from '@/components/layout/Layout';
+import { SearchResultList } from '@/components/search/SearchResultList';
+import { searchResultPath } from '@/components/search/searchRoutes';
+import { useProjects } from '@/contexts/ProjectContext';
+import { useProjectSearch } from '@/hooks/useProjectSearch';
+import { SearchSourceType } from '@/lib/search';
+
+type SourceFilter = SearchSourceType | 'all';
+
+export default function Search() {
+  const navigate = useNavigate();
+  const { currentProject } = useProjects();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [query, setQuery] = useState(() => searchParams.get('q') || '');
+  const [filter, setFilter] = useState<SourceFilter>('all');
+
+  const { results, loading, error } = useProjectSearch({
+    projectId: currentProject?.id,
+    query,
+    types: filter === 'all' ? undefined : [filter],
+    limit: 100,
+  });
+
+  // Keep the query in the URL so searches can be linked and survive reloads
+  useEffect(() => {
+    setSearchParams(query ? { q: query } : {}, { replace: true });
+  }, [query, setSearchParams]);
+
+  if (!currentProject) {
+    return (
+      <Layout mode="contained">
+        <div className="flex-1 flex items-center justify-center min-h-[60vh]">
+          <div className="text-center">
+            <SearchIcon className="h-16 w-16 mx-auto mb-4 text-muted-foreground" />
+            <h2 className="text-2xl font-semibold mb-2">No Project Selected</h2>
+            <p className="text-muted-foreground">Please select a project to search.</p>
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout mode="contained">
+      <div className="space-y-6 py-6">
+        <div>
+          <h1 className="text-3xl font-bold">Search</h1>
+          <p className="text-muted-foreground mt-1">
+            Search drafts, outlines and the story bible of "{currentProject.title}"
+          </p>
+        </div>
+
+        <div className="relative">
+          <SearchIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            autoFocus
+            placeholder="Search your project..."
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+
+        <Tabs value={filter} onValueChange={(value) => setFilter(value as SourceFilter)}>
+          <TabsList>
+            <TabsTrigger value="all">All</TabsTrigger>
+            <TabsTrigger value="draft">Drafts</TabsTrigger>
+            <TabsTrigger value="outline">Outline</TabsTrigger>
+            <TabsTrigger value="story_bible">Story Bible</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {query.trim() && !loading && results.length === 0 && !error && (
+          <p className="text-muted-foreground text-center py-12">No matches for "{query}"</p>
+        )}
+
+        {results.length > 0 && (
+          <Card className="overflow-hidden">
+            <SearchResultList results={results} onSelect={(result) => navigate(searchResultPath(result))} />
+          </Card>
+        )}
+      </div>
+    </Layout>
+  );
+}
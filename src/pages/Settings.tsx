@@ -10,6 +10,9 @@ import { Separator } from '@/components/ui/separator';
 import { useAuth } from '@/contexts/AuthContext';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useToast } from '@/hooks/use-toast';
+import { ProjectBackupCard } from '@/components/backup/ProjectBackupCard';
+import { VaultSettingsCard } from '@/components/vault/VaultSettingsCard';
+import { VersionRetentionCard } from '@/components/versioning/VersionRetentionCard';
 
 export default function Settings() {
   const { user } = useAuth();
@@ -152,6 +155,12 @@ export default function Settings() {
               </div>
             </CardContent>
           </Card>
+
+          <VaultSettingsCard />
+
+          <VersionRetentionCard />
+
+          <ProjectBackupCard />
         </div>
       </div>
     </Layout>
@@ -17,7 +17,13 @@ import {
   updateStoryBibleEntry,
   deleteStoryBibleEntry
 } from '@/lib/storyBibleDb';
-import { useNavigate } from 'react-router-dom';
+import {
+  STORY_BIBLE_FIELDS,
+  StoryBibleFieldFilters,
+  StoryBibleFieldKey,
+  formatFieldOption,
+} from '@/lib/storyBibleFields';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { Layout } from '@/components/layout/Layout';
 
 const TYPE_COLORS = {
@@ -40,8 +46,10 @@ export default function StoryBible() {
   const { currentProject, projects, setCurrentProject } = useProjects();
   const [entries, setEntries] = useState<StoryBibleEntry[]>([]);
   const [loading, setLoading] = useState(false);
-  const [searchTerm, setSearchTerm] = useState('');
+  const [searchParams] = useSearchParams();
+  const [searchTerm, setSearchTerm] = useState(() => searchParams.get('q') || '');
   const [typeFilter, setTypeFilter] = useState<StoryBibleEntry['type'] | 'all'>('all');
+  const [fieldFilters, setFieldFilters] = useState<StoryBibleFieldFilters>({});
   const [modalOpen, setModalOpen] = useState(false);
   const [selectedEntry, setSelectedEntry] = useState<StoryBibleEntry | null>(null);
   const [hasMore, setHasMore] = useState(true);
@@ -83,7 +91,8 @@ export default function StoryBible() {
         currentOffset,
         12,
         searchTerm || undefined,
-        typeFilter === 'all' ? undefined : typeFilter
+        typeFilter === 'all' ? undefined : typeFilter,
+        fieldFilters
       );
 
       if (reset) {
@@ -105,14 +114,28 @@ export default function StoryBible() {
     } finally {
       setLoading(false);
     }
-  }, [currentProject, searchTerm, typeFilter, offset, loading, toast]);
+  }, [currentProject, searchTerm, typeFilter, fieldFilters, offset, loading, toast]);
 
   useEffect(() => {
     if (currentProject) {
       setOffset(0);
       loadEntries(true);
     }
-  }, [currentProject, searchTerm, typeFilter]);
+  }, [currentProject, searchTerm, typeFilter, fieldFilters]);
+
+  // Select fields of the chosen type, e.g. role for characters
+  const filterableFields = typeFilter === 'all'
+    ? []
+    : STORY_BIBLE_FIELDS[typeFilter].filter(definition => definition.filterable);
+
+  const handleTypeFilterChange = (value: StoryBibleEntry['type'] | 'all') => {
+    setTypeFilter(value);
+    setFieldFilters({});
+  };
+
+  const handleFieldFilterChange = (key: StoryBibleFieldKey, value: string) => {
+    setFieldFilters(prev => ({ ...prev, [key]: value === 'all' ? undefined : value }));
+  };
 
   const handleCreateEntry = async (entryData: Omit<StoryBibleEntry, 'id' | 'created_at' | 'updated_at'>) => {
     await createStoryBibleEntry(entryData);
@@ -133,7 +156,7 @@ export default function StoryBible() {
       setEntries(prev => prev.filter(entry => entry.id !== id));
       toast({
         title: 'Entry deleted',
-        description: 'Story bible entry has been deleted successfully.',
+        description: 'Story bible entry has been moved to the trash.',
         duration: 3000,
       });
     } catch (error) {
@@ -160,6 +183,13 @@ export default function StoryBible() {
                 <Badge className={`text-xs ${TYPE_COLORS[entry.type]} flex-shrink-0`}>
                   {entry.type}
                 </Badge>
+                {STORY_BIBLE_FIELDS[entry.type]
+                  .filter(definition => definition.filterable && entry.fields?.[definition.key])
+                  .map(definition => (
+                    <Badge key={definition.key} variant="outline" className="text-xs flex-shrink-0">
+                      {formatFieldOption(String(entry.fields?.[definition.key]))}
+                    </Badge>
+                  ))}
               </div>
               <p className="text-sm text-muted-foreground">
                 Updated {entry.updated_at.toLocaleDateString('en-US', { 
@@ -279,7 +309,7 @@ export default function StoryBible() {
             <Filter className="h-4 w-4 text-muted-foreground" />
             <Select
               value={typeFilter}
-              onValueChange={(value: StoryBibleEntry['type'] | 'all') => setTypeFilter(value)}
+              onValueChange={handleTypeFilterChange}
             >
               <SelectTrigger className="w-48">
                 <SelectValue />
@@ -293,6 +323,23 @@ export default function StoryBible() {
                 <SelectItem value="Custom">Custom</SelectItem>
               </SelectContent>
             </Select>
+            {filterableFields.map(definition => (
+              <Select
+                key={definition.key}
+                value={fieldFilters[definition.key] ?? 'all'}
+                onValueChange={(value) => handleFieldFilterChange(definition.key, value)}
+              >
+                <SelectTrigger className="w-40" aria-label={definition.label}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Any {definition.label.toLowerCase()}</SelectItem>
+                  {definition.options?.map(option => (
+                    <SelectItem key={option} value={option}>{formatFieldOption(option)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ))}
           </div>
         </div>
 
@@ -0,0 +1,266 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Layout } from '@/components/layout/Layout';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Trash2, RotateCcw, FileText, List, BookOpen, FolderOpen } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useProjects } from '@/contexts/ProjectContext';
+import { useToast } from '@/hooks/use-toast';
+import { TrashEntry, TrashItemType } from '@/lib/db';
+import {
+  getProjectTrash,
+  getTrashedProjects,
+  restoreTrashEntry,
+  purgeTrashEntries,
+  emptyProjectTrash,
+  getTrashRetentionDays,
+  setTrashRetentionDays,
+  getTrashExpiry,
+  purgeExpiredTrash,
+} from '@/lib/trash';
+import { formatRelativeTime } from '@/utils/dateUtils';
+
+const ITEM_ICONS: Record<TrashItemType, typeof FileText> = {
+  project: FolderOpen,
+  draft: FileText,
+  outline: List,
+  story_bible: BookOpen,
+};
+
+const ITEM_LABELS: Record<TrashItemType, string> = {
+  project: 'Project',
+  draft: 'Draft',
+  outline: 'Outline',
+  story_bible: 'Story Bible',
+};
+
+const RETENTION_OPTIONS = [7, 14, 30, 60, 90, 0];
+
+export default function Trash() {
+  const { user } = useAuth();
+  const { currentProject } = useProjects();
+  const { toast } = useToast();
+  const [items, setItems] = useState<TrashEntry[]>([]);
+  const [projects, setProjects] = useState<TrashEntry[]>([]);
+  const [retentionDays, setRetentionDays] = useState(getTrashRetentionDays);
+  const [busy, setBusy] = useState(false);
+
+  const loadTrash = useCallback(async () => {
+    try {
+      setItems(currentProject ? await getProjectTrash(currentProject.id) : []);
+      setProjects(user ? await getTrashedProjects(user.id) : []);
+    } catch (error) {
+      toast({
+        title: 'Error loading trash',
+        description: error instanceof Error ? error.message : 'Failed to load trash',
+        variant: 'destructive',
+      });
+    }
+  }, [currentProject, user, toast]);
+
+  useEffect(() => {
+    loadTrash();
+  }, [loadTrash]);
+
+  const handleRestore = async (entry: TrashEntry) => {
+    setBusy(true);
+    try {
+      await restoreTrashEntry(entry.id);
+      toast({
+        title: 'Restored',
+        description: `"${entry.title}" has been restored.`,
+      });
+      await loadTrash();
+    } catch (error) {
+      toast({
+        title: 'Restore failed',
+        description: error instanceof Error ? error.message : 'Failed to restore item',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handlePurge = async (ids: string[], description: string) => {
+    setBusy(true);
+    try {
+      await purgeTrashEntries(ids);
+      toast({ title: 'Permanently deleted', description });
+      await loadTrash();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete items',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleEmpty = async () => {
+    if (!currentProject) return;
+    setBusy(true);
+    try {
+      await emptyProjectTrash(currentProject.id);
+      toast({ title: 'Trash emptied', description: `Removed ${items.length} items permanently.` });
+      await loadTrash();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to empty trash',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRetentionChange = async (value: string) => {
+    const days = Number(value);
+    setTrashRetentionDays(days);
+    setRetentionDays(days);
+    const purged = await purgeExpiredTrash(days);
+    if (purged > 0) {
+      await loadTrash();
+    }
+  };
+
+  const renderEntry = (entry: TrashEntry) => {
+    const Icon = ITEM_ICONS[entry.itemType];
+    const expiry = getTrashExpiry(entry, retentionDays);
+    const { drafts = [], outlines = [], story_bible = [] } = entry.snapshot;
+
+    return (
+      <li key={entry.id} className="flex items-center gap-3 py-3">
+        <Icon className="h-5 w-5 text-muted-foreground flex-shrink-0" />
+        <div className="min-w-0 flex-1">
+          <div className="flex items-center gap-2">
+            <span className="font-medium truncate">{entry.title}</span>
+            <Badge variant="secondary" className="flex-shrink-0">{ITEM_LABELS[entry.itemType]}</Badge>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Deleted {formatRelativeTime(entry.deletedAt)}
+            {expiry && ` · purged ${expiry.toLocaleDateString()}`}
+            {entry.itemType === 'project' &&
+              ` · ${drafts.length} drafts, ${outlines.length} outlines, ${story_bible.length} story bible entries`}
+          </p>
+        </div>
+        <Button variant="outline" size="sm" className="gap-1" disabled={busy} onClick={() => handleRestore(entry)}>
+          <RotateCcw className="h-4 w-4" />
+          Restore
+        </Button>
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button variant="ghost" size="sm" className="text-destructive" disabled={busy} title="Delete forever">
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete "{entry.title}" forever?</AlertDialogTitle>
+              <AlertDialogDescription>This cannot be undone.</AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={() => handlePurge([entry.id], `"${entry.title}" was deleted.`)}>
+                Delete Forever
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </li>
+    );
+  };
+
+  return (
+    <Layout mode="contained">
+      <div className="space-y-6 py-6">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold">Trash</h1>
+            <p className="text-muted-foreground mt-1">
+              Deleted items can be restored until they are purged.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-muted-foreground">Keep items for</span>
+            <Select value={String(retentionDays)} onValueChange={handleRetentionChange}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RETENTION_OPTIONS.map(days => (
+                  <SelectItem key={days} value={String(days)}>
+                    {days === 0 ? 'Forever' : `${days} days`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div>
+              <CardTitle>{currentProject ? currentProject.title : 'No project selected'}</CardTitle>
+              <CardDescription>Drafts, outlines and story bible entries deleted from this project</CardDescription>
+            </div>
+            {items.length > 0 && (
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="outline" size="sm" disabled={busy}>Empty Trash</Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Empty trash?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      {items.length} items will be permanently deleted. This cannot be undone.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={handleEmpty}>Empty Trash</AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            )}
+          </CardHeader>
+          <CardContent>
+            {items.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-6 text-center">Trash is empty</p>
+            ) : (
+              <ul className="divide-y divide-border">{items.map(renderEntry)}</ul>
+            )}
+          </CardContent>
+        </Card>
+
+        {projects.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Deleted Projects</CardTitle>
+              <CardDescription>Restoring a project brings back its drafts, outlines and story bible</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ul className="divide-y divide-border">{projects.map(renderEntry)}</ul>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,446 @@
+import { zipSync, unzipSync, strToU8, strFromU8 } from 'fflate';
+import db, { Project, Draft, Outline } from '@/lib/db';
+import { StoryBibleEntry } from '@/lib/storyBibleDb';
+import { DraftComment, COMMENT_ID_ATTRIBUTE } from '@/lib/comments';
+import { DocumentVersion, DEFAULT_VERSIONING_CONFIG } from '@/lib/versioning';
+import { getVersionsByDraft } from '@/lib/versioning/storage';
+import { encodeHistory } from '@/lib/versioning/encoding';
+import { buildDraftDocuments, buildOutlineDocuments, buildStoryBibleDocuments } from '@/lib/search/documents';
+import {
+  sealDraft,
+  openDraft,
+  sealOutline,
+  openOutline,
+  sealStoryBibleEntry,
+  openStoryBibleEntry,
+  sealStoredVersion,
+  sealComment,
+  openComment,
+  sealSearchDocuments,
+} from '@/lib/vault/records';
+import { useAIStore, AIConversation } from '@/stores/aiStore';
+import { sanitizeHtml } from '@/utils/security';
+
+export const BACKUP_EXTENSION = '.sfbackup';
+const BACKUP_FORMAT = 'storyforge-backup';
+const BACKUP_FORMAT_VERSION = 1;
+const ATTACHMENT_PREFIX = 'attachment://';
+
+export interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  exportedAt: string;
+  projectId: string;
+  projectTitle: string;
+  counts: {
+    drafts: number;
+    outlines: number;
+    storyBible: number;
+    versions: number;
+    // Missing from archives made before comments existed
+    comments?: number;
+    // The AI assistant keeps one history for all projects, so this counts
+    // every conversation, not just ones about this project
+    conversations: number;
+    attachments: number;
+  };
+  // Attachment file name -> MIME type, needed to rebuild data URLs on restore
+  attachments: Record<string, string>;
+}
+
+export interface ProjectBackup {
+  manifest: BackupManifest;
+  project: Project;
+  drafts: Draft[];
+  outlines: Outline[];
+  storyBible: StoryBibleEntry[];
+  versions: DocumentVersion[];
+  comments: DraftComment[];
+  conversations: AIConversation[];
+  attachments: Record<string, Uint8Array>;
+}
+
+export interface RestoreOptions {
+  /** Project the backup is written into; must already exist for 'overwrite' */
+  targetProjectId: string;
+  /** 'new' imports alongside existing data, 'overwrite' replaces the target project's contents */
+  mode: 'new' | 'overwrite';
+  /** Also add the archive's AI conversations, which span all projects */
+  includeConversations?: boolean;
+}
+
+export interface RestoreSummary {
+  project: Project;
+  drafts: number;
+  outlines: number;
+  storyBible: number;
+  versions: number;
+  comments: number;
+  conversations: number;
+}
+
+const DATE_FIELDS = ['createdAt', 'updatedAt', 'created_at', 'updated_at', 'deadline', 'resolvedAt'];
+
+const reviveDates = <T>(row: T): T => {
+  const revived = { ...row } as Record<string, unknown>;
+  DATE_FIELDS.forEach(field => {
+    if (typeof revived[field] === 'string') {
+      revived[field] = new Date(revived[field] as string);
+    }
+  });
+  return revived as T;
+};
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+};
+
+const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+};
+
+/**
+ * Moves inline base64 images out of HTML into separate archive entries so the
+ * JSON stays readable and binary data is stored once.
+ */
+class AttachmentCollector {
+  readonly files: Record<string, Uint8Array> = {};
+  readonly types: Record<string, string> = {};
+  private byDataUrl = new Map<string, string>();
+
+  extract(html: string): string {
+    if (!html) return html;
+    return html.replace(/data:([\w/+.-]+);base64,([A-Za-z0-9+/=]+)/g, (dataUrl, mime: string, payload: string) => {
+      let name = this.byDataUrl.get(dataUrl);
+      if (!name) {
+        const ext = MIME_EXTENSIONS[mime] || 'bin';
+        name = `asset-${String(this.byDataUrl.size + 1).padStart(4, '0')}.${ext}`;
+        this.files[`attachments/${name}`] = base64ToBytes(payload);
+        this.types[name] = mime;
+        this.byDataUrl.set(dataUrl, name);
+      }
+      return `${ATTACHMENT_PREFIX}${name}`;
+    });
+  }
+}
+
+const inlineAttachments = (html: string, backup: ProjectBackup): string => {
+  if (!html) return html;
+  return html.replace(/attachment:\/\/([\w.-]+)/g, (match, name: string) => {
+    const bytes = backup.attachments[name];
+    const mime = backup.manifest.attachments[name];
+    return bytes && mime ? `data:${mime};base64,${bytesToBase64(bytes)}` : match;
+  });
+};
+
+/**
+ * Points the comment marks in restored HTML at their comments' new IDs.
+ * Marks of comments the backup doesn't hold are left as they are.
+ */
+const remapCommentAnchors = (html: string, remap: (id: string) => string | undefined): string => {
+  if (!html?.includes(COMMENT_ID_ATTRIBUTE)) return html;
+  const doc = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+  doc.body.querySelectorAll(`[${COMMENT_ID_ATTRIBUTE}]`).forEach(element => {
+    const id = remap(element.getAttribute(COMMENT_ID_ATTRIBUTE) ?? '');
+    if (id) element.setAttribute(COMMENT_ID_ATTRIBUTE, id);
+  });
+  return doc.body.innerHTML;
+};
+
+/**
+ * Full project backup and restore. An archive is a zip holding one JSON file
+ * per table plus an attachments folder, so it can be inspected by hand.
+ */
+export class BackupService {
+  /**
+   * Collects a project and everything attached to it into a backup archive
+   */
+  static async exportProject(project: Project): Promise<Blob> {
+    if (!project?.id) throw new Error('Project is required');
+
+    try {
+      const stored = await db.projects.get(project.id);
+      const rows = await db.transaction(
+        'r',
+        [db.drafts, db.outlines, db.story_bible, db.comments],
+        async () => ({
+          drafts: await db.drafts.where('projectId').equals(project.id).toArray(),
+          outlines: await db.outlines.where('projectId').equals(project.id).toArray(),
+          storyBible: await db.story_bible.where('project_id').equals(project.id).toArray(),
+          comments: await db.comments.where('projectId').equals(project.id).toArray(),
+        })
+      );
+      // Archives are written in the clear so they restore on any machine,
+      // vault or not
+      const drafts = await Promise.all(rows.drafts.map(d => openDraft(d)));
+      const outlines = await Promise.all(rows.outlines.map(o => openOutline(o)));
+      const storyBible = await Promise.all(rows.storyBible.map(e => openStoryBibleEntry(e)));
+      const comments = await Promise.all(rows.comments.map(c => openComment(c)));
+      // Versions are exported as full content so archives don't depend on the delta encoding
+      const histories = await Promise.all(drafts.map(d => getVersionsByDraft(d.id)));
+      const versions = histories.flat();
+      const conversations = useAIStore.getState().conversations;
+
+      const collector = new AttachmentCollector();
+      const projectRow: Project = { ...project, ...stored };
+      if (projectRow.coverImage) {
+        projectRow.coverImage = collector.extract(projectRow.coverImage);
+      }
+      const draftRows = drafts.map(d => ({ ...d, content: collector.extract(d.content) }));
+      const versionRows = versions.map(v => ({ ...v, content: collector.extract(v.content) }));
+
+      const manifest: BackupManifest = {
+        format: BACKUP_FORMAT,
+        formatVersion: BACKUP_FORMAT_VERSION,
+        exportedAt: new Date().toISOString(),
+        projectId: project.id,
+        projectTitle: project.title,
+        counts: {
+          drafts: draftRows.length,
+          outlines: outlines.length,
+          storyBible: storyBible.length,
+          versions: versionRows.length,
+          comments: comments.length,
+          conversations: conversations.length,
+          attachments: Object.keys(collector.types).length,
+        },
+        attachments: collector.types,
+      };
+
+      const json = (value: unknown) => strToU8(JSON.stringify(value, null, 2));
+      const archive = zipSync({
+        'manifest.json': json(manifest),
+        'project.json': json(projectRow),
+        'drafts.json': json(draftRows),
+        'outlines.json': json(outlines),
+        'story_bible.json': json(storyBible),
+        'versions.json': json(versionRows),
+        'comments.json': json(comments),
+        'ai_conversations.json': json(conversations),
+        ...collector.files,
+      });
+
+      return new Blob([archive], { type: 'application/zip' });
+    } catch (error) {
+      console.error('Failed to export project:', error);
+      throw new Error('Failed to export project');
+    }
+  }
+
+  /**
+   * Parses and validates a backup archive without touching the database
+   */
+  static async readArchive(file: Blob): Promise<ProjectBackup> {
+    let entries: Record<string, Uint8Array>;
+    try {
+      entries = unzipSync(new Uint8Array(await file.arrayBuffer()));
+    } catch (error) {
+      throw new Error('Backup file is not a valid archive');
+    }
+
+    const readJson = <T>(name: string, fallback?: T): T => {
+      const entry = entries[name];
+      if (!entry) {
+        if (fallback !== undefined) return fallback;
+        throw new Error(`Backup is missing ${name}`);
+      }
+      return JSON.parse(strFromU8(entry)) as T;
+    };
+
+    const manifest = readJson<BackupManifest>('manifest.json');
+    if (manifest.format !== BACKUP_FORMAT) {
+      throw new Error('Not a StoryForge backup file');
+    }
+    if (manifest.formatVersion > BACKUP_FORMAT_VERSION) {
+      throw new Error('Backup was created by a newer version of StoryForge');
+    }
+
+    const attachments: Record<string, Uint8Array> = {};
+    Object.keys(entries)
+      .filter(name => name.startsWith('attachments/'))
+      .forEach(name => {
+        attachments[name.slice('attachments/'.length)] = entries[name];
+      });
+
+    return {
+      manifest,
+      project: reviveDates(readJson<Project>('project.json')),
+      drafts: readJson<Draft[]>('drafts.json').map(reviveDates),
+      outlines: readJson<Outline[]>('outlines.json').map(reviveDates),
+      storyBible: readJson<StoryBibleEntry[]>('story_bible.json').map(reviveDates),
+      versions: readJson<DocumentVersion[]>('versions.json', []).map(reviveDates),
+      comments: readJson<DraftComment[]>('comments.json', []).map(reviveDates).map(c => ({
+        ...c,
+        messages: c.messages.map(reviveDates),
+      })),
+      conversations: readJson<AIConversation[]>('ai_conversations.json', []),
+      attachments,
+    };
+  }
+
+  /**
+   * Writes a backup into the target project in a single transaction. Record
+   * IDs are regenerated unless the backup is restored over its own project,
+   * so importing a copy never clobbers the original.
+   */
+  static async restoreProject(backup: ProjectBackup, options: RestoreOptions): Promise<RestoreSummary> {
+    const { targetProjectId, mode, includeConversations = false } = options;
+    if (!targetProjectId?.trim()) throw new Error('Target project ID is required');
+
+    const keepIds = mode === 'overwrite' && targetProjectId === backup.project.id;
+    const idMap = new Map<string, string>();
+    const mapId = (id: string): string => {
+      if (keepIds) return id;
+      if (!idMap.has(id)) idMap.set(id, crypto.randomUUID());
+      return idMap.get(id)!;
+    };
+
+    // Assign draft IDs first so versions and bible relations can resolve them
+    backup.drafts.forEach(d => mapId(d.id));
+    backup.storyBible.forEach(e => mapId(e.id));
+    const commentIds = new Set(backup.comments.map(c => c.id));
+    const restoreHtml = (html: string) => keepIds
+      ? html
+      : remapCommentAnchors(html, id => (commentIds.has(id) ? mapId(id) : undefined));
+
+    const drafts: Draft[] = backup.drafts.map(d => ({
+      ...d,
+      id: mapId(d.id),
+      projectId: targetProjectId,
+      // Keeps the binder nesting intact under the new IDs
+      parentId: d.parentId && mapId(d.parentId),
+      content: restoreHtml(sanitizeHtml(inlineAttachments(d.content, backup))),
+    }));
+    const outlines: Outline[] = backup.outlines.map(o => ({
+      ...o,
+      id: mapId(o.id),
+      projectId: targetProjectId,
+    }));
+    const storyBible: StoryBibleEntry[] = backup.storyBible.map(e => ({
+      ...e,
+      id: mapId(e.id),
+      project_id: targetProjectId,
+      description: sanitizeHtml(e.description),
+      relations: e.relations.filter(r => idMap.has(r) || keepIds).map(mapId),
+    }));
+    const versions: DocumentVersion[] = backup.versions
+      .filter(v => keepIds || idMap.has(v.draftId))
+      .map(v => ({
+        ...v,
+        id: mapId(v.id),
+        draftId: mapId(v.draftId),
+        parentId: v.parentId && mapId(v.parentId),
+        content: restoreHtml(inlineAttachments(v.content, backup)),
+      }));
+
+    const comments: DraftComment[] = backup.comments
+      .filter(c => keepIds || idMap.has(c.draftId))
+      .map(c => ({
+        ...c,
+        id: mapId(c.id),
+        projectId: targetProjectId,
+        draftId: mapId(c.draftId),
+      }));
+
+    try {
+      // Encrypt everything up front; WebCrypto can't run inside the transaction
+      const draftRows = await Promise.all(drafts.map(d => sealDraft(d)));
+      const outlineRows = await Promise.all(outlines.map(o => sealOutline(o)));
+      const storyBibleRows = await Promise.all(storyBible.map(e => sealStoryBibleEntry(e)));
+      const commentRows = await Promise.all(comments.map(c => sealComment(c)));
+      const documents = await sealSearchDocuments([
+        ...drafts.flatMap(buildDraftDocuments),
+        ...outlines.flatMap(buildOutlineDocuments),
+        ...storyBible.flatMap(buildStoryBibleDocuments),
+      ]);
+      const byDraft = new Map<string, DocumentVersion[]>();
+      versions.forEach(v => byDraft.set(v.draftId, [...(byDraft.get(v.draftId) || []), v]));
+      const versionRows = await Promise.all([...byDraft.values()].flatMap(history => encodeHistory(
+        history,
+        DEFAULT_VERSIONING_CONFIG.keyframeInterval,
+        DEFAULT_VERSIONING_CONFIG.compressionEnabled
+      )).map(row => sealStoredVersion(row)));
+
+      const project = await db.transaction(
+        'rw',
+        [db.projects, db.drafts, db.outlines, db.story_bible, db.versions, db.comments, db.search_index],
+        async () => {
+          const existing = await db.projects.get(targetProjectId);
+
+          if (mode === 'overwrite') {
+            await db.search_index.where('projectId').equals(targetProjectId).delete();
+            const oldDraftIds = await db.drafts.where('projectId').equals(targetProjectId).primaryKeys();
+            await db.versions.where('draftId').anyOf(oldDraftIds).delete();
+            await db.comments.where('projectId').equals(targetProjectId).delete();
+            await db.drafts.where('projectId').equals(targetProjectId).delete();
+            await db.outlines.where('projectId').equals(targetProjectId).delete();
+            await db.story_bible.where('project_id').equals(targetProjectId).delete();
+          }
+
+          const restoredProject: Project = {
+            ...backup.project,
+            coverImage: backup.project.coverImage
+              ? inlineAttachments(backup.project.coverImage, backup)
+              : undefined,
+            id: targetProjectId,
+            userId: existing?.userId ?? backup.project.userId,
+            createdAt: existing?.createdAt ?? backup.project.createdAt,
+            updatedAt: new Date(),
+          };
+          await db.projects.put(restoredProject);
+
+          await db.drafts.bulkPut(draftRows);
+          await db.outlines.bulkPut(outlineRows);
+          await db.story_bible.bulkPut(storyBibleRows);
+          await db.search_index.bulkPut(documents);
+          await db.versions.bulkPut(versionRows);
+          await db.comments.bulkPut(commentRows);
+
+          return restoredProject;
+        }
+      );
+
+      // Conversations live in the persisted AI store, not IndexedDB. They
+      // aren't tied to a project, so they are only added when asked for.
+      const existingConversationIds = new Set(useAIStore.getState().conversations.map(c => c.id));
+      const newConversations = includeConversations
+        ? backup.conversations.filter(c => !existingConversationIds.has(c.id))
+        : [];
+      if (newConversations.length > 0) {
+        useAIStore.setState(state => ({
+          conversations: [...state.conversations, ...newConversations],
+        }));
+      }
+
+      return {
+        project,
+        drafts: drafts.length,
+        outlines: outlines.length,
+        storyBible: storyBible.length,
+        versions: versions.length,
+        comments: comments.length,
+        conversations: newConversations.length,
+      };
+    } catch (error) {
+      console.error('Failed to restore backup:', error);
+      throw new Error('Failed to restore backup');
+    }
+  }
+}
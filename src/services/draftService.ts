@@ -1,6 +1,10 @@
-import { Draft } from '@/lib/db';
+import { Draft, deleteDraft as deleteDraftRecord } from '@/lib/db';
 import db from '@/lib/db';
+import { buildDraftDocuments, replaceSearchDocuments } from '@/lib/search/documents';
+import { sealDraft, openDraft, sealSearchDocuments } from '@/lib/vault/records';
+import { subscribeVaultStatus } from '@/lib/vault/session';
 import { sanitizeHtml, sanitizeText } from '@/utils/security';
+import { baseHtml } from '@/lib/suggestions';
 
 // Extended Draft interface to match EnhancedDraftManager expectations
 export interface EnhancedDraft extends Draft {
@@ -118,11 +122,12 @@ export class DraftService {
     }
 
     try {
-      const drafts = await db.drafts
+      const stored = await db.drafts
         .where('projectId')
         .equals(projectId)
         .reverse()
         .sortBy('updatedAt');
+      const drafts = await Promise.all(stored.map(draft => openDraft(draft)));
 
       // Sanitize, enhance, and deduplicate drafts
       const enhancedDrafts = drafts
@@ -170,12 +175,18 @@ export class DraftService {
         const existing = await db.drafts.get(id);
         exists = !!existing;
       } while (exists);
-      await db.drafts.add({
+      const draft = {
         ...sanitizedData,
         id,
         createdAt: new Date(),
         updatedAt: new Date(),
-      } as Draft);
+      } as Draft;
+      const row = await sealDraft(draft);
+      const documents = await sealSearchDocuments(buildDraftDocuments(draft));
+      await db.transaction('rw', [db.drafts, db.search_index], async () => {
+        await db.drafts.add(row);
+        await replaceSearchDocuments(db.search_index, 'draft', id, documents);
+      });
 
       this.invalidateCache(data.projectId);
       return id;
@@ -200,9 +211,9 @@ export class DraftService {
     // Enforce title validation at service level
     const title = updates.title !== undefined ? sanitizeText(updates.title, 200) : existingDraft.title;
     if (!title.trim()) throw new Error('Title cannot be empty');
-    // Use improved word count logic
+    // Use improved word count logic; suggested insertions don't count until accepted
     const content = updates.content !== undefined ? sanitizeHtml(updates.content) : existingDraft.content;
-    const wordCount = content.trim() ? content.trim().replace(/<[^>]*>/g, ' ').split(/\s+/).filter(w => w.length > 0).length : 0;
+    const wordCount = content.trim() ? baseHtml(content).trim().replace(/<[^>]*>/g, ' ').split(/\s+/).filter(w => w.length > 0).length : 0;
     // Ensure date fields are Date objects
     const createdAt = existingDraft.createdAt instanceof Date ? existingDraft.createdAt : new Date(existingDraft.createdAt);
     const updatedAt = new Date();
@@ -215,7 +226,12 @@ export class DraftService {
       createdAt,
       updatedAt,
     };
-    await db.drafts.update(id, merged);
+    const row = await sealDraft(merged);
+    const documents = await sealSearchDocuments(buildDraftDocuments(merged));
+    await db.transaction('rw', [db.drafts, db.search_index], async () => {
+      await db.drafts.update(id, row);
+      await replaceSearchDocuments(db.search_index, 'draft', id, documents);
+    });
     this.invalidateCache(existingDraft.projectId);
   }
 
@@ -226,8 +242,9 @@ export class DraftService {
     if (!id?.trim()) throw new Error('Draft ID is required');
 
     try {
-      const draft = await db.drafts.get(id);
-      if (draft) {
+      const stored = await db.drafts.get(id);
+      if (stored) {
+        const draft = await openDraft(stored);
         const sanitized = {
           ...draft,
           content: sanitizeHtml(draft.content),
@@ -243,9 +260,10 @@ export class DraftService {
   }
 
   /**
-   * Deletes a draft
+   * Moves a draft and its version history to the trash
+   * @returns ID of the trash entry, for undo
    */
-  static async deleteDraft(id: string): Promise<void> {
+  static async deleteDraft(id: string): Promise<string> {
     if (!id?.trim()) throw new Error('Draft ID is required');
 
     try {
@@ -254,8 +272,9 @@ export class DraftService {
         throw new Error('Draft not found');
       }
 
-      await db.drafts.delete(id);
+      const trashId = await deleteDraftRecord(id);
       this.invalidateCache(draft.projectId);
+      return trashId;
     } catch (error) {
       console.error('Failed to delete draft:', error);
       throw new Error('Failed to delete draft');
@@ -333,3 +352,8 @@ export class DraftService {
     }
   }
 }
+
+// Cached drafts hold decrypted content, so drop them as soon as the vault locks
+subscribeVaultStatus(status => {
+  if (status === 'locked') DraftService.clearCache();
+});
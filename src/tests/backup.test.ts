@@ -0,0 +1,122 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeAll } from 'vitest';
+import { zipSync, strToU8 } from 'fflate';
+import db, { Project } from '@/lib/db';
+import { getVersionsByDraft, saveVersion } from '@/lib/versioning/storage';
+import { BackupService, ProjectBackup } from '@/services/backupService';
+import { useAIStore } from '@/stores/aiStore';
+
+const now = new Date('2026-03-01T10:00:00Z');
+const project: Project = {
+  id: 'p1', userId: 'u1', title: 'Storm Road', isPublic: false, status: 'planning', createdAt: now, updatedAt: now,
+};
+const IMAGE = 'data:image/png;base64,iVBORw0KGgo=';
+const SCENE_HTML = `<p>The <span class="comment-anchor" data-comment-id="k1">storm</span> broke.</p><p><img src="${IMAGE}"></p>`;
+
+let backup: ProjectBackup;
+
+beforeAll(async () => {
+  await db.projects.put(project);
+  await db.drafts.bulkPut([
+    { id: 'c1', projectId: 'p1', title: 'Chapter 1', content: '', wordCount: 0, kind: 'chapter', order: 0, createdAt: now, updatedAt: now },
+    { id: 's1', projectId: 'p1', title: 'Arrival', content: SCENE_HTML, wordCount: 3, kind: 'scene', parentId: 'c1', order: 0, createdAt: now, updatedAt: now },
+  ]);
+  await db.comments.put({
+    id: 'k1', projectId: 'p1', draftId: 's1', anchor: { quote: 'storm', prefix: 'The ', suffix: ' broke.' },
+    messages: [{ id: 'm1', author: 'Ana', body: 'Too early?', createdAt: now }], status: 'open', createdAt: now, updatedAt: now,
+  });
+  await db.story_bible.bulkPut([
+    { id: 'e1', project_id: 'p1', type: 'Character', name: 'Vess', description: '', tags: [], rules: [], relations: ['e2'], created_at: now, updated_at: now },
+    { id: 'e2', project_id: 'p1', type: 'Location', name: 'Thornwood', description: '', tags: [], rules: [], relations: ['e1'], created_at: now, updated_at: now },
+  ]);
+  await saveVersion({ id: 'v1', draftId: 's1', content: '<p>The storm.</p>', wordCount: 2, metadata: {}, createdAt: now, isAutoSave: false });
+  await saveVersion({
+    id: 'v2', draftId: 's1', content: SCENE_HTML, wordCount: 3, metadata: {}, isAutoSave: false,
+    createdAt: new Date(now.getTime() + 1000), branchId: 'b1', branchName: 'Darker', parentId: 'v1',
+  });
+  useAIStore.setState({ conversations: [{ id: 'ai1', title: 'Names', messages: [], createdAt: 0, updatedAt: 0 }] });
+
+  backup = await BackupService.readArchive(await BackupService.exportProject(project));
+});
+
+describe('backup archive', () => {
+  it('holds the project with its images moved to attachments', () => {
+    expect(backup.manifest).toMatchObject({
+      projectId: 'p1',
+      projectTitle: 'Storm Road',
+      counts: { drafts: 2, outlines: 0, storyBible: 2, versions: 2, comments: 1, conversations: 1, attachments: 1 },
+    });
+    const scene = backup.drafts.find(d => d.id === 's1')!;
+    expect(scene.content).not.toContain('base64');
+    expect(scene.content).toContain('attachment://asset-0001.png');
+    expect(scene.createdAt).toBeInstanceOf(Date);
+  });
+
+  it('rejects files that are not backups', async () => {
+    await expect(BackupService.readArchive(new Blob(['not a zip']))).rejects.toThrow('not a valid archive');
+    const foreign = zipSync({ 'manifest.json': strToU8(JSON.stringify({ format: 'other', formatVersion: 1 })) });
+    await expect(BackupService.readArchive(new Blob([foreign]))).rejects.toThrow('Not a StoryForge backup file');
+    const newer = zipSync({ 'manifest.json': strToU8(JSON.stringify({ ...backup.manifest, formatVersion: 99 })) });
+    await expect(BackupService.readArchive(new Blob([newer]))).rejects.toThrow('newer version');
+  });
+});
+
+describe('restoring a copy', () => {
+  beforeAll(async () => {
+    useAIStore.setState({ conversations: [] });
+    await BackupService.restoreProject(backup, { targetProjectId: 'p2', mode: 'new' });
+  });
+
+  it('gives every record a new ID and remaps the references between them', async () => {
+    const drafts = await db.drafts.where('projectId').equals('p2').toArray();
+    const chapter = drafts.find(d => d.title === 'Chapter 1')!;
+    const scene = drafts.find(d => d.title === 'Arrival')!;
+    expect(['c1', 's1']).not.toContain(chapter.id);
+    expect(scene.id).not.toBe('s1');
+    expect(scene.parentId).toBe(chapter.id);
+
+    const [comment] = await db.comments.where('projectId').equals('p2').toArray();
+    expect(comment.id).not.toBe('k1');
+    expect(comment.draftId).toBe(scene.id);
+    expect(scene.content).toContain(`data-comment-id="${comment.id}"`);
+    expect(scene.content).toContain(IMAGE);
+
+    const [newest, oldest] = await getVersionsByDraft(scene.id);
+    expect(oldest.id).not.toBe('v1');
+    expect(newest.parentId).toBe(oldest.id);
+    expect(newest.branchId).toBe('b1');
+    expect(newest.content).toContain(`data-comment-id="${comment.id}"`);
+
+    const entries = await db.story_bible.where('project_id').equals('p2').toArray();
+    const vess = entries.find(e => e.name === 'Vess')!;
+    const thornwood = entries.find(e => e.name === 'Thornwood')!;
+    expect(vess.relations).toEqual([thornwood.id]);
+    expect(thornwood.relations).toEqual([vess.id]);
+  });
+
+  it('leaves the original project untouched', async () => {
+    expect(await db.drafts.where('projectId').equals('p1').count()).toBe(2);
+    expect((await db.drafts.get('s1'))?.content).toBe(SCENE_HTML);
+    expect((await db.comments.get('k1'))?.draftId).toBe('s1');
+  });
+
+  it('adds AI conversations only when asked to', async () => {
+    expect(useAIStore.getState().conversations).toEqual([]);
+    const summary = await BackupService.restoreProject(backup, { targetProjectId: 'p3', mode: 'new', includeConversations: true });
+    expect(summary.conversations).toBe(1);
+    expect(useAIStore.getState().conversations.map(c => c.id)).toEqual(['ai1']);
+  });
+});
+
+describe('restoring over the same project', () => {
+  it('keeps IDs and replaces the contents', async () => {
+    await db.drafts.put({ id: 'x1', projectId: 'p1', title: 'Scratch', content: '', wordCount: 0, createdAt: now, updatedAt: now });
+    await BackupService.restoreProject(backup, { targetProjectId: 'p1', mode: 'overwrite' });
+
+    const ids = (await db.drafts.where('projectId').equals('p1').toArray()).map(d => d.id).sort();
+    expect(ids).toEqual(['c1', 's1']);
+    expect((await db.drafts.get('s1'))?.parentId).toBe('c1');
+    expect((await db.drafts.get('s1'))?.content).toContain('data-comment-id="k1"');
+    expect((await db.comments.get('k1'))?.draftId).toBe('s1');
+  });
+});
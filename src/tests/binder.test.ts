@@ -0,0 +1,99 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { buildBinderTree, flattenBinder, getBinder, getManuscriptWordCount, importBinderItems } from '@/lib/binder';
+import db, { Draft } from '@/lib/db';
+
+const draft = (id: string, fields: Partial<Draft> = {}): Draft => ({
+  id,
+  projectId: 'p1',
+  title: id,
+  content: '',
+  wordCount: 100,
+  createdAt: new Date(2024, 0, 1),
+  updatedAt: new Date(2024, 0, 1),
+  ...fields,
+});
+
+describe('manuscript binder', () => {
+  it('orders items and nests scenes under chapters', () => {
+    const tree = buildBinderTree([
+      draft('ch2', { order: 1 }),
+      draft('s2', { parentId: 'ch1', order: 1 }),
+      draft('ch1', { order: 0 }),
+      draft('s1', { parentId: 'ch1', order: 0 }),
+    ]);
+
+    expect(tree.map(node => node.draft.id)).toEqual(['ch1', 'ch2']);
+    expect(tree[0].children.map(node => node.draft.id)).toEqual(['s1', 's2']);
+    expect(flattenBinder(tree).map(d => d.id)).toEqual(['ch1', 's1', 's2', 'ch2']);
+  });
+
+  it('aggregates word counts', () => {
+    const tree = buildBinderTree([
+      draft('ch1', { order: 0, wordCount: 10 }),
+      draft('s1', { parentId: 'ch1', order: 0, wordCount: 250 }),
+      draft('ch2', { order: 1, wordCount: 40 }),
+    ]);
+
+    expect(tree[0].wordCount).toBe(260);
+    expect(getManuscriptWordCount(tree)).toBe(300);
+  });
+
+  it('places unordered and orphaned items at the end of the top level', () => {
+    const tree = buildBinderTree([
+      draft('new', { createdAt: new Date(2024, 5, 1) }),
+      draft('orphan', { parentId: 'gone', order: 5 }),
+      draft('ch1', { order: 0 }),
+    ]);
+
+    expect(tree.map(node => node.draft.id)).toEqual(['ch1', 'orphan', 'new']);
+  });
+});
+
+describe('importing into the binder', () => {
+  beforeEach(async () => {
+    await db.drafts.clear();
+    await db.search_index.clear();
+    await db.drafts.put(draft('existing', { order: 0 }));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('adds the imported tree after the existing items', async () => {
+    const ids = await importBinderItems('p1', [
+      {
+        title: 'Chapter 1',
+        content: '',
+        children: [
+          { title: 'Arrival', kind: 'scene', content: '<p>The storm broke.</p>' },
+          { title: '  ', kind: 'scene', content: '<p>Morning</p>' },
+        ],
+      },
+      { title: 'Chapter 2', content: '<p>Later</p>', revisionStatus: 'final' },
+    ]);
+
+    const tree = await getBinder('p1');
+    expect(flattenBinder(tree).map(d => d.title)).toEqual(['existing', 'Chapter 1', 'Arrival', 'Untitled', 'Chapter 2']);
+    expect(flattenBinder(tree).slice(1).map(d => d.id)).toEqual(ids);
+    expect(tree[1].children.map(node => node.draft.wordCount)).toEqual([3, 1]);
+    expect(tree[2].draft).toMatchObject({ kind: 'chapter', revisionStatus: 'final', order: 2 });
+    expect(await db.search_index.where('[sourceType+sourceId]').equals(['draft', ids[1]]).count()).toBe(1);
+  });
+
+  it('writes nothing when part of the import fails', async () => {
+    // The scene fails after its chapter was prepared
+    const bulkPut = db.search_index.bulkPut.bind(db.search_index);
+    vi.spyOn(db.search_index, 'bulkPut').mockImplementation(documents =>
+      documents.some(doc => doc.title === 'Arrival') ? Promise.reject(new Error('QuotaExceededError')) : bulkPut(documents)
+    );
+
+    await expect(importBinderItems('p1', [
+      { title: 'Chapter 1', content: '', children: [{ title: 'Arrival', kind: 'scene', content: '<p>The storm broke.</p>' }] },
+    ])).rejects.toThrow('Failed to import drafts');
+
+    expect((await db.drafts.toArray()).map(d => d.id)).toEqual(['existing']);
+    expect(await db.search_index.count()).toBe(0);
+  });
+});
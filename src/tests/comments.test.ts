@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { captureAnchor, findAnchor, findTodoMarkers, markedCommentIds } from '@/lib/comments';
+
+describe('comment anchors', () => {
+  it('finds the quote again after edits around it', () => {
+    const text = 'The tide came in. Mara waited by the harbour wall until dusk.\n';
+    const anchor = captureAnchor(text, { index: text.indexOf('harbour wall'), length: 'harbour wall'.length });
+
+    const edited = `A new opening line.\n${text.replace('waited', 'stood')}`;
+    const found = findAnchor(edited, anchor);
+    expect(found && edited.slice(found.index, found.index + found.length)).toBe('harbour wall');
+    expect(findAnchor('Nothing like it here.', anchor)).toBeNull();
+  });
+
+  it('prefers the copy of a repeated quote with matching context', () => {
+    const text = 'She said no. He laughed. She said no. They left.';
+    const second = text.lastIndexOf('She said no.');
+    const anchor = captureAnchor(text, { index: second, length: 'She said no.'.length });
+    expect(findAnchor(`Intro. ${text}`, anchor)?.index).toBe(second + 'Intro. '.length);
+  });
+
+  it('reads comment ids from draft HTML', () => {
+    const html = '<p>One <span class="comment-anchor" data-comment-id="a">two</span></p>' +
+      '<p><span class="comment-anchor" data-comment-id="a">three</span> <span data-comment-id="b">four</span></p>';
+    expect([...markedCommentIds(html)]).toEqual(['a', 'b']);
+  });
+
+  it('turns TODO markers into notes on the nearby sentence', () => {
+    const text = 'First line. Check this date [[TODO: verify]] please.\n[[TODO]] Opening sentence here. More.\n';
+    const markers = findTodoMarkers(text);
+    expect(markers.map(marker => marker.note)).toEqual(['', 'verify']);
+
+    let remaining = text;
+    const targets = markers.map(marker => {
+      remaining = remaining.slice(0, marker.index) + remaining.slice(marker.index + marker.length);
+      return remaining.slice(marker.target.index, marker.target.index + marker.target.length);
+    });
+    expect(targets).toEqual(['Opening sentence here.', 'Check this date']);
+    expect(remaining).toBe('First line. Check this date please.\nOpening sentence here. More.\n');
+  });
+});
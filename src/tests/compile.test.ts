@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_COMPILE_SETTINGS,
+  compileManuscript,
+  getCompileWriter,
+  numberToWords,
+  selectChapters,
+} from '@/lib/compile';
+import { smartenQuotes, transformSceneHtml } from '@/lib/compile/transforms';
+import { Manuscript } from '@/lib/export/manuscript';
+
+const manuscript: Manuscript = {
+  metadata: {
+    title: 'Tide',
+    author: 'Unknown',
+    language: 'en',
+    tags: [],
+    identifier: 'urn:uuid:p1',
+    modified: new Date(0),
+  },
+  chapters: [
+    { id: 'c1', title: 'Arrival', scenes: [
+      { id: 's1', title: 'Harbour', html: '<p>"Rain," she said.</p>' },
+      { id: 's2', title: 'Inn', html: '<p>Warm.</p>' },
+    ] },
+    { id: 'c2', title: 'Departure', scenes: [{ id: 's3', title: 'Dock', html: '<p>Gone.</p>' }] },
+  ],
+};
+
+describe('compile pipeline', () => {
+  it('writes chapter numbers in words', () => {
+    expect([1, 12, 21, 40, 105, 2024].map(numberToWords)).toEqual([
+      'One', 'Twelve', 'Twenty-One', 'Forty', 'One Hundred Five', 'Two Thousand Twenty-Four',
+    ]);
+  });
+
+  it('curls quotes and apostrophes by context', () => {
+    expect(smartenQuotes('"It\'s the \'90s," she said. \'Fine.\'')).toBe('“It’s the ’90s,” she said. ‘Fine.’');
+    expect(smartenQuotes('"', 'word')).toBe('”');
+  });
+
+  it('strips highlights and comments and swaps scene breaks', () => {
+    const html = '<p>See <span class="story-bible-highlight" data-entry-id="e1">Mara</span>' +
+      '<span data-comment-id="k1">here</span><!-- note --></p><p>#</p><pre>"raw"</pre>';
+    expect(transformSceneHtml(html, { ...DEFAULT_COMPILE_SETTINGS, sceneSeparator: 'asterisks' }))
+      .toBe('<p>See Marahere</p><p class="ql-align-center">* * *</p><pre>"raw"</pre>');
+  });
+
+  it('follows a saved selection, skipping ids that are gone', () => {
+    const chosen = selectChapters(manuscript.chapters, [
+      { id: 'c2', scenes: ['s3'] },
+      { id: 'c1', scenes: ['s2', 'missing'] },
+      { id: 'old', scenes: ['s1'] },
+    ]);
+    expect(chosen.map(chapter => [chapter.id, chapter.scenes.map(scene => scene.id)])).toEqual([
+      ['c2', ['s3']],
+      ['c1', ['s2']],
+    ]);
+  });
+
+  it('numbers chapters, joins scenes and adds matter pages', () => {
+    const compiled = compileManuscript(manuscript, {
+      ...DEFAULT_COMPILE_SETTINGS,
+      author: 'Ann Lee',
+      frontMatter: [{ title: 'Dedication', text: 'For "Sam"' }, { title: 'Empty', text: ' ' }],
+    });
+    expect(compiled.metadata.author).toBe('Ann Lee');
+    expect(compiled.frontMatter).toEqual([{ title: 'Dedication', html: '<p>For “Sam”</p>' }]);
+    expect(compiled.chapters.map(chapter => [chapter.label, chapter.title])).toEqual([
+      ['Chapter One', 'Arrival'],
+      ['Chapter Two', 'Departure'],
+    ]);
+    expect(compiled.chapters[0].html).toBe('<p>“Rain,” she said.</p><p class="ql-align-center">#</p><p>Warm.</p>');
+  });
+
+  it('lays out plain text and Markdown', async () => {
+    const compiled = compileManuscript(manuscript, {
+      ...DEFAULT_COMPILE_SETTINGS,
+      chapterNumbering: 'numbers',
+      sceneSeparator: 'none',
+      titlePage: false,
+    });
+    expect(await getCompileWriter('text')!.write(compiled))
+      .toBe('1\nArrival\n\n“Rain,” she said.\n\nWarm.\n\n\n2\nDeparture\n\nGone.\n');
+    const markdown = await getCompileWriter('markdown')!.write(compiled) as string;
+    expect(markdown).toContain('# 1: Arrival\n\n');
+    expect(markdown).toContain('# 2: Departure\n\nGone.');
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { zipSync, strToU8 } from 'fflate';
+import { buildManuscriptDocx, MANUSCRIPT_FORMAT_PRESETS } from '@/lib/export/docx';
+import { DEFAULT_SPLIT_RULE, findSplitPoints, parseDocx, splitDocx } from '@/lib/import/docx';
+import { Manuscript } from '@/lib/export/manuscript';
+
+const W_NS = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+
+const wordFile = (body: string, styles = '') => zipSync({
+  'word/document.xml': strToU8(`<?xml version="1.0"?><w:document ${W_NS}><w:body>${body}</w:body></w:document>`),
+  'word/styles.xml': strToU8(`<?xml version="1.0"?><w:styles ${W_NS}>${styles}</w:styles>`),
+});
+
+const para = (text: string, pPr = '', rPr = '') =>
+  `<w:p><w:pPr>${pPr}</w:pPr><w:r><w:rPr>${rPr}</w:rPr><w:t xml:space="preserve">${text}</w:t></w:r></w:p>`;
+
+describe('parseDocx', () => {
+  it('reads our own manuscript export back into chapters and scenes', () => {
+    const manuscript: Manuscript = {
+      metadata: { title: 'Tide', author: 'A', language: 'en', tags: [], identifier: 'x', modified: new Date() },
+      chapters: [
+        { id: 'c1', title: 'One', scenes: [
+          { id: 's1', title: 'a', html: '<p>The <strong>ship</strong> was <em>late</em>.</p><ol><li>first</li><li class="ql-indent-1">inner</li></ol>' },
+          { id: 's2', title: 'b', html: '<p class="ql-align-center">Later.</p>' },
+        ] },
+        { id: 'c2', title: 'Two', scenes: [{ id: 's3', title: 'c', html: '<blockquote>Quoted.</blockquote>' }] },
+      ],
+    };
+    const format = { ...MANUSCRIPT_FORMAT_PRESETS[0].format, titlePage: false, endMarker: '' };
+    const blocks = parseDocx(buildManuscriptDocx(manuscript, { name: 'A', surname: 'A', contact: [] }, format));
+
+    const chapters = splitDocx(blocks, findSplitPoints(blocks, DEFAULT_SPLIT_RULE), 'Opening');
+    expect(chapters.map(item => item.title)).toEqual(['One', 'Two']);
+    expect(chapters[0].content).toBe(
+      '<p>The <strong>ship</strong> was <em>late</em>.</p>' +
+        '<ol><li>first</li><li class="ql-indent-1">inner</li></ol>' +
+        '<p>#</p><p class="ql-align-center">Later.</p>'
+    );
+    expect(chapters[1].content).toBe('<blockquote>Quoted.</blockquote>');
+
+    const scenes = splitDocx(blocks, findSplitPoints(blocks, { ...DEFAULT_SPLIT_RULE, scenes: 'scene-break' }), 'Opening');
+    expect(scenes[0].children?.map(item => [item.title, item.kind, item.content])).toEqual([
+      ['Scene 2', 'scene', '<p class="ql-align-center">Later.</p>'],
+    ]);
+  });
+
+  it('applies character styles and splits on a pattern', () => {
+    const blocks = parseDocx(wordFile(
+      para('Front matter') +
+        para('CHAPTER 1') +
+        `<w:p><w:r><w:t>Plain </w:t></w:r><w:r><w:rPr><w:rStyle w:val="Emph"/></w:rPr><w:t>styled</w:t></w:r><w:r><w:br/><w:t>&lt;b&gt;</w:t></w:r></w:p>` +
+        para('Chapter 2: Home') +
+        para('Gone', '', '<w:strike/><w:u w:val="none"/>'),
+      '<w:style w:type="character" w:styleId="Emph"><w:name w:val="Emphasis"/><w:rPr><w:i/></w:rPr></w:style>'
+    ));
+
+    const points = findSplitPoints(blocks, { chapters: { type: 'pattern', pattern: 'chapter \\d+' }, scenes: 'none' });
+    expect(points.map(point => point.title)).toEqual(['CHAPTER 1', 'Chapter 2: Home']);
+
+    const items = splitDocx(blocks, points, 'Opening');
+    expect(items.map(item => [item.title, item.content])).toEqual([
+      ['Opening', '<p>Front matter</p>'],
+      ['CHAPTER 1', '<p>Plain <em>styled</em><br>&lt;b&gt;</p>'],
+      ['Chapter 2: Home', '<p><s>Gone</s></p>'],
+    ]);
+  });
+
+  it('rejects files that are not Word documents and bad patterns', () => {
+    expect(() => parseDocx(strToU8('plain text'))).toThrow('not a Word document');
+    expect(() => findSplitPoints([], { chapters: { type: 'pattern', pattern: '(' }, scenes: 'none' })).toThrow('not a valid');
+  });
+});
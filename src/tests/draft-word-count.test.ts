@@ -0,0 +1,19 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect } from 'vitest';
+import db, { getDraft, updateDraft } from '@/lib/db';
+
+describe('updateDraft word count', () => {
+  it('counts words in the text, not markup or suggested insertions', async () => {
+    const now = new Date();
+    await db.drafts.put({ id: 'd1', projectId: 'p1', title: 'Arrival', content: '', wordCount: 0, createdAt: now, updatedAt: now });
+
+    await updateDraft('d1', {
+      content: '<p>The <span class="suggestion-insert" data-author="Ana">very big </span>' +
+        '<strong>storm</strong>&nbsp;broke.</p><p><img src="cover.png"></p><p><br></p>',
+    });
+    expect((await getDraft('d1'))?.wordCount).toBe(3);
+
+    await updateDraft('d1', { content: '<p><br></p>' });
+    expect((await getDraft('d1'))?.wordCount).toBe(0);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { unzipSync, strFromU8 } from 'fflate';
+import { buildEpub } from '@/lib/export/epub';
+import { chaptersFromDrafts, Manuscript } from '@/lib/export/manuscript';
+import { ImageCollector, toXhtml } from '@/lib/export/xhtml';
+import { Draft } from '@/lib/db';
+
+// 1x1 transparent PNG
+const PNG = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+const draft = (id: string, order: number, kind: Draft['kind'], parentId?: string): Draft => ({
+  id,
+  projectId: 'p',
+  title: id,
+  content: `<p>${id} text</p>`,
+  wordCount: 2,
+  order,
+  kind,
+  parentId,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+describe('toXhtml', () => {
+  it('keeps editor formatting as well-formed XHTML', () => {
+    const images = new ImageCollector();
+    const xhtml = toXhtml(
+      '<p class="ql-align-center foo">A&nbsp;<strong>bold</strong> <em>move</em><br></p>' +
+        '<p><span class="story-bible-highlight">Ana</span> & <a href="javascript:alert(1)">link</a></p>' +
+        `<p><img src="${PNG}"></p><script>alert(1)</script>`,
+      images
+    );
+
+    expect(xhtml).toBe(
+      '<p class="ql-align-center">A <strong>bold</strong> <em>move</em><br/></p>' +
+        '<p>Ana &amp; link</p>' +
+        '<p><img src="../images/image-001.png" alt=""/></p>alert(1)'
+    );
+    expect(images.resources).toHaveLength(1);
+    expect(images.resources[0].mediaType).toBe('image/png');
+  });
+});
+
+describe('chaptersFromDrafts', () => {
+  it('groups scenes under the chapter before them in binder order', () => {
+    const chapters = chaptersFromDrafts([
+      draft('Two', 1, 'chapter'),
+      draft('One', 0, 'chapter'),
+      draft('Scene A', 0, 'scene', 'One'),
+      draft('Scene B', 1, 'scene', 'One'),
+    ]);
+
+    expect(chapters.map(c => [c.title, c.scenes.map(s => s.id)])).toEqual([
+      ['One', ['One', 'Scene A', 'Scene B']],
+      ['Two', ['Two']],
+    ]);
+  });
+});
+
+describe('buildEpub', () => {
+  const manuscript: Manuscript = {
+    metadata: {
+      title: 'The <Long> Night',
+      author: 'A. Writer',
+      language: 'en',
+      genre: 'Fantasy',
+      tags: ['winter'],
+      coverImage: PNG,
+      identifier: 'urn:uuid:1234',
+      modified: new Date('2024-06-30T12:00:00.123Z'),
+    },
+    chapters: [
+      { id: 'c1', title: 'Snow', scenes: [{ id: 's1', title: 'Snow', html: '<p>It fell.</p>' }, { id: 's2', title: 'Later', html: '<p>It stopped.</p>' }] },
+      { id: 'c2', title: 'Thaw', scenes: [{ id: 's3', title: 'Thaw', html: '<p>Water.</p>' }] },
+    ],
+  };
+
+  it('writes a package with cover, title page, contents and chapters', async () => {
+    const files = unzipSync(await buildEpub(manuscript, {
+      fonts: [{ family: 'Book', fileName: 'Book Regular.ttf', data: new Uint8Array([1, 2, 3]) }],
+    }));
+
+    expect(Object.keys(files)[0]).toBe('mimetype');
+    expect(strFromU8(files.mimetype)).toBe('application/epub+zip');
+    expect(strFromU8(files['META-INF/container.xml'])).toContain('full-path="OEBPS/content.opf"');
+
+    const opf = strFromU8(files['OEBPS/content.opf']);
+    expect(opf).toContain('<dc:title>The &lt;Long&gt; Night</dc:title>');
+    expect(opf).toContain('<dc:creator id="author">A. Writer</dc:creator>');
+    expect(opf).toContain('<dc:subject>Fantasy</dc:subject>');
+    expect(opf).toContain('<meta property="dcterms:modified">2024-06-30T12:00:00Z</meta>');
+    expect(opf).toContain('properties="cover-image"');
+    expect(opf).toContain('href="fonts/font-1.ttf" media-type="font/ttf"');
+    expect(opf.match(/<itemref idref="([^"]+)"/g)?.map(ref => ref.slice(16, -1))).toEqual([
+      'cover', 'title-page', 'nav', 'chapter-1', 'chapter-2',
+    ]);
+
+    const nav = strFromU8(files['OEBPS/nav.xhtml']);
+    expect(nav).toContain('<li><a href="text/chapter-001.xhtml">Snow</a></li>');
+    expect(nav).toContain('<li><a href="text/chapter-002.xhtml">Thaw</a></li>');
+
+    const chapter = strFromU8(files['OEBPS/text/chapter-001.xhtml']);
+    expect(chapter).toContain('<h1 class="chapter-title">Snow</h1>');
+    expect(chapter).toContain('<p>It fell.</p>\n<hr class="scene-break"/>\n<p>It stopped.</p>');
+    expect(strFromU8(files['OEBPS/styles/book.css'])).toContain('src: url("../fonts/font-1.ttf")');
+    expect(files['OEBPS/images/cover.png']).toBeDefined();
+  });
+
+  it('leaves out the cover and title page when asked', async () => {
+    const files = unzipSync(await buildEpub(manuscript, { includeCover: false, includeTitlePage: false }));
+    expect(files['OEBPS/text/cover.xhtml']).toBeUndefined();
+    expect(files['OEBPS/text/title.xhtml']).toBeUndefined();
+  });
+});
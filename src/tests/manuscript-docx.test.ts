@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { unzipSync, strFromU8 } from 'fflate';
+import { buildManuscriptDocx, MANUSCRIPT_FORMAT_PRESETS, roundWordCount } from '@/lib/export/docx';
+import { Manuscript } from '@/lib/export/manuscript';
+
+const preset = (id: string) => MANUSCRIPT_FORMAT_PRESETS.find(p => p.id === id)!.format;
+
+const manuscript: Manuscript = {
+  metadata: {
+    title: 'Cold Harbour',
+    author: 'Ann Lee',
+    language: 'en',
+    tags: [],
+    identifier: 'urn:uuid:1',
+    modified: new Date('2024-01-01T00:00:00Z'),
+  },
+  chapters: [
+    {
+      id: 'c1',
+      title: 'Arrival',
+      scenes: [
+        { id: 's1', title: 'Dock', html: '<h2>Dock</h2><p>The <strong>ship</strong> was <em>late</em>.</p><blockquote>Never again.</blockquote>' },
+        { id: 's2', title: 'Inn', html: '<ol><li>one</li><li class="ql-indent-1">two</li></ol><ul><li>bullet</li></ul>' },
+      ],
+    },
+  ],
+};
+
+const author = { name: 'Ann Lee', surname: 'Lee', contact: ['1 Quay St', 'ann@example.com'] };
+
+const read = (bytes: Uint8Array) => {
+  const files = unzipSync(bytes);
+  return (path: string) => strFromU8(files[path]);
+};
+
+describe('roundWordCount', () => {
+  it('rounds to hundreds for short work and thousands for long', () => {
+    expect(roundWordCount(42)).toBe(42);
+    expect(roundWordCount(4349)).toBe(4300);
+    expect(roundWordCount(87600)).toBe(88000);
+  });
+});
+
+describe('buildManuscriptDocx', () => {
+  it('maps editor formatting onto manuscript styles', () => {
+    const file = read(buildManuscriptDocx(manuscript, author, preset('shunn-modern')));
+    const document = file('word/document.xml');
+
+    expect(document).toContain('<w:rPr><w:b/></w:rPr><w:t xml:space="preserve">ship</w:t>');
+    expect(document).toContain('<w:rPr><w:i/></w:rPr><w:t xml:space="preserve">late</w:t>');
+    expect(document).toContain('<w:pStyle w:val="Heading2"/>');
+    expect(document).toContain('<w:pStyle w:val="Quote"/>');
+    expect(document).toContain('<w:pStyle w:val="SceneBreak"/></w:pPr><w:r><w:t xml:space="preserve">#</w:t>');
+    expect(document).toContain('<w:numPr><w:ilvl w:val="1"/><w:numId w:val="1"/></w:numPr>');
+    expect(document).toContain('<w:numPr><w:ilvl w:val="0"/><w:numId w:val="2"/></w:numPr>');
+    expect(document).toContain('about 10 words');
+    expect(document).toContain('<w:titlePg/>');
+    expect(file('word/header1.xml')).toContain('Lee / COLD HARBOUR / ');
+    expect(file('word/numbering.xml')).toContain('<w:numFmt w:val="decimal"/>');
+  });
+
+  it('underlines italics in the classic preset', () => {
+    const document = read(buildManuscriptDocx(manuscript, author, preset('shunn-classic')))('word/document.xml');
+    expect(document).toContain('<w:rPr><w:u w:val="single"/></w:rPr><w:t xml:space="preserve">late</w:t>');
+    expect(document).not.toContain('<w:i/>');
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { draftToMarkdown, htmlToMarkdown } from '@/lib/export/markdown';
+import { markdownToHtml, parseMarkdownDraft } from '@/lib/import/markdown';
+import { Draft } from '@/lib/db';
+
+const EDITOR_HTML =
+  '<h2>The Dock</h2>' +
+  '<p>The <strong>ship</strong> was <em>late</em>, <s>again</s> <u>very</u> late<sup>[1]</sup>.</p>' +
+  '<p>Un<em>believ</em>able: 2 * 3 = <code>x`y</code> and <a href="https://example.com/a_b" rel="noopener noreferrer" target="_blank">a link</a>.<br>Next line</p>' +
+  '<p class="ql-align-center">* * *</p>' +
+  '<blockquote>Never again.</blockquote>' +
+  '<ol><li>one</li><li class="ql-indent-1">two</li><li>three</li></ol>' +
+  '<ul><li>bullet</li></ul>' +
+  '<p>1. Not a list, # not a heading</p>' +
+  '<pre class="ql-syntax" spellcheck="false">let a = 1;\n</pre>' +
+  '<p><sup>[1]</sup> A note.</p>';
+
+describe('htmlToMarkdown', () => {
+  it('writes CommonMark with the extensions', () => {
+    expect(htmlToMarkdown(EDITOR_HTML)).toBe([
+      '## The Dock',
+      '',
+      'The **ship** was _late_, ~~again~~ <u>very</u> late[^1].',
+      '',
+      'Un*believ*able: 2 \\* 3 = ``x`y`` and [a link](https://example.com/a_b).\\',
+      'Next line',
+      '',
+      '* * *',
+      '',
+      '> Never again.',
+      '',
+      '1. one',
+      '    1. two',
+      '2. three',
+      '',
+      '- bullet',
+      '',
+      '1\\. Not a list, # not a heading',
+      '',
+      '```',
+      'let a = 1;',
+      '```',
+      '',
+      '[^1]: A note.',
+      '',
+    ].join('\n'));
+  });
+
+  it('drops story bible highlights or keeps them as links', () => {
+    const html = '<p>Ask <span class="story-bible-highlight" title="Ana Vey: the captain">Ana</span>.</p>';
+    expect(htmlToMarkdown(html)).toBe('Ask Ana.\n');
+    expect(htmlToMarkdown(html, { highlights: 'link' })).toBe('Ask [Ana](bible:Ana%20Vey).\n');
+  });
+});
+
+describe('markdownToHtml', () => {
+  it('reads back what the exporter writes', () => {
+    const html = markdownToHtml(htmlToMarkdown(EDITOR_HTML));
+    expect(html).toBe(EDITOR_HTML);
+    expect(htmlToMarkdown(html)).toBe(htmlToMarkdown(EDITOR_HTML));
+  });
+
+  it('reads hand-written Markdown', () => {
+    expect(markdownToHtml('Title\n=====\n\nSome *words*\nwrapped  \nhere.\n\n#\n\n* a\n* b\n\n***bold italic*** and <script>x</script>')).toBe(
+      '<h1>Title</h1>' +
+        '<p>Some <em>words</em> wrapped<br>here.</p>' +
+        '<p class="ql-align-center">* * *</p>' +
+        '<ul><li>a</li><li>b</li></ul>' +
+        '<p><strong><em>bold italic</em></strong> and &lt;script&gt;x&lt;/script&gt;</p>'
+    );
+    expect(markdownToHtml('[x](javascript:alert(1)) snake_case_name')).toBe('<p>x snake_case_name</p>');
+  });
+});
+
+describe('parseMarkdownDraft', () => {
+  it('round-trips binder details through front matter', () => {
+    const draft = {
+      id: 'd', projectId: 'p', title: 'Chapter "One"', content: '<p>Hello.</p>', wordCount: 1,
+      kind: 'scene', revisionStatus: 'revised', synopsis: 'Arrival: at night', createdAt: new Date(), updatedAt: new Date(),
+    } as Draft;
+    const item = parseMarkdownDraft(draftToMarkdown(draft), '03 Something.md');
+    expect(item).toEqual({
+      title: 'Chapter "One"', content: '<p>Hello.</p>', kind: 'scene', revisionStatus: 'revised', synopsis: 'Arrival: at night', pov: undefined,
+    });
+  });
+
+  it('exports the text as it reads before pending suggestions', () => {
+    const draft = {
+      id: 'd', projectId: 'p', title: 'Storm', wordCount: 3, createdAt: new Date(), updatedAt: new Date(),
+      content: '<p>The <span class="suggestion-insert" data-author="Ana">big </span>storm <span class="suggestion-delete" data-author="Ana">broke</span>.</p>',
+    } as Draft;
+    expect(draftToMarkdown(draft, { frontMatter: false })).toBe('# Storm\n\nThe storm broke.\n');
+  });
+
+  it('takes the title from a heading or the file name', () => {
+    expect(parseMarkdownDraft('# Storm\n\nRain.', 'x.md')).toMatchObject({ title: 'Storm', content: '<p>Rain.</p>' });
+    expect(parseMarkdownDraft('Rain.', '07 - Storm.md').title).toBe('Storm');
+  });
+});
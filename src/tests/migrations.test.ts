@@ -0,0 +1,134 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeAll, beforeEach } from 'vitest';
+import Dexie from 'dexie';
+import db from '@/lib/db';
+import { importLegacyDatabases, importLegacyProjects } from '@/lib/migrations';
+import { getVersionsByDraft } from '@/lib/versioning/storage';
+
+const entries = [
+  {
+    id: 'e1', project_id: 'p1', type: 'Character', name: 'Vess', description: '<p>A smuggler</p>',
+    tags: ['antagonist'], rules: [], relations: [], created_at: '2024-01-01T00:00:00.000Z', updated_at: '2024-01-02T00:00:00.000Z',
+  },
+  // Rows written before entries had a type
+  { id: 'e2', project_id: 'p1', name: 'The Drowning', tags: ['myth'], created_at: '2024-01-01T00:00:00.000Z', updated_at: '2024-01-01T00:00:00.000Z' },
+];
+
+const versions = [
+  { id: 'v1', draftId: 'd1', content: '<p>First</p>', wordCount: 1, metadata: {}, createdAt: new Date('2024-02-01T00:00:00Z'), isAutoSave: true },
+  { id: 'v2', draftId: 'd1', content: '<p>First and second</p>', wordCount: 3, metadata: { label: 'Draft 2' }, createdAt: new Date('2024-02-02T00:00:00Z'), isAutoSave: false },
+];
+
+// Writes the databases the app used before the unified schema, as the old code laid them out
+async function seedLegacyDatabases() {
+  const writer = new Dexie('WriterDB');
+  writer.version(2).stores({ story_bible: 'id, project_id, type, name, updated_at, created_at' });
+  await writer.table('story_bible').bulkPut(entries);
+  writer.close();
+
+  const versioning = new Dexie('versioning-db');
+  versioning.version(1).stores({ versions: 'id, draftId, createdAt' });
+  await versioning.table('versions').bulkPut(versions);
+  versioning.close();
+}
+
+describe('legacy databases', () => {
+  beforeAll(async () => {
+    await seedLegacyDatabases();
+    // The first query opens the database, which runs the import
+    await db.open();
+  });
+
+  it('copies story bible entries and builds their search documents', async () => {
+    const vess = await db.story_bible.get('e1');
+    expect(vess?.name).toBe('Vess');
+    expect(vess?.created_at).toBeInstanceOf(Date);
+    expect(vess?.fields).toEqual({ role: 'antagonist' });
+
+    const doc = await db.search_index.get('story_bible:e1');
+    expect(doc).toMatchObject({ projectId: 'p1', sourceType: 'story_bible', sourceId: 'e1', title: 'Vess' });
+    expect(doc?.terms).toContain('smuggler');
+  });
+
+  it('imports entries without a type instead of giving up on the store', async () => {
+    const drowning = await db.story_bible.get('e2');
+    expect(drowning?.name).toBe('The Drowning');
+    expect(drowning?.fields).toEqual({});
+  });
+
+  it('stores versions as keyframes that decode to the original content', async () => {
+    const rows = await db.versions.where('draftId').equals('d1').toArray();
+    expect(rows.every(row => row.encoding === 'keyframe')).toBe(true);
+
+    const [newest, oldest] = await getVersionsByDraft('d1');
+    expect(newest).toMatchObject({ id: 'v2', content: '<p>First and second</p>', metadata: { label: 'Draft 2' }, isAutoSave: false });
+    expect(oldest).toMatchObject({ id: 'v1', content: '<p>First</p>' });
+  });
+
+  it('deletes the legacy databases once they are copied', async () => {
+    expect(await Dexie.exists('WriterDB')).toBe(false);
+    expect(await Dexie.exists('versioning-db')).toBe(false);
+  });
+
+  it('gives the same result when a copy is imported twice', async () => {
+    await seedLegacyDatabases();
+    await importLegacyDatabases(db);
+
+    expect(await db.story_bible.count()).toBe(2);
+    expect(await db.versions.count()).toBe(2);
+    expect(await db.search_index.where('[sourceType+sourceId]').equals(['story_bible', 'e1']).count()).toBe(1);
+    expect((await getVersionsByDraft('d1'))[0].content).toBe('<p>First and second</p>');
+    expect(await Dexie.exists('WriterDB')).toBe(false);
+
+    // Nothing left to import
+    await importLegacyDatabases(db);
+    expect(await db.story_bible.count()).toBe(2);
+  });
+});
+
+describe('legacy projects', () => {
+  const saved = [
+    {
+      id: 'p1', title: 'Storm Road', isPublic: false, status: 'writing', deadline: '2024-06-01T00:00:00.000Z',
+      createdAt: '2024-01-01T00:00:00.000Z', updatedAt: '2024-01-02T00:00:00.000Z',
+    },
+    { id: 'p2', title: 'Salt', isPublic: false, status: 'planning', createdAt: '2024-01-01T00:00:00.000Z', updatedAt: '2024-01-01T00:00:00.000Z' },
+  ];
+
+  beforeEach(async () => {
+    await db.projects.clear();
+    localStorage.clear();
+  });
+
+  it('moves projects out of localStorage for their owner', async () => {
+    localStorage.setItem('projects_u1', JSON.stringify(saved));
+    await importLegacyProjects(db, 'u1');
+
+    const projects = await db.projects.where('userId').equals('u1').sortBy('id');
+    expect(projects.map(p => p.id)).toEqual(['p1', 'p2']);
+    expect(projects[0].createdAt).toBeInstanceOf(Date);
+    expect(projects[0].deadline).toEqual(new Date('2024-06-01T00:00:00.000Z'));
+    expect(localStorage.getItem('projects_u1')).toBeNull();
+  });
+
+  it('keeps projects already in the table and runs only once', async () => {
+    await db.projects.put({
+      id: 'p1', userId: 'u1', title: 'Storm Road (restored)', isPublic: false, status: 'editing', createdAt: new Date(), updatedAt: new Date(),
+    });
+    localStorage.setItem('projects_u1', JSON.stringify(saved));
+
+    await importLegacyProjects(db, 'u1');
+    await importLegacyProjects(db, 'u1');
+
+    expect(await db.projects.count()).toBe(2);
+    expect((await db.projects.get('p1'))?.title).toBe('Storm Road (restored)');
+  });
+
+  it('keeps the localStorage copy when it cannot be read', async () => {
+    localStorage.setItem('projects_u1', '{not json');
+    await importLegacyProjects(db, 'u1');
+
+    expect(await db.projects.count()).toBe(0);
+    expect(localStorage.getItem('projects_u1')).toBe('{not json');
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { outlineToOpml } from '@/lib/export/opml';
+import { parseOpml } from '@/lib/import/opml';
+import { EnhancedOutline } from '@/types/outline';
+
+const opml = (body: string, title = 'Notes') =>
+  `<?xml version="1.0"?><opml version="2.0"><head><title>${title}</title></head><body>${body}</body></opml>`;
+
+describe('OPML outlines', () => {
+  it('round-trips parts, chapters and scenes with their attributes', () => {
+    const outline: EnhancedOutline = {
+      id: 'o1',
+      projectId: 'p1',
+      title: 'Tide & Stone',
+      parts: [
+        { id: 'a', title: 'Part I', order: 0, chapters: [
+          { id: 'b', title: 'Arrival', summary: 'Ships come in', order: 0, scenes: [
+            { id: 'c', title: 'Harbour', summary: 'Mara lands', notes: 'Rain.\nLots of it.', order: 0, status: 'draft', pov: 'Mara', wordCount: 1200 },
+          ] },
+          { id: 'd', title: 'Empty chapter', order: 1, scenes: [] },
+        ] },
+        { id: 'e', title: 'Part II', order: 1, chapters: [] },
+      ],
+      totalScenes: 1,
+      maxScenes: 100,
+      structure: 'custom',
+      createdAt: new Date(0),
+      updatedAt: new Date(0),
+    };
+
+    const read = parseOpml(outlineToOpml(outline));
+    expect(read.title).toBe('Tide & Stone');
+    expect(read.parts.map(part => [part.title, part.chapters.map(chapter => chapter.title)])).toEqual([
+      ['Part I', ['Arrival', 'Empty chapter']],
+      ['Part II', []],
+    ]);
+    expect(read.parts[0].chapters[0].summary).toBe('Ships come in');
+    expect(read.parts[0].chapters[0].scenes[0]).toMatchObject({
+      title: 'Harbour', summary: 'Mara lands', notes: 'Rain.\nLots of it.', status: 'draft', pov: 'Mara', wordCount: 1200,
+    });
+    expect(read.truncation).toEqual({ scenes: 0, titles: 0, nested: 0 });
+  });
+
+  it('maps shallow outliner files and folds deeper items into scene notes', () => {
+    const flat = parseOpml(opml('<outline text="One"/><outline text="Two" _complete="true"/>'), 'fallback');
+    expect(flat.parts[0].chapters[0].title).toBe('Notes');
+    expect(flat.parts[0].chapters[0].scenes.map(scene => [scene.title, scene.status])).toEqual([['One', 'planned'], ['Two', 'complete']]);
+
+    const deep = parseOpml(opml(
+      '<outline text="Act"><outline text="Ch"><outline text="Scene" _note="Main">' +
+        '<outline text="&lt;b&gt;Beat&lt;/b&gt;"><outline text="Detail"/></outline></outline></outline></outline>'
+    ));
+    expect(deep.parts[0].chapters[0].scenes[0].notes).toBe('Main\n- Beat\n  - Detail');
+    expect(deep.truncation.nested).toBe(2);
+  });
+
+  it('reports scenes past the limit and long titles', () => {
+    const scenes = Array.from({ length: 105 }, (_, i) => `<outline text="S${i}"/>`).join('');
+    const read = parseOpml(opml(`<outline text="${'x'.repeat(120)}">${scenes}</outline>`));
+    expect(read.parts[0].chapters[0].scenes).toHaveLength(100);
+    expect(read.parts[0].chapters[0].title).toHaveLength(100);
+    expect(read.truncation).toEqual({ scenes: 5, titles: 1, nested: 0 });
+  });
+
+  it('rejects files that are not OPML', () => {
+    expect(() => parseOpml('<html><body/></html>')).toThrow('not an OPML outline');
+  });
+});
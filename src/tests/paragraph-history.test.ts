@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  traceParagraph,
+  replaceParagraph,
+  findParagraphIndex,
+  paragraphSimilarity,
+  getDraftDiff,
+} from '@/lib/versioning/paragraphHistory';
+import { DocumentVersion } from '@/lib/versioning/types';
+import { getVersion } from '@/lib/versioning/storage';
+import db from '@/lib/db';
+import { deriveVaultKeys, generateSalt } from '@/lib/vault/crypto';
+import { sealDraft } from '@/lib/vault/records';
+import { setVaultSession } from '@/lib/vault/session';
+
+vi.mock('@/lib/versioning/storage', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/versioning/storage')>()),
+  getVersion: vi.fn(),
+}));
+
+const start = new Date('2024-06-30T09:00:00Z').getTime();
+const version = (id: string, minutes: number, content: string): DocumentVersion => ({
+  id,
+  draftId: 'draft-1',
+  content,
+  wordCount: 0,
+  metadata: {},
+  createdAt: new Date(start + minutes * 60 * 1000),
+  isAutoSave: true,
+});
+
+describe('traceParagraph', () => {
+  it('follows a paragraph through rewording, newest first', () => {
+    const versions = [
+      version('v1', 0, '<p>Intro.</p><p>The night was dark and cold.</p>'),
+      version('v2', 5, '<p>Intro.</p><p>The night was dark and cold.</p><p>Later.</p>'),
+      version('v3', 10, '<p>Intro.</p><p>The night was dark and bitterly cold.</p>'),
+      version('v4', 240, '<p>Intro.</p><p>The night was <em>very</em> dark and bitterly cold.</p>'),
+    ];
+
+    const revisions = traceParagraph(versions, 'The night was very dark and bitterly cold.');
+
+    expect(revisions.map(r => r.text)).toEqual([
+      'The night was very dark and bitterly cold.',
+      'The night was dark and bitterly cold.',
+      'The night was dark and cold.',
+    ]);
+    expect(revisions[0].html).toBe('<p>The night was <em>very</em> dark and bitterly cold.</p>');
+    expect(revisions[2].versionIds).toEqual(['v2', 'v1']);
+    expect(revisions[2].firstSeen).toEqual(versions[0].createdAt);
+    expect(revisions[2].lastSeen).toEqual(versions[1].createdAt);
+    // Four hours apart is a new writing session
+    expect(revisions.map(r => r.session)).toEqual([2, 1, 1]);
+  });
+
+  it('skips versions the paragraph is missing from', () => {
+    const versions = [
+      version('v1', 0, '<p>A lighthouse stood on the cliff.</p>'),
+      version('v2', 5, '<p>Something else entirely.</p>'),
+      version('v3', 10, '<p>A lighthouse stood on the high cliff.</p>'),
+    ];
+
+    const revisions = traceParagraph(versions, 'A lighthouse stood on the high cliff.');
+
+    expect(revisions.map(r => r.versionIds)).toEqual([['v3'], ['v1']]);
+  });
+});
+
+describe('replaceParagraph', () => {
+  it('replaces one paragraph and keeps the markup around it', () => {
+    const html = '<p>One.</p><ul><li>Two.</li><li>Three.</li></ul><p>Four.</p>';
+    const index = findParagraphIndex(html, 'Three.');
+
+    expect(index).toBe(2);
+    expect(replaceParagraph(html, index, '<li>Three, again.</li>')).toBe(
+      '<p>One.</p><ul><li>Two.</li><li>Three, again.</li></ul><p>Four.</p>'
+    );
+  });
+
+  it('tells apart paragraphs that read the same', () => {
+    const html = '<p>Echo.</p><p>Middle.</p><p>Echo.</p>';
+    expect(findParagraphIndex(html, 'Echo.', 1)).toBe(2);
+    expect(findParagraphIndex(html, 'Missing.')).toBe(-1);
+  });
+});
+
+describe('paragraphSimilarity', () => {
+  it('scores shared words', () => {
+    expect(paragraphSimilarity('the cat sat', 'the cat sat')).toBe(1);
+    expect(paragraphSimilarity('the cat sat', 'a dog ran')).toBe(0);
+    expect(paragraphSimilarity('the cat sat', 'the cat stood')).toBeCloseTo(2 / 3);
+  });
+});
+
+describe('getDraftDiff', () => {
+  afterEach(() => {
+    setVaultSession('disabled');
+    vi.restoreAllMocks();
+  });
+
+  it('diffs the opened draft when the vault is unlocked', async () => {
+    const keys = await deriveVaultKeys('correct horse battery', generateSalt(), 1000);
+    setVaultSession('unlocked', keys);
+    const now = new Date();
+    const sealed = await sealDraft({
+      id: 'draft-1',
+      projectId: 'p1',
+      title: 'Storm',
+      content: '<p>The storm broke at dawn.</p><p>Rain fell.</p>',
+      wordCount: 8,
+      createdAt: now,
+      updatedAt: now,
+    }, keys);
+    vi.spyOn(db.drafts, 'get').mockResolvedValue(sealed);
+    vi.mocked(getVersion).mockResolvedValue(version('v1', 0, '<p>The storm broke at dawn.</p><p>Snow fell.</p>'));
+
+    const diff = await getDraftDiff('draft-1', 'v1');
+    expect(diff.summary).toMatchObject({ unchanged: 1, changed: 1, added: 0, removed: 0 });
+    expect(diff.paragraphs.map(paragraph => paragraph.beforeHtml).join('')).not.toContain('vault:');
+  });
+});
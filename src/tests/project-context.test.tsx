@@ -0,0 +1,83 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import db from '@/lib/db';
+import { importLegacyProjects } from '@/lib/migrations';
+import { ProjectProvider, useProjects } from '@/contexts/ProjectContext';
+
+const auth = vi.hoisted(() => ({ user: { id: 'u1', email: 'ana@example.com' } as { id: string; email: string; isOnline?: boolean } }));
+
+vi.mock('@/contexts/AuthContext', () => ({
+  useAuth: () => auth,
+}));
+
+vi.mock('@/lib/migrations', async importOriginal => {
+  const actual = await importOriginal<typeof import('@/lib/migrations')>();
+  return { ...actual, importLegacyProjects: vi.fn(actual.importLegacyProjects) };
+});
+
+const saved = (id: string, title: string, createdAt: string) => ({
+  id, title, isPublic: false, status: 'writing', createdAt, updatedAt: createdAt,
+});
+
+const renderProjects = () => renderHook(() => useProjects(), { wrapper: ProjectProvider });
+
+beforeEach(async () => {
+  await db.projects.clear();
+  await db.trash.clear();
+  localStorage.clear();
+  vi.mocked(importLegacyProjects).mockClear();
+  auth.user = { id: 'u1', email: 'ana@example.com' };
+});
+
+describe('ProjectContext', () => {
+  it('imports projects saved in localStorage once per user', async () => {
+    localStorage.setItem('projects_u1', JSON.stringify([
+      saved('p1', 'Storm Road', '2024-01-01T00:00:00.000Z'),
+      saved('p2', 'Salt', '2024-02-01T00:00:00.000Z'),
+    ]));
+
+    const { result, rerender, unmount } = renderProjects();
+    await waitFor(() => expect(result.current.projects.map(p => p.title)).toEqual(['Storm Road', 'Salt']));
+    expect(localStorage.getItem('projects_u1')).toBeNull();
+
+    // Going offline replaces the user object but not the user
+    auth.user = { ...auth.user, isOnline: false };
+    rerender();
+    expect(result.current.projects).toHaveLength(2);
+    expect(result.current.loading).toBe(false);
+    expect(importLegacyProjects).toHaveBeenCalledTimes(1);
+
+    unmount();
+    const second = renderProjects();
+    await waitFor(() => expect(second.result.current.loading).toBe(false));
+    expect(second.result.current.projects).toHaveLength(2);
+    expect(await db.projects.count()).toBe(2);
+  });
+
+  it('falls back to the first project when the current one is deleted', async () => {
+    localStorage.setItem('projects_u1', JSON.stringify([
+      saved('p1', 'Storm Road', '2024-01-01T00:00:00.000Z'),
+      saved('p2', 'Salt', '2024-02-01T00:00:00.000Z'),
+      saved('p3', 'Ashes', '2024-03-01T00:00:00.000Z'),
+    ]));
+    localStorage.setItem('storyforge_last_project', 'p2');
+
+    const { result } = renderProjects();
+    await waitFor(() => expect(result.current.currentProject?.id).toBe('p2'));
+
+    // Deleting another project keeps the selection
+    await act(() => result.current.deleteProject('p3'));
+    await waitFor(() => expect(result.current.projects).toHaveLength(2));
+    expect(result.current.currentProject?.id).toBe('p2');
+
+    await act(() => result.current.deleteProject('p2'));
+    await waitFor(() => expect(result.current.projects.map(p => p.id)).toEqual(['p1']));
+    expect(result.current.currentProject?.id).toBe('p1');
+    expect(localStorage.getItem('storyforge_last_project')).toBe('p1');
+
+    await act(() => result.current.deleteProject('p1'));
+    await waitFor(() => expect(result.current.projects).toHaveLength(0));
+    expect(result.current.currentProject).toBeNull();
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { findInHtml, findInText, replaceInHtml, replaceInText, ReplaceQuery } from '@/lib/replace';
+
+const query = (find: string, replace: string, options: Partial<ReplaceQuery> = {}): ReplaceQuery => ({
+  find,
+  replace,
+  caseSensitive: false,
+  wholeWord: false,
+  regex: false,
+  ...options,
+});
+
+describe('find and replace', () => {
+  it('matches whole words and case only when asked', () => {
+    const text = 'Mara met Marathon Mara. MARA laughed.';
+    expect(findInText(text, query('mara', 'Nell'))).toHaveLength(4);
+    expect(findInText(text, query('mara', 'Nell', { wholeWord: true }))).toHaveLength(3);
+    expect(findInText(text, query('Mara', 'Nell', { wholeWord: true, caseSensitive: true }))).toHaveLength(2);
+    expect(findInText('Zoë and Zoëy', query('zoë', 'Ana', { wholeWord: true }))).toHaveLength(1);
+  });
+
+  it('treats the find text literally unless regex is on', () => {
+    expect(replaceInText('Cost: $5 (approx.)', query('(approx.)', '')).text).toBe('Cost: $5 ');
+    const dates = replaceInText('On 2024-03-01 and 2025-12-31.', query('(\\d{4})-(\\d{2})-(\\d{2})', '$3/$2/$1', { regex: true }));
+    expect(dates).toEqual({ text: 'On 01/03/2024 and 31/12/2025.', count: 2 });
+    expect(() => findInText('x', query('(', '', { regex: true }))).toThrow();
+  });
+
+  it('shows each match with its context and replacement', () => {
+    const [match] = findInText('The old captain slept.', query('old (\\w+)', 'young $1', { regex: true }));
+    expect(match).toEqual({ before: 'The ', text: 'old captain', after: ' slept.', replacement: 'young captain' });
+  });
+
+  it('replaces only the selected matches', () => {
+    const text = 'Mara, Mara and Mara.';
+    expect(replaceInText(text, query('Mara', 'Nell'), new Set([0, 2]))).toEqual({ text: 'Nell, Mara and Nell.', count: 2 });
+  });
+
+  it('replaces across formatting without touching the markup around it', () => {
+    const html = '<p>Ask <strong>Ma</strong>ra &amp; Mara.</p><p>Mara</p>';
+    expect(findInHtml(html, query('mara', 'Nell')).map(match => match.before)).toEqual(['Ask ', 'Ask Mara & ', '']);
+    expect(replaceInHtml(html, query('Mara', 'Nell')).html).toBe('<p>Ask <strong>Nell</strong> &amp; Nell.</p><p>Nell</p>');
+    expect(replaceInHtml(html, query('Mara', 'Nell'), new Set([2]))).toEqual({
+      html: '<p>Ask <strong>Ma</strong>ra &amp; Mara.</p><p>Nell</p>',
+      count: 1,
+    });
+  });
+
+  it('never matches across paragraphs', () => {
+    expect(findInHtml('<p>end</p><p>start</p>', query('endstart', 'x'))).toHaveLength(0);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { zipSync, strToU8 } from 'fflate';
+import { parseRtf, rtfToHtml } from '@/lib/import/rtf';
+import { readScrivener } from '@/lib/import/scrivener';
+
+const rtf = (body: string) =>
+  `{\\rtf1\\ansi\\ansicpg1252\\cocoartf2639{\\fonttbl\\f0\\fnil Palatino;}{\\colortbl;\\red255\\green255\\blue255;}\n\\pard\\f0\\fs24 ${body}}`;
+
+describe('parseRtf', () => {
+  it('keeps formatting, alignment and escaped characters', () => {
+    expect(rtfToHtml(rtf('The {\\b ship} was \\i late\\i0 .\\par\\pard\\qc Caf\\\'e9 \\uc0\\u8220 hi\\u8221 \\par\\pard\n#\\par'))).toBe(
+      '<p>The <strong>ship</strong> was <em>late</em>.</p><p class="ql-align-center">Café “hi”</p><p>#</p>'
+    );
+    expect(parseRtf(rtf('x\\par\n#\\par')).blocks[1].sceneBreak).toBe(true);
+  });
+
+  it('reads lists and drops pictures and footnotes, counting them', () => {
+    const doc = parseRtf(rtf(
+      '\\ls1\\ilvl0{\\listtext\t1.\t}First\\par{\\listtext\t2.\t}Second\\par\\pard Note{\\footnote Hidden}' +
+        '{\\*\\shppict{\\pict\\pngblip 89504e}}{\\nonshppict{\\pict\\wmetafile8 0100}} end\\par'
+    ));
+    expect(doc.blocks.map(block => block.list?.ordered)).toEqual([true, true, undefined]);
+    expect(doc.blocks[2].text).toBe('Note end');
+    expect(doc).toMatchObject({ images: 1, footnotes: 1 });
+  });
+});
+
+describe('readScrivener', () => {
+  const scrivx = `<?xml version="1.0" encoding="UTF-8"?>
+<ScrivenerProject Version="2.0">
+  <Binder>
+    <BinderItem UUID="D" Type="DraftFolder"><Title>Draft</Title><Children>
+      <BinderItem UUID="C1" Type="Folder"><Title>Chapter One</Title><MetaData><StatusID>3</StatusID></MetaData><Children>
+        <BinderItem UUID="S1" Type="Text"><Title>Arrival</Title>
+          <MetaData><CustomMetaData><MetaDataItem><FieldID>pov</FieldID><Value>Mara</Value></MetaDataItem></CustomMetaData></MetaData>
+        </BinderItem>
+        <BinderItem UUID="P1" Type="PDF"><Title>Map scan</Title></BinderItem>
+      </Children></BinderItem>
+    </Children></BinderItem>
+    <BinderItem UUID="R" Type="ResearchFolder"><Title>Research</Title><Children>
+      <BinderItem UUID="F1" Type="Folder"><Title>Characters</Title><Children>
+        <BinderItem UUID="E1" Type="Text"><Title>Zoë: Captain</Title></BinderItem>
+      </Children></BinderItem>
+    </Children></BinderItem>
+    <BinderItem UUID="F2" Type="Folder"><Title>Places</Title><Children>
+      <BinderItem UUID="E2" Type="Text"><Title>The Harbour</Title></BinderItem>
+    </Children></BinderItem>
+    <BinderItem UUID="T" Type="TrashFolder"><Title>Trash</Title></BinderItem>
+  </Binder>
+  <StatusSettings><StatusItems><Status ID="1">First Draft</Status><Status ID="3">Final Draft</Status></StatusItems></StatusSettings>
+  <CustomMetaDataSettings><MetaDataField ID="pov" Type="Text"><Title>POV</Title></MetaDataField></CustomMetaDataSettings>
+</ScrivenerProject>`;
+
+  const project = zipSync({
+    'Novel.scriv/Novel.scrivx': strToU8(scrivx),
+    'Novel.scriv/Files/Data/S1/content.rtf': strToU8(rtf('The boat came in.\\par')),
+    'Novel.scriv/Files/Data/S1/synopsis.txt': strToU8('Mara reaches port'),
+    'Novel.scriv/Files/Data/E1/content.rtf': strToU8(rtf('Runs the {\\i Gull}.\\par')),
+    'Novel.scriv/Snapshots/S1.snapshots/1.rtf': strToU8(rtf('old')),
+  });
+
+  it('maps the manuscript, outline and research folders', () => {
+    const plan = readScrivener(project);
+
+    expect(plan.title).toBe('Novel');
+    expect(plan.drafts).toHaveLength(1);
+    expect(plan.drafts[0]).toMatchObject({ title: 'Chapter One', kind: 'chapter', revisionStatus: 'final' });
+    expect(plan.drafts[0].children).toEqual([
+      expect.objectContaining({ title: 'Arrival', kind: 'scene', content: '<p>The boat came in.</p>', synopsis: 'Mara reaches port', pov: 'Mara' }),
+    ]);
+
+    const scene = plan.outline[0].chapters[0].scenes[0];
+    expect(scene).toMatchObject({ title: 'Arrival', summary: 'Mara reaches port', pov: 'Mara', status: 'draft', wordCount: 4 });
+    expect(plan.omittedScenes).toBe(0);
+
+    expect(plan.entries.map(entry => [entry.type, entry.name, entry.tags])).toEqual([
+      ['Character', 'Zoe Captain', ['Research', 'Characters']],
+      ['Location', 'The Harbour', ['Places']],
+    ]);
+    expect(plan.entries[0].description).toBe('<p>Runs the <i>Gull</i>.</p>');
+    expect(plan.skipped).toEqual([
+      { title: 'Map scan', reason: 'PDF documents are not imported' },
+      { title: 'Snapshots', reason: 'Snapshots are not imported' },
+    ]);
+  });
+
+  it('rejects zips without a project file', () => {
+    expect(() => readScrivener(zipSync({ 'notes.txt': strToU8('hi') }))).toThrow(/\.scrivx/);
+  });
+});
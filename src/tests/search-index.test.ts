@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { tokenize, htmlToText } from '@/lib/search/tokenize';
+import { buildDraftDocuments, buildOutlineDocuments, buildStoryBibleDocuments } from '@/lib/search/documents';
+import { Draft, Outline } from '@/lib/db';
+import { StoryBibleEntry } from '@/lib/storyBibleDb';
+
+const now = new Date();
+
+describe('tokenize', () => {
+  it('normalizes case, diacritics and possessives', () => {
+    expect(tokenize("Élan met Aria's brother, ARIA!")).toEqual(['elan', 'met', 'aria', 'brother', 'aria']);
+  });
+
+  it('keeps contractions together', () => {
+    expect(tokenize("Don't go")).toEqual(["don't", 'go']);
+  });
+});
+
+describe('htmlToText', () => {
+  it('strips tags and keeps paragraph breaks', () => {
+    expect(htmlToText('<p>One &amp; two</p><p>Three<br>four</p>')).toBe('One & two\nThree\nfour');
+  });
+});
+
+describe('search documents', () => {
+  it('weights draft titles above body text', () => {
+    const draft: Draft = {
+      id: 'd1',
+      projectId: 'p1',
+      title: 'Storm',
+      content: '<p>The storm broke at dawn.</p>',
+      wordCount: 5,
+      createdAt: now,
+      updatedAt: now,
+    };
+    const [doc] = buildDraftDocuments(draft);
+
+    expect(doc.id).toBe('draft:d1');
+    expect(doc.termFreqs.storm).toBe(4);
+    expect(doc.termFreqs.dawn).toBe(1);
+    expect(doc.text).toBe('The storm broke at dawn.');
+  });
+
+  it('creates a document per outline node with its breadcrumb', () => {
+    const outline: Outline = {
+      id: 'o1',
+      projectId: 'p1',
+      title: 'Main Outline',
+      structure: JSON.stringify([{
+        id: 'part1',
+        title: 'Part One',
+        order: 0,
+        chapters: [{
+          id: 'ch1',
+          title: 'Arrival',
+          order: 0,
+          summary: 'The ship lands',
+          scenes: [{ id: 's1', title: 'Docking', order: 0, status: 'planned', notes: 'Rain' }],
+        }],
+      }]),
+      createdAt: now,
+      updatedAt: now,
+    };
+    const docs = buildOutlineDocuments(outline);
+
+    expect(docs.map(d => d.kind)).toEqual(['outline', 'part', 'chapter', 'scene']);
+    expect(docs[3].context).toBe('Part One › Arrival');
+    expect(docs[3].terms).toContain('rain');
+    expect(docs.every(d => d.sourceId === 'o1')).toBe(true);
+  });
+
+  it('survives malformed outline structure', () => {
+    const outline: Outline = {
+      id: 'o2', projectId: 'p1', title: 'Broken', structure: '{', createdAt: now, updatedAt: now,
+    };
+    expect(buildOutlineDocuments(outline)).toHaveLength(1);
+  });
+
+  it('indexes story bible names, tags, descriptions and rules', () => {
+    const entry: StoryBibleEntry = {
+      id: 'e1',
+      type: 'Character',
+      name: 'Aria Blackwood',
+      description: '<p>A mysterious scholar</p>',
+      tags: ['mage'],
+      rules: ['Always speaks in riddles'],
+      relations: [],
+      project_id: 'p1',
+      created_at: now,
+      updated_at: now,
+    };
+    const [doc] = buildStoryBibleDocuments(entry);
+
+    expect(doc.kind).toBe('Character');
+    expect(doc.terms).toEqual(expect.arrayContaining(['aria', 'blackwood', 'mage', 'scholar', 'riddles']));
+    expect(doc.termFreqs.mage).toBe(2);
+  });
+});
@@ -36,3 +36,20 @@ global.ResizeObserver = vi.fn().mockImplementation(() => ({
   unobserve: vi.fn(),
   disconnect: vi.fn(),
 }));
+
+// jsdom's Blob has no arrayBuffer(), which backups use to read archives
+if (!Blob.prototype.arrayBuffer) {
+  Blob.prototype.arrayBuffer = function (this: Blob) {
+    return new Promise<ArrayBuffer>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as ArrayBuffer);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsArrayBuffer(this);
+    });
+  };
+}
+
+// fake-indexeddb clones values with Node's structuredClone, so typed arrays
+// read back are Node's, not jsdom's. Dexie's live queries only pass through
+// typed arrays of the global constructor and would copy them into plain objects.
+globalThis.Uint8Array = structuredClone(new Uint8Array()).constructor as Uint8ArrayConstructor;
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { createWordChecker, dictionaryEntry, dictionaryWords, findMisspellings, findWords } from '@/lib/spellcheck/words';
+
+const dictionary = new Set(['the', 'ranger', 'walked', 'into', "don't", 'town', 'half-elf', 'a']);
+const correct = (word: string) => dictionary.has(word);
+
+describe('spellcheck', () => {
+  it('splits text into words with inner apostrophes and hyphens', () => {
+    expect(findWords("Don’t stop, half-elf!")).toEqual([
+      { word: 'Don’t', index: 0, length: 5 },
+      { word: 'stop', index: 6, length: 4 },
+      { word: 'half-elf', index: 12, length: 8 },
+    ]);
+    expect(findWords('café 42 naïve').map(range => range.word)).toEqual(['café', 'naïve']);
+  });
+
+  it('seeds dictionary words from story bible names and tags', () => {
+    expect(dictionaryWords([
+      { name: 'Lady Vess', tags: ['Thornwood', 'noble house'] },
+      { name: 'Vess’s Keep' },
+    ])).toEqual(['Lady', 'Vess', 'Thornwood', 'noble', 'house', "Vess's", 'Keep']);
+  });
+
+  it('stores single words without the possessive', () => {
+    expect(dictionaryEntry(' Aelric’s ')).toBe('Aelric');
+    expect(dictionaryEntry('Thornwood')).toBe('Thornwood');
+    expect(dictionaryEntry('Lady Vess')).toBeNull();
+    expect(dictionaryEntry('x1')).toBeNull();
+    expect(dictionaryEntry('')).toBeNull();
+  });
+
+  it('accepts project words in any case and their possessives', () => {
+    const isCorrect = createWordChecker(correct, ['Aelric']);
+    expect(isCorrect('Aelric')).toBe(true);
+    expect(isCorrect('AELRIC')).toBe(true);
+    expect(isCorrect('Aelric’s')).toBe(true);
+    expect(isCorrect('Aelrik')).toBe(false);
+  });
+
+  it('accepts sentence case of dictionary words but not lowercased names', () => {
+    const isCorrect = createWordChecker(word => word === 'Paris' || correct(word), []);
+    expect(isCorrect('The')).toBe(true);
+    expect(isCorrect('Don’t')).toBe(true);
+    expect(isCorrect('Paris')).toBe(true);
+    expect(isCorrect('paris')).toBe(false);
+  });
+
+  it('flags misspellings except single letters and the word being typed', () => {
+    const isCorrect = createWordChecker(correct, ['Aelric']);
+    const text = 'Aelric walkd into teh town x';
+    expect(findMisspellings(text, isCorrect).map(range => range.word)).toEqual(['walkd', 'teh']);
+    expect(findMisspellings(text, isCorrect, 21).map(range => range.word)).toEqual(['walkd']);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import {
+  validateStoryBibleFields,
+  pickStoryBibleFields,
+  inferFieldsFromTags,
+  matchesFieldFilters,
+} from '@/lib/storyBibleFields';
+import { StoryBibleEntry } from '@/lib/storyBibleDb';
+
+const entry: StoryBibleEntry = {
+  id: '1',
+  project_id: 'p1',
+  type: 'Character',
+  name: 'Vex',
+  description: '',
+  tags: [],
+  rules: [],
+  relations: [],
+  fields: { role: 'antagonist', age: 40 },
+  created_at: new Date(),
+  updated_at: new Date(),
+};
+
+describe('story bible fields', () => {
+  it('accepts fields defined for the type', () => {
+    expect(() => validateStoryBibleFields('Character', { role: 'antagonist', age: 40 })).not.toThrow();
+    expect(() => validateStoryBibleFields('Location', { type: 'city', map: 'https://example.com/map.png' })).not.toThrow();
+  });
+
+  it('rejects foreign keys and invalid values', () => {
+    expect(() => validateStoryBibleFields('Lore', { role: 'antagonist' })).toThrow('"role" is not a Lore field');
+    expect(() => validateStoryBibleFields('Character', { role: 'villain' as never })).toThrow('Invalid role');
+    expect(() => validateStoryBibleFields('Character', { age: -1 })).toThrow('Age must be a whole number');
+    expect(() => validateStoryBibleFields('Location', { map: 'javascript:alert(1)' })).toThrow('http or https');
+  });
+
+  it('drops empty values and fields of other types', () => {
+    expect(pickStoryBibleFields('Location', { type: 'city', role: 'minor', climate: '' })).toEqual({ type: 'city' });
+    expect(pickStoryBibleFields('Custom', { role: 'minor' })).toEqual({});
+  });
+
+  it('infers select fields from legacy tags', () => {
+    expect(inferFieldsFromTags('Character', ['Antagonist', 'mage'])).toEqual({ role: 'antagonist' });
+    expect(inferFieldsFromTags('Location', ['other'])).toEqual({});
+    expect(inferFieldsFromTags('Item', ['city'])).toEqual({});
+    expect(inferFieldsFromTags(undefined as never, ['city'])).toEqual({});
+  });
+
+  it('matches entries against field filters', () => {
+    expect(matchesFieldFilters(entry, { role: 'antagonist' })).toBe(true);
+    expect(matchesFieldFilters(entry, { role: 'protagonist' })).toBe(false);
+    expect(matchesFieldFilters(entry, { role: undefined })).toBe(true);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { baseHtml, listSuggestions, suggestionDelta } from '@/lib/suggestions';
+
+const mark = { author: 'Ana', time: '2026-01-01T10:00:00.000Z' };
+
+describe('suggestion mode', () => {
+  it('marks typed text as a suggested insertion', () => {
+    const fix = suggestionDelta([{ retain: 4 }, { insert: 'big ' }], [{ insert: 'The dog\n' }], mark);
+    expect(fix).toEqual({
+      ops: [{ retain: 4 }, { retain: 4, attributes: { 'suggestion-insert': mark, 'suggestion-delete': null } }],
+      cursor: 8,
+    });
+    expect(suggestionDelta([{ retain: 3, attributes: { bold: true } }], [{ insert: 'The dog\n' }], mark)).toBeNull();
+  });
+
+  it('puts deleted text back marked for deletion', () => {
+    const before = [{ insert: 'The ' }, { insert: 'old', attributes: { italic: true } }, { insert: ' dog\n' }];
+    const backspace = suggestionDelta([{ retain: 4 }, { delete: 4 }], before, mark);
+    expect(backspace?.ops).toEqual([
+      { retain: 4 },
+      { insert: 'old', attributes: { italic: true, 'suggestion-delete': mark } },
+      { insert: ' ', attributes: { 'suggestion-delete': mark } },
+    ]);
+    expect(backspace?.cursor).toBe(4);
+    expect(suggestionDelta([{ retain: 4 }, { delete: 4 }], before, mark, true)?.cursor).toBe(8);
+  });
+
+  it('withdraws suggested insertions instead of marking them', () => {
+    const before = [{ insert: 'The ' }, { insert: 'big ', attributes: { 'suggestion-insert': mark } }, { insert: 'dog\n' }];
+    expect(suggestionDelta([{ retain: 6 }, { delete: 3 }], before, mark)?.ops).toEqual([
+      { retain: 6 },
+      { insert: 'd', attributes: { 'suggestion-delete': mark } },
+    ]);
+  });
+
+  it('lists neighbouring marks by one author as one suggestion', () => {
+    const other = { author: 'Ben', time: '2026-01-02T10:00:00.000Z' };
+    const suggestions = listSuggestions([
+      { insert: 'The ' },
+      { insert: 'big', attributes: { 'suggestion-insert': mark, bold: true } },
+      { insert: ' ', attributes: { 'suggestion-insert': mark } },
+      { insert: 'old ', attributes: { 'suggestion-delete': other } },
+      { insert: 'dog\n' },
+    ]);
+    expect(suggestions).toEqual([
+      { type: 'insert', ...mark, index: 4, length: 4, text: 'big ' },
+      { type: 'delete', ...other, index: 8, length: 4, text: 'old ' },
+    ]);
+  });
+
+  it('reads the base text without suggested insertions', () => {
+    const html = '<p>The <span class="suggestion-insert" data-author="Ana">big </span>' +
+      '<span class="suggestion-delete" data-author="Ana"><em>old</em> </span>dog</p>';
+    expect(baseHtml(html)).toBe('<p>The <em>old</em> dog</p>');
+    expect(baseHtml('<p>Plain</p>')).toBe('<p>Plain</p>');
+  });
+});
@@ -0,0 +1,148 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach } from 'vitest';
+import db, { deleteDraft, deleteProject } from '@/lib/db';
+import { withNestedItems } from '@/lib/binder';
+import { searchProject } from '@/lib/search';
+import { saveVersion } from '@/lib/versioning/storage';
+import {
+  DEFAULT_TRASH_RETENTION_DAYS,
+  getProjectTrash,
+  getTrashExpiry,
+  getTrashRetentionDays,
+  getTrashedProjects,
+  purgeExpiredTrash,
+  purgeTrashEntries,
+  restoreTrashEntry,
+  setTrashRetentionDays,
+} from '@/lib/trash';
+
+const PROJECT_ID = '11111111-1111-4111-8111-111111111111';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const seedProject = async () => {
+  const now = new Date();
+  await db.projects.put({ id: PROJECT_ID, userId: 'u1', title: 'Storm Road', isPublic: false, status: 'writing', createdAt: now, updatedAt: now });
+  await db.drafts.bulkPut([
+    { id: 'c1', projectId: PROJECT_ID, title: 'Chapter 1', content: '', wordCount: 0, kind: 'chapter', createdAt: now, updatedAt: now },
+    { id: 's1', projectId: PROJECT_ID, title: 'Arrival', content: '<p>The dragon landed</p>', wordCount: 3, kind: 'scene', parentId: 'c1', createdAt: now, updatedAt: now },
+    { id: 's2', projectId: PROJECT_ID, title: 'Flashback', content: '', wordCount: 0, kind: 'scene', parentId: 's1', createdAt: now, updatedAt: now },
+    { id: 'c2', projectId: PROJECT_ID, title: 'Chapter 2', content: '', wordCount: 0, kind: 'chapter', createdAt: now, updatedAt: now },
+  ]);
+  await saveVersion({ id: 'v1', draftId: 's1', content: '<p>The dragon</p>', wordCount: 2, metadata: {}, createdAt: now, isAutoSave: false });
+  await db.comments.put({
+    id: 'k1', projectId: PROJECT_ID, draftId: 's1', anchor: { quote: 'dragon', prefix: 'The ', suffix: ' landed' },
+    messages: [], status: 'open', createdAt: now, updatedAt: now,
+  });
+};
+
+beforeEach(async () => {
+  await Promise.all(db.tables.map(table => table.clear()));
+  localStorage.clear();
+  await seedProject();
+});
+
+describe('trash', () => {
+  it('moves a draft with its nested items, versions and comments to the trash', async () => {
+    const trashId = await deleteDraft('c1');
+
+    expect((await db.drafts.toArray()).map(d => d.id)).toEqual(['c2']);
+    expect(await db.versions.count()).toBe(0);
+    expect(await db.comments.count()).toBe(0);
+    expect(await searchProject(PROJECT_ID, 'dragon')).toHaveLength(0);
+
+    const [entry] = await getProjectTrash(PROJECT_ID);
+    expect(entry).toMatchObject({ id: trashId, itemType: 'draft', itemId: 'c1', title: 'Chapter 1' });
+    expect(entry.snapshot.drafts?.map(d => d.id)).toEqual(['c1', 's1', 's2']);
+  });
+
+  it('restores everything a draft took with it and makes it searchable again', async () => {
+    const trashId = await deleteDraft('c1');
+    await restoreTrashEntry(trashId);
+
+    expect((await db.drafts.get('s2'))?.parentId).toBe('s1');
+    expect(await db.drafts.count()).toBe(4);
+    expect((await db.versions.get('v1'))?.draftId).toBe('s1');
+    expect((await db.comments.get('k1'))?.draftId).toBe('s1');
+    expect(await searchProject(PROJECT_ID, 'dragon')).toHaveLength(1);
+    expect(await db.trash.count()).toBe(0);
+    await expect(restoreTrashEntry(trashId)).rejects.toThrow('no longer in the trash');
+  });
+
+  it('restores items deleted from a project only after the project', async () => {
+    const draftTrashId = await deleteDraft('c2');
+    const projectTrashId = await deleteProject(PROJECT_ID);
+
+    expect(await db.projects.count()).toBe(0);
+    expect(await db.drafts.count()).toBe(0);
+    expect((await getTrashedProjects('u1')).map(e => e.id)).toEqual([projectTrashId]);
+    expect((await getProjectTrash(PROJECT_ID)).map(e => e.id)).toEqual([draftTrashId]);
+    await expect(restoreTrashEntry(draftTrashId)).rejects.toThrow('Restore the project this item belongs to first');
+
+    await restoreTrashEntry(projectTrashId);
+    expect((await db.projects.get(PROJECT_ID))?.title).toBe('Storm Road');
+    expect((await db.drafts.toArray()).map(d => d.id).sort()).toEqual(['c1', 's1', 's2']);
+    expect(await db.versions.count()).toBe(1);
+    expect(await db.comments.count()).toBe(1);
+
+    await restoreTrashEntry(draftTrashId);
+    expect(await db.drafts.count()).toBe(4);
+  });
+
+  it('purges the items of a purged project too', async () => {
+    await deleteDraft('c2');
+    const projectTrashId = await deleteProject(PROJECT_ID);
+
+    await purgeTrashEntries([projectTrashId]);
+    expect(await db.trash.count()).toBe(0);
+  });
+
+  it('skips items already trashed with a parent when deleting several', async () => {
+    const drafts = await db.drafts.toArray();
+    // Deleting Chapter 1 took its scenes along, so they are not deleted again
+    expect([...withNestedItems(drafts, ['c1'])].sort()).toEqual(['c1', 's1', 's2']);
+    expect([...withNestedItems(drafts, ['s1', 'c2'])].sort()).toEqual(['c2', 's1', 's2']);
+
+    await deleteDraft('c1');
+    await expect(deleteDraft('s1')).rejects.toThrow('Draft not found');
+    expect(await db.trash.count()).toBe(1);
+  });
+});
+
+describe('trash retention', () => {
+  it('reads the retention setting, falling back to the default', () => {
+    expect(getTrashRetentionDays()).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+    setTrashRetentionDays(7);
+    expect(getTrashRetentionDays()).toBe(7);
+    setTrashRetentionDays(0);
+    expect(getTrashRetentionDays()).toBe(0);
+
+    expect(() => setTrashRetentionDays(-1)).toThrow('whole number of days');
+    expect(() => setTrashRetentionDays(1.5)).toThrow('whole number of days');
+    localStorage.setItem('storyforge_trash_retention_days', 'soon');
+    expect(getTrashRetentionDays()).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+  });
+
+  it('works out when an entry expires', async () => {
+    const entry = (await db.trash.get(await deleteDraft('c2')))!;
+    expect(getTrashExpiry(entry, 7)).toEqual(new Date(entry.deletedAt.getTime() + 7 * DAY_MS));
+    expect(getTrashExpiry(entry, 0)).toBeNull();
+  });
+
+  it('purges entries older than the retention period', async () => {
+    const oldId = await deleteDraft('c2');
+    const recentId = await deleteDraft('c1');
+    await db.trash.update(oldId, { deletedAt: new Date(Date.now() - 10 * DAY_MS) });
+    await db.trash.update(recentId, { deletedAt: new Date(Date.now() - 2 * DAY_MS) });
+
+    setTrashRetentionDays(0);
+    expect(await purgeExpiredTrash()).toBe(0);
+    expect(await db.trash.count()).toBe(2);
+
+    setTrashRetentionDays(7);
+    expect(await purgeExpiredTrash()).toBe(1);
+    expect((await db.trash.toArray()).map(e => e.id)).toEqual([recentId]);
+
+    expect(await purgeExpiredTrash(1)).toBe(1);
+    expect(await db.trash.count()).toBe(0);
+  });
+});
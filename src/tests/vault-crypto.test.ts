@@ -0,0 +1,115 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect } from 'vitest';
+import { deriveVaultKeys, generateSalt, encryptText, decryptText, isEncryptedText, blindTerm } from '@/lib/vault/crypto';
+import { sealDraft, openDraft, sealStoredVersion, openStoredVersion, sealSearchDocuments } from '@/lib/vault/records';
+import { encodeKeyframe, decodeVersion } from '@/lib/versioning/encoding';
+import { buildDraftDocuments } from '@/lib/search/documents';
+import db, { Draft } from '@/lib/db';
+import { getVaultStatus, loadVault, unlockVault } from '@/lib/vault';
+import { getSessionKeys } from '@/lib/vault/session';
+
+// Low iteration count keeps the tests fast; the strength is not under test
+const keysFor = (passphrase: string, salt = generateSalt()) => deriveVaultKeys(passphrase, salt, 1000);
+
+const now = new Date();
+const draft: Draft = {
+  id: 'd1',
+  projectId: 'p1',
+  title: 'Storm',
+  content: '<p>The storm broke at dawn.</p>',
+  wordCount: 5,
+  createdAt: now,
+  updatedAt: now,
+};
+
+describe('vault crypto', () => {
+  it('round trips text and rejects the wrong key', async () => {
+    const salt = generateSalt();
+    const keys = await keysFor('correct horse battery', salt);
+    const sealed = await encryptText(keys, 'secret');
+
+    expect(isEncryptedText(sealed)).toBe(true);
+    expect(sealed).not.toContain('secret');
+    expect(await decryptText(await keysFor('correct horse battery', salt), sealed)).toBe('secret');
+    await expect(decryptText(await keysFor('wrong horse battery', salt), sealed)).rejects.toThrow();
+  });
+
+  it('blinds terms deterministically per key', async () => {
+    const keys = await keysFor('correct horse battery');
+    const other = await keysFor('correct horse battery');
+
+    expect(await blindTerm(keys, 'dragon')).toBe(await blindTerm(keys, 'dragon'));
+    expect(await blindTerm(keys, 'dragon')).not.toBe(await blindTerm(other, 'dragon'));
+  });
+});
+
+describe('vault records', () => {
+  it('passes rows through when the vault is off', async () => {
+    expect(await sealDraft(draft, null)).toEqual(draft);
+  });
+
+  it('seals only the protected fields of a draft', async () => {
+    const keys = await keysFor('correct horse battery');
+    const sealed = await sealDraft(draft, keys);
+
+    expect(sealed.title).toBe('Storm');
+    expect(isEncryptedText(sealed.content)).toBe(true);
+    expect(await openDraft(sealed, keys)).toEqual(draft);
+    await expect(openDraft(sealed, null)).rejects.toThrow('locked');
+  });
+
+  it('encrypts version payloads after encoding', async () => {
+    const keys = await keysFor('correct horse battery');
+    const row = encodeKeyframe({
+      id: 'v1', draftId: 'd1', content: draft.content, wordCount: 5, metadata: {}, createdAt: now, isAutoSave: false,
+    });
+    const sealed = await sealStoredVersion(row, keys);
+
+    expect(sealed.encrypted).toBe(true);
+    expect(decodeVersion(await openStoredVersion(sealed, keys)).content).toBe(draft.content);
+  });
+
+  it('replaces search terms with blinded tokens', async () => {
+    const keys = await keysFor('correct horse battery');
+    const [doc] = await sealSearchDocuments(buildDraftDocuments(draft), keys);
+    const token = await blindTerm(keys, 'storm');
+
+    expect(doc.terms).not.toContain('storm');
+    expect(doc.termFreqs[token]).toBe(4);
+    expect(isEncryptedText(doc.text)).toBe(true);
+  });
+});
+
+describe('vault session', () => {
+  const passphrase = 'correct horse battery';
+
+  const addVault = async (userId: string) => {
+    const salt = generateSalt();
+    const keys = await keysFor(passphrase, salt);
+    const now = new Date();
+    await db.vaults.put({ userId, salt, iterations: 1000, verifier: await encryptText(keys, 'storyforge-vault'), createdAt: now, updatedAt: now });
+  };
+
+  it('keeps the key only while the same user is signed in', async () => {
+    await addVault('u1');
+    await addVault('u2');
+
+    await loadVault('u1');
+    await unlockVault('u1', passphrase);
+    await loadVault('u1');
+    expect(getVaultStatus()).toBe('unlocked');
+
+    await loadVault('u2');
+    expect(getVaultStatus()).toBe('locked');
+    expect(() => getSessionKeys()).toThrow('locked');
+
+    // Even when the next account has no vault of its own
+    await unlockVault('u1', passphrase);
+    await loadVault('u3');
+    expect(getVaultStatus()).toBe('disabled');
+    expect(getSessionKeys()).toBeNull();
+
+    await loadVault('u1');
+    expect(getVaultStatus()).toBe('locked');
+  });
+});
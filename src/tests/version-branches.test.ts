@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { diffHtml, parseParagraphs, applyParagraphChanges } from '@/lib/versioning/htmlDiff';
+
+describe('paragraph merge', () => {
+  const main = '<p>The storm rolled in.</p><p>She waited by the door.</p><p>Nobody came.</p>';
+  const branch = '<p>The storm rolled in fast.</p><p>She waited by the door.</p><p>Then a knock.</p><p>He was back.</p>';
+
+  it('keeps the source html of every paragraph', () => {
+    const html = '<ul><li>One</li><li>Two</li></ul><p>Three</p>';
+    expect(parseParagraphs(html).map(p => p.html).join('')).toBe(html);
+  });
+
+  it('rebuilds the original when no changes are accepted', () => {
+    expect(applyParagraphChanges(diffHtml(main, branch), [])).toBe(main);
+  });
+
+  it('rebuilds the other side when every change is accepted', () => {
+    const diff = diffHtml(main, branch);
+    expect(applyParagraphChanges(diff, diff.paragraphs.map((_, i) => i))).toBe(branch);
+  });
+
+  it('takes only the chosen paragraphs', () => {
+    const diff = diffHtml(main, branch);
+    const edited = diff.paragraphs.findIndex(p => p.change === 'changed');
+
+    expect(applyParagraphChanges(diff, [edited])).toBe(
+      '<p>The storm rolled in fast.</p><p>She waited by the door.</p><p>Nobody came.</p>'
+    );
+  });
+});
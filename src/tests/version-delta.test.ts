@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { diffSequences, tokenizeHtml } from '@/utils/diff';
+import { createDelta, applyDelta } from '@/lib/versioning/delta';
+import { encodeHistory, decodeVersion } from '@/lib/versioning/encoding';
+import { DocumentVersion } from '@/lib/versioning/types';
+
+const makeVersion = (id: string, content: string, minutes: number): DocumentVersion => ({
+  id,
+  draftId: 'draft1',
+  content,
+  wordCount: content.split(/\s+/).length,
+  metadata: {},
+  createdAt: new Date(2024, 0, 1, 12, minutes),
+  isAutoSave: true,
+});
+
+describe('diffSequences', () => {
+  it('reports equal, delete and insert ranges', () => {
+    const ranges = diffSequences(['a', 'b', 'c'], ['a', 'x', 'c']);
+    expect(ranges?.map(r => r.op)).toEqual(['equal', 'delete', 'insert', 'equal']);
+  });
+
+  it('returns null when the edit distance limit is exceeded', () => {
+    expect(diffSequences(['a', 'b', 'c'], ['x', 'y', 'z'], { maxEditDistance: 2 })).toBeNull();
+  });
+});
+
+describe('tokenizeHtml', () => {
+  it('keeps the input reconstructable', () => {
+    const html = '<p>Hello <strong>brave</strong> new world</p><p>a < b</p>';
+    expect(tokenizeHtml(html).join('')).toBe(html);
+  });
+});
+
+describe('createDelta', () => {
+  it('rebuilds the target from the base', () => {
+    const base = '<p>The quick brown fox jumps over the lazy dog.</p>';
+    const target = '<p>The quick red fox leaps over the dog.</p><p>New paragraph.</p>';
+    const delta = createDelta(base, target);
+
+    expect(delta).not.toBeNull();
+    expect(applyDelta(base, delta!)).toBe(target);
+  });
+
+  it('handles empty content', () => {
+    expect(applyDelta('', createDelta('', '<p>Text</p>')!)).toBe('<p>Text</p>');
+    expect(applyDelta('<p>Text</p>', createDelta('<p>Text</p>', '')!)).toBe('');
+  });
+});
+
+describe('encodeHistory', () => {
+  const paragraph = '<p>' + Array.from({ length: 200 }, (_, i) => `word${i}`).join(' ') + '</p>';
+  const versions = Array.from({ length: 12 }, (_, i) =>
+    makeVersion(`v${i}`, paragraph.replace(`word${i} `, `edited${i} `), i)
+  );
+
+  it('stores small edits as deltas and starts keyframes at the interval', () => {
+    const rows = encodeHistory(versions, 5);
+    const keyframes = rows.filter(r => r.encoding === 'keyframe').map(r => r.id);
+
+    expect(keyframes).toEqual(['v0', 'v6']);
+    expect(rows.filter(r => r.encoding === 'delta').every(r => r.compressed)).toBe(true);
+  });
+
+  it('decodes every version back to its original content', () => {
+    const rows = encodeHistory(versions, 5, false);
+    const keyframes = new Map(
+      rows.filter(r => r.encoding === 'keyframe').map(r => [r.id, decodeVersion(r).content])
+    );
+
+    rows.forEach((row, i) => {
+      const decoded = decodeVersion(row, row.keyframeId ? keyframes.get(row.keyframeId) : undefined);
+      expect(decoded.content).toBe(versions[i].content);
+      expect(decoded).not.toHaveProperty('payload');
+    });
+  });
+});
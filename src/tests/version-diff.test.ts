@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { diffHtml, parseParagraphs } from '@/lib/versioning/htmlDiff';
+
+const text = (segments: { text: string }[]) => segments.map(s => s.text).join('');
+
+describe('parseParagraphs', () => {
+  it('splits blocks and keeps inline formatting as marks', () => {
+    const [first, second] = parseParagraphs('<h2>Title</h2><p>A <strong>bold</strong>&nbsp;move</p><p><br></p>');
+
+    expect(first.block).toBe('h2');
+    expect(second.tokens.map(t => t.text).join('')).toBe('A bold move');
+    expect(second.tokens.find(t => t.text === 'bold')?.marks).toEqual(['bold']);
+    expect(parseParagraphs('<p><br></p>')).toEqual([]);
+  });
+});
+
+describe('diffHtml', () => {
+  it('reports word changes inside an edited paragraph', () => {
+    const diff = diffHtml('<p>The storm broke at dawn.</p>', '<p>The storm finally broke at dusk.</p>');
+
+    expect(diff.summary).toMatchObject({ changed: 1, added: 0, removed: 0, wordsAdded: 2, wordsRemoved: 1 });
+    const [paragraph] = diff.paragraphs;
+    expect(paragraph.inline.filter(s => s.op === 'insert').map(s => s.text.trim())).toEqual(['finally', 'dusk.']);
+    expect(text(paragraph.before)).toBe('The storm broke at dawn.');
+    expect(text(paragraph.after)).toBe('The storm finally broke at dusk.');
+  });
+
+  it('separates added, removed and unchanged paragraphs', () => {
+    const diff = diffHtml(
+      '<p>Kept as is.</p><p>Cut entirely from the chapter.</p>',
+      '<p>Kept as is.</p><p>Something completely different here.</p><p>And more.</p>'
+    );
+
+    expect(diff.paragraphs.map(p => p.change)).toEqual(['unchanged', 'added', 'added', 'removed']);
+    expect(diff.summary).toMatchObject({ unchanged: 1, added: 2, removed: 1, changed: 0 });
+  });
+
+  it('treats formatting changes as changes', () => {
+    const diff = diffHtml('<p>Run now</p>', '<p>Run <em>now</em></p>');
+
+    expect(diff.summary.changed).toBe(1);
+    expect(diff.paragraphs[0].inline).toContainEqual({ op: 'insert', text: 'now', marks: ['italic'] });
+  });
+
+  it('finds nothing between identical documents', () => {
+    const diff = diffHtml('<p>Same</p>', '<p>Same</p>');
+    expect(diff.summary).toMatchObject({ added: 0, removed: 0, changed: 0, unchanged: 1 });
+  });
+});
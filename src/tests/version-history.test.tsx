@@ -0,0 +1,128 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import db from '@/lib/db';
+import { legacyVersionsKey, migrateLegacyVersions } from '@/lib/versioning/legacy';
+import { getVersionsByDraft, saveVersion } from '@/lib/versioning/storage';
+import { MAIN_BRANCH_ID } from '@/lib/versioning/types';
+import { useVersionHistory } from '@/hooks/useVersionHistory';
+
+vi.mock('react-i18next', () => ({
+  useTranslation: () => ({
+    t: (key: string) => key,
+  }),
+}));
+
+const seedDraft = (activeBranchId?: string) => {
+  const now = new Date();
+  return db.drafts.put({ id: 'd1', projectId: 'p1', title: 'Arrival', content: '', wordCount: 0, activeBranchId, createdAt: now, updatedAt: now });
+};
+
+beforeEach(async () => {
+  await db.drafts.clear();
+  await db.versions.clear();
+  localStorage.clear();
+});
+
+describe('migrateLegacyVersions', () => {
+  const legacy = [
+    { id: 'l1', content: '<p>One two</p>', timestamp: '2024-01-01T10:00:00.000Z', wordCount: 2, title: 'Opening', metadata: { font: 'Inter' } },
+    { id: 'l2', content: '<p>One two three</p>', timestamp: '2024-01-01T11:00:00.000Z', wordCount: 3 },
+    { id: 'l3', timestamp: 'yesterday' },
+  ];
+
+  it('moves the localStorage history into the versions table', async () => {
+    await seedDraft();
+    localStorage.setItem(legacyVersionsKey('d1'), JSON.stringify(legacy));
+
+    expect(await migrateLegacyVersions('d1')).toBe(2);
+    expect(localStorage.getItem(legacyVersionsKey('d1'))).toBeNull();
+
+    const [newest, oldest] = await getVersionsByDraft('d1');
+    expect(newest).toMatchObject({ id: 'l2', content: '<p>One two three</p>', wordCount: 3, isAutoSave: false });
+    expect(oldest).toMatchObject({ id: 'l1', metadata: { font: 'Inter', title: 'Opening' } });
+    expect(oldest.createdAt).toEqual(new Date('2024-01-01T10:00:00.000Z'));
+
+    // Nothing left to move
+    expect(await migrateLegacyVersions('d1')).toBe(0);
+  });
+
+  it('skips versions already in the table', async () => {
+    await seedDraft();
+    await saveVersion({ id: 'l1', draftId: 'd1', content: '<p>Kept</p>', wordCount: 1, metadata: {}, createdAt: new Date(), isAutoSave: false });
+    localStorage.setItem(legacyVersionsKey('d1'), JSON.stringify(legacy));
+
+    expect(await migrateLegacyVersions('d1')).toBe(1);
+    expect((await db.versions.get('l1'))?.keyframeId).toBeUndefined();
+    expect((await getVersionsByDraft('d1')).find(v => v.id === 'l1')?.content).toBe('<p>Kept</p>');
+  });
+
+  it('leaves histories it cannot place in localStorage', async () => {
+    localStorage.setItem(legacyVersionsKey('gone'), JSON.stringify(legacy));
+    expect(await migrateLegacyVersions('gone')).toBe(0);
+    expect(localStorage.getItem(legacyVersionsKey('gone'))).not.toBeNull();
+
+    await seedDraft();
+    localStorage.setItem(legacyVersionsKey('d1'), '{"id":');
+    expect(await migrateLegacyVersions('d1')).toBe(0);
+    expect(localStorage.getItem(legacyVersionsKey('d1'))).toBe('{"id":');
+  });
+});
+
+describe('useVersionHistory autosave', () => {
+  const branchText = '<p>The storm broke over Thornwood.</p>';
+  const words = (count: number) => Array.from({ length: count }, (_, i) => `word${i}`).join(' ');
+
+  // The main line was saved to last, but the writer is on the "darker" branch
+  const seedBranches = async () => {
+    await seedDraft('darker');
+    await saveVersion({
+      id: 'branch-head', draftId: 'd1', content: branchText, wordCount: 5, metadata: {}, isAutoSave: true,
+      createdAt: new Date(Date.now() - 60_000), branchId: 'darker', branchName: 'Darker',
+    });
+    await saveVersion({
+      id: 'main-head', draftId: 'd1', content: `<p>${words(30)}</p>`, wordCount: 30, metadata: {}, isAutoSave: true,
+      createdAt: new Date(Date.now() - 10_000),
+    });
+  };
+
+  const renderHistory = async () => {
+    const hook = renderHook(() => useVersionHistory({ draftId: 'd1' }));
+    await waitFor(() => {
+      expect(hook.result.current.loading).toBe(false);
+      expect(hook.result.current.versions).toHaveLength(2);
+    });
+    return hook;
+  };
+
+  it('compares against the newest version of the active branch', async () => {
+    await seedBranches();
+    const { result } = await renderHistory();
+
+    // Unchanged, or barely changed, compared with the branch
+    await act(async () => {
+      await result.current.autoSaveVersion(branchText);
+      await result.current.autoSaveVersion('<p>The storm finally broke over Thornwood.</p>');
+    });
+    expect(await db.versions.count()).toBe(2);
+
+    await act(async () => {
+      await result.current.autoSaveVersion(`<p>The storm broke over Thornwood. ${words(12)}</p>`);
+    });
+    const [saved] = await getVersionsByDraft('d1');
+    expect(saved).toMatchObject({ branchId: 'darker', parentId: 'branch-head', isAutoSave: true });
+  });
+
+  it('starts a branch without versions with an initial version', async () => {
+    await seedBranches();
+    await db.drafts.update('d1', { activeBranchId: 'lighter' });
+    const { result } = await renderHistory();
+
+    await act(async () => {
+      await result.current.autoSaveVersion(`<p>${words(30)}</p>`);
+    });
+    const [saved] = await getVersionsByDraft('d1');
+    expect(saved.metadata).toEqual({ title: 'initialVersion' });
+    expect(saved.branchId).not.toBe(MAIN_BRANCH_ID);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { selectExpiredVersions, resolveVersioningConfig } from '@/lib/versioning/retention';
+import { DEFAULT_RETENTION_POLICY, DEFAULT_VERSIONING_CONFIG, HOUR, DAY, MINUTE } from '@/lib/versioning/types';
+
+const now = new Date('2024-06-30T12:00:00Z');
+const at = (id: string, ago: number, isAutoSave = true) => ({ id, createdAt: new Date(now.getTime() - ago), isAutoSave });
+
+describe('selectExpiredVersions', () => {
+  it('thins automatic versions by age', () => {
+    const rows = [
+      at('recent-1', 5 * MINUTE),
+      at('recent-2', 30 * MINUTE),
+      // Same hour slot, three hours back: only the newest stays
+      at('hour-new', 3 * HOUR + 10 * MINUTE),
+      at('hour-old', 3 * HOUR + 20 * MINUTE),
+      // Same day slot, ten days back
+      at('day-new', 10 * DAY),
+      at('day-old', 10 * DAY + MINUTE),
+    ];
+
+    expect(selectExpiredVersions(rows, DEFAULT_RETENTION_POLICY, new Set(), now).sort()).toEqual(['day-old', 'hour-old']);
+  });
+
+  it('thins manual saves by their own schedule', () => {
+    const rows = [
+      at('manual-new', 3 * HOUR, false),
+      at('manual-old', 3 * HOUR + 1000, false),
+      at('ancient-new', 200 * DAY, false),
+      at('ancient-old', 200 * DAY + MINUTE, false),
+    ];
+
+    expect(selectExpiredVersions(rows, DEFAULT_RETENTION_POLICY, new Set(), now)).toEqual(['ancient-old']);
+  });
+
+  it('deletes versions past the last tier and never touches protected ones', () => {
+    const policy = { autoSave: [{ maxAge: DAY, every: 0 }], manual: [{ every: 0 }] };
+    const rows = [at('old', 2 * DAY), at('milestone', 3 * DAY), at('fresh', HOUR)];
+
+    expect(selectExpiredVersions(rows, policy, new Set(['milestone']), now)).toEqual(['old']);
+  });
+});
+
+describe('resolveVersioningConfig', () => {
+  it('falls back to the defaults for missing or invalid settings', () => {
+    expect(resolveVersioningConfig()).toEqual(DEFAULT_VERSIONING_CONFIG);
+
+    const config = resolveVersioningConfig({
+      maxVersions: 100,
+      retention: { autoSave: [{ every: -1 }], manual: [{ every: 0 }] },
+    });
+    expect(config.maxVersions).toBe(100);
+    expect(config.retention.autoSave).toBe(DEFAULT_RETENTION_POLICY.autoSave);
+    expect(config.retention.manual).toEqual([{ every: 0 }]);
+  });
+});
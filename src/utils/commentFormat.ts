@@ -0,0 +1,42 @@
+import type { Quill as QuillType } from 'react-quill';
+import { COMMENT_ID_ATTRIBUTE } from '@/lib/comments';
+
+export const COMMENT_FORMAT = 'comment';
+
+// The parts of Parchment's inline blot class the format relies on
+interface InlineBlotClass {
+  new (...args: unknown[]): object;
+  create(value?: unknown): Node;
+  blotName: string;
+  tagName: string;
+  className: string;
+}
+
+// Custom Quill format marking the text a comment thread is on. The mark
+// carries only the thread's id, so the text and its word count are untouched.
+export const registerCommentFormat = (Quill: typeof QuillType) => {
+  try {
+    const Inline = Quill.import('blots/inline') as InlineBlotClass;
+
+    class CommentMark extends Inline {
+      static create(id: string) {
+        const node = super.create() as HTMLElement;
+        node.setAttribute(COMMENT_ID_ATTRIBUTE, id);
+        return node;
+      }
+
+      static formats(node: HTMLElement) {
+        return node.getAttribute(COMMENT_ID_ATTRIBUTE) ?? undefined;
+      }
+    }
+
+    CommentMark.blotName = COMMENT_FORMAT;
+    CommentMark.tagName = 'span';
+    // Matched by class, so story bible highlights keep plain spans
+    CommentMark.className = 'comment-anchor';
+
+    Quill.register(`formats/${COMMENT_FORMAT}`, CommentMark, true);
+  } catch (error) {
+    console.error('Error registering comment format:', error);
+  }
+};
@@ -0,0 +1,161 @@
+/**
+ * Sequence diffing based on Myers' O(ND) algorithm. Works on any token array
+ * (words, HTML tokens, paragraphs) and reports index ranges into both inputs.
+ */
+
+export type DiffOperation = 'equal' | 'insert' | 'delete';
+
+export interface DiffRange {
+  op: DiffOperation;
+  aStart: number;
+  aEnd: number;
+  bStart: number;
+  bEnd: number;
+}
+
+interface DiffOptions<T> {
+  equals?: (a: T, b: T) => boolean;
+  /** Give up and return null once this many edits have been explored */
+  maxEditDistance?: number;
+}
+
+const pushRange = (ranges: DiffRange[], range: DiffRange): void => {
+  if (range.aStart === range.aEnd && range.bStart === range.bEnd) return;
+
+  const last = ranges[ranges.length - 1];
+  if (last && last.op === range.op && last.aEnd === range.aStart && last.bEnd === range.bStart) {
+    last.aEnd = range.aEnd;
+    last.bEnd = range.bEnd;
+  } else {
+    ranges.push({ ...range });
+  }
+};
+
+function myers<T>(
+  a: T[], aOffset: number, n: number,
+  b: T[], bOffset: number, m: number,
+  equals: (x: T, y: T) => boolean,
+  maxEditDistance: number
+): DiffRange[] | null {
+  const max = Math.min(n + m, maxEditDistance);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // Each snapshot only keeps the diagonals reachable at that depth
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+
+      while (x < n && y < m && equals(a[aOffset + x], b[bOffset + y])) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        return backtrack(trace, n, m, aOffset, bOffset);
+      }
+    }
+  }
+
+  return null;
+}
+
+function backtrack(trace: Int32Array[], n: number, m: number, aOffset: number, bOffset: number): DiffRange[] {
+  const reversed: DiffRange[] = [];
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const snapshot = trace[d];
+    // Snapshot index 0 corresponds to diagonal -d-1
+    const at = (k: number) => snapshot[k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = d === 0 ? 0 : at(prevK);
+    const prevY = d === 0 ? 0 : prevX - prevK;
+
+    if (x > prevX && y > prevY) {
+      const run = Math.min(x - prevX, y - prevY);
+      reversed.push({ op: 'equal', aStart: x - run, aEnd: x, bStart: y - run, bEnd: y });
+      x -= run;
+      y -= run;
+    }
+
+    if (d > 0) {
+      if (x === prevX) {
+        reversed.push({ op: 'insert', aStart: x, aEnd: x, bStart: prevY, bEnd: y });
+      } else {
+        reversed.push({ op: 'delete', aStart: prevX, aEnd: x, bStart: y, bEnd: y });
+      }
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  const ranges: DiffRange[] = [];
+  for (let i = reversed.length - 1; i >= 0; i--) {
+    const r = reversed[i];
+    pushRange(ranges, {
+      op: r.op,
+      aStart: r.aStart + aOffset,
+      aEnd: r.aEnd + aOffset,
+      bStart: r.bStart + bOffset,
+      bEnd: r.bEnd + bOffset,
+    });
+  }
+  return ranges;
+}
+
+/**
+ * Computes the shortest edit script turning `a` into `b`
+ * @returns Ordered ranges covering both sequences, or null if the edit
+ * distance exceeds `maxEditDistance`
+ */
+export function diffSequences<T>(a: T[], b: T[], options: DiffOptions<T> = {}): DiffRange[] | null {
+  const equals = options.equals ?? ((x: T, y: T) => x === y);
+  const maxEditDistance = options.maxEditDistance ?? Infinity;
+
+  // Trimming the shared prefix and suffix keeps the search space to the edited region
+  let start = 0;
+  while (start < a.length && start < b.length && equals(a[start], b[start])) start++;
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && equals(a[endA - 1], b[endB - 1])) {
+    endA--;
+    endB--;
+  }
+
+  const ranges: DiffRange[] = [];
+  pushRange(ranges, { op: 'equal', aStart: 0, aEnd: start, bStart: 0, bEnd: start });
+
+  const n = endA - start;
+  const m = endB - start;
+  if (n === 0) {
+    pushRange(ranges, { op: 'insert', aStart: endA, aEnd: endA, bStart: start, bEnd: endB });
+  } else if (m === 0) {
+    pushRange(ranges, { op: 'delete', aStart: start, aEnd: endA, bStart: endB, bEnd: endB });
+  } else {
+    const middle = myers(a, start, n, b, start, m, equals, maxEditDistance);
+    if (!middle) return null;
+    middle.forEach(range => pushRange(ranges, range));
+  }
+
+  pushRange(ranges, { op: 'equal', aStart: endA, aEnd: a.length, bStart: endB, bEnd: b.length });
+  return ranges;
+}
+
+/**
+ * Splits HTML into tags, words and whitespace runs. Joining the tokens
+ * reproduces the input exactly.
+ */
+export function tokenizeHtml(html: string): string[] {
+  return html.match(/<[^>]*>|[^<\s]+|\s+|</g) || [];
+}
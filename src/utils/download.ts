@@ -0,0 +1,29 @@
+/**
+ * Triggers a browser download for an in-memory file
+ * @param blob - File contents
+ * @param filename - Name suggested to the browser
+ */
+export const downloadBlob = (blob: Blob, filename: string): void => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Turns a title into a filesystem-safe file name stem
+ * @param title - Human readable title
+ * @param fallback - Used when nothing printable remains
+ */
+export const toFileName = (title: string, fallback = 'untitled'): string => {
+  const stem = title
+    .replace(/[\\/:*?"<>|]+/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 100);
+  return stem || fallback;
+};
@@ -46,6 +46,22 @@ export class OutlineValidation {
     };
   }
 
+  // Keeps the first scenes up to the limit, for outlines read from files
+  static truncateScenes(parts: OutlinePart[]): { parts: OutlinePart[]; omitted: number } {
+    let room = MAX_SCENES_PER_PROJECT;
+    let omitted = 0;
+    const truncated = parts.map(part => ({
+      ...part,
+      chapters: part.chapters.map(chapter => {
+        const scenes = chapter.scenes.slice(0, room);
+        omitted += chapter.scenes.length - scenes.length;
+        room -= scenes.length;
+        return { ...chapter, scenes };
+      })
+    }));
+    return { parts: truncated, omitted };
+  }
+
   static getMaxScenes(): number {
     return MAX_SCENES_PER_PROJECT;
   }
@@ -1,11 +1,19 @@
 
-import db from '@/lib/db';
+import db, { Outline, getOutline as getOutlineRecord, deleteOutline as deleteOutlineRecord } from '@/lib/db';
+import { buildOutlineDocuments, replaceSearchDocuments } from '@/lib/search/documents';
+import { sealOutline, sealSearchDocuments } from '@/lib/vault/records';
+import { subscribeVaultStatus } from '@/lib/vault/session';
 import { EnhancedOutline } from '@/types/outline';
 import { OutlineValidation } from './outline/outlineValidation';
 import { OutlineCache } from './outline/outlineCache';
 
 const outlineCache = new OutlineCache();
 
+// Cached outlines are decrypted, so drop them as soon as the vault locks
+subscribeVaultStatus(status => {
+  if (status === 'locked') outlineCache.invalidate('');
+});
+
 export class EnhancedOutlineService {
   static async getOutline(id: string): Promise<EnhancedOutline | null> {
     if (!id?.trim()) throw new Error('Outline ID is required');
@@ -15,7 +23,7 @@ export class EnhancedOutlineService {
     if (cached) return cached;
 
     try {
-      const outline = await db.outlines.get(id);
+      const outline = await getOutlineRecord(id);
       if (!outline) return null;
 
       const enhancedOutline: EnhancedOutline = {
@@ -58,13 +66,20 @@ export class EnhancedOutlineService {
     });
 
     try {
-      const id = await db.outlines.add({
+      const row: Outline = {
         id: sanitizedData.id,
         projectId: sanitizedData.projectId,
         title: sanitizedData.title,
         structure: JSON.stringify(sanitizedData.parts),
         createdAt: sanitizedData.createdAt,
         updatedAt: sanitizedData.updatedAt,
+      };
+      const sealed = await sealOutline(row);
+      const documents = await sealSearchDocuments(buildOutlineDocuments(row));
+      const id = await db.transaction('rw', [db.outlines, db.search_index], async () => {
+        const key = await db.outlines.add(sealed);
+        await replaceSearchDocuments(db.search_index, 'outline', row.id, documents);
+        return key;
       });
 
       outlineCache.invalidate('outlines:');
@@ -96,7 +111,21 @@ export class EnhancedOutlineService {
     };
 
     try {
-      await db.outlines.update(id, sanitizedUpdates);
+      const stored = await getOutlineRecord(id);
+      if (!stored) throw new Error('Outline not found');
+
+      const updated: Outline = {
+        ...stored,
+        title: sanitizedUpdates.title ?? stored.title,
+        structure: sanitizedUpdates.structure ?? stored.structure,
+        updatedAt: sanitizedUpdates.updatedAt,
+      };
+      const row = await sealOutline(updated);
+      const documents = await sealSearchDocuments(buildOutlineDocuments(updated));
+      await db.transaction('rw', [db.outlines, db.search_index], async () => {
+        await db.outlines.put(row);
+        await replaceSearchDocuments(db.search_index, 'outline', id, documents);
+      });
       outlineCache.invalidate(`outline:${id}`);
       outlineCache.invalidate('outlines:');
     } catch (error) {
@@ -138,7 +167,8 @@ export class EnhancedOutlineService {
     if (!id?.trim()) throw new Error('Outline ID is required');
 
     try {
-      await db.outlines.delete(id);
+      // Moves the outline to the trash rather than deleting it outright
+      await deleteOutlineRecord(id);
       outlineCache.invalidate(`outline:${id}`);
       outlineCache.invalidate('outlines:');
     } catch (error) {
@@ -0,0 +1,44 @@
+import type { Quill as QuillType } from 'react-quill';
+
+export const SPELLING_FORMAT = 'spelling-error';
+
+// The parts of Parchment's inline blot class the format relies on
+interface InlineBlotClass {
+  new (...args: unknown[]): object;
+  create(value?: unknown): Node;
+  blotName: string;
+  tagName: string;
+  className: string;
+}
+
+// Custom Quill format underlining a misspelled word. The marks only live in
+// the editor and are removed with stripSpellingMarks before content is saved.
+export const registerSpellcheckFormat = (Quill: typeof QuillType) => {
+  try {
+    const Inline = Quill.import('blots/inline') as InlineBlotClass;
+
+    class SpellingMark extends Inline {
+      static formats() {
+        return true;
+      }
+    }
+
+    SpellingMark.blotName = SPELLING_FORMAT;
+    SpellingMark.tagName = 'span';
+    SpellingMark.className = SPELLING_FORMAT;
+
+    Quill.register(`formats/${SPELLING_FORMAT}`, SpellingMark, true);
+  } catch (error) {
+    console.error('Error registering spellcheck format:', error);
+  }
+};
+
+/**
+ * Editor HTML without spelling marks, as it should be saved
+ */
+export const stripSpellingMarks = (html: string): string => {
+  if (!html.includes(SPELLING_FORMAT)) return html;
+  const doc = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+  doc.body.querySelectorAll(`.${SPELLING_FORMAT}`).forEach(element => element.replaceWith(...Array.from(element.childNodes)));
+  return doc.body.innerHTML;
+};
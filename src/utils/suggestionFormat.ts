@@ -0,0 +1,46 @@
+import type { Quill as QuillType } from 'react-quill';
+import { SUGGESTION_FORMATS, SuggestionMark } from '@/lib/suggestions';
+
+// The parts of Parchment's inline blot class the formats rely on
+interface InlineBlotClass {
+  new (...args: unknown[]): object;
+  create(value?: unknown): Node;
+  blotName: string;
+  tagName: string;
+  className: string;
+}
+
+// Custom Quill formats for suggested insertions and deletions. Each mark
+// records who suggested the change and when, so it survives saving.
+export const registerSuggestionFormats = (Quill: typeof QuillType) => {
+  try {
+    const Inline = Quill.import('blots/inline') as InlineBlotClass;
+
+    Object.values(SUGGESTION_FORMATS).forEach(name => {
+      class SuggestionMarkBlot extends Inline {
+        static create(mark: SuggestionMark) {
+          const node = super.create() as HTMLElement;
+          node.setAttribute('data-author', mark.author);
+          node.setAttribute('data-time', mark.time);
+          node.setAttribute('title', `${mark.author}, ${new Date(mark.time).toLocaleString()}`);
+          return node;
+        }
+
+        static formats(node: HTMLElement): SuggestionMark {
+          return {
+            author: node.getAttribute('data-author') ?? '',
+            time: node.getAttribute('data-time') ?? '',
+          };
+        }
+      }
+
+      SuggestionMarkBlot.blotName = name;
+      SuggestionMarkBlot.tagName = 'span';
+      SuggestionMarkBlot.className = name;
+
+      Quill.register(`formats/${name}`, SuggestionMarkBlot, true);
+    });
+  } catch (error) {
+    console.error('Error registering suggestion formats:', error);
+  }
+};
@@ -32,6 +32,17 @@ export const calculateReadingTime = (text: string, wordsPerMinute = 200): number
   return minutes > 0 ? minutes : 1; // Minimum reading time is 1 minute
 };
 
+/**
+ * Format a byte count for display
+ * @param bytes - Number of bytes
+ * @returns Size such as "512 B", "4.2 KB" or "1.3 MB"
+ */
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
 /**
  * Truncate text to a maximum length
  * @param text - The text to truncate
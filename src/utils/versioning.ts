@@ -1,6 +1,7 @@
 
 import { Draft } from '@/lib/db';
 import { createVersion, DocumentVersion } from '@/lib/versioning';
+import { diffHtml, DocumentDiff } from '@/lib/versioning/htmlDiff';
 import { validateEditorContent } from './editorValidation';
 
 interface VersionMetadata {
@@ -49,8 +50,8 @@ export async function createDocumentVersion(
  * Generates a human-readable label for a document version
  */
 export function getVersionLabel(version: DocumentVersion): string {
-  const date = new Date(version.createdAt);
-  return date.toLocaleString();
+  const date = new Date(version.createdAt).toLocaleString();
+  return version.milestone ? `${version.milestone} (${date})` : date;
 }
 
 /**
@@ -73,17 +74,11 @@ export function compareVersions(a: DocumentVersion, b: DocumentVersion): number
 }
 
 /**
- * Calculates the difference between two document versions
+ * Compares two document versions paragraph by paragraph and word by word
  */
 export function getVersionDiff(
   oldVersion: DocumentVersion,
   newVersion: DocumentVersion
-): { added: number; removed: number } {
-  const oldWords = oldVersion.content.split(/\s+/);
-  const newWords = newVersion.content.split(/\s+/);
-  
-  const added = newWords.filter((word) => !oldWords.includes(word)).length;
-  const removed = oldWords.filter((word) => !newWords.includes(word)).length;
-  
-  return { added, removed };
+): DocumentDiff {
+  return diffHtml(oldVersion.content, newVersion.content);
 }
@@ -15,6 +15,8 @@ export default defineConfig(({ mode }) => ({
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
+      // Hunspell dictionary packages only export a Node loader, so their files are imported directly
+      "@dictionaries": path.resolve(__dirname, "./node_modules"),
     },
   },
 }));
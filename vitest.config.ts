@@ -13,6 +13,7 @@ export default defineConfig({
   resolve: {
     alias: {
       '@': path.resolve(__dirname, './src'),
+      '@dictionaries': path.resolve(__dirname, './node_modules'),
     },
   },
 });